@@ -7,14 +7,17 @@ import { Feather } from '@expo/vector-icons';
 import { AuthScreen } from '@/components/AuthScreen';
 import { Button } from '@/components/Button';
 import { TextField } from '@/components/TextField';
+import { describeJoinError, redeemPendingInvite } from '@/lib/invites';
 import { isSupabaseConfigured, supabase } from '@/lib/supabase';
 import { colors, radius, textStyles } from '@/lib/theme';
+import { useActiveHousehold } from '@/state/sessionStore';
 import { toast } from '@/utils/toast';
 
 const emailPattern = /\S+@\S+\.\S+/;
 
 export default function LoginScreen() {
   const router = useRouter();
+  const { setActiveHouseholdId } = useActiveHousehold();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
@@ -45,19 +48,28 @@ export default function LoginScreen() {
     }
 
     setLoading(true);
-    const { error } = await supabase.auth.signInWithPassword({
+    const { data, error } = await supabase.auth.signInWithPassword({
       email: trimmedEmail,
       password,
     });
-    setLoading(false);
 
     if (error) {
+      setLoading(false);
       console.warn('[Auth] Login failed', { email: trimmedEmail, error: error.message });
       toast('Inloggen is niet gelukt. Controleer je gegevens.');
       return;
     }
 
     console.log('[Auth] Login successful', { email: trimmedEmail });
+
+    const { data: joined, error: joinError } = await redeemPendingInvite(data.user);
+    setLoading(false);
+    if (joined) {
+      setActiveHouseholdId(joined.id);
+      toast(`Welkom bij ${joined.name}!`);
+    } else if (joinError) {
+      toast(`${describeJoinError(joinError)} Je kunt de code opnieuw invullen via je profiel.`);
+    }
     router.replace('/(tabs)');
   };
 
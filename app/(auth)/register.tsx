@@ -7,8 +7,16 @@ import { Feather } from '@expo/vector-icons';
 import { AuthScreen } from '@/components/AuthScreen';
 import { Button } from '@/components/Button';
 import { TextField } from '@/components/TextField';
+import {
+  PENDING_INVITE_METADATA_KEY,
+  describeJoinError,
+  normalizeInviteCode,
+  redeemPendingInvite,
+} from '@/lib/invites';
+import { ONBOARDING_METADATA_KEY } from '@/lib/preferences';
 import { isSupabaseConfigured, supabase } from '@/lib/supabase';
 import { colors, radius, textStyles } from '@/lib/theme';
+import { useActiveHousehold, useSessionStore } from '@/state/sessionStore';
 import { toast } from '@/utils/toast';
 
 const emailPattern = /\S+@\S+\.\S+/;
@@ -22,6 +30,8 @@ type RoleOptionProps = {
 
 export default function RegisterScreen() {
   const router = useRouter();
+  const { setActiveHouseholdId } = useActiveHousehold();
+  const onboardingAnswers = useSessionStore((state) => state.onboardingAnswers);
   const emailRef = useRef<TextInput>(null);
   const passwordRef = useRef<TextInput>(null);
   const confirmRef = useRef<TextInput>(null);
@@ -83,25 +93,62 @@ export default function RegisterScreen() {
       return;
     }
 
+    const joinCode = role === 'member' ? normalizeInviteCode(inviteCode) : null;
+
     setLoading(true);
-    const { error } = await supabase.auth.signUp({
+    const { data, error } = await supabase.auth.signUp({
       email: trimmedEmail,
       password,
       options: {
         data: {
           full_name: fullName.trim(),
+          // Bewaard zodat de code na e-mailbevestiging alsnog wordt verzilverd.
+          ...(joinCode ? { [PENDING_INVITE_METADATA_KEY]: joinCode } : {}),
+          // Voorkeuren voor het huishouden dat deze gebruiker straks aanmaakt.
+          ...(onboardingAnswers ? { [ONBOARDING_METADATA_KEY]: onboardingAnswers } : {}),
         },
       },
     });
-    setLoading(false);
 
     if (error) {
+      setLoading(false);
       console.error('[Auth] Sign up failed', { email: trimmedEmail, error: error.message });
       toast('Registreren is niet gelukt. Probeer het opnieuw.');
       return;
     }
 
     console.log('[Auth] Sign up successful', { email: trimmedEmail });
+
+    if (joinCode && !data.session) {
+      setLoading(false);
+      toast('Bevestig je e-mail en log in; we koppelen je daarna aan het huishouden.');
+      router.replace('/(auth)/login');
+      return;
+    }
+
+    if (joinCode && data.user) {
+      const { data: joined, error: joinError } = await redeemPendingInvite(data.user);
+      setLoading(false);
+      if (joinError || !joined) {
+        console.warn('[Auth] Joining household after sign up failed', {
+          email: trimmedEmail,
+          error: joinError?.message,
+        });
+        const reason = describeJoinError(joinError) ?? 'Lid worden is niet gelukt.';
+        toast(
+          `${reason} Je kunt de code later invullen via je profiel.`,
+          'Account aangemaakt',
+        );
+        router.replace('/(tabs)');
+        return;
+      }
+      setActiveHouseholdId(joined.id);
+      toast(`Welkom bij ${joined.name}!`);
+      router.replace('/(tabs)');
+      return;
+    }
+
+    setLoading(false);
     toast('Account aangemaakt! Welkom bij Groceo.');
     router.replace('/(tabs)');
   };
@@ -25,6 +25,13 @@ export default function TabsLayout() {
           tabBarIcon: ({ color, size }) => <Feather name="shopping-bag" color={color} size={size} />,
         }}
       />
+      <Tabs.Screen
+        name="pantry"
+        options={{
+          title: 'Voorraad',
+          tabBarIcon: ({ color, size }) => <Feather name="archive" color={color} size={size} />,
+        }}
+      />
       <Tabs.Screen
         name="profile"
         options={{
@@ -1,11 +1,13 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   ActivityIndicator,
+  Alert,
   FlatList,
   Keyboard,
   KeyboardAvoidingView,
   Platform,
   RefreshControl,
+  ScrollView,
   StyleSheet,
   Text,
   TextInput,
@@ -35,12 +37,74 @@ import { Swipeable } from 'react-native-gesture-handler';
 import * as Haptics from 'expo-haptics';
 
 import { Button } from '@/components/Button';
+import { ItemEditSheet, type ItemChanges } from '@/components/ItemEditSheet';
+import { RecipeImportSheet } from '@/components/RecipeImportSheet';
+import { RecurringItemsSheet } from '@/components/RecurringItemsSheet';
+import { ShoppingTripMode, type TripFinish } from '@/components/ShoppingTripMode';
 import { TextField } from '@/components/TextField';
 import { useRealtimeList } from '@/hooks/useRealtimeList';
+import {
+  describeBudgetPeriod,
+  fetchBudgetStatus,
+  projectBudget,
+  type BudgetStatus,
+} from '@/lib/budget';
+import { createHousehold } from '@/lib/households';
+import {
+  classifyItem,
+  emojiForItem,
+  fetchCategoryOverrides,
+  rememberCategory,
+  type CategoryOverride,
+} from '@/lib/catalog';
+import {
+  RECENT_LIMIT,
+  STARTER_FAVORITES,
+  fetchFavorites,
+  fetchRecentAdditions,
+  pinFavorite,
+  unpinFavorite,
+} from '@/lib/favorites';
+import { findMergeTarget, isSameItemName } from '@/lib/itemMatching';
+import { parseItemPhrase } from '@/lib/itemParser';
+import { formatEuro, lineTotal, summarizeTotals } from '@/lib/prices';
+import {
+  DEFAULT_LIST_NAME,
+  createList,
+  fetchLists,
+  resolveActiveList,
+  setListStore,
+  type GroceryList,
+} from '@/lib/lists';
+import {
+  addDueRecurringItems,
+  createRecurringItem,
+  deleteRecurringItem,
+  fetchRecurringItems,
+  setRecurringItemPaused,
+  toDateKey,
+  type RecurringDraft,
+  type RecurringItem,
+} from '@/lib/recurring';
+import { collapseIngredients } from '@/lib/recipeImport';
+import { fetchStores, sortByAisle, type StoreLayout } from '@/lib/stores';
 import { isSupabaseConfigured, supabase } from '@/lib/supabase';
 import { colors, radius, spacing, textStyles } from '@/lib/theme';
-import { useActiveHousehold, useSession } from '@/state/sessionStore';
-import { logSupabaseError } from '@/utils/logging';
+import {
+  fetchOpenTrip,
+  finishShoppingTrip,
+  startShoppingTrip,
+  type ShoppingTrip,
+} from '@/lib/trips';
+import {
+  DEFAULT_UNIT,
+  clampQuantity,
+  formatQuantity,
+  normalizeUnit,
+  type ItemUnit,
+  type ParsedQuantity,
+} from '@/lib/units';
+import { useActiveHousehold, useActiveList, useSession } from '@/state/sessionStore';
 import { toast } from '@/utils/toast';
 
 type Household = {
@@ -48,17 +112,14 @@ type Household = {
   name: string;
 };
 
-type List = {
-  id: string;
-  name: string;
-};
-
 type GroceryItem = {
   id: string;
   name: string;
   quantity: number;
+  unit?: string | null;
   checked: boolean;
   category?: string | null;
+  priceEstimate?: number | null;
 };
 
 type PendingAdd = GroceryItem & {
@@ -77,16 +138,6 @@ type DecoratedItem = DisplayItem & {
   showGroupHeader: boolean;
 };
 
-type HistoryAction = 'added' | 'deleted' | 'cleared';
-
-type HistoryEventPayload = {
-  action: HistoryAction;
-  name?: string;
-  quantity?: number;
-};
-
-const CLEAR_EVENT_LABEL = 'Lijst geleegd';
-
 type FloatingIcon = {
   emoji: string;
   id: string;
@@ -95,6 +146,7 @@ type FloatingIcon = {
 type QuickAddSuggestion = {
   label: string;
   emoji: string;
+  pinned?: boolean;
 };
 
 type ListFilter = 'all' | 'open' | 'done';
@@ -134,13 +186,7 @@ function groupLabelForItem(item: DisplayItem) {
   return name ? name.charAt(0).toUpperCase() : 'Overig';
 }
 
-const FAVORITE_QUICK_ADD: QuickAddSuggestion[] = [
-  { label: 'Kaas', emoji: '🧀' },
-  { label: 'Melk', emoji: '🥛' },
-  { label: 'Vers brood', emoji: '🍞' },
-  { label: 'Broccoli', emoji: '🥦' },
-  { label: 'Aardbeien', emoji: '🍓' },
-];
+const MERGE_FEEDBACK_MS = 2000;
 
 const LIST_FILTERS: { key: ListFilter; label: string }[] = [
   { key: 'all', label: 'Alles' },
@@ -148,46 +194,11 @@ const LIST_FILTERS: { key: ListFilter; label: string }[] = [
   { key: 'done', label: 'Afgerond' },
 ];
 
-const ICON_MAP: Record<string, string> = {
-  cheese: '🧀',
-  kaas: '🧀',
-  milk: '🥛',
-  melk: '🥛',
-  bread: '🍞',
-  brood: '🍞',
-  broccoli: '🥦',
-  pasta: '🍝',
-  egg: '🥚',
-  strawberry: '🍓',
-  aardbei: '🍓',
-  aardbeien: '🍓',
-  banana: '🍌',
-  banaan: '🍌',
-  bananen: '🍌',
-  coffee: '☕️',
-  koffie: '☕️',
-  apple: '🍎',
-  appel: '🍎',
-  spinach: '🥬',
-  spinazie: '🥬',
-  tomato: '🍅',
-  tomaat: '🍅',
-  tomaten: '🍅',
-  yogurt: '🥣',
-  yoghurt: '🥣',
-};
-
-function iconForItem(name: string) {
-  const match = Object.keys(ICON_MAP).find((key) =>
-    name.toLowerCase().includes(key),
-  );
-  return match ? ICON_MAP[match] : '🛒';
-}
-
-function buildSuggestion(label: string): QuickAddSuggestion {
+function buildSuggestion(label: string, pinned = false): QuickAddSuggestion {
   return {
     label,
-    emoji: iconForItem(label),
+    emoji: emojiForItem(label),
+    pinned,
   };
 }
 
@@ -195,9 +206,10 @@ export default function GroceriesScreen() {
   const router = useRouter();
   const { session } = useSession();
   const { activeHouseholdId, setActiveHouseholdId } = useActiveHousehold();
+  const { activeListId, setActiveListId } = useActiveList();
   const [loadingContext, setLoadingContext] = useState(true);
   const [household, setHousehold] = useState<Household | null>(null);
-  const [list, setList] = useState<List | null>(null);
+  const [lists, setLists] = useState<GroceryList[]>([]);
   const [householdName, setHouseholdName] = useState('');
   const [creatingHousehold, setCreatingHousehold] = useState(false);
   const [itemName, setItemName] = useState('');
@@ -207,15 +219,38 @@ export default function GroceriesScreen() {
   const [floatingIcon, setFloatingIcon] = useState<FloatingIcon | null>(null);
   const [celebrate, setCelebrate] = useState(false);
   const [pendingAdds, setPendingAdds] = useState<PendingAdd[]>([]);
-  const [pendingUpdates, setPendingUpdates] = useState<Record<string, boolean>>({});
+  const [pendingUpdates, setPendingUpdates] = useState<Record<string, Partial<GroceryItem>>>({});
   const [pendingDeletes, setPendingDeletes] = useState<Set<string>>(() => new Set());
   const [recentQuickAdds, setRecentQuickAdds] = useState<QuickAddSuggestion[]>([]);
+  const [favoriteQuickAdds, setFavoriteQuickAdds] = useState<QuickAddSuggestion[]>(() =>
+    STARTER_FAVORITES.map((label) => buildSuggestion(label)),
+  );
   const [quickAddTab, setQuickAddTab] = useState<'favorieten' | 'recent'>('favorieten');
   const [listFilter, setListFilter] = useState<ListFilter>('all');
   const [refreshing, setRefreshing] = useState(false);
+  const [editingItem, setEditingItem] = useState<DisplayItem | null>(null);
+  const [savingEdit, setSavingEdit] = useState(false);
   const itemInputRef = useRef<TextInput>(null);
   const [hasManuallyFocused, setHasManuallyFocused] = useState(false);
   const celebrationTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const [mergedItemId, setMergedItemId] = useState<string | null>(null);
+  const mergeFeedbackTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const [budgetStatus, setBudgetStatus] = useState<BudgetStatus | null>(null);
+  const budgetCheckRef = useRef<{ overBudget: boolean; openEstimate: number } | null>(null);
+  const [stores, setStores] = useState<StoreLayout[]>([]);
+  const [categoryOverrides, setCategoryOverrides] = useState<CategoryOverride[]>([]);
+  const [trip, setTrip] = useState<ShoppingTrip | null>(null);
+  const [tripVisible, setTripVisible] = useState(false);
+  const [startingTrip, setStartingTrip] = useState(false);
+  const [finishingTrip, setFinishingTrip] = useState(false);
+  const [recurringItems, setRecurringItems] = useState<RecurringItem[]>([]);
+  const [recurringVisible, setRecurringVisible] = useState(false);
+  const [recurringLoading, setRecurringLoading] = useState(false);
+  const [savingRecurring, setSavingRecurring] = useState(false);
+  const [recurringBusyId, setRecurringBusyId] = useState<string | null>(null);
+  const [recipeImportVisible, setRecipeImportVisible] = useState(false);
+  const [importingRecipe, setImportingRecipe] = useState(false);
+  const list = useMemo(() => resolveActiveList(lists, activeListId), [activeListId, lists]);
 
   const { items, isLoading: itemsLoading, error: realtimeError, refetch } = useRealtimeList(
     list?.id ?? null,
@@ -242,33 +277,9 @@ export default function GroceriesScreen() {
     }
     let isMounted = true;
     const loadRecentAdditions = async () => {
-      const { data, error } = await supabase
-        .from('list_history')
-        .select('item_name')
-        .eq('list_id', list.id)
-        .eq('action', 'added')
-        .order('created_at', { ascending: false })
-        .limit(4);
-      if (error) {
-        logSupabaseError('list_history.recent', error, {
-          screen: 'Groceries',
-          listId: list.id,
-        });
-        return;
-      }
-      const suggestions =
-        data
-          ?.map((row) => row.item_name?.trim())
-          .filter((name): name is string => Boolean(name && name.length > 0))
-          .map((label) => buildSuggestion(label))
-          .reduce<QuickAddSuggestion[]>((acc, suggestion) => {
-            if (acc.find((existing) => existing.label.toLowerCase() === suggestion.label.toLowerCase())) {
-              return acc;
-            }
-            return [...acc, suggestion];
-          }, []) ?? [];
-      if (isMounted) {
-        setRecentQuickAdds(suggestions.slice(0, 8));
+      const { data } = await fetchRecentAdditions(list.id);
+      if (isMounted && data) {
+        setRecentQuickAdds(data.map((label) => buildSuggestion(label)));
       }
     };
     void loadRecentAdditions();
@@ -303,9 +314,9 @@ export default function GroceriesScreen() {
           const suggestion = buildSuggestion(name);
           setRecentQuickAdds((prev) => {
             const filtered = prev.filter(
-              (existing) => existing.label.toLowerCase() !== suggestion.label.toLowerCase(),
+              (existing) => !isSameItemName(existing.label, suggestion.label),
             );
-            return [suggestion, ...filtered].slice(0, 8);
+            return [suggestion, ...filtered].slice(0, RECENT_LIMIT);
           });
         },
       )
@@ -322,7 +333,13 @@ export default function GroceriesScreen() {
       let changed = false;
       Object.keys(prev).forEach((id) => {
         const live = items.find((item) => item.id === id);
-        if (live && live.checked === prev[id]) {
+        const pending = prev[id];
+        const settled =
+          live &&
+          (Object.keys(pending) as (keyof GroceryItem)[]).every(
+            (key) => (live[key] ?? null) === (pending[key] ?? null),
+          );
+        if (settled) {
           delete next[id];
           changed = true;
         }
@@ -350,7 +367,7 @@ export default function GroceriesScreen() {
       .filter((item) => !pendingDeletes.has(item.id))
       .map<DisplayItem>((item) => {
         if (pendingUpdates[item.id] !== undefined) {
-          return { ...item, checked: pendingUpdates[item.id], pending: true };
+          return { ...item, ...pendingUpdates[item.id], pending: true };
         }
         return item;
       });
@@ -373,6 +390,7 @@ export default function GroceriesScreen() {
   const totalItems = displayItems.length;
   const remainingCount = activeItems.length;
   const completionRatio = totalItems === 0 ? 0 : completedItems.length / totalItems;
+  const totals = useMemo(() => summarizeTotals(displayItems), [displayItems]);
   const filteredItems = useMemo(() => {
     if (listFilter === 'open') {
       return displayItems.filter((item) => !item.checked);
@@ -383,9 +401,40 @@ export default function GroceriesScreen() {
     return displayItems;
   }, [displayItems, listFilter]);
   const filterEmpty = filteredItems.length === 0 && displayItems.length > 0;
+  const activeStore = useMemo(
+    () => stores.find((store) => store.id === list?.storeId) ?? null,
+    [list?.storeId, stores],
+  );
+  // In winkelmodus loop je de gangpaden af in dezelfde volgorde als de lijst.
+  const tripItems = useMemo(
+    () => (activeStore ? sortByAisle(displayItems, activeStore.aisles) : displayItems),
+    [activeStore, displayItems],
+  );
+  // Items zonder categorie (ook van vóór de catalogus) krijgen die van de catalogus.
+  const categorizedItems = useMemo(
+    () =>
+      filteredItems.map((item) =>
+        item.category?.trim()
+          ? item
+          : { ...item, category: classifyItem(item.name, categoryOverrides).category },
+      ),
+    [categoryOverrides, filteredItems],
+  );
   const decoratedItems = useMemo<DecoratedItem[]>(() => {
-    const sorted = [...filteredItems].sort((a, b) =>
-      a.name.localeCompare(b.name, 'nl', { sensitivity: 'base' }),
+    if (activeStore) {
+      return sortByAisle(categorizedItems, activeStore.aisles).map(
+        ({ aisle, ...item }, index, sorted) => ({
+          ...item,
+          groupLabel: aisle.label,
+          showGroupHeader: index === 0 || sorted[index - 1].aisle.index !== aisle.index,
+        }),
+      );
+    }
+    const sorted = [...categorizedItems].sort(
+      (a, b) =>
+        groupLabelForItem(a).localeCompare(groupLabelForItem(b), 'nl', {
+          sensitivity: 'base',
+        }) || a.name.localeCompare(b.name, 'nl', { sensitivity: 'base' }),
     );
     return sorted.map((item, index) => {
       const label = groupLabelForItem(item);
@@ -396,7 +445,7 @@ export default function GroceriesScreen() {
         showGroupHeader: !prev || prev !== label,
       };
     });
-  }, [filteredItems]);
+  }, [activeStore, categorizedItems]);
 
   const floatingOpacity = useSharedValue(0);
   const floatingTranslateY = useSharedValue(0);
@@ -495,7 +544,7 @@ export default function GroceriesScreen() {
     if (error) {
       toast('Huishoudgegevens laden is niet gelukt.');
       setHousehold(null);
-      setList(null);
+      setLists([]);
       setLoadingContext(false);
       console.error('[Groceries] Failed to load memberships', error);
       return;
@@ -506,7 +555,7 @@ export default function GroceriesScreen() {
 
     if (membershipsWithHouseholds.length === 0) {
       setHousehold(null);
-      setList(null);
+      setLists([]);
       setActiveHouseholdId(null);
       setLoadingContext(false);
       return;
@@ -523,7 +572,7 @@ export default function GroceriesScreen() {
       | null;
     if (!householdData) {
       setHousehold(null);
-      setList(null);
+      setLists([]);
       setActiveHouseholdId(null);
       setLoadingContext(false);
       return;
@@ -532,42 +581,314 @@ export default function GroceriesScreen() {
     setActiveHouseholdId(householdData.id);
     setHousehold({ id: householdData.id, name: householdData.name });
 
-    const { data: lists, error: listError } = await supabase
-      .from('lists')
-      .select('id, name')
-      .eq('household_id', householdData.id)
-      .order('created_at', { ascending: true });
+    const { data: householdLists, error: listError } = await fetchLists(householdData.id);
 
-    if (listError) {
+    if (listError || !householdLists) {
       toast('Boodschappenlijsten laden is niet gelukt.');
-      setList(null);
+      setLists([]);
       setLoadingContext(false);
       return;
     }
 
-    if (!lists || lists.length === 0) {
-      const { data: createdList, error: createListError } = await supabase
-        .from('lists')
-        .insert({ household_id: householdData.id, name: 'Hoofdlijst' })
-        .select()
-        .single();
+    if (householdLists.length === 0) {
+      const { data: createdList, error: createListError } = await createList(
+        householdData.id,
+        DEFAULT_LIST_NAME,
+      );
 
       if (createListError || !createdList) {
         toast('De standaardlijst kon niet worden aangemaakt.');
-        setList(null);
+        setLists([]);
         setLoadingContext(false);
         console.error('[Groceries] Failed to create default list', createListError);
         return;
       }
 
-      setList({ id: createdList.id, name: createdList.name });
+      setLists([createdList]);
     } else {
-      setList({ id: lists[0].id, name: lists[0].name });
+      setLists(householdLists);
     }
 
     setLoadingContext(false);
   }, [activeHouseholdId, session, setActiveHouseholdId]);
 
+  const householdId = household?.id ?? null;
+
+  const reloadLists = useCallback(async () => {
+    if (!householdId) return;
+    const { data } = await fetchLists(householdId);
+    if (data && data.length > 0) {
+      setLists(data);
+    }
+  }, [householdId]);
+
+  useEffect(() => {
+    const client = supabase;
+    if (!householdId || !isSupabaseConfigured || !client) {
+      return;
+    }
+    // Hernoemen, archiveren of nieuwe lijsten op een ander toestel direct tonen.
+    const channel = client
+      .channel(`lists-${householdId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'lists',
+          filter: `household_id=eq.${householdId}`,
+        },
+        () => {
+          void reloadLists();
+        },
+      )
+      .subscribe();
+
+    return () => {
+      void client.removeChannel(channel);
+    };
+  }, [householdId, reloadLists]);
+
+  useEffect(() => {
+    // Optimistische wijzigingen horen bij de vorige lijst.
+    setPendingAdds([]);
+    setPendingUpdates({});
+    setPendingDeletes(new Set());
+  }, [list?.id]);
+
+  const reloadStores = useCallback(async () => {
+    if (!householdId) {
+      setStores([]);
+      return;
+    }
+    const { data } = await fetchStores(householdId);
+    setStores(data ?? []);
+  }, [householdId]);
+
+  useEffect(() => {
+    void reloadStores();
+  }, [reloadStores]);
+
+  useEffect(() => {
+    const client = supabase;
+    if (!householdId || !isSupabaseConfigured || !client) {
+      return;
+    }
+    const channel = client
+      .channel(`stores-${householdId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'stores',
+          filter: `household_id=eq.${householdId}`,
+        },
+        () => {
+          void reloadStores();
+        },
+      )
+      .subscribe();
+
+    return () => {
+      void client.removeChannel(channel);
+    };
+  }, [householdId, reloadStores]);
+
+  const reloadFavorites = useCallback(async () => {
+    if (!householdId) return;
+    const { data } = await fetchFavorites(householdId);
+    if (!data) return;
+    // Zonder historie of vastgezette items tonen we de startset.
+    setFavoriteQuickAdds(
+      data.length > 0
+        ? data.map((favorite) => buildSuggestion(favorite.name, favorite.pinned))
+        : STARTER_FAVORITES.map((label) => buildSuggestion(label)),
+    );
+  }, [householdId]);
+
+  useEffect(() => {
+    void reloadFavorites();
+  }, [reloadFavorites]);
+
+  useEffect(() => {
+    if (!householdId) {
+      setCategoryOverrides([]);
+      return;
+    }
+    void fetchCategoryOverrides(householdId).then(({ data }) => {
+      setCategoryOverrides(data ?? []);
+    });
+  }, [householdId]);
+
+  const reloadTrip = useCallback(async () => {
+    if (!list?.id) {
+      setTrip(null);
+      return;
+    }
+    const { data } = await fetchOpenTrip(list.id);
+    setTrip(data);
+  }, [list?.id]);
+
+  useEffect(() => {
+    setTripVisible(false);
+    void reloadTrip();
+  }, [reloadTrip]);
+
+  useEffect(() => {
+    const client = supabase;
+    const listId = list?.id;
+    if (!listId || !isSupabaseConfigured || !client) {
+      return;
+    }
+    // Een ronde die een ander gezinslid start of afrondt direct tonen.
+    const channel = client
+      .channel(`trips-${listId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'shopping_trips',
+          filter: `list_id=eq.${listId}`,
+        },
+        () => {
+          void reloadTrip();
+        },
+      )
+      .subscribe();
+
+    return () => {
+      void client.removeChannel(channel);
+    };
+  }, [list?.id, reloadTrip]);
+
+  const reloadRecurring = useCallback(async () => {
+    if (!list?.id) {
+      setRecurringItems([]);
+      return;
+    }
+    const { data } = await fetchRecurringItems(list.id);
+    if (data) {
+      setRecurringItems(data);
+    }
+  }, [list?.id]);
+
+  useEffect(() => {
+    setRecurringVisible(false);
+    setRecurringLoading(true);
+    void reloadRecurring().finally(() => setRecurringLoading(false));
+  }, [reloadRecurring]);
+
+  const activeRecurringCount = useMemo(
+    () => recurringItems.filter((rule) => !rule.paused).length,
+    [recurringItems],
+  );
+
+  // De server doet dit ook elk uur; bij openen van de lijst alvast bijwerken.
+  useEffect(() => {
+    const listId = list?.id;
+    if (!listId || !isSupabaseConfigured || !supabase) {
+      return;
+    }
+    void addDueRecurringItems(listId).then(({ data }) => {
+      if (!data) return;
+      toast(
+        data === 1
+          ? 'Groceo heeft 1 terugkerend item toegevoegd.'
+          : `Groceo heeft ${data} terugkerende items toegevoegd.`,
+      );
+      void reloadRecurring();
+    });
+  }, [list?.id, reloadRecurring]);
+
+  // Afgevinkte bedragen volgens de server; verandert dit, dan is `spent` ook veranderd.
+  const checkedSpend = useMemo(() => {
+    const serverTotals = summarizeTotals(items);
+    return serverTotals.total - serverTotals.remaining;
+  }, [items]);
+
+  useEffect(() => {
+    if (!householdId || !list?.id) {
+      setBudgetStatus(null);
+      return;
+    }
+    let isMounted = true;
+    void fetchBudgetStatus(householdId, { excludeListId: list.id }).then(({ data }) => {
+      if (isMounted) {
+        setBudgetStatus(data);
+      }
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, [householdId, list?.id, checkedSpend]);
+
+  const budgetProjection = useMemo(
+    () => projectBudget(budgetStatus, totals.remaining),
+    [budgetStatus, totals.remaining],
+  );
+
+  useEffect(() => {
+    budgetCheckRef.current = null;
+  }, [list?.id]);
+
+  useEffect(() => {
+    if (!budgetProjection || !budgetStatus) return;
+    const previous = budgetCheckRef.current;
+    budgetCheckRef.current = {
+      overBudget: budgetProjection.overBudget,
+      openEstimate: totals.remaining,
+    };
+    // Alleen waarschuwen als de open schatting groeit; afvinken verschuift
+    // bedragen van open naar uitgegeven en mag geen melding geven.
+    if (
+      previous &&
+      !previous.overBudget &&
+      budgetProjection.overBudget &&
+      totals.remaining > previous.openEstimate
+    ) {
+      toast(
+        `De schatting komt nu op ${formatEuro(budgetProjection.projected)}, ${formatEuro(
+          -budgetProjection.remaining,
+        )} boven het budget van ${formatEuro(budgetProjection.amount)} ${describeBudgetPeriod(
+          budgetStatus.period,
+        )}.`,
+        'Boven budget',
+      );
+    }
+  }, [budgetProjection, budgetStatus, totals.remaining]);
+
+  const handleSelectList = useCallback(
+    (listId: string) => {
+      if (listId === list?.id) return;
+      void Haptics.selectionAsync();
+      setActiveListId(listId);
+    },
+    [list?.id, setActiveListId],
+  );
+
+  const handleSelectStore = useCallback(
+    async (storeId: string | null) => {
+      if (!list || list.storeId === storeId) return;
+      void Haptics.selectionAsync();
+      const previous = list.storeId;
+      setLists((prev) =>
+        prev.map((option) => (option.id === list.id ? { ...option, storeId } : option)),
+      );
+      const { error } = await setListStore(list.id, storeId);
+      if (error) {
+        setLists((prev) =>
+          prev.map((option) =>
+            option.id === list.id ? { ...option, storeId: previous } : option,
+          ),
+        );
+        toast('Winkel kiezen is niet gelukt.');
+      }
+    },
+    [list],
+  );
+
   useEffect(() => {
     void loadContext();
   }, [loadContext]);
@@ -586,120 +907,97 @@ export default function GroceriesScreen() {
 
     setCreatingHousehold(true);
 
-    const trimmedName = householdName.trim();
+    const { data: created, error } = await createHousehold(householdName);
 
-    const { data: createdHousehold, error: householdError } = await supabase
-      .from('households')
-      .insert({
-        name: trimmedName,
-        owner_id: session.user.id,
-      })
-      .select()
-      .single();
-
-    if (householdError || !createdHousehold) {
-      logSupabaseError('households.insert', householdError, {
-        screen: 'Home',
-        userId: session.user.id,
-        householdName: trimmedName,
-      });
+    if (error || !created) {
       toast('Huishouden aanmaken is niet gelukt.');
       setCreatingHousehold(false);
-      console.error('[Groceries] Household creation failed', householdError);
+      console.error('[Groceries] Household creation failed', error);
       return;
     }
 
-    const { data: createdList, error: listError } = await supabase
-      .from('lists')
-      .insert({ household_id: createdHousehold.id, name: 'Hoofdlijst' })
-      .select()
-      .single();
-
-    if (listError || !createdList) {
-      logSupabaseError('lists.insert', listError, {
-        screen: 'Home',
-        userId: session.user.id,
-        householdId: createdHousehold.id,
-      });
-      toast('Standaardlijst aanmaken is niet gelukt.');
-      setCreatingHousehold(false);
-      console.error('[Groceries] Default list creation failed', listError);
-      return;
-    }
-
-    const { error: memberError } = await supabase.from('members').insert({
-      user_id: session.user.id,
-      household_id: createdHousehold.id,
-      role: 'owner',
-    });
-
-    if (memberError) {
-      logSupabaseError('members.insert', memberError, {
-        screen: 'Home',
-        userId: session.user.id,
-        householdId: createdHousehold.id,
-      });
-      toast('Lid worden van het huishouden is niet gelukt.');
-      setCreatingHousehold(false);
-      console.error('[Groceries] Failed to add member to household', memberError);
-      return;
-    }
-
-    setActiveHouseholdId(createdHousehold.id);
-    setHousehold({ id: createdHousehold.id, name: createdHousehold.name });
-    setList({ id: createdList.id, name: createdList.name });
+    setActiveHouseholdId(created.household.id);
+    setHousehold(created.household);
+    setLists([
+      {
+        ...created.list,
+        position: 1,
+        archivedAt: null,
+        mergeDuplicates: true,
+        stockPantry: true,
+        storeId: null,
+      },
+    ]);
     setHouseholdName('');
     setCreatingHousehold(false);
     toast('Huishouden is aangemaakt.');
   }, [householdName, session, setActiveHouseholdId]);
 
-  const recordHistoryEvent = useCallback(
-    async ({ action, name, quantity }: HistoryEventPayload) => {
-      if (!list || !session) {
-        return;
+  useEffect(
+    () => () => {
+      if (mergeFeedbackTimeoutRef.current) {
+        clearTimeout(mergeFeedbackTimeoutRef.current);
       }
-      if (!isSupabaseConfigured || !supabase) {
-        return;
-      }
-      const metadataName = (session.user.user_metadata?.full_name as string | undefined)?.trim();
-      const userLabel = metadataName || session.user.email?.split('@')[0] || 'Onbekend';
-      const dbAction: Exclude<HistoryAction, 'cleared'> = action === 'cleared' ? 'deleted' : action;
-      const safeName =
-        (typeof name === 'string' && name.trim().length > 0
-          ? name.trim()
-          : action === 'cleared'
-            ? CLEAR_EVENT_LABEL
-            : 'Onbekend item');
-      const safeQuantity =
-        typeof quantity === 'number' && Number.isFinite(quantity) && quantity >= 0
-          ? quantity
-          : 0;
-      const { error } = await supabase.from('list_history').insert({
-        list_id: list.id,
-        action: dbAction,
-        item_name: safeName,
-        quantity: safeQuantity,
-        user_email: userLabel,
+    },
+    [],
+  );
+
+  const showMergeFeedback = useCallback((itemId: string) => {
+    if (mergeFeedbackTimeoutRef.current) {
+      clearTimeout(mergeFeedbackTimeoutRef.current);
+    }
+    setMergedItemId(itemId);
+    mergeFeedbackTimeoutRef.current = setTimeout(() => {
+      setMergedItemId(null);
+      mergeFeedbackTimeoutRef.current = null;
+    }, MERGE_FEEDBACK_MS);
+  }, []);
+
+  /**
+   * Hoogt een bestaand open item op in plaats van een tweede regel te maken.
+   * bump_item_quantity telt server-side op, zodat gelijktijdige toevoegingen allebei meetellen.
+   */
+  const mergeIntoItem = useCallback(
+    async (target: DisplayItem, amount: number) => {
+      if (!isSupabaseConfigured || !supabase) return false;
+      const targetId = target.resolvedId ?? target.id;
+      const optimisticQuantity = clampQuantity(target.quantity + amount);
+
+      setPendingUpdates((prev) => ({
+        ...prev,
+        [targetId]: { ...prev[targetId], quantity: optimisticQuantity },
+      }));
+      const { data, error } = await supabase.rpc('bump_item_quantity', {
+        target_item_id: targetId,
+        amount,
       });
+
       if (error) {
-        console.error('[Groceries] Failed to persist history event', error);
-        return;
-      }
-      if (action === 'added') {
-        const suggestion = buildSuggestion(safeName);
-        setRecentQuickAdds((prev) => {
-          const filtered = prev.filter(
-            (existing) => existing.label.toLowerCase() !== suggestion.label.toLowerCase(),
-          );
-          return [suggestion, ...filtered].slice(0, 8);
+        toast('Aantal verhogen is niet gelukt.');
+        console.error('[Groceries] Supabase bump failed for item', error, { itemId: targetId });
+        setPendingUpdates((prev) => {
+          const next = { ...prev };
+          delete next[targetId];
+          return next;
         });
+        return false;
       }
+
+      setPendingUpdates((prev) => ({
+        ...prev,
+        [targetId]: { ...prev[targetId], quantity: Number(data) },
+      }));
+      void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      triggerFloatingEmoji(emojiForItem(target.name));
+      showMergeFeedback(targetId);
+      Keyboard.dismiss();
+      return true;
     },
-    [list?.id, session],
+    [showMergeFeedback, triggerFloatingEmoji],
   );
 
   const addItem = useCallback(
-    async ({ name, quantity }: { name: string; quantity?: number }) => {
+    async ({ name, quantity, unit }: { name: string; quantity?: number; unit?: ItemUnit }) => {
       if (!list || !session) return false;
       if (!isSupabaseConfigured || !supabase) {
         toast('Supabase is niet geconfigureerd. Voeg je gegevens toe.');
@@ -717,18 +1015,37 @@ export default function GroceriesScreen() {
 
       const safeQuantity =
         typeof quantity === 'number' && Number.isFinite(quantity) && quantity > 0
-          ? Math.round(quantity)
+          ? clampQuantity(quantity)
           : 1;
+      const safeUnit = normalizeUnit(unit ?? DEFAULT_UNIT);
+
+      if (list.mergeDuplicates) {
+        const target = findMergeTarget(
+          displayItems.filter((item) => !item.id.startsWith('temp-')),
+          { name: trimmedName, unit: safeUnit },
+        );
+        if (target) {
+          setAddingItem(true);
+          try {
+            return await mergeIntoItem(target, safeQuantity);
+          } finally {
+            setAddingItem(false);
+          }
+        }
+      }
 
       setAddingItem(true);
+      const classification = classifyItem(trimmedName, categoryOverrides);
       const tempId = `temp-${Date.now()}`;
       const optimistic: PendingAdd = {
         id: tempId,
         tempId,
         name: trimmedName,
         quantity: safeQuantity,
+        unit: safeUnit,
         checked: false,
-        category: null,
+        category: classification.category,
+        priceEstimate: null,
       };
       setPendingAdds((prev) => [optimistic, ...prev]);
       try {
@@ -738,6 +1055,8 @@ export default function GroceriesScreen() {
             list_id: list.id,
             name: trimmedName,
             quantity: safeQuantity,
+            unit: safeUnit,
+            category: classification.category,
             added_by: session.user.id,
           })
           .select('id,name,quantity,checked,category')
@@ -751,20 +1070,28 @@ export default function GroceriesScreen() {
         }
 
         void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-        triggerFloatingEmoji(iconForItem(trimmedName));
+        triggerFloatingEmoji(classification.emoji);
         Keyboard.dismiss();
         setPendingAdds((prev) =>
           prev.map((item) =>
             item.tempId === tempId ? { ...item, id: data.id, resolvedId: data.id } : item,
           ),
         );
-        void recordHistoryEvent({ action: 'added', name: trimmedName, quantity: safeQuantity });
         return true;
       } finally {
         setAddingItem(false);
       }
     },
-    [addingItem, list?.id, recordHistoryEvent, session?.user.id, triggerFloatingEmoji],
+    [
+      addingItem,
+      categoryOverrides,
+      displayItems,
+      list?.id,
+      list?.mergeDuplicates,
+      mergeIntoItem,
+      session?.user.id,
+      triggerFloatingEmoji,
+    ],
   );
 
   const handleAddItem = useCallback(async () => {
@@ -772,7 +1099,8 @@ export default function GroceriesScreen() {
       toast('Wat zullen we toevoegen?');
       return;
     }
-    const success = await addItem({ name: itemName, quantity: itemQuantity });
+    // "500 g gehakt", "melk x2" of "twee pakken melk" wint van de stepper.
+    const success = await addItem(parseItemPhrase(itemName, itemQuantity));
     if (success) {
       setItemName('');
       setItemQuantity(1);
@@ -781,6 +1109,32 @@ export default function GroceriesScreen() {
     }
   }, [addItem, itemName, itemQuantity]);
 
+  /**
+   * Ingrediënten uit een recept gaan één voor één door addItem, zodat samenvoegen
+   * en categorieën precies zo werken als bij de invoerbalk.
+   */
+  const handleImportIngredients = useCallback(
+    async (ingredients: ParsedQuantity[]) => {
+      setImportingRecipe(true);
+      let added = 0;
+      for (const ingredient of collapseIngredients(ingredients)) {
+        if (await addItem(ingredient)) {
+          added += 1;
+        }
+      }
+      setImportingRecipe(false);
+      if (added === 0) return false;
+      toast(
+        added === 1
+          ? '1 ingrediënt op de lijst gezet.'
+          : `${added} ingrediënten op de lijst gezet.`,
+      );
+      setRecipeImportVisible(false);
+      return true;
+    },
+    [addItem],
+  );
+
   const handleQuickAdd = useCallback(
     async (suggestion: QuickAddSuggestion) => {
       const success = await addItem({ name: suggestion.label, quantity: 1 });
@@ -795,6 +1149,28 @@ export default function GroceriesScreen() {
     [addItem, hasManuallyFocused],
   );
 
+  /** Lang indrukken zet een snelkeuze vast bovenaan de favorieten, of haalt hem los. */
+  const handleTogglePin = useCallback(
+    async (suggestion: QuickAddSuggestion) => {
+      if (!householdId) return;
+      void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      const { error } = suggestion.pinned
+        ? await unpinFavorite(householdId, suggestion.label)
+        : await pinFavorite(householdId, suggestion.label);
+      if (error) {
+        toast(suggestion.pinned ? 'Losmaken is niet gelukt.' : 'Vastzetten is niet gelukt.');
+        return;
+      }
+      toast(
+        suggestion.pinned
+          ? `"${suggestion.label}" staat niet meer vast.`
+          : `"${suggestion.label}" staat nu vast bij je favorieten.`,
+      );
+      await reloadFavorites();
+    },
+    [householdId, reloadFavorites],
+  );
+
   const handleToggleItem = useCallback(
     async (item: DisplayItem) => {
       if ('tempId' in item && item.tempId && item.id.startsWith('temp-')) {
@@ -813,7 +1189,7 @@ export default function GroceriesScreen() {
         return;
       }
       const nextChecked = !item.checked;
-      setPendingUpdates((prev) => ({ ...prev, [item.id]: nextChecked }));
+      setPendingUpdates((prev) => ({ ...prev, [item.id]: { ...prev[item.id], checked: nextChecked } }));
       void Haptics.selectionAsync();
 
       const { error } = await supabase
@@ -841,6 +1217,74 @@ export default function GroceriesScreen() {
     [],
   );
 
+  const handleSaveEdit = useCallback(
+    async (changes: ItemChanges) => {
+      const item = editingItem;
+      if (!item) return;
+      if (item.tempId && item.id.startsWith('temp-')) {
+        toast('Even geduld, dit item wordt nog opgeslagen.');
+        return;
+      }
+      if (!isSupabaseConfigured || !supabase) {
+        toast('Supabase is niet geconfigureerd.');
+        console.error('[Groceries] Unable to edit item: Supabase not configured');
+        return;
+      }
+
+      const targetId = item.resolvedId ?? item.id;
+      if (item.tempId) {
+        setPendingAdds((prev) =>
+          prev.map((pending) =>
+            pending.tempId === item.tempId ? { ...pending, ...changes } : pending,
+          ),
+        );
+      }
+      setPendingUpdates((prev) => ({ ...prev, [targetId]: { ...prev[targetId], ...changes } }));
+      setSavingEdit(true);
+
+      // Eén update zodat de trigger één `updated`-regel in de historie schrijft.
+      const { error } = await supabase
+        .from('items')
+        .update({
+          name: changes.name,
+          quantity: changes.quantity,
+          unit: changes.unit,
+          category: changes.category,
+          price_estimate: changes.priceEstimate,
+        })
+        .eq('id', targetId);
+      setSavingEdit(false);
+
+      if (error) {
+        toast('Item bijwerken is niet gelukt.');
+        console.error('[Groceries] Supabase update failed for edit', error, { itemId: targetId });
+        setPendingUpdates((prev) => {
+          const next = { ...prev };
+          delete next[targetId];
+          return next;
+        });
+        return;
+      }
+
+      void Haptics.selectionAsync();
+      setEditingItem(null);
+
+      // Een andere categorie onthouden voor de volgende keer dat dit item erbij komt.
+      if (householdId && (changes.category ?? null) !== (item.category?.trim() || null)) {
+        const { error: overrideError } = await rememberCategory(
+          householdId,
+          changes.name,
+          changes.category ?? null,
+        );
+        if (!overrideError) {
+          const { data } = await fetchCategoryOverrides(householdId);
+          setCategoryOverrides(data ?? []);
+        }
+      }
+    },
+    [editingItem, householdId],
+  );
+
   const handleDeleteItem = useCallback(
     async (item: DisplayItem) => {
       const wasOnlyOptimistic = Boolean(item.tempId && item.id.startsWith('temp-'));
@@ -879,10 +1323,9 @@ export default function GroceriesScreen() {
         return;
       }
 
-      void recordHistoryEvent({ action: 'deleted', name: item.name, quantity: item.quantity });
       console.log('[Groceries] Item removed', { itemId: targetId, name: item.name });
     },
-    [recordHistoryEvent],
+    [],
   );
 
   const handleClearAll = useCallback(async () => {
@@ -897,8 +1340,6 @@ export default function GroceriesScreen() {
       console.info('[Groceries] Clear list skipped: list already empty');
       return;
     }
-    const clearedCount = displayItems.length;
-
     setPendingAdds([]);
     setPendingUpdates({});
     setPendingDeletes((prev) => {
@@ -913,7 +1354,8 @@ export default function GroceriesScreen() {
 
     setClearingAll(true);
     try {
-      const { error } = await supabase.from('items').delete().eq('list_id', list.id);
+      // clear_list logt één `cleared`-event in list_history in plaats van losse deletes.
+      const { error } = await supabase.rpc('clear_list', { target_list_id: list.id });
       if (error) {
         toast('Lijst legen is niet gelukt.');
         console.error('[Groceries] Supabase delete failed when clearing list', error, {
@@ -922,16 +1364,121 @@ export default function GroceriesScreen() {
         return;
       }
       void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      void recordHistoryEvent({
-        action: 'cleared',
-        name: CLEAR_EVENT_LABEL,
-        quantity: clearedCount,
-      });
       console.log('[Groceries] List cleared', { listId: list.id });
     } finally {
       setClearingAll(false);
     }
-  }, [displayItems, list?.id, recordHistoryEvent]);
+  }, [displayItems, list?.id]);
+
+  const handleStartTrip = useCallback(async () => {
+    if (trip) {
+      setTripVisible(true);
+      return;
+    }
+    if (!list?.id) return;
+    setStartingTrip(true);
+    const { data, error } = await startShoppingTrip(list.id);
+    setStartingTrip(false);
+    if (error || !data) {
+      toast('Boodschappenronde starten is niet gelukt.');
+      return;
+    }
+    void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setTrip(data);
+    setTripVisible(true);
+  }, [list?.id, trip]);
+
+  const handleFinishTrip = useCallback(
+    async ({ finalSpend, clearChecked }: TripFinish) => {
+      if (!trip) return;
+      setFinishingTrip(true);
+      const { data, error } = await finishShoppingTrip(trip.id, { finalSpend, clearChecked });
+      setFinishingTrip(false);
+      if (error || !data) {
+        toast('Boodschappenronde opslaan is niet gelukt.');
+        return;
+      }
+      setTripVisible(false);
+      setTrip(null);
+      if (data.clearedChecked) {
+        void refetch();
+      }
+      const amount = data.finalSpend ?? data.estimatedTotal;
+      toast(
+        `${data.itemCount === 1 ? '1 item' : `${data.itemCount} items`} gehaald${
+          amount != null ? ` voor ${formatEuro(amount)}` : ''
+        }. De ronde staat in de historie.`,
+        'Ronde opgeslagen',
+      );
+    },
+    [refetch, trip],
+  );
+
+  const handleCreateRecurring = useCallback(
+    async (draft: Omit<RecurringDraft, 'category'>) => {
+      if (!list?.id) return false;
+      setSavingRecurring(true);
+      const { data, error } = await createRecurringItem(list.id, {
+        ...draft,
+        category: classifyItem(draft.name, categoryOverrides).category,
+      });
+      if (error || !data) {
+        setSavingRecurring(false);
+        toast('Terugkerend item opslaan is niet gelukt.');
+        return false;
+      }
+      void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      // Valt de eerste keer vandaag, dan staat het item meteen op de lijst.
+      if (data.nextDueOn <= toDateKey(new Date())) {
+        await addDueRecurringItems(list.id);
+      }
+      await reloadRecurring();
+      setSavingRecurring(false);
+      return true;
+    },
+    [categoryOverrides, list?.id, reloadRecurring],
+  );
+
+  const handleToggleRecurringPaused = useCallback(
+    async (rule: RecurringItem) => {
+      setRecurringBusyId(rule.id);
+      const { error } = await setRecurringItemPaused(rule.id, !rule.paused);
+      if (error) {
+        toast(rule.paused ? 'Hervatten is niet gelukt.' : 'Pauzeren is niet gelukt.');
+      } else {
+        await reloadRecurring();
+      }
+      setRecurringBusyId(null);
+    },
+    [reloadRecurring],
+  );
+
+  const handleDeleteRecurring = useCallback(
+    (rule: RecurringItem) => {
+      Alert.alert(
+        `"${rule.name}" niet meer herhalen?`,
+        'Wat al op de lijst staat, blijft staan.',
+        [
+          { text: 'Annuleren', style: 'cancel' },
+          {
+            text: 'Verwijderen',
+            style: 'destructive',
+            onPress: async () => {
+              setRecurringBusyId(rule.id);
+              const { error } = await deleteRecurringItem(rule.id);
+              setRecurringBusyId(null);
+              if (error) {
+                toast('Verwijderen is niet gelukt.');
+                return;
+              }
+              setRecurringItems((prev) => prev.filter((existing) => existing.id !== rule.id));
+            },
+          },
+        ],
+      );
+    },
+    [],
+  );
 
   const handleRefresh = useCallback(async () => {
     if (refreshing) {
@@ -939,11 +1486,11 @@ export default function GroceriesScreen() {
     }
     setRefreshing(true);
     try {
-      await refetch();
+      await Promise.all([refetch(), reloadLists()]);
     } finally {
       setRefreshing(false);
     }
-  }, [refetch, refreshing]);
+  }, [refetch, refreshing, reloadLists]);
 
   const incrementQuantity = useCallback(() => {
     setItemQuantity((prev) => {
@@ -978,10 +1525,12 @@ export default function GroceriesScreen() {
           item={item}
           onToggle={() => handleToggleItem(item)}
           onDelete={() => handleDeleteItem(item)}
+          onEdit={() => setEditingItem(item)}
+          justMerged={mergedItemId === (item.resolvedId ?? item.id)}
         />
       </View>
     ),
-    [handleDeleteItem, handleToggleItem],
+    [handleDeleteItem, handleToggleItem, mergedItemId],
   );
   const keyExtractor = useCallback(
     (item: DecoratedItem) => item.id ?? item.tempId ?? item.name,
@@ -1010,13 +1559,30 @@ export default function GroceriesScreen() {
     return null;
   }, [displayItems.length, filterEmpty]);
 
-  const predictedIcon = itemName.trim() ? iconForItem(itemName) : '🛒';
-  const quickAddItems = quickAddTab === 'favorieten' ? FAVORITE_QUICK_ADD : recentQuickAdds;
+  const parsedInput = useMemo(
+    () => parseItemPhrase(itemName, itemQuantity),
+    [itemName, itemQuantity],
+  );
+  const predictedIcon = emojiForItem(parsedInput.name);
+  const quickAddItems = useMemo(
+    () =>
+      quickAddTab === 'favorieten'
+        ? favoriteQuickAdds
+        : recentQuickAdds.map((suggestion) => ({
+            ...suggestion,
+            pinned: favoriteQuickAdds.some(
+              (favorite) => favorite.pinned && isSameItemName(favorite.label, suggestion.label),
+            ),
+          })),
+    [favoriteQuickAdds, quickAddTab, recentQuickAdds],
+  );
   const recentHint = useMemo(
     () => recentQuickAdds.map((item) => item.label).slice(0, 4).join(' • '),
     [recentQuickAdds],
   );
-  const predictedLabel = itemName.trim() || recentHint || 'Voeg iets lekkers toe';
+  const predictedLabel = parsedInput.name
+    ? `${parsedInput.name} • ${formatQuantity(parsedInput.quantity, parsedInput.unit)}`
+    : recentHint || 'Voeg iets lekkers toe';
 
   if (loadingContext || itemsLoading) {
     return (
@@ -1109,6 +1675,100 @@ export default function GroceriesScreen() {
                       </View>
                     </View>
 
+                    <ScrollView
+                      horizontal
+                      showsHorizontalScrollIndicator={false}
+                      contentContainerStyle={styles.listSwitcher}>
+                      {lists.map((option) => {
+                        const isActive = option.id === list.id;
+                        return (
+                          <TouchableOpacity
+                            key={option.id}
+                            accessibilityRole="button"
+                            accessibilityState={{ selected: isActive }}
+                            style={[styles.listChip, isActive && styles.listChipActive]}
+                            onPress={() => handleSelectList(option.id)}>
+                            <Text
+                              style={[styles.listChipText, isActive && styles.listChipTextActive]}
+                              numberOfLines={1}>
+                              {option.name}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                      <TouchableOpacity
+                        accessibilityRole="button"
+                        accessibilityLabel="Lijsten beheren"
+                        style={styles.listChip}
+                        onPress={() => router.push('/lists')}>
+                        <Feather name="sliders" size={14} color={palette.deepClay} />
+                        <Text style={styles.listChipText}>Lijsten</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        accessibilityRole="button"
+                        accessibilityLabel="Terugkerende items beheren"
+                        style={styles.listChip}
+                        onPress={() => setRecurringVisible(true)}
+                        disabled={!list}>
+                        <Feather name="repeat" size={14} color={palette.deepClay} />
+                        <Text style={styles.listChipText}>
+                          {activeRecurringCount > 0
+                            ? `Terugkerend (${activeRecurringCount})`
+                            : 'Terugkerend'}
+                        </Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        accessibilityRole="button"
+                        accessibilityLabel="Recept importeren"
+                        style={styles.listChip}
+                        onPress={() => setRecipeImportVisible(true)}
+                        disabled={!list}>
+                        <Feather name="book-open" size={14} color={palette.deepClay} />
+                        <Text style={styles.listChipText}>Recept</Text>
+                      </TouchableOpacity>
+                    </ScrollView>
+
+                    <ScrollView
+                      horizontal
+                      showsHorizontalScrollIndicator={false}
+                      contentContainerStyle={styles.listSwitcher}>
+                      <View style={styles.storeLabel}>
+                        <Feather name="map" size={14} color={palette.clay} />
+                        <Text style={styles.storeLabelText}>Looproute</Text>
+                      </View>
+                      {[null, ...stores].map((store) => {
+                        const isActive = (store?.id ?? null) === (activeStore?.id ?? null);
+                        return (
+                          <TouchableOpacity
+                            key={store?.id ?? 'none'}
+                            accessibilityRole="button"
+                            accessibilityState={{ selected: isActive }}
+                            style={[styles.listChip, isActive && styles.listChipActive]}
+                            onPress={() => handleSelectStore(store?.id ?? null)}>
+                            <Text
+                              style={[styles.listChipText, isActive && styles.listChipTextActive]}
+                              numberOfLines={1}>
+                              {store?.name ?? 'Standaard'}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                      <TouchableOpacity
+                        accessibilityRole="button"
+                        accessibilityLabel="Winkels beheren"
+                        style={styles.listChip}
+                        onPress={() => router.push('/stores')}>
+                        <Feather
+                          name={stores.length > 0 ? 'sliders' : 'plus'}
+                          size={14}
+                          color={palette.deepClay}
+                        />
+                        <Text style={styles.listChipText}>
+                          {stores.length > 0 ? 'Winkels' : 'Winkel toevoegen'}
+                        </Text>
+                      </TouchableOpacity>
+                    </ScrollView>
+
                     <View style={styles.summaryRow}>
                       <View style={styles.summaryBadge}>
                         <Feather name="shopping-bag" size={16} color={palette.clay} />
@@ -1122,7 +1782,44 @@ export default function GroceriesScreen() {
                           {completedItems.length} klaar
                         </Text>
                       </View>
+                      {totals.pricedCount > 0 ? (
+                        <View style={styles.summaryBadge}>
+                          <Feather name="tag" size={16} color={palette.clay} />
+                          <Text style={styles.summaryBadgeText}>
+                            ≈ {formatEuro(totals.remaining)} open van {formatEuro(totals.total)}
+                          </Text>
+                        </View>
+                      ) : null}
                     </View>
+                    {totals.pricedCount > 0 && totals.unpricedCount > 0 ? (
+                      <Text style={styles.totalsHint}>
+                        {totals.unpricedCount === 1
+                          ? '1 item heeft nog geen prijs; tik erop om er een te schatten.'
+                          : `${totals.unpricedCount} items hebben nog geen prijs; tik erop om er een te schatten.`}
+                      </Text>
+                    ) : null}
+                    {budgetProjection && budgetStatus ? (
+                      <View
+                        style={[
+                          styles.budgetBanner,
+                          budgetProjection.overBudget && styles.budgetBannerOver,
+                        ]}>
+                        <Feather
+                          name={budgetProjection.overBudget ? 'alert-triangle' : 'pie-chart'}
+                          size={16}
+                          color={budgetProjection.overBudget ? colors.error : palette.clay}
+                        />
+                        <Text
+                          style={[
+                            styles.budgetBannerText,
+                            budgetProjection.overBudget && styles.budgetBannerTextOver,
+                          ]}>
+                          {budgetProjection.overBudget
+                            ? `${formatEuro(-budgetProjection.remaining)} boven budget ${describeBudgetPeriod(budgetStatus.period)}`
+                            : `Budget ${describeBudgetPeriod(budgetStatus.period)}: nog ${formatEuro(budgetProjection.remaining)} over`}
+                        </Text>
+                      </View>
+                    ) : null}
 
                     <View style={styles.progressCard}>
                       <View style={styles.progressHeader}>
@@ -1140,6 +1837,24 @@ export default function GroceriesScreen() {
                         />
                       </View>
                     </View>
+
+                    <TouchableOpacity
+                      accessibilityRole="button"
+                      style={styles.tripButton}
+                      onPress={handleStartTrip}
+                      disabled={startingTrip || !list}>
+                      {startingTrip ? (
+                        <ActivityIndicator size="small" color={palette.deepClay} />
+                      ) : (
+                        <Feather name="shopping-cart" size={18} color={palette.deepClay} />
+                      )}
+                      <Text style={styles.tripButtonText}>
+                        {trip
+                          ? `Verder met de ronde van ${trip.shopperLabel ?? 'iemand'}`
+                          : 'Ik ben in de winkel'}
+                      </Text>
+                      <Feather name="arrow-right" size={16} color={palette.deepClay} />
+                    </TouchableOpacity>
                   </LinearGradient>
 
                   <View style={styles.addPanel}>
@@ -1230,8 +1945,15 @@ export default function GroceriesScreen() {
                           <TouchableOpacity
                             key={suggestion.label}
                             style={styles.quickTile}
-                            onPress={() => handleQuickAdd(suggestion)}>
-                            <Text style={styles.quickTileEmoji}>{suggestion.emoji}</Text>
+                            accessibilityHint="Lang indrukken om vast te zetten of los te maken"
+                            onPress={() => handleQuickAdd(suggestion)}
+                            onLongPress={() => handleTogglePin(suggestion)}>
+                            <View style={styles.quickTileHeader}>
+                              <Text style={styles.quickTileEmoji}>{suggestion.emoji}</Text>
+                              {suggestion.pinned ? (
+                                <Feather name="bookmark" size={14} color={palette.clay} />
+                              ) : null}
+                            </View>
                             <Text style={styles.quickTileLabel}>{suggestion.label}</Text>
                           </TouchableOpacity>
                         ))
@@ -1328,6 +2050,40 @@ export default function GroceriesScreen() {
 
             {celebrate ? <CelebrationOverlay /> : null}
           </View>
+          <ItemEditSheet
+            item={editingItem}
+            saving={savingEdit}
+            onClose={() => setEditingItem(null)}
+            onSave={handleSaveEdit}
+          />
+          <RecurringItemsSheet
+            visible={recurringVisible}
+            listName={list?.name ?? DEFAULT_LIST_NAME}
+            rules={recurringItems}
+            loading={recurringLoading}
+            saving={savingRecurring}
+            busyId={recurringBusyId}
+            onClose={() => setRecurringVisible(false)}
+            onCreate={handleCreateRecurring}
+            onTogglePaused={handleToggleRecurringPaused}
+            onDelete={handleDeleteRecurring}
+          />
+          <RecipeImportSheet
+            visible={recipeImportVisible}
+            listName={list?.name ?? DEFAULT_LIST_NAME}
+            adding={importingRecipe}
+            onClose={() => setRecipeImportVisible(false)}
+            onAdd={handleImportIngredients}
+          />
+          <ShoppingTripMode
+            trip={trip}
+            visible={tripVisible}
+            items={tripItems}
+            finishing={finishingTrip}
+            onToggle={handleToggleItem}
+            onClose={() => setTripVisible(false)}
+            onFinish={handleFinishTrip}
+          />
         </KeyboardAvoidingView>
       </LinearGradient>
     </SafeAreaView>
@@ -1338,10 +2094,14 @@ type GroceryListItemProps = {
   item: DisplayItem;
   onToggle: () => void;
   onDelete: () => void;
+  onEdit: () => void;
+  /** Kort zichtbaar nadat een dubbele toevoeging bij dit item is opgeteld. */
+  justMerged?: boolean;
 };
 
-function GroceryListItem({ item, onToggle, onDelete }: GroceryListItemProps) {
+function GroceryListItem({ item, onToggle, onDelete, onEdit, justMerged }: GroceryListItemProps) {
   const theme = tileThemeForItem(item.name);
+  const total = lineTotal(item);
 
   return (
     <Swipeable
@@ -1378,7 +2138,7 @@ function GroceryListItem({ item, onToggle, onDelete }: GroceryListItemProps) {
         ]}>
         <View style={styles.itemTileHeader}>
           <View style={[styles.itemEmojiBubble, { backgroundColor: theme.accent }]}>
-            <Text style={styles.itemEmoji}>{iconForItem(item.name)}</Text>
+            <Text style={styles.itemEmoji}>{emojiForItem(item.name)}</Text>
           </View>
           <TouchableOpacity
             onPress={onToggle}
@@ -1390,16 +2150,31 @@ function GroceryListItem({ item, onToggle, onDelete }: GroceryListItemProps) {
             />
           </TouchableOpacity>
         </View>
-        <View style={styles.itemTileBody}>
+        <TouchableOpacity
+          style={styles.itemTileBody}
+          onPress={onEdit}
+          accessibilityRole="button"
+          accessibilityLabel={`Bewerk ${item.name}`}>
           <Text style={[styles.itemTileName, item.checked && styles.itemTileNameChecked]}>
             {item.name}
           </Text>
           <Text style={styles.itemTileQuantity}>
-            {item.quantity > 1 ? `${item.quantity} stuks` : '1 stuk'}
+            {formatQuantity(item.quantity, item.unit)}
+            {total != null ? ` • ${formatEuro(total)}` : ''}
           </Text>
-        </View>
+        </TouchableOpacity>
         <View style={styles.itemTileFooter}>
-          <Text style={styles.itemTileStatus}>{item.checked ? 'Afgevinkt' : 'Nog nodig'}</Text>
+          {justMerged ? (
+            <Animated.View
+              entering={FadeIn.duration(180)}
+              exiting={FadeOut.duration(240)}
+              style={styles.mergedPill}>
+              <Feather name="trending-up" size={12} color={palette.mint} />
+              <Text style={styles.mergedPillText}>Aantal verhoogd</Text>
+            </Animated.View>
+          ) : (
+            <Text style={styles.itemTileStatus}>{item.checked ? 'Afgevinkt' : 'Nog nodig'}</Text>
+          )}
           <TouchableOpacity style={styles.itemDeletePill} onPress={onDelete}>
             <Feather name="trash-2" size={14} color="#FFFFFF" />
             <Text style={styles.itemDeletePillText}>Verwijderen</Text>
@@ -1555,6 +2330,44 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#FFFFFF',
   },
+  listSwitcher: {
+    gap: spacing.sm,
+    paddingRight: spacing.sm,
+  },
+  listChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    maxWidth: 180,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.pill,
+    borderWidth: 1,
+    borderColor: 'rgba(63,31,30,0.12)',
+    backgroundColor: '#FFFFFF',
+  },
+  listChipActive: {
+    backgroundColor: palette.deepClay,
+    borderColor: palette.deepClay,
+  },
+  listChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: palette.deepClay,
+  },
+  listChipTextActive: {
+    color: '#FFFFFF',
+  },
+  storeLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  storeLabelText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: palette.clay,
+  },
   summaryRow: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -1574,6 +2387,48 @@ const styles = StyleSheet.create({
     color: palette.clay,
     fontWeight: '600',
   },
+  totalsHint: {
+    fontSize: 12,
+    color: 'rgba(63,31,30,0.6)',
+  },
+  budgetBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.pill,
+    backgroundColor: 'rgba(63,31,30,0.08)',
+  },
+  budgetBannerOver: {
+    backgroundColor: 'rgba(229,57,53,0.12)',
+  },
+  budgetBannerText: {
+    ...textStyles.caption,
+    color: palette.clay,
+    fontWeight: '600',
+  },
+  budgetBannerTextOver: {
+    color: colors.error,
+  },
+  tripButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    backgroundColor: '#FFFFFF',
+    borderRadius: radius.lg,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(63,31,30,0.08)',
+  },
+  tripButtonText: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '700',
+    color: palette.deepClay,
+  },
   progressCard: {
     backgroundColor: '#FFFFFF',
     borderRadius: radius.lg,
@@ -1758,6 +2613,12 @@ const styles = StyleSheet.create({
     alignItems: 'flex-start',
     gap: spacing.xs / 2,
   },
+  quickTileHeader: {
+    flexDirection: 'row',
+    alignSelf: 'stretch',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+  },
   quickTileEmoji: {
     fontSize: 22,
   },
@@ -1978,6 +2839,20 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: 'rgba(63,31,30,0.6)',
   },
+  mergedPill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs / 2,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: radius.pill,
+    backgroundColor: 'rgba(58,125,68,0.12)',
+  },
+  mergedPillText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: palette.mint,
+  },
   itemDeletePill: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1,4 +1,11 @@
-import { useEffect, useMemo, useState, type ComponentProps } from 'react';
+import {
+  Fragment,
+  useEffect,
+  useMemo,
+  useState,
+  type ComponentProps,
+  type ReactNode,
+} from 'react';
 import {
   ActivityIndicator,
   ScrollView,
@@ -13,9 +20,24 @@ import { Feather } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 
 import { Button } from '@/components/Button';
+import {
+  describeBudgetPeriod,
+  fetchBudgetStatus,
+  projectBudget,
+  type BudgetStatus,
+} from '@/lib/budget';
+import { fetchLists, resolveActiveList } from '@/lib/lists';
+import {
+  fetchHouseholdPreferences,
+  planShoppingReminder,
+  prioritizeHomeSections,
+  type HomeSection,
+  type HouseholdPreferences,
+} from '@/lib/preferences';
+import { formatEuro, summarizeTotals } from '@/lib/prices';
 import { isSupabaseConfigured, supabase } from '@/lib/supabase';
 import { colors, radius, spacing, textStyles } from '@/lib/theme';
-import { useActiveHousehold, useSession } from '@/state/sessionStore';
+import { useActiveHousehold, useActiveList, useSession } from '@/state/sessionStore';
 import { logSupabaseError } from '@/utils/logging';
 import { toast } from '@/utils/toast';
 
@@ -54,6 +76,12 @@ type HouseholdSnapshot = {
   memberCount: number;
   listName?: string | null;
   openItems?: number | null;
+  /** Geschatte prijs van de open items; `null` als er geen prijzen zijn ingevuld. */
+  openTotal?: number | null;
+  budget?: BudgetStatus | null;
+  preferences?: HouseholdPreferences | null;
+  /** Laatste afgevinkte item op een van de lijsten: de vorige boodschappenronde. */
+  lastShoppedAt?: string | null;
 };
 
 type FamilyMission = {
@@ -93,10 +121,11 @@ const QUICK_ACTIONS: QuickAction[] = [
   },
   {
     id: 'planner',
-    title: 'Gezinsplanner',
-    description: 'Snel een gezinsmoment vastleggen.',
+    title: 'Weekmenu',
+    description: 'Plan wat jullie eten en zet de ingrediënten op de lijst.',
     icon: 'calendar',
     accent: '#7E57C2',
+    route: '/meal-planner',
   },
   {
     id: 'moments',
@@ -229,6 +258,7 @@ export default function HomeScreen() {
   const router = useRouter();
   const { session } = useSession();
   const { activeHouseholdId } = useActiveHousehold();
+  const { activeListId } = useActiveList();
   const [snapshot, setSnapshot] = useState<HouseholdSnapshot | null>(null);
   const [loadingSnapshot, setLoadingSnapshot] = useState(false);
 
@@ -274,37 +304,70 @@ export default function HomeScreen() {
 
         let listName: string | null = null;
         let openItems: number | null = null;
+        let openTotal: number | null = null;
+        let budget: BudgetStatus | null = null;
+        let preferences: HouseholdPreferences | null = null;
+        let lastShoppedAt: string | null = null;
 
         if (householdData && !householdError) {
-          const { data: listData, error: listError } = await supabase
-            .from('lists')
-            .select('id, name')
-            .eq('household_id', activeHouseholdId)
-            .order('created_at', { ascending: true })
-            .limit(1)
-            .maybeSingle();
+          const [
+            { data: lists, error: listError },
+            { data: budgetData },
+            { data: preferencesData },
+          ] = await Promise.all([
+            fetchLists(activeHouseholdId),
+            fetchBudgetStatus(activeHouseholdId),
+            fetchHouseholdPreferences(activeHouseholdId),
+          ]);
+          budget = budgetData;
+          preferences = preferencesData;
 
-          if (listError) {
-            logSupabaseError('lists.select', listError, {
-              screen: 'Home',
-              activeHouseholdId,
-            });
-          } else if (listData) {
+          if (preferences?.cadence && lists && lists.length > 0) {
+            const { data: lastChecked, error: historyError } = await supabase
+              .from('list_history')
+              .select('created_at')
+              .in('list_id', lists.map((list) => list.id))
+              .eq('action', 'checked')
+              .order('created_at', { ascending: false })
+              .limit(1)
+              .maybeSingle();
+
+            if (historyError) {
+              logSupabaseError('list_history.select', historyError, {
+                screen: 'Home',
+                activeHouseholdId,
+              });
+            } else {
+              lastShoppedAt = lastChecked?.created_at ?? null;
+            }
+          }
+          const listData = resolveActiveList(lists ?? [], activeListId);
+
+          if (!listError && listData) {
             listName = listData.name;
 
-            const { count, error: countError } = await supabase
+            const { data: openRows, error: itemsError } = await supabase
               .from('items')
-              .select('id', { head: true, count: 'exact' })
+              .select('quantity, unit, price_estimate')
               .eq('list_id', listData.id)
               .eq('checked', false);
 
-            if (countError) {
-              logSupabaseError('items.select', countError, {
+            if (itemsError) {
+              logSupabaseError('items.select', itemsError, {
                 screen: 'Home',
                 listId: listData.id,
               });
             } else {
-              openItems = count ?? 0;
+              const rows = openRows ?? [];
+              const totals = summarizeTotals(
+                rows.map((row) => ({
+                  quantity: Number(row.quantity),
+                  unit: row.unit,
+                  priceEstimate: row.price_estimate == null ? null : Number(row.price_estimate),
+                })),
+              );
+              openItems = rows.length;
+              openTotal = totals.pricedCount > 0 ? totals.remaining : null;
             }
           }
         }
@@ -317,6 +380,10 @@ export default function HomeScreen() {
                   memberCount: memberCount ?? 1,
                   listName,
                   openItems,
+                  openTotal,
+                  budget,
+                  preferences,
+                  lastShoppedAt,
                 }
               : null,
           );
@@ -335,7 +402,7 @@ export default function HomeScreen() {
     return () => {
       isMounted = false;
     };
-  }, [session, activeHouseholdId]);
+  }, [session, activeHouseholdId, activeListId]);
 
   const greetingName = useMemo(() => {
     const metadataName = (session?.user?.user_metadata?.full_name as string | undefined)?.trim();
@@ -358,9 +425,31 @@ export default function HomeScreen() {
 
   const nextMission = FAMILY_MISSIONS[0];
 
+  const budgetProjection = useMemo(() => projectBudget(snapshot?.budget ?? null), [snapshot]);
+
+  const reminder = useMemo(
+    () =>
+      planShoppingReminder(
+        snapshot?.preferences?.cadence ?? null,
+        snapshot?.lastShoppedAt ? new Date(snapshot.lastShoppedAt) : null,
+        snapshot?.openItems ?? 0,
+        now,
+      ),
+    [snapshot, now],
+  );
+
+  const homeSections = useMemo(
+    () => prioritizeHomeSections(snapshot?.preferences?.focus ?? null),
+    [snapshot],
+  );
+
   const heroNarrative = activeHouseholdId
     ? `${weekday} ${dateLabel} • ${
-        snapshot?.listName ? `focus: ${snapshot.listName}` : 'check samen wat er speelt'
+        reminder
+          ? reminder.label
+          : snapshot?.listName
+            ? `focus: ${snapshot.listName}`
+            : 'check samen wat er speelt'
       }.`
     : 'Maak een huishouden aan en nodig de rest van de familie uit.';
 
@@ -376,8 +465,8 @@ export default function HomeScreen() {
     toast('Deze functie komt binnenkort beschikbaar.');
   };
 
-  const handlePlanMoment = () => {
-    toast('Gezinsplanning komt binnenkort beschikbaar.');
+  const handlePlanMeals = () => {
+    router.push('/meal-planner');
   };
 
   const heroHighlights = useMemo(
@@ -388,7 +477,11 @@ export default function HomeScreen() {
         label: 'Boodschappen',
         value:
           snapshot?.openItems != null ? `${snapshot.openItems} open` : 'Nog leeg',
-        detail: snapshot?.listName ?? 'Start met een lijst',
+        detail: snapshot?.listName
+          ? snapshot.openTotal != null
+            ? `${snapshot.listName} • ≈ ${formatEuro(snapshot.openTotal)}`
+            : snapshot.listName
+          : 'Start met een lijst',
       },
       {
         id: 'household',
@@ -432,6 +525,255 @@ export default function HomeScreen() {
     ? 'Log in om jouw gezinsoverzicht te zien.'
     : 'Geen huishouden gekoppeld. Ga naar je profiel om er een te kiezen of te maken.';
 
+  const sectionContent: Record<HomeSection, ReactNode> = {
+    overview: (
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Gezinskompas</Text>
+          <TouchableOpacity onPress={() => router.push('/(tabs)/profile')}>
+            <Text style={styles.linkText}>Huishouden beheren</Text>
+          </TouchableOpacity>
+        </View>
+        <View style={styles.summaryCard}>
+          {!session || !activeHouseholdId ? (
+            <>
+              <Text style={styles.summaryText}>{emptyStateLabel}</Text>
+              <View style={styles.buttonWrapper}>
+                <Button
+                  title={session ? 'Ga naar profiel' : 'Inloggen'}
+                  onPress={() => router.push('/(tabs)/profile')}
+                  variant="ghost"
+                />
+              </View>
+            </>
+          ) : (
+            <>
+              <View style={styles.summaryRow}>
+                <View>
+                  <Text style={styles.summaryLabel}>Actief huishouden</Text>
+                  <Text style={styles.summaryPrimary}>{snapshot?.name ?? 'Huishouden'}</Text>
+                </View>
+                {loadingSnapshot && <ActivityIndicator color={colors.primaryDark} />}
+              </View>
+              <View style={styles.statsRow}>
+                <View style={styles.statBubble}>
+                  <Feather name="users" size={18} color={colors.primaryDark} />
+                  <Text style={styles.statText}>
+                    {snapshot?.memberCount ?? '—'} gezinsleden
+                  </Text>
+                </View>
+                <View style={styles.statBubble}>
+                  <Feather name="shopping-cart" size={18} color={colors.primaryDark} />
+                  <Text style={styles.statText}>
+                    {snapshot?.openItems ?? 0} open boodschappen
+                  </Text>
+                </View>
+              </View>
+              <Text style={styles.summaryHint}>
+                {snapshot?.listName
+                  ? `Actieve lijst: ${snapshot.listName}`
+                  : 'Maak een lijst in het boodschappen-tabje om te beginnen.'}
+              </Text>
+              <TouchableOpacity
+                style={styles.inlineLink}
+                onPress={handleNavigateToGroceries}
+                accessibilityRole="button">
+                <Text style={styles.inlineLinkText}>Spring naar boodschappenlijst</Text>
+                <Feather name="arrow-right" size={16} color={colors.primaryDark} />
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </View>
+    ),
+    budget:
+      session && activeHouseholdId && snapshot?.budget ? (
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Budget</Text>
+            <TouchableOpacity onPress={() => router.push('/(tabs)/profile')}>
+              <Text style={styles.linkText}>Aanpassen</Text>
+            </TouchableOpacity>
+          </View>
+          <View style={styles.summaryCard}>
+            {budgetProjection ? (
+              <>
+                <View style={styles.summaryRow}>
+                  <View>
+                    <Text style={styles.summaryLabel}>
+                      Gepland {describeBudgetPeriod(snapshot.budget.period)}
+                    </Text>
+                    <Text style={styles.summaryPrimary}>
+                      {formatEuro(budgetProjection.projected)} van {formatEuro(budgetProjection.amount)}
+                    </Text>
+                  </View>
+                  <Feather
+                    name={budgetProjection.overBudget ? 'alert-triangle' : 'pie-chart'}
+                    size={22}
+                    color={budgetProjection.overBudget ? colors.error : colors.primaryDark}
+                  />
+                </View>
+                <View style={styles.progressTrack}>
+                  <View
+                    style={[
+                      styles.progressFill,
+                      budgetProjection.overBudget && styles.progressFillOver,
+                      { width: `${Math.min(budgetProjection.ratio, 1) * 100}%` },
+                    ]}
+                  />
+                </View>
+                <Text style={styles.summaryHint}>
+                  Uitgegeven {formatEuro(budgetProjection.spent)} • nog open ≈{' '}
+                  {formatEuro(snapshot.budget.openEstimate)}
+                </Text>
+                <Text style={[styles.summaryHint, budgetProjection.overBudget && styles.budgetWarning]}>
+                  {budgetProjection.overBudget
+                    ? `Let op: de schatting ligt ${formatEuro(-budgetProjection.remaining)} boven het budget.`
+                    : `Nog ${formatEuro(budgetProjection.remaining)} over na de open boodschappen.`}
+                </Text>
+              </>
+            ) : (
+              <Text style={styles.summaryText}>
+                Nog geen budget ingesteld. De eigenaar van het huishouden kan een week- of maandbudget
+                instellen in het profiel.
+              </Text>
+            )}
+          </View>
+        </View>
+      ) : null,
+    missions: (
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Gezinssprint</Text>
+          <TouchableOpacity onPress={handlePlanMeals}>
+            <Text style={styles.linkText}>Plan samen</Text>
+          </TouchableOpacity>
+        </View>
+        <View style={styles.missionList}>
+          {FAMILY_MISSIONS.map((mission) => (
+            <View key={mission.id} style={styles.missionCard}>
+              <View style={[styles.missionTag, { backgroundColor: mission.accent }] }>
+                <Text style={styles.missionTagText}>{mission.tag}</Text>
+              </View>
+              <Text style={styles.missionTitle}>{mission.title}</Text>
+              <Text style={styles.missionDetail}>{mission.detail}</Text>
+              <Text style={styles.missionOwner}>Eigenaar: {mission.owner}</Text>
+              <View style={styles.progressTrack}>
+                <View style={[styles.progressFill, { width: `${mission.progress * 100}%` }]} />
+              </View>
+            </View>
+          ))}
+        </View>
+      </View>
+    ),
+    quickActions: (
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Snelle acties</Text>
+          <Text style={styles.sectionHint}>Pak direct een taakje op</Text>
+        </View>
+        <View style={styles.quickGrid}>
+          {quickRows.map((row, rowIndex) => (
+            <View style={styles.quickRow} key={`quick-row-${rowIndex}`}>
+              {row.map((action) => (
+                <TouchableOpacity
+                  key={action.id}
+                  style={styles.quickAction}
+                  onPress={() => handleActionPress(action)}
+                  activeOpacity={0.85}>
+                  <View style={[styles.quickIcon, { backgroundColor: action.accent }]}>
+                    <Feather name={action.icon} size={18} color="#fff" />
+                  </View>
+                  <Text style={styles.quickTitle}>{action.title}</Text>
+                  <Text style={styles.quickDescription}>{action.description}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          ))}
+        </View>
+      </View>
+    ),
+    board: (
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Gezinsbord</Text>
+          <Text style={styles.sectionHint}>Bewaar leuke momenten en reminders</Text>
+        </View>
+        <View style={styles.connectionList}>
+          {CONNECTION_BOARD.map((card) => (
+            <View key={card.id} style={styles.connectionCard}>
+              <Text style={styles.connectionEmoji}>{card.emoji}</Text>
+              <View style={styles.connectionBody}>
+                <Text style={styles.connectionTitle}>{card.title}</Text>
+                <Text style={styles.connectionNote}>{card.note}</Text>
+                <Text style={styles.connectionFootnote}>{card.footnote}</Text>
+              </View>
+            </View>
+          ))}
+        </View>
+      </View>
+    ),
+    agenda: (
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Gezamenlijke agenda</Text>
+          <Text style={styles.sectionHint}>Weekoverzicht voor het hele gezin</Text>
+        </View>
+        <View style={styles.timeline}>
+          {SHARED_AGENDA.map((item, index) => (
+            <View key={item.id} style={styles.timelineRow}>
+              <View style={styles.timelineBulletWrapper}>
+                <View style={styles.timelineLineTop}>
+                  {index !== 0 && <View style={styles.timelineLine} />}
+                </View>
+                <View style={[styles.timelineBullet, { backgroundColor: item.accent }]} />
+                <View style={styles.timelineLineBottom}>
+                  {index !== SHARED_AGENDA.length - 1 && <View style={styles.timelineLine} />}
+                </View>
+              </View>
+              <View style={[styles.timelineCard, { backgroundColor: item.accent }]}>
+                <View style={styles.agendaMetaRow}>
+                  <Text style={styles.agendaDay}>{item.day}</Text>
+                  <Text style={styles.agendaTime}>{item.time}</Text>
+                </View>
+                <Text style={styles.highlightTitle}>{item.title}</Text>
+                <Text style={styles.agendaOwner}>Organisator: {item.owner}</Text>
+                {item.location ? <Text style={styles.agendaLocation}>📍 {item.location}</Text> : null}
+                <Text style={styles.agendaNote}>{item.note}</Text>
+              </View>
+            </View>
+          ))}
+        </View>
+      </View>
+    ),
+    inspiration: (
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Gezellige inspiratie</Text>
+          <Text style={styles.sectionHint}>Voor als je even iets leuks wilt plannen</Text>
+        </View>
+        <View style={styles.inspirationGrid}>
+          {inspirationRows.map((row, rowIndex) => (
+            <View style={styles.inspirationRow} key={`inspiration-row-${rowIndex}`}>
+              {row.map((card) => (
+                <View
+                  key={card.id}
+                  style={[styles.inspirationCard, { backgroundColor: card.background }]}>
+                  <Text style={styles.inspirationEmoji}>{card.emoji}</Text>
+                  <Text style={styles.inspirationTitle}>{card.title}</Text>
+                  <Text style={styles.inspirationDescription}>{card.description}</Text>
+                </View>
+              ))}
+              {row.length < 2 ? (
+                <View style={[styles.inspirationCard, styles.inspirationPlaceholder]} />
+              ) : null}
+            </View>
+          ))}
+        </View>
+      </View>
+    ),
+  };
+
   return (
     <SafeAreaView style={styles.safe}>
       <ScrollView contentContainerStyle={styles.scrollContent}>
@@ -470,197 +812,16 @@ export default function HomeScreen() {
           </View>
           <View style={styles.heroButtonRow}>
             <Button title="Open boodschappenlijst" onPress={handleNavigateToGroceries} />
-            <TouchableOpacity style={styles.heroSecondaryButton} onPress={handlePlanMoment}>
+            <TouchableOpacity style={styles.heroSecondaryButton} onPress={handlePlanMeals}>
               <Feather name="calendar" size={16} color={colors.surface} />
-              <Text style={styles.heroSecondaryButtonText}>Plan gezinsmoment</Text>
+              <Text style={styles.heroSecondaryButtonText}>Plan het weekmenu</Text>
             </TouchableOpacity>
           </View>
         </LinearGradient>
 
-        <View style={styles.section}>
-          <View style={styles.sectionHeader}>
-            <Text style={styles.sectionTitle}>Gezinskompas</Text>
-            <TouchableOpacity onPress={() => router.push('/(tabs)/profile')}>
-              <Text style={styles.linkText}>Huishouden beheren</Text>
-            </TouchableOpacity>
-          </View>
-          <View style={styles.summaryCard}>
-            {!session || !activeHouseholdId ? (
-              <>
-                <Text style={styles.summaryText}>{emptyStateLabel}</Text>
-                <View style={styles.buttonWrapper}>
-                  <Button
-                    title={session ? 'Ga naar profiel' : 'Inloggen'}
-                    onPress={() => router.push('/(tabs)/profile')}
-                    variant="ghost"
-                  />
-                </View>
-              </>
-            ) : (
-              <>
-                <View style={styles.summaryRow}>
-                  <View>
-                    <Text style={styles.summaryLabel}>Actief huishouden</Text>
-                    <Text style={styles.summaryPrimary}>{snapshot?.name ?? 'Huishouden'}</Text>
-                  </View>
-                  {loadingSnapshot && <ActivityIndicator color={colors.primaryDark} />}
-                </View>
-                <View style={styles.statsRow}>
-                  <View style={styles.statBubble}>
-                    <Feather name="users" size={18} color={colors.primaryDark} />
-                    <Text style={styles.statText}>
-                      {snapshot?.memberCount ?? '—'} gezinsleden
-                    </Text>
-                  </View>
-                  <View style={styles.statBubble}>
-                    <Feather name="shopping-cart" size={18} color={colors.primaryDark} />
-                    <Text style={styles.statText}>
-                      {snapshot?.openItems ?? 0} open boodschappen
-                    </Text>
-                  </View>
-                </View>
-                <Text style={styles.summaryHint}>
-                  {snapshot?.listName
-                    ? `Laatste lijst: ${snapshot.listName}`
-                    : 'Maak een lijst in het boodschappen-tabje om te beginnen.'}
-                </Text>
-                <TouchableOpacity
-                  style={styles.inlineLink}
-                  onPress={handleNavigateToGroceries}
-                  accessibilityRole="button">
-                  <Text style={styles.inlineLinkText}>Spring naar boodschappenlijst</Text>
-                  <Feather name="arrow-right" size={16} color={colors.primaryDark} />
-                </TouchableOpacity>
-              </>
-            )}
-          </View>
-        </View>
-
-        <View style={styles.section}>
-          <View style={styles.sectionHeader}>
-            <Text style={styles.sectionTitle}>Gezinssprint</Text>
-            <TouchableOpacity onPress={() => toast('Planning binnenkort beschikbaar') }>
-              <Text style={styles.linkText}>Plan samen</Text>
-            </TouchableOpacity>
-          </View>
-          <View style={styles.missionList}>
-            {FAMILY_MISSIONS.map((mission) => (
-              <View key={mission.id} style={styles.missionCard}>
-                <View style={[styles.missionTag, { backgroundColor: mission.accent }] }>
-                  <Text style={styles.missionTagText}>{mission.tag}</Text>
-                </View>
-                <Text style={styles.missionTitle}>{mission.title}</Text>
-                <Text style={styles.missionDetail}>{mission.detail}</Text>
-                <Text style={styles.missionOwner}>Eigenaar: {mission.owner}</Text>
-                <View style={styles.progressTrack}>
-                  <View style={[styles.progressFill, { width: `${mission.progress * 100}%` }]} />
-                </View>
-              </View>
-            ))}
-          </View>
-        </View>
-
-        <View style={styles.section}>
-          <View style={styles.sectionHeader}>
-            <Text style={styles.sectionTitle}>Snelle acties</Text>
-            <Text style={styles.sectionHint}>Pak direct een taakje op</Text>
-          </View>
-          <View style={styles.quickGrid}>
-            {quickRows.map((row, rowIndex) => (
-              <View style={styles.quickRow} key={`quick-row-${rowIndex}`}>
-                {row.map((action) => (
-                  <TouchableOpacity
-                    key={action.id}
-                    style={styles.quickAction}
-                    onPress={() => handleActionPress(action)}
-                    activeOpacity={0.85}>
-                    <View style={[styles.quickIcon, { backgroundColor: action.accent }]}>
-                      <Feather name={action.icon} size={18} color="#fff" />
-                    </View>
-                    <Text style={styles.quickTitle}>{action.title}</Text>
-                    <Text style={styles.quickDescription}>{action.description}</Text>
-                  </TouchableOpacity>
-                ))}
-              </View>
-            ))}
-          </View>
-        </View>
-
-        <View style={styles.section}>
-          <View style={styles.sectionHeader}>
-            <Text style={styles.sectionTitle}>Gezinsbord</Text>
-            <Text style={styles.sectionHint}>Bewaar leuke momenten en reminders</Text>
-          </View>
-          <View style={styles.connectionList}>
-            {CONNECTION_BOARD.map((card) => (
-              <View key={card.id} style={styles.connectionCard}>
-                <Text style={styles.connectionEmoji}>{card.emoji}</Text>
-                <View style={styles.connectionBody}>
-                  <Text style={styles.connectionTitle}>{card.title}</Text>
-                  <Text style={styles.connectionNote}>{card.note}</Text>
-                  <Text style={styles.connectionFootnote}>{card.footnote}</Text>
-                </View>
-              </View>
-            ))}
-          </View>
-        </View>
-
-        <View style={styles.section}>
-          <View style={styles.sectionHeader}>
-            <Text style={styles.sectionTitle}>Gezamenlijke agenda</Text>
-            <Text style={styles.sectionHint}>Weekoverzicht voor het hele gezin</Text>
-          </View>
-          <View style={styles.timeline}>
-            {SHARED_AGENDA.map((item, index) => (
-              <View key={item.id} style={styles.timelineRow}>
-                <View style={styles.timelineBulletWrapper}>
-                  <View style={styles.timelineLineTop}>
-                    {index !== 0 && <View style={styles.timelineLine} />}
-                  </View>
-                  <View style={[styles.timelineBullet, { backgroundColor: item.accent }]} />
-                  <View style={styles.timelineLineBottom}>
-                    {index !== SHARED_AGENDA.length - 1 && <View style={styles.timelineLine} />}
-                  </View>
-                </View>
-                <View style={[styles.timelineCard, { backgroundColor: item.accent }]}>
-                  <View style={styles.agendaMetaRow}>
-                    <Text style={styles.agendaDay}>{item.day}</Text>
-                    <Text style={styles.agendaTime}>{item.time}</Text>
-                  </View>
-                  <Text style={styles.highlightTitle}>{item.title}</Text>
-                  <Text style={styles.agendaOwner}>Organisator: {item.owner}</Text>
-                  {item.location ? <Text style={styles.agendaLocation}>📍 {item.location}</Text> : null}
-                  <Text style={styles.agendaNote}>{item.note}</Text>
-                </View>
-              </View>
-            ))}
-          </View>
-        </View>
-
-        <View style={styles.section}>
-          <View style={styles.sectionHeader}>
-            <Text style={styles.sectionTitle}>Gezellige inspiratie</Text>
-            <Text style={styles.sectionHint}>Voor als je even iets leuks wilt plannen</Text>
-          </View>
-          <View style={styles.inspirationGrid}>
-            {inspirationRows.map((row, rowIndex) => (
-              <View style={styles.inspirationRow} key={`inspiration-row-${rowIndex}`}>
-                {row.map((card) => (
-                  <View
-                    key={card.id}
-                    style={[styles.inspirationCard, { backgroundColor: card.background }]}>
-                    <Text style={styles.inspirationEmoji}>{card.emoji}</Text>
-                    <Text style={styles.inspirationTitle}>{card.title}</Text>
-                    <Text style={styles.inspirationDescription}>{card.description}</Text>
-                  </View>
-                ))}
-                {row.length < 2 ? (
-                  <View style={[styles.inspirationCard, styles.inspirationPlaceholder]} />
-                ) : null}
-              </View>
-            ))}
-          </View>
-        </View>
+        {homeSections.map((section) => (
+          <Fragment key={section}>{sectionContent[section]}</Fragment>
+        ))}
       </ScrollView>
     </SafeAreaView>
   );
@@ -908,6 +1069,13 @@ const styles = StyleSheet.create({
     backgroundColor: colors.primary,
     borderRadius: radius.pill,
   },
+  progressFillOver: {
+    backgroundColor: colors.error,
+  },
+  budgetWarning: {
+    color: colors.error,
+    fontWeight: '600',
+  },
   quickGrid: {
     gap: spacing.md,
   },
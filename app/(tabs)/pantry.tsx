@@ -0,0 +1,726 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+
+import { Button } from '@/components/Button';
+import { TextField } from '@/components/TextField';
+import { classifyItem, emojiForItem } from '@/lib/catalog';
+import { fetchLists, resolveActiveList, type GroceryList } from '@/lib/lists';
+import {
+  addPantryItem,
+  addPantryItemToList,
+  deletePantryItem,
+  describeExpiry,
+  expiryState,
+  fetchPantry,
+  isBelowMinimum,
+  parseBestBeforeInput,
+  sortPantry,
+  updatePantryItem,
+  type PantryItem,
+} from '@/lib/pantry';
+import { isSupabaseConfigured, supabase } from '@/lib/supabase';
+import { colors, radius, spacing, textStyles } from '@/lib/theme';
+import {
+  clampQuantity,
+  formatQuantity,
+  formatQuantityNumber,
+  parseItemInput,
+  parseQuantityValue,
+} from '@/lib/units';
+import { useActiveHousehold, useActiveList } from '@/state/sessionStore';
+import { toast } from '@/utils/toast';
+
+/** Stapgrootte van de +/- knoppen: per 100 bij grammen en milliliters. */
+function quantityStep(unit: string) {
+  return unit === 'g' || unit === 'ml' ? 100 : 1;
+}
+
+export default function PantryScreen() {
+  const { activeHouseholdId } = useActiveHousehold();
+  const { activeListId } = useActiveList();
+  const [items, setItems] = useState<PantryItem[]>([]);
+  const [lists, setLists] = useState<GroceryList[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [newItem, setNewItem] = useState('');
+  const [newBestBefore, setNewBestBefore] = useState('');
+  const [bestBeforeError, setBestBeforeError] = useState<string | undefined>();
+  const [adding, setAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingBestBefore, setEditingBestBefore] = useState('');
+  const [editingMinimum, setEditingMinimum] = useState('');
+  const [editingRestockListId, setEditingRestockListId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadPantry = useCallback(async () => {
+    if (!activeHouseholdId) {
+      setItems([]);
+      setLists([]);
+      setLoading(false);
+      return;
+    }
+    const [{ data, error }, { data: listData }] = await Promise.all([
+      fetchPantry(activeHouseholdId),
+      fetchLists(activeHouseholdId),
+    ]);
+    if (error) {
+      toast('Voorraad laden is niet gelukt.');
+    }
+    setItems(data ?? []);
+    setLists(listData ?? []);
+    setLoading(false);
+  }, [activeHouseholdId]);
+
+  useEffect(() => {
+    setLoading(true);
+    void loadPantry();
+  }, [loadPantry]);
+
+  useEffect(() => {
+    const client = supabase;
+    if (!activeHouseholdId || !isSupabaseConfigured || !client) {
+      return;
+    }
+    // Afvinken op de lijst vult de voorraad aan, ook bij andere gezinsleden.
+    const channel = client
+      .channel(`pantry-${activeHouseholdId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'pantry_items',
+          filter: `household_id=eq.${activeHouseholdId}`,
+        },
+        () => {
+          void loadPantry();
+        },
+      )
+      .subscribe();
+
+    return () => {
+      void client.removeChannel(channel);
+    };
+  }, [activeHouseholdId, loadPantry]);
+
+  const sortedItems = useMemo(() => sortPantry(items), [items]);
+  const useSoonCount = useMemo(
+    () =>
+      items.filter((item) => {
+        const state = expiryState(item.bestBefore);
+        return item.quantity > 0 && (state === 'soon' || state === 'expired');
+      }).length,
+    [items],
+  );
+  const activeList = useMemo(
+    () => resolveActiveList(lists, activeListId),
+    [activeListId, lists],
+  );
+  const openLists = useMemo(() => lists.filter((list) => !list.archivedAt), [lists]);
+
+  const replaceItem = useCallback((updated: PantryItem) => {
+    setItems((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+  }, []);
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadPantry();
+    setRefreshing(false);
+  }, [loadPantry]);
+
+  const handleAdd = useCallback(async () => {
+    if (!activeHouseholdId) return;
+    const parsed = parseItemInput(newItem);
+    if (!parsed.name) {
+      toast('Vul in wat er in huis is, bijv. "2 pak melk".');
+      return;
+    }
+    const bestBefore = parseBestBeforeInput(newBestBefore);
+    if (!bestBefore.valid) {
+      setBestBeforeError('Gebruik dag-maand, bijv. 12-11.');
+      return;
+    }
+    setAdding(true);
+    const { data, error } = await addPantryItem(
+      activeHouseholdId,
+      {
+        name: parsed.name,
+        quantity: parsed.quantity,
+        unit: parsed.unit,
+        category: classifyItem(parsed.name).category,
+        bestBefore: bestBefore.value,
+      },
+      items,
+    );
+    setAdding(false);
+    if (error || !data) {
+      toast('Toevoegen aan de voorraad is niet gelukt.');
+      return;
+    }
+    setItems((prev) => [...prev.filter((item) => item.id !== data.id), data]);
+    setNewItem('');
+    setNewBestBefore('');
+    setBestBeforeError(undefined);
+  }, [activeHouseholdId, items, newBestBefore, newItem]);
+
+  /** Past het aantal direct aan en zet het terug als opslaan mislukt. */
+  const handleAdjust = useCallback(
+    async (item: PantryItem, direction: -1 | 1) => {
+      const quantity =
+        direction > 0
+          ? clampQuantity(item.quantity + quantityStep(item.unit))
+          : Math.max(
+              Math.round((item.quantity - quantityStep(item.unit)) * 100) / 100,
+              0,
+            );
+      if (quantity === item.quantity) return;
+      void Haptics.selectionAsync();
+      replaceItem({ ...item, quantity });
+      const { data, error } = await updatePantryItem(item.id, { quantity });
+      if (error || !data) {
+        replaceItem(item);
+        toast('Voorraad bijwerken is niet gelukt.');
+        return;
+      }
+      replaceItem(data);
+      if (isBelowMinimum(data) && !isBelowMinimum(item)) {
+        toast(`Te weinig "${item.name}" in huis: het tekort staat op de lijst.`);
+      } else if (quantity === 0 && data.minQuantity == null) {
+        toast(`"${item.name}" is op. Zet het terug op de lijst met het winkelwagentje.`);
+      }
+    },
+    [replaceItem],
+  );
+
+  const handleOpenDetails = useCallback((item: PantryItem) => {
+    setEditingId((current) => (current === item.id ? null : item.id));
+    setEditingBestBefore(item.bestBefore ? formatDateInput(item.bestBefore) : '');
+    setEditingMinimum(
+      item.minQuantity != null ? formatQuantityNumber(item.minQuantity) : '',
+    );
+    setEditingRestockListId(item.restockListId);
+  }, []);
+
+  const handleSaveDetails = useCallback(
+    async (item: PantryItem) => {
+      const bestBefore = parseBestBeforeInput(editingBestBefore);
+      if (!bestBefore.valid) {
+        toast('Gebruik dag-maand, bijv. 12-11.');
+        return;
+      }
+      const minQuantity = editingMinimum.trim()
+        ? parseQuantityValue(editingMinimum)
+        : null;
+      if (editingMinimum.trim() && minQuantity == null) {
+        toast('Vul als minimum een aantal groter dan 0 in, of laat het leeg.');
+        return;
+      }
+      setBusyId(item.id);
+      const { data, error } = await updatePantryItem(item.id, {
+        bestBefore: bestBefore.value,
+        minQuantity,
+        restockListId: minQuantity != null ? editingRestockListId : null,
+      });
+      setBusyId(null);
+      if (error || !data) {
+        toast('Opslaan is niet gelukt.');
+        return;
+      }
+      replaceItem(data);
+      setEditingId(null);
+      if (isBelowMinimum(data)) {
+        const target =
+          openLists.find((list) => list.id === data.restockListId) ?? openLists[0];
+        toast(
+          `Te weinig "${data.name}" in huis: het tekort staat op ${target?.name ?? 'je lijst'}.`,
+        );
+      }
+    },
+    [editingBestBefore, editingMinimum, editingRestockListId, openLists, replaceItem],
+  );
+
+  const handleAddToList = useCallback(
+    async (item: PantryItem) => {
+      // Terug naar de lijst waar het vandaan kwam, zolang die nog actief is.
+      const target =
+        lists.find((list) => list.id === item.sourceListId && !list.archivedAt) ??
+        activeList;
+      if (!target) {
+        toast('Maak eerst een boodschappenlijst aan.');
+        return;
+      }
+      setBusyId(item.id);
+      const { data, error } = await addPantryItemToList(target.id, item);
+      setBusyId(null);
+      if (error || !data) {
+        toast('Op de lijst zetten is niet gelukt.');
+        return;
+      }
+      if (data === 'already') {
+        toast(`"${item.name}" staat al op ${target.name}.`);
+        return;
+      }
+      void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      toast(`"${item.name}" staat weer op ${target.name}.`);
+    },
+    [activeList, lists],
+  );
+
+  const handleDelete = useCallback((item: PantryItem) => {
+    Alert.alert(`"${item.name}" uit de voorraad halen?`, undefined, [
+      { text: 'Annuleren', style: 'cancel' },
+      {
+        text: 'Verwijderen',
+        style: 'destructive',
+        onPress: async () => {
+          setBusyId(item.id);
+          const { error } = await deletePantryItem(item.id);
+          setBusyId(null);
+          if (error) {
+            toast('Verwijderen is niet gelukt.');
+            return;
+          }
+          setItems((prev) => prev.filter((option) => option.id !== item.id));
+        },
+      },
+    ]);
+  }, []);
+
+  const renderItem = (item: PantryItem) => {
+    const state = expiryState(item.bestBefore);
+    const expiry = describeExpiry(item.bestBefore);
+    const isEmpty = item.quantity <= 0;
+    const isEditing = editingId === item.id;
+    const isBusy = busyId === item.id;
+
+    return (
+      <View
+        key={item.id}
+        style={[
+          styles.itemCard,
+          state === 'soon' && !isEmpty && styles.itemCardSoon,
+          state === 'expired' && !isEmpty && styles.itemCardExpired,
+          isEmpty && styles.itemCardEmpty,
+        ]}>
+        <View style={styles.itemRow}>
+          <Text style={styles.itemEmoji}>{emojiForItem(item.name)}</Text>
+          <TouchableOpacity
+            style={styles.itemBody}
+            accessibilityHint="Tik voor houdbaarheid en minimum"
+            onPress={() => handleOpenDetails(item)}
+            onLongPress={() => handleDelete(item)}>
+            <Text style={styles.itemName} numberOfLines={1}>
+              {item.name}
+            </Text>
+            <Text
+              style={[
+                styles.itemMeta,
+                state === 'soon' && !isEmpty && styles.itemMetaSoon,
+                state === 'expired' && !isEmpty && styles.itemMetaExpired,
+              ]}>
+              {[
+                isEmpty ? 'Op' : formatQuantity(item.quantity, item.unit),
+                isEmpty ? null : expiry,
+                item.minQuantity != null
+                  ? `min. ${formatQuantity(item.minQuantity, item.unit)}`
+                  : null,
+              ]
+                .filter(Boolean)
+                .join(' · ')}
+            </Text>
+            {isBelowMinimum(item) ? (
+              <Text style={styles.restockText}>Tekort staat op de lijst</Text>
+            ) : null}
+          </TouchableOpacity>
+          {isBusy ? (
+            <ActivityIndicator size="small" color={palette.deepClay} />
+          ) : (
+            <>
+              <TouchableOpacity
+                style={styles.iconButton}
+                accessibilityLabel="Minder"
+                disabled={isEmpty}
+                onPress={() => handleAdjust(item, -1)}>
+                <Feather
+                  name="minus"
+                  size={16}
+                  color={isEmpty ? colors.border : palette.deepClay}
+                />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.iconButton}
+                accessibilityLabel="Meer"
+                onPress={() => handleAdjust(item, 1)}>
+                <Feather name="plus" size={16} color={palette.deepClay} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.iconButton, isEmpty && styles.listButtonEmpty]}
+                accessibilityLabel="Op de boodschappenlijst zetten"
+                onPress={() => handleAddToList(item)}>
+                <Feather
+                  name="shopping-cart"
+                  size={16}
+                  color={isEmpty ? colors.surface : palette.deepClay}
+                />
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+
+        {isEditing ? (
+          <View style={styles.detailPanel}>
+            <View style={styles.editRow}>
+              <Text style={styles.editLabel}>THT</Text>
+              <TextInput
+                value={editingBestBefore}
+                onChangeText={setEditingBestBefore}
+                placeholder="bijv. 12-11 (leeg = geen datum)"
+                placeholderTextColor={colors.textSecondary}
+                autoFocus
+                returnKeyType="done"
+                onSubmitEditing={() => handleSaveDetails(item)}
+                style={styles.editInput}
+              />
+            </View>
+            <View style={styles.editRow}>
+              <Text style={styles.editLabel}>Altijd in huis</Text>
+              <TextInput
+                value={editingMinimum}
+                onChangeText={setEditingMinimum}
+                placeholder="geen minimum"
+                placeholderTextColor={colors.textSecondary}
+                keyboardType="decimal-pad"
+                returnKeyType="done"
+                onSubmitEditing={() => handleSaveDetails(item)}
+                style={styles.editInput}
+              />
+              <Text style={styles.editUnit}>{item.unit}</Text>
+            </View>
+            {editingMinimum.trim() && openLists.length > 1 ? (
+              <View style={styles.listChips}>
+                <Text style={styles.editLabel}>Aanvullen op</Text>
+                {[null, ...openLists].map((list) => {
+                  const isActive = (list?.id ?? null) === editingRestockListId;
+                  return (
+                    <TouchableOpacity
+                      key={list?.id ?? 'default'}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected: isActive }}
+                      style={[styles.listChip, isActive && styles.listChipActive]}
+                      onPress={() => setEditingRestockListId(list?.id ?? null)}>
+                      <Text
+                        style={[
+                          styles.listChipText,
+                          isActive && styles.listChipTextActive,
+                        ]}
+                        numberOfLines={1}>
+                        {list?.name ?? 'Eerste lijst'}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            ) : null}
+            <View style={styles.detailActions}>
+              <TouchableOpacity
+                style={styles.iconButton}
+                accessibilityLabel="Verwijderen"
+                onPress={() => handleDelete(item)}>
+                <Feather name="trash-2" size={16} color={colors.error} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.saveButton}
+                accessibilityRole="button"
+                onPress={() => handleSaveDetails(item)}>
+                <Feather name="check" size={16} color={colors.surface} />
+                <Text style={styles.saveButtonText}>Opslaan</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : null}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <Text style={styles.headerTitle}>Voorraad</Text>
+      <Text style={styles.headerSubtitle}>
+        Wat je afvinkt komt hier vanzelf bij. Tik een item voor houdbaarheid en minimum.
+      </Text>
+
+      {!activeHouseholdId ? (
+        <Text style={styles.emptyText}>
+          Kies of maak eerst een huishouden op het lijstscherm.
+        </Text>
+      ) : loading ? (
+        <View style={styles.loader}>
+          <ActivityIndicator color={palette.deepClay} />
+          <Text style={styles.loaderText}>Voorraad laden…</Text>
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled"
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+          }>
+          {useSoonCount > 0 ? (
+            <View style={styles.useSoonBanner}>
+              <Feather name="clock" size={16} color={palette.amber} />
+              <Text style={styles.useSoonText}>
+                {useSoonCount === 1
+                  ? '1 item moet snel op.'
+                  : `${useSoonCount} items moeten snel op.`}
+              </Text>
+            </View>
+          ) : null}
+
+          <View style={styles.createCard}>
+            <TextField
+              label="In huis"
+              value={newItem}
+              onChangeText={setNewItem}
+              placeholder="Bijv. 2 pak melk"
+              returnKeyType="next"
+            />
+            <TextField
+              label="Tenminste houdbaar tot (optioneel)"
+              value={newBestBefore}
+              onChangeText={(text) => {
+                setNewBestBefore(text);
+                setBestBeforeError(undefined);
+              }}
+              error={bestBeforeError}
+              placeholder="dd-mm"
+              returnKeyType="done"
+              onSubmitEditing={handleAdd}
+            />
+            <Button title="Aan voorraad toevoegen" onPress={handleAdd} loading={adding} />
+          </View>
+
+          {sortedItems.length > 0 ? (
+            <View style={styles.section}>{sortedItems.map(renderItem)}</View>
+          ) : (
+            <Text style={styles.emptyText}>
+              Nog niets in de voorraad. Vink boodschappen af op je lijst of voeg hierboven
+              iets toe.
+            </Text>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+/** "2026-11-12" → "12-11-2026", zoals je het intypt. */
+function formatDateInput(dateKey: string) {
+  const [year, month, day] = dateKey.split('-');
+  return `${Number(day)}-${Number(month)}-${year}`;
+}
+
+const palette = {
+  deepClay: '#3F2E2C',
+  amber: '#B26A00',
+};
+
+const styles = StyleSheet.create({
+  safe: {
+    flex: 1,
+    backgroundColor: colors.background,
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.lg,
+  },
+  headerTitle: {
+    ...textStyles.title,
+  },
+  headerSubtitle: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+    marginTop: spacing.xs / 2,
+    marginBottom: spacing.md,
+  },
+  loader: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.sm,
+  },
+  loaderText: {
+    color: colors.textSecondary,
+  },
+  content: {
+    paddingBottom: spacing.xl * 2,
+    gap: spacing.lg,
+  },
+  useSoonBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    padding: spacing.md,
+    borderRadius: radius.lg,
+    backgroundColor: 'rgba(255, 179, 0, 0.14)',
+  },
+  useSoonText: {
+    flex: 1,
+    fontWeight: '600',
+    color: palette.amber,
+  },
+  createCard: {
+    backgroundColor: colors.surface,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    gap: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  section: {
+    gap: spacing.sm,
+  },
+  emptyText: {
+    ...textStyles.body,
+    color: colors.textSecondary,
+  },
+  itemCard: {
+    backgroundColor: colors.surface,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    gap: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  itemCardSoon: {
+    borderColor: palette.amber,
+  },
+  itemCardExpired: {
+    borderColor: colors.error,
+  },
+  itemCardEmpty: {
+    opacity: 0.7,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  itemEmoji: {
+    fontSize: 22,
+    marginRight: spacing.xs,
+  },
+  itemBody: {
+    flex: 1,
+    gap: spacing.xs / 2,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  itemMeta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  itemMetaSoon: {
+    color: palette.amber,
+    fontWeight: '600',
+  },
+  itemMetaExpired: {
+    color: colors.error,
+    fontWeight: '600',
+  },
+  iconButton: {
+    padding: spacing.xs,
+    borderRadius: radius.pill,
+  },
+  listButtonEmpty: {
+    backgroundColor: colors.primary,
+  },
+  restockText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.primaryDark,
+  },
+  detailPanel: {
+    gap: spacing.sm,
+  },
+  detailActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.pill,
+    backgroundColor: colors.primary,
+  },
+  saveButtonText: {
+    fontWeight: '600',
+    color: colors.surface,
+  },
+  listChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  listChip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.pill,
+    borderWidth: 1,
+    borderColor: colors.border,
+    maxWidth: 160,
+  },
+  listChipActive: {
+    borderColor: colors.primary,
+    backgroundColor: 'rgba(61, 220, 132, 0.12)',
+  },
+  listChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  listChipTextActive: {
+    color: colors.primaryDark,
+  },
+  editRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  editLabel: {
+    minWidth: 96,
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  editUnit: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  editInput: {
+    flex: 1,
+    fontSize: 16,
+    color: colors.textPrimary,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    paddingVertical: spacing.xs,
+  },
+});
@@ -1,11 +1,52 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
-import { Pressable, RefreshControl, ScrollView, StyleSheet, Text, View } from 'react-native';
+import {
+  Pressable,
+  RefreshControl,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Feather } from '@expo/vector-icons';
 
 import { Button } from '@/components/Button';
 import { TextField } from '@/components/TextField';
+import {
+  BUDGET_PERIOD_OPTIONS,
+  fetchBudgetStatus,
+  updateBudget,
+  type HouseholdBudget,
+} from '@/lib/budget';
+import {
+  HISTORY_RETENTION_OPTIONS,
+  createHousehold,
+  fetchHistoryRetention,
+  updateHistoryRetention,
+  type HistoryRetention,
+} from '@/lib/households';
+import {
+  createInvite,
+  describeJoinError,
+  fetchInvites,
+  isInviteActive,
+  joinHouseholdWithInvite,
+  revokeInvite,
+  type Invite,
+} from '@/lib/invites';
+import {
+  CADENCE_OPTIONS,
+  CREW_OPTIONS,
+  FOCUS_OPTIONS,
+  describeInviteAudience,
+  fetchHouseholdPreferences,
+  toggleCrewMember,
+  updateHouseholdPreferences,
+  type HouseholdPreferences,
+} from '@/lib/preferences';
+import { formatEuro, parseEuroInput } from '@/lib/prices';
 import { isSupabaseConfigured, supabase } from '@/lib/supabase';
 import { colors, radius, spacing, textStyles } from '@/lib/theme';
 import { useActiveHousehold, useSession, useSessionStore } from '@/state/sessionStore';
@@ -15,8 +56,16 @@ import { toast } from '@/utils/toast';
 type Household = {
   id: string;
   name: string;
+  role: 'owner' | 'member';
 };
 
+function formatInviteExpiry(invite: Invite) {
+  return new Date(invite.expiresAt).toLocaleDateString('nl-NL', {
+    day: 'numeric',
+    month: 'long',
+  });
+}
+
 export default function ProfileScreen() {
   const { session } = useSession();
   const { activeHouseholdId, setActiveHouseholdId } = useActiveHousehold();
@@ -32,6 +81,20 @@ export default function ProfileScreen() {
   const [fullName, setFullName] = useState('');
   const [updatingName, setUpdatingName] = useState(false);
   const [signingOut, setSigningOut] = useState(false);
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [loadingInvites, setLoadingInvites] = useState(false);
+  const [creatingInvite, setCreatingInvite] = useState(false);
+  const [revokingInviteId, setRevokingInviteId] = useState<string | null>(null);
+  const [joinCode, setJoinCode] = useState('');
+  const [joining, setJoining] = useState(false);
+  const [retention, setRetention] = useState<HistoryRetention | null>(null);
+  const [savingRetention, setSavingRetention] = useState(false);
+  const [budget, setBudget] = useState<HouseholdBudget | null>(null);
+  const [budgetInput, setBudgetInput] = useState('');
+  const [budgetError, setBudgetError] = useState<string | undefined>();
+  const [savingBudget, setSavingBudget] = useState(false);
+  const [preferences, setPreferences] = useState<HouseholdPreferences | null>(null);
+  const [savingPreferences, setSavingPreferences] = useState(false);
 
   const displayName = useMemo(() => {
     const clean = fullName.trim();
@@ -43,10 +106,14 @@ export default function ProfileScreen() {
     return emailName ?? 'familie';
   }, [fullName, session?.user?.user_metadata?.full_name, session?.user?.email]);
 
-  const activeHouseholdName = useMemo(
-    () => households.find((household) => household.id === activeHouseholdId)?.name ?? null,
+  const activeHousehold = useMemo(
+    () => households.find((household) => household.id === activeHouseholdId) ?? null,
     [households, activeHouseholdId],
   );
+  const activeHouseholdName = activeHousehold?.name ?? null;
+  const isActiveOwner = activeHousehold?.role === 'owner';
+  const inviteAudience = preferences ? describeInviteAudience(preferences.crew) : null;
+  const activeInvites = useMemo(() => invites.filter((invite) => isInviteActive(invite)), [invites]);
 
   const loadHouseholds = useCallback(async () => {
     if (!session) {
@@ -62,7 +129,7 @@ export default function ProfileScreen() {
     setLoadError(null);
     const { data, error } = await supabase
       .from('members')
-      .select('household_id, households(id, name)')
+      .select('household_id, role, households(id, name)')
       .eq('user_id', session.user.id)
       .order('created_at', { ascending: true });
 
@@ -77,7 +144,8 @@ export default function ProfileScreen() {
     const mapped =
       data?.flatMap((row) => {
         const household = row.households as { id: string; name: string } | null;
-        return household ? [{ id: household.id, name: household.name }] : [];
+        const role: Household['role'] = row.role === 'owner' ? 'owner' : 'member';
+        return household ? [{ id: household.id, name: household.name, role }] : [];
       }) ?? [];
 
     setHouseholds(mapped);
@@ -96,6 +164,71 @@ export default function ProfileScreen() {
     setRenameValue(active?.name ?? '');
   }, [households, activeHouseholdId]);
 
+  const loadInvites = useCallback(async () => {
+    if (!activeHouseholdId || !isActiveOwner) {
+      setInvites([]);
+      return;
+    }
+    setLoadingInvites(true);
+    const { data } = await fetchInvites(activeHouseholdId);
+    setInvites(data ?? []);
+    setLoadingInvites(false);
+  }, [activeHouseholdId, isActiveOwner]);
+
+  useEffect(() => {
+    void loadInvites();
+  }, [loadInvites]);
+
+  useEffect(() => {
+    if (!activeHouseholdId || !isActiveOwner) {
+      setRetention(null);
+      return;
+    }
+    let isMounted = true;
+    void fetchHistoryRetention(activeHouseholdId).then(({ data }) => {
+      if (isMounted) {
+        setRetention(data);
+      }
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, [activeHouseholdId, isActiveOwner]);
+
+  useEffect(() => {
+    if (!activeHouseholdId || !isActiveOwner) {
+      setPreferences(null);
+      return;
+    }
+    let isMounted = true;
+    void fetchHouseholdPreferences(activeHouseholdId).then(({ data }) => {
+      if (isMounted) {
+        setPreferences(data);
+      }
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, [activeHouseholdId, isActiveOwner]);
+
+  useEffect(() => {
+    if (!activeHouseholdId || !isActiveOwner) {
+      setBudget(null);
+      return;
+    }
+    let isMounted = true;
+    void fetchBudgetStatus(activeHouseholdId).then(({ data }) => {
+      if (isMounted && data) {
+        setBudget({ amount: data.amount, period: data.period });
+        setBudgetInput(data.amount != null ? String(data.amount).replace('.', ',') : '');
+        setBudgetError(undefined);
+      }
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, [activeHouseholdId, isActiveOwner]);
+
   useEffect(() => {
     const metadataName = (session?.user?.user_metadata?.full_name as string | undefined)?.trim() ?? '';
     setFullName(metadataName);
@@ -119,65 +252,20 @@ export default function ProfileScreen() {
 
     setCreating(true);
 
-    const trimmedName = newHouseholdName.trim();
+    const { data: created, error } = await createHousehold(newHouseholdName);
 
-    const { data: createdHousehold, error: householdError } = await supabase
-      .from('households')
-      .insert({
-        name: trimmedName,
-        owner_id: session.user.id,
-      })
-      .select()
-      .single();
-
-    if (householdError || !createdHousehold) {
-      logSupabaseError('households.insert', householdError, {
-        screen: 'Profile',
-        userId: session.user.id,
-        householdName: trimmedName,
-        hasData: Boolean(createdHousehold),
-      });
+    if (error || !created) {
       toast('Huishouden kon niet worden aangemaakt.');
       setCreating(false);
       return;
     }
 
-    const { error: memberError } = await supabase.from('members').insert({
-      user_id: session.user.id,
-      household_id: createdHousehold.id,
-      role: 'owner',
-    });
-
-    if (memberError) {
-      logSupabaseError('members.insert', memberError, {
-        screen: 'Profile',
-        userId: session.user.id,
-        householdId: createdHousehold.id,
-      });
-      toast('Lid worden van het huishouden is niet gelukt.');
-      setCreating(false);
-      return;
-    }
-
-    const { error: listError } = await supabase.from('lists').insert({
-      household_id: createdHousehold.id,
-      name: 'Hoofdlijst',
-    });
-
-    if (listError) {
-      logSupabaseError('lists.insert', listError, {
-        screen: 'Profile',
-        userId: session.user.id,
-        householdId: createdHousehold.id,
-      });
-      toast('Standaardlijst aanmaken is niet gelukt.');
-      setCreating(false);
-      return;
-    }
-
-    const nextHouseholds = [...households, { id: createdHousehold.id, name: createdHousehold.name }];
+    const nextHouseholds: Household[] = [
+      ...households,
+      { ...created.household, role: 'owner' },
+    ];
     setHouseholds(nextHouseholds);
-    setActiveHouseholdId(createdHousehold.id);
+    setActiveHouseholdId(created.household.id);
     setNewHouseholdName('');
     setCreating(false);
     toast('Huishouden is aangemaakt.');
@@ -234,6 +322,123 @@ export default function ProfileScreen() {
     setRenaming(false);
   };
 
+  const handleCreateInvite = async () => {
+    if (!activeHouseholdId || !isActiveOwner) {
+      toast('Alleen de eigenaar kan uitnodigingen maken.');
+      return;
+    }
+    setCreatingInvite(true);
+    const { data, error } = await createInvite(activeHouseholdId);
+    setCreatingInvite(false);
+    if (error || !data) {
+      toast('Uitnodiging maken is niet gelukt.');
+      return;
+    }
+    setInvites((prev) => [data, ...prev]);
+    await handleShareInvite(data);
+  };
+
+  const handleShareInvite = async (invite: Invite) => {
+    try {
+      await Share.share({
+        message: `Doe mee met ${activeHouseholdName ?? 'ons huishouden'} in Groceo!${
+          preferences?.crew.includes('kids')
+            ? ' Dan kun je zelf toevoegen waar je trek in hebt.'
+            : ''
+        } Gebruik code ${invite.code} (geldig tot ${formatInviteExpiry(invite)}).`,
+      });
+    } catch (error) {
+      console.warn('[Profile] Sharing invite failed', error);
+    }
+  };
+
+  const handleRevokeInvite = async (invite: Invite) => {
+    setRevokingInviteId(invite.id);
+    const { error } = await revokeInvite(invite.id);
+    setRevokingInviteId(null);
+    if (error) {
+      toast('Intrekken is niet gelukt.');
+      return;
+    }
+    setInvites((prev) => prev.filter((existing) => existing.id !== invite.id));
+    toast(`Code ${invite.code} is ingetrokken.`);
+  };
+
+  const handleUpdatePreferences = async (next: HouseholdPreferences) => {
+    if (!activeHouseholdId || !isActiveOwner) return;
+    const previous = preferences;
+    setPreferences(next);
+    setSavingPreferences(true);
+    const { error } = await updateHouseholdPreferences(activeHouseholdId, next);
+    setSavingPreferences(false);
+    if (error) {
+      setPreferences(previous);
+      toast('Voorkeur opslaan is niet gelukt.');
+    }
+  };
+
+  const handleUpdateRetention = async (next: HistoryRetention) => {
+    if (!activeHouseholdId || !isActiveOwner) return;
+    const previous = retention;
+    setRetention(next);
+    setSavingRetention(true);
+    const { error } = await updateHistoryRetention(activeHouseholdId, next);
+    setSavingRetention(false);
+    if (error) {
+      setRetention(previous);
+      toast('Instelling opslaan is niet gelukt.');
+    }
+  };
+
+  const saveBudget = async (next: HouseholdBudget) => {
+    if (!activeHouseholdId || !isActiveOwner) return;
+    setSavingBudget(true);
+    const { error } = await updateBudget(activeHouseholdId, next);
+    setSavingBudget(false);
+    if (error) {
+      toast('Budget opslaan is niet gelukt.');
+      return;
+    }
+    setBudget(next);
+    setBudgetInput(next.amount != null ? String(next.amount).replace('.', ',') : '');
+    toast(
+      next.amount != null
+        ? `Budget staat op ${formatEuro(next.amount)} ${next.period === 'week' ? 'per week' : 'per maand'}.`
+        : 'Budget is weggehaald.',
+    );
+  };
+
+  const handleSaveBudget = async () => {
+    if (!budget) return;
+    const parsed = parseEuroInput(budgetInput);
+    if (!parsed.valid || parsed.value === 0) {
+      setBudgetError('Vul een bedrag in, bijv. 150 of 62,50.');
+      return;
+    }
+    setBudgetError(undefined);
+    await saveBudget({ ...budget, amount: parsed.value });
+  };
+
+  const handleJoinHousehold = async () => {
+    if (!session) return;
+    const trimmed = joinCode.trim();
+    if (trimmed.length < 4) {
+      toast('Vul de gezin-code of uitnodiging in.');
+      return;
+    }
+    setJoining(true);
+    const { data, error } = await joinHouseholdWithInvite(trimmed);
+    setJoining(false);
+    if (error || !data) {
+      toast(describeJoinError(error) ?? 'Lid worden is niet gelukt.');
+      return;
+    }
+    setJoinCode('');
+    setActiveHouseholdId(data.id);
+    await loadHouseholds();
+    toast(`Je bent nu lid van ${data.name}.`);
+  };
+
   const handleUpdateProfileName = async () => {
     if (!session) {
       toast('Log in om je naam te wijzigen.');
@@ -443,9 +648,270 @@ export default function ProfileScreen() {
                 disabled={creating}
               />
             </View>
+            <View style={styles.inlineDivider} />
+            <View style={styles.newHouseholdForm}>
+              <TextField
+                label="Lid worden met een code"
+                value={joinCode}
+                onChangeText={setJoinCode}
+                placeholder="Bijv. GROCEO-CCKS2E5COFYYE"
+                autoCapitalize="characters"
+                autoCorrect={false}
+              />
+              <Button
+                title="Lid worden"
+                variant="ghost"
+                onPress={handleJoinHousehold}
+                loading={joining}
+                disabled={joining || !joinCode.trim()}
+              />
+            </View>
           </View>
         </View>
 
+        {isActiveOwner ? (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Uitnodigingen</Text>
+              <Text style={styles.sectionHint}>Codes zijn 7 dagen geldig</Text>
+            </View>
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Nodig {inviteAudience ?? 'je gezin'} uit</Text>
+              {loadingInvites ? (
+                <Text style={styles.muted}>Uitnodigingen worden geladen…</Text>
+              ) : activeInvites.length === 0 ? (
+                <Text style={styles.muted}>Er zijn geen actieve codes.</Text>
+              ) : (
+                <View style={styles.householdList}>
+                  {activeInvites.map((invite) => (
+                    <View key={invite.id} style={styles.householdItem}>
+                      <View style={styles.householdRow}>
+                        <View style={styles.householdTextCol}>
+                          <Text style={styles.inviteCode}>{invite.code}</Text>
+                          <Text style={styles.householdMeta}>
+                            Geldig tot {formatInviteExpiry(invite)}
+                            {invite.useCount > 0 ? ` • ${invite.useCount}x gebruikt` : ''}
+                          </Text>
+                        </View>
+                        <View style={styles.inviteActions}>
+                          <Pressable
+                            accessibilityRole="button"
+                            accessibilityLabel={`Deel code ${invite.code}`}
+                            onPress={() => handleShareInvite(invite)}
+                            style={styles.inviteAction}>
+                            <Feather name="share-2" size={18} color={colors.primaryDark} />
+                          </Pressable>
+                          <Pressable
+                            accessibilityRole="button"
+                            accessibilityLabel={`Trek code ${invite.code} in`}
+                            onPress={() => handleRevokeInvite(invite)}
+                            disabled={revokingInviteId === invite.id}
+                            style={styles.inviteAction}>
+                            <Feather name="x-circle" size={18} color={colors.error} />
+                          </Pressable>
+                        </View>
+                      </View>
+                    </View>
+                  ))}
+                </View>
+              )}
+              <Button
+                title="Nieuwe code maken"
+                onPress={handleCreateInvite}
+                loading={creatingInvite}
+                disabled={creatingInvite}
+              />
+            </View>
+          </View>
+        ) : null}
+
+        {isActiveOwner && retention ? (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Historie</Text>
+              <Text style={styles.sectionHint}>Geldt voor iedereen in dit huishouden</Text>
+            </View>
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Hoe lang bewaren we de historie?</Text>
+              <View style={styles.optionRow}>
+                {HISTORY_RETENTION_OPTIONS.map((option) => {
+                  const isActive = retention.days === option.days;
+                  return (
+                    <Pressable
+                      key={option.label}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected: isActive }}
+                      disabled={savingRetention}
+                      onPress={() => handleUpdateRetention({ ...retention, days: option.days })}
+                      style={[styles.optionChip, isActive && styles.optionChipActive]}>
+                      <Text style={[styles.optionChipText, isActive && styles.optionChipTextActive]}>
+                        {option.label}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              {retention.days != null ? (
+                <Pressable
+                  accessibilityRole="checkbox"
+                  accessibilityState={{ checked: retention.archive }}
+                  disabled={savingRetention}
+                  onPress={() => handleUpdateRetention({ ...retention, archive: !retention.archive })}
+                  style={styles.householdRow}>
+                  <View style={styles.householdTextCol}>
+                    <Text style={styles.householdName}>Oudere historie archiveren</Text>
+                    <Text style={styles.householdMeta}>
+                      {retention.archive
+                        ? 'Verlopen items gaan naar het archief.'
+                        : 'Verlopen items worden verwijderd.'}
+                    </Text>
+                  </View>
+                  <Feather
+                    name={retention.archive ? 'check-square' : 'square'}
+                    size={18}
+                    color={retention.archive ? colors.primary : colors.border}
+                  />
+                </Pressable>
+              ) : null}
+            </View>
+          </View>
+        ) : null}
+
+        {isActiveOwner && preferences ? (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Voorkeuren</Text>
+              <Text style={styles.sectionHint}>Uit de onboarding, altijd aan te passen</Text>
+            </View>
+            <View style={styles.card}>
+              <Text style={styles.label}>Wie doet er mee?</Text>
+              <View style={styles.optionRow}>
+                {CREW_OPTIONS.map((option) => {
+                  const isActive = preferences.crew.includes(option.id);
+                  return (
+                    <Pressable
+                      key={option.id}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected: isActive }}
+                      disabled={savingPreferences}
+                      onPress={() =>
+                        handleUpdatePreferences({
+                          ...preferences,
+                          crew: toggleCrewMember(preferences.crew, option.id),
+                        })
+                      }
+                      style={[styles.optionChip, isActive && styles.optionChipActive]}>
+                      <Text style={[styles.optionChipText, isActive && styles.optionChipTextActive]}>
+                        {option.label}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              <Text style={styles.label}>Boodschappenritme</Text>
+              <View style={styles.optionRow}>
+                {CADENCE_OPTIONS.map((option) => {
+                  const isActive = preferences.cadence === option.id;
+                  return (
+                    <Pressable
+                      key={option.id}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected: isActive }}
+                      disabled={savingPreferences}
+                      onPress={() =>
+                        handleUpdatePreferences({
+                          ...preferences,
+                          cadence: isActive ? null : option.id,
+                        })
+                      }
+                      style={[styles.optionChip, isActive && styles.optionChipActive]}>
+                      <Text style={[styles.optionChipText, isActive && styles.optionChipTextActive]}>
+                        {option.label}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              <Text style={styles.label}>Waar helpt Groceo het meest bij?</Text>
+              <View style={styles.optionRow}>
+                {FOCUS_OPTIONS.map((option) => {
+                  const isActive = preferences.focus === option.id;
+                  return (
+                    <Pressable
+                      key={option.id}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected: isActive }}
+                      disabled={savingPreferences}
+                      onPress={() =>
+                        handleUpdatePreferences({
+                          ...preferences,
+                          focus: isActive ? null : option.id,
+                        })
+                      }
+                      style={[styles.optionChip, isActive && styles.optionChipActive]}>
+                      <Text style={[styles.optionChipText, isActive && styles.optionChipTextActive]}>
+                        {option.label}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
+          </View>
+        ) : null}
+
+        {isActiveOwner && budget ? (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Budget</Text>
+              <Text style={styles.sectionHint}>Afgevinkte items met prijs tellen mee</Text>
+            </View>
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Hoeveel willen jullie uitgeven?</Text>
+              <View style={styles.optionRow}>
+                {BUDGET_PERIOD_OPTIONS.map((option) => {
+                  const isActive = budget.period === option.period;
+                  return (
+                    <Pressable
+                      key={option.period}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected: isActive }}
+                      disabled={savingBudget}
+                      onPress={() => setBudget({ ...budget, period: option.period })}
+                      style={[styles.optionChip, isActive && styles.optionChipActive]}>
+                      <Text style={[styles.optionChipText, isActive && styles.optionChipTextActive]}>
+                        {option.label}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              <TextField
+                label="Bedrag (€)"
+                value={budgetInput}
+                onChangeText={setBudgetInput}
+                placeholder="Bijv. 150"
+                keyboardType="decimal-pad"
+                error={budgetError}
+              />
+              <Button
+                title="Budget opslaan"
+                onPress={handleSaveBudget}
+                loading={savingBudget}
+                disabled={savingBudget || !budgetInput.trim()}
+              />
+              {budget.amount != null ? (
+                <Button
+                  title="Geen budget gebruiken"
+                  variant="ghost"
+                  onPress={() => void saveBudget({ ...budget, amount: null })}
+                  disabled={savingBudget}
+                />
+              ) : null}
+            </View>
+          </View>
+        ) : null}
+
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <Text style={styles.sectionTitle}>Account</Text>
@@ -654,6 +1120,43 @@ const styles = StyleSheet.create({
   householdMeta: {
     color: colors.textSecondary,
   },
+  inviteCode: {
+    fontWeight: '700',
+    letterSpacing: 1,
+    color: colors.textPrimary,
+  },
+  inviteActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  inviteAction: {
+    padding: spacing.xs,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  optionChip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.pill,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  optionChipActive: {
+    borderColor: colors.primary,
+    backgroundColor: 'rgba(61, 220, 132, 0.12)',
+  },
+  optionChipText: {
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  optionChipTextActive: {
+    color: colors.primaryDark,
+  },
   newHouseholdForm: {
     gap: spacing.sm,
   },
@@ -9,7 +9,12 @@ import { SUPABASE_WARNING_MESSAGE, isSupabaseConfigured, supabase } from '@/lib/
 import { colors, spacing } from '@/lib/theme';
 import { SessionProvider, useSession } from '@/state/sessionStore';
 
-const AUTHENTICATED_STANDALONE_ROUTES = new Set(['groceries-history']);
+const AUTHENTICATED_STANDALONE_ROUTES = new Set([
+  'groceries-history',
+  'lists',
+  'meal-planner',
+  'stores',
+]);
 
 function SupabaseBanner() {
   if (isSupabaseConfigured) {
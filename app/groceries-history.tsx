@@ -4,54 +4,93 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import { Feather } from '@expo/vector-icons';
 
+import {
+  describeHistoryRetention,
+  fetchHistoryRetention,
+  type HistoryRetention,
+} from '@/lib/households';
+import { fetchLists, resolveActiveList, type GroceryList } from '@/lib/lists';
 import { colors, radius, spacing, textStyles } from '@/lib/theme';
 import { isSupabaseConfigured, supabase } from '@/lib/supabase';
-import { useActiveHousehold, useSession } from '@/state/sessionStore';
+import { formatEuro } from '@/lib/prices';
+import { fetchFinishedTrips, formatTripDuration, type ShoppingTrip } from '@/lib/trips';
+import { formatQuantity } from '@/lib/units';
+import { useActiveHousehold, useActiveList, useSession } from '@/state/sessionStore';
 import { logSupabaseError } from '@/utils/logging';
 import { toast } from '@/utils/toast';
 
-type List = {
-  id: string;
-  name: string;
-};
-
-type HistoryAction = 'added' | 'deleted' | 'cleared';
+type HistoryAction =
+  | 'added'
+  | 'deleted'
+  | 'checked'
+  | 'unchecked'
+  | 'updated'
+  | 'cleared'
+  | 'restored';
 
 type HistoryEntry = {
   id: string;
   action: HistoryAction;
   itemName: string;
   quantity: number;
+  unit: string | null;
   userLabel: string | null;
   createdAt: string;
 };
 
-const HISTORY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+/** Historie-regels en afgeronde boodschappenrondes op één tijdlijn. */
+type TimelineEntry =
+  | { kind: 'history'; id: string; at: string; entry: HistoryEntry }
+  | { kind: 'trip'; id: string; at: string; trip: ShoppingTrip };
+
 const HISTORY_FETCH_LIMIT = 100;
 
 const ACTION_LABELS: Record<HistoryAction, string> = {
   added: 'Toegevoegd',
   deleted: 'Verwijderd',
+  checked: 'Afgevinkt',
+  unchecked: 'Weer open gezet',
+  updated: 'Aangepast',
   cleared: 'Lijst geleegd',
+  restored: 'Teruggezet',
 };
 
-const CLEAR_EVENT_LABEL = 'Lijst geleegd';
-
 function formatQuantityLabel(entry: HistoryEntry) {
   if (entry.action === 'cleared') {
     if (!entry.quantity) return 'Geen items verwijderd';
     return entry.quantity === 1 ? '1 item verwijderd' : `${entry.quantity} items verwijderd`;
   }
-  return `(${entry.quantity}x)`;
+  if (entry.action === 'restored') {
+    return entry.quantity === 1 ? '1 item teruggezet' : `${entry.quantity} items teruggezet`;
+  }
+  if (entry.action === 'updated') {
+    return `(nu ${formatQuantity(entry.quantity, entry.unit)})`;
+  }
+  return `(${formatQuantity(entry.quantity, entry.unit)})`;
+}
+
+function formatTripSummary(trip: ShoppingTrip) {
+  const count = trip.itemCount === 1 ? '1 item' : `${trip.itemCount} items`;
+  const duration = formatTripDuration(trip.startedAt, trip.endedAt);
+  if (trip.finalSpend != null) {
+    return `${count} • ${duration} • ${formatEuro(trip.finalSpend)} betaald`;
+  }
+  if (trip.estimatedTotal != null) {
+    return `${count} • ${duration} • ≈ ${formatEuro(trip.estimatedTotal)}`;
+  }
+  return `${count} • ${duration}`;
 }
 
 export default function GroceriesHistoryScreen() {
   const router = useRouter();
   const { session } = useSession();
   const { activeHouseholdId } = useActiveHousehold();
-  const [list, setList] = useState<List | null>(null);
+  const { activeListId } = useActiveList();
+  const [list, setList] = useState<GroceryList | null>(null);
   const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [trips, setTrips] = useState<ShoppingTrip[]>([]);
   const [loading, setLoading] = useState(true);
+  const [retention, setRetention] = useState<HistoryRetention | null>(null);
 
   const loadListAndHistory = useCallback(async () => {
     if (!session || !activeHouseholdId) {
@@ -65,42 +104,25 @@ export default function GroceriesHistoryScreen() {
     }
 
     try {
-      const { data: lists, error: listError } = await supabase
-        .from('lists')
-        .select('id, name')
-        .eq('household_id', activeHouseholdId)
-        .order('created_at', { ascending: true })
-        .limit(1);
+      // Volgt de lijst die in het boodschappenscherm gekozen is.
+      const { data: lists } = await fetchLists(activeHouseholdId);
+      const selectedList = resolveActiveList(lists ?? [], activeListId);
 
-      if (listError || !lists?.[0]) {
-        logSupabaseError('lists.select', listError, {
-          screen: 'GroceriesHistory',
-          activeHouseholdId,
-        });
+      if (!selectedList) {
         toast('Geen boodschappenlijst gevonden.');
         setLoading(false);
         return;
       }
 
-      const selectedList: List = { id: lists[0].id, name: lists[0].name };
       setList(selectedList);
 
-      const retentionDate = new Date(Date.now() - HISTORY_RETENTION_MS).toISOString();
-      const { error: cleanupError } = await supabase
-        .from('list_history')
-        .delete()
-        .eq('list_id', selectedList.id)
-        .lt('created_at', retentionDate);
-      if (cleanupError) {
-        logSupabaseError('list_history.delete', cleanupError, {
-          screen: 'GroceriesHistory',
-          listId: selectedList.id,
-        });
-      }
+      // Opschonen gebeurt server-side (apply_history_retention); hier alleen lezen.
+      const { data: retentionData } = await fetchHistoryRetention(activeHouseholdId);
+      setRetention(retentionData);
 
       const { data: historyRows, error: historyError } = await supabase
         .from('list_history')
-        .select('id, action, item_name, quantity, user_email, created_at')
+        .select('id, action, item_name, quantity, unit, user_email, created_at')
         .eq('list_id', selectedList.id)
         .order('created_at', { ascending: false })
         .limit(HISTORY_FETCH_LIMIT);
@@ -116,33 +138,53 @@ export default function GroceriesHistoryScreen() {
       }
 
       const mapped =
-        historyRows?.map((row) => {
-          const isClearEvent = row.action === 'deleted' && row.item_name === CLEAR_EVENT_LABEL;
-          return {
-            id: row.id,
-            action: (isClearEvent ? 'cleared' : row.action) as HistoryEntry['action'],
-            itemName: row.item_name,
-            quantity: row.quantity,
-            userLabel: row.user_email,
-            createdAt: row.created_at,
-          };
-        }) ?? [];
+        historyRows?.map((row) => ({
+          id: row.id,
+          action: row.action as HistoryEntry['action'],
+          itemName: row.item_name,
+          quantity: Number(row.quantity),
+          unit: row.unit,
+          userLabel: row.user_email,
+          createdAt: row.created_at,
+        })) ?? [];
       setEntries(mapped);
+
+      const { data: tripRows } = await fetchFinishedTrips(selectedList.id);
+      setTrips(tripRows ?? []);
       setLoading(false);
     } catch (error) {
       console.error('[GroceriesHistory] Failed to load history', error);
       toast('Er ging iets mis bij het laden.');
       setLoading(false);
     }
-  }, [activeHouseholdId, session]);
+  }, [activeHouseholdId, activeListId, session]);
 
   useEffect(() => {
     void loadListAndHistory();
   }, [loadListAndHistory]);
 
+  const timeline = useMemo<TimelineEntry[]>(
+    () =>
+      [
+        ...entries.map((entry) => ({
+          kind: 'history' as const,
+          id: entry.id,
+          at: entry.createdAt,
+          entry,
+        })),
+        ...trips.map((trip) => ({
+          kind: 'trip' as const,
+          id: trip.id,
+          at: trip.endedAt ?? trip.startedAt,
+          trip,
+        })),
+      ].sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime()),
+    [entries, trips],
+  );
+
   const groupedEntries = useMemo(() => {
-    return entries.reduce<Record<string, HistoryEntry[]>>((acc, entry) => {
-      const dateKey = new Date(entry.createdAt).toLocaleDateString('nl-NL', {
+    return timeline.reduce<Record<string, TimelineEntry[]>>((acc, entry) => {
+      const dateKey = new Date(entry.at).toLocaleDateString('nl-NL', {
         weekday: 'long',
         day: 'numeric',
         month: 'long',
@@ -150,7 +192,7 @@ export default function GroceriesHistoryScreen() {
       acc[dateKey] = acc[dateKey] ? [...acc[dateKey], entry] : [entry];
       return acc;
     }, {});
-  }, [entries]);
+  }, [timeline]);
 
   const sectionKeys = useMemo(
     () =>
@@ -165,7 +207,7 @@ export default function GroceriesHistoryScreen() {
       <Feather name="clock" size={32} color={palette.deepClay} />
       <Text style={styles.emptyTitle}>Nog geen historie</Text>
       <Text style={styles.emptySubtitle}>
-        Voeg of verwijder items in de boodschappenlijst om gebeurtenissen te zien.
+        Voeg items toe, vink ze af of pas ze aan om gebeurtenissen te zien.
       </Text>
     </View>
   );
@@ -181,7 +223,9 @@ export default function GroceriesHistoryScreen() {
         <View style={styles.backPlaceholder} />
       </View>
       <Text style={styles.headerSubtitle}>
-        {list ? `Laatste 7 dagen • ${list.name}` : 'Laatste 7 dagen'}
+        {list
+          ? `${describeHistoryRetention(retention)} • ${list.name}`
+          : describeHistoryRetention(retention)}
       </Text>
 
       {loading ? (
@@ -200,28 +244,64 @@ export default function GroceriesHistoryScreen() {
                 <View key={section} style={styles.section}>
                   <Text style={styles.sectionTitle}>{section}</Text>
                   <View style={styles.sectionList}>
-                    {sectionEntries.map((entry) => (
-                      <View key={entry.id} style={styles.entryCard}>
-                        <View style={styles.entryHeader}>
-                          <Text style={styles.entryAction}>
-                            {ACTION_LABELS[entry.action]}
+                    {sectionEntries.map((item) =>
+                      item.kind === 'trip' ? (
+                        <View key={item.id} style={[styles.entryCard, styles.tripCard]}>
+                          <View style={styles.entryHeader}>
+                            <View style={styles.tripLabel}>
+                              <Feather name="shopping-cart" size={13} color={palette.deepClay} />
+                              <Text style={styles.entryAction}>Boodschappenronde</Text>
+                            </View>
+                            <Text style={styles.entryTime}>
+                              {new Date(item.at).toLocaleTimeString('nl-NL', {
+                                hour: '2-digit',
+                                minute: '2-digit',
+                              })}
+                            </Text>
+                          </View>
+                          <Text style={styles.entryName}>{formatTripSummary(item.trip)}</Text>
+                          {item.trip.items.length > 0 ? (
+                            <Text style={styles.tripItems}>
+                              {item.trip.items
+                                .map(
+                                  (tripItem) =>
+                                    `${tripItem.itemName} (${formatQuantity(
+                                      tripItem.quantity,
+                                      tripItem.unit,
+                                    )})`,
+                                )
+                                .join(', ')}
+                            </Text>
+                          ) : null}
+                          <Text style={styles.entryMeta}>
+                            door {item.trip.shopperLabel ?? 'Onbekend'}
+                          </Text>
+                        </View>
+                      ) : (
+                        <View key={item.id} style={styles.entryCard}>
+                          <View style={styles.entryHeader}>
+                            <Text style={styles.entryAction}>
+                              {ACTION_LABELS[item.entry.action]}
+                            </Text>
+                            <Text style={styles.entryTime}>
+                              {new Date(item.at).toLocaleTimeString('nl-NL', {
+                                hour: '2-digit',
+                                minute: '2-digit',
+                              })}
+                            </Text>
+                          </View>
+                          <Text style={styles.entryName}>
+                            {item.entry.itemName}{' '}
+                            <Text style={styles.entryQuantity}>
+                              {formatQuantityLabel(item.entry)}
+                            </Text>
                           </Text>
-                          <Text style={styles.entryTime}>
-                            {new Date(entry.createdAt).toLocaleTimeString('nl-NL', {
-                              hour: '2-digit',
-                              minute: '2-digit',
-                            })}
+                          <Text style={styles.entryMeta}>
+                            door {item.entry.userLabel ?? 'Onbekend'}
                           </Text>
                         </View>
-                        <Text style={styles.entryName}>
-                          {entry.itemName}{' '}
-                          <Text style={styles.entryQuantity}>{formatQuantityLabel(entry)}</Text>
-                        </Text>
-                        <Text style={styles.entryMeta}>
-                          door {entry.userLabel ?? 'Onbekend'}
-                        </Text>
-                      </View>
-                    ))}
+                      ),
+                    )}
                   </View>
                 </View>
               );
@@ -329,6 +409,18 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
     fontWeight: '500',
   },
+  tripCard: {
+    borderColor: palette.deepClay,
+  },
+  tripLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  tripItems: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
   entryMeta: {
     fontSize: 13,
     color: colors.textSecondary,
@@ -0,0 +1,538 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { Feather } from '@expo/vector-icons';
+
+import { Button } from '@/components/Button';
+import { TextField } from '@/components/TextField';
+import {
+  createList,
+  deleteList,
+  fetchLists,
+  renameList,
+  reorderLists,
+  resolveActiveList,
+  setListArchived,
+  setListMergeDuplicates,
+  setListStockPantry,
+  type GroceryList,
+} from '@/lib/lists';
+import { colors, radius, spacing, textStyles } from '@/lib/theme';
+import { useActiveHousehold, useActiveList } from '@/state/sessionStore';
+import { toast } from '@/utils/toast';
+
+export default function ListsScreen() {
+  const router = useRouter();
+  const { activeHouseholdId } = useActiveHousehold();
+  const { activeListId, setActiveListId } = useActiveList();
+  const [lists, setLists] = useState<GroceryList[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newListName, setNewListName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const openLists = useMemo(() => lists.filter((list) => !list.archivedAt), [lists]);
+  const archivedLists = useMemo(() => lists.filter((list) => list.archivedAt), [lists]);
+  const currentList = resolveActiveList(lists, activeListId);
+
+  const loadLists = useCallback(async () => {
+    if (!activeHouseholdId) {
+      setLoading(false);
+      return;
+    }
+    const { data, error } = await fetchLists(activeHouseholdId, { includeArchived: true });
+    if (error) {
+      toast('Boodschappenlijsten laden is niet gelukt.');
+    }
+    setLists(data ?? []);
+    setLoading(false);
+  }, [activeHouseholdId]);
+
+  useEffect(() => {
+    void loadLists();
+  }, [loadLists]);
+
+  const replaceList = useCallback((updated: GroceryList) => {
+    setLists((prev) => prev.map((list) => (list.id === updated.id ? updated : list)));
+  }, []);
+
+  const handleCreate = useCallback(async () => {
+    if (!activeHouseholdId) return;
+    if (!newListName.trim()) {
+      toast('Geef de lijst een naam.');
+      return;
+    }
+    setCreating(true);
+    const { data, error } = await createList(activeHouseholdId, newListName);
+    setCreating(false);
+    if (error || !data) {
+      toast('Lijst aanmaken is niet gelukt.');
+      return;
+    }
+    setLists((prev) => [...prev, data]);
+    setNewListName('');
+    setActiveListId(data.id);
+    toast(`"${data.name}" is aangemaakt.`);
+  }, [activeHouseholdId, newListName, setActiveListId]);
+
+  const handleSelect = useCallback(
+    (list: GroceryList) => {
+      setActiveListId(list.id);
+      router.back();
+    },
+    [router, setActiveListId],
+  );
+
+  const handleStartRename = useCallback((list: GroceryList) => {
+    setEditingId(list.id);
+    setEditingName(list.name);
+  }, []);
+
+  const handleRename = useCallback(async () => {
+    if (!editingId) return;
+    if (!editingName.trim()) {
+      toast('Geef de lijst een naam.');
+      return;
+    }
+    setBusyId(editingId);
+    const { data, error } = await renameList(editingId, editingName);
+    setBusyId(null);
+    if (error || !data) {
+      toast('Naam wijzigen is niet gelukt.');
+      return;
+    }
+    replaceList(data);
+    setEditingId(null);
+  }, [editingId, editingName, replaceList]);
+
+  const handleMove = useCallback(
+    async (list: GroceryList, direction: -1 | 1) => {
+      if (!activeHouseholdId) return;
+      const index = openLists.findIndex((option) => option.id === list.id);
+      const target = index + direction;
+      if (index < 0 || target < 0 || target >= openLists.length) return;
+
+      const reordered = [...openLists];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      // Gearchiveerde lijsten schuiven achteraan mee zodat posities uniek blijven.
+      const orderedIds = [...reordered, ...archivedLists].map((option) => option.id);
+      const previous = lists;
+      setLists(
+        orderedIds.map((id, position) => ({
+          ...(lists.find((option) => option.id === id) as GroceryList),
+          position: position + 1,
+        })),
+      );
+
+      const { error } = await reorderLists(activeHouseholdId, orderedIds);
+      if (error) {
+        setLists(previous);
+        toast('Volgorde opslaan is niet gelukt.');
+      }
+    },
+    [activeHouseholdId, archivedLists, lists, openLists],
+  );
+
+  const handleArchive = useCallback(
+    async (list: GroceryList, archived: boolean) => {
+      if (archived && openLists.length <= 1) {
+        toast('Je hebt minstens één actieve lijst nodig.');
+        return;
+      }
+      setBusyId(list.id);
+      const { data, error } = await setListArchived(list.id, archived);
+      setBusyId(null);
+      if (error || !data) {
+        toast(archived ? 'Archiveren is niet gelukt.' : 'Terugzetten is niet gelukt.');
+        return;
+      }
+      replaceList(data);
+      if (archived && activeListId === list.id) {
+        setActiveListId(null);
+      }
+    },
+    [activeListId, openLists.length, replaceList, setActiveListId],
+  );
+
+  const handleToggleMerge = useCallback(
+    async (list: GroceryList) => {
+      setBusyId(list.id);
+      const { data, error } = await setListMergeDuplicates(list.id, !list.mergeDuplicates);
+      setBusyId(null);
+      if (error || !data) {
+        toast('Instelling opslaan is niet gelukt.');
+        return;
+      }
+      replaceList(data);
+    },
+    [replaceList],
+  );
+
+  const handleToggleStockPantry = useCallback(
+    async (list: GroceryList) => {
+      setBusyId(list.id);
+      const { data, error } = await setListStockPantry(list.id, !list.stockPantry);
+      setBusyId(null);
+      if (error || !data) {
+        toast('Instelling opslaan is niet gelukt.');
+        return;
+      }
+      replaceList(data);
+    },
+    [replaceList],
+  );
+
+  const handleDelete = useCallback(
+    (list: GroceryList) => {
+      if (!list.archivedAt && openLists.length <= 1) {
+        toast('Je hebt minstens één actieve lijst nodig.');
+        return;
+      }
+      Alert.alert(
+        `"${list.name}" verwijderen?`,
+        'Alle items en de historie van deze lijst verdwijnen voorgoed.',
+        [
+          { text: 'Annuleren', style: 'cancel' },
+          {
+            text: 'Verwijderen',
+            style: 'destructive',
+            onPress: async () => {
+              setBusyId(list.id);
+              const { error } = await deleteList(list.id);
+              setBusyId(null);
+              if (error) {
+                toast('Lijst verwijderen is niet gelukt.');
+                return;
+              }
+              setLists((prev) => prev.filter((option) => option.id !== list.id));
+              if (activeListId === list.id) {
+                setActiveListId(null);
+              }
+            },
+          },
+        ],
+      );
+    },
+    [activeListId, openLists.length, setActiveListId],
+  );
+
+  const renderOpenList = (list: GroceryList, index: number) => {
+    const isCurrent = currentList?.id === list.id;
+    const isEditing = editingId === list.id;
+    const isBusy = busyId === list.id;
+
+    return (
+      <View key={list.id} style={[styles.listCard, isCurrent && styles.listCardActive]}>
+        {isEditing ? (
+          <View style={styles.editRow}>
+            <TextInput
+              value={editingName}
+              onChangeText={setEditingName}
+              autoFocus
+              returnKeyType="done"
+              onSubmitEditing={handleRename}
+              style={styles.editInput}
+            />
+            <TouchableOpacity style={styles.iconButton} onPress={handleRename} disabled={isBusy}>
+              {isBusy ? (
+                <ActivityIndicator size="small" color={palette.deepClay} />
+              ) : (
+                <Feather name="check" size={18} color={palette.deepClay} />
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.iconButton} onPress={() => setEditingId(null)}>
+              <Feather name="x" size={18} color={palette.deepClay} />
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <TouchableOpacity style={styles.listBody} onPress={() => handleSelect(list)}>
+            <Text style={styles.listName}>{list.name}</Text>
+            <Text style={styles.listMeta}>{isCurrent ? 'Actieve lijst' : 'Tik om te openen'}</Text>
+          </TouchableOpacity>
+        )}
+        {!isEditing ? (
+          <TouchableOpacity
+            style={styles.settingRow}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: list.mergeDuplicates }}
+            disabled={isBusy}
+            onPress={() => handleToggleMerge(list)}>
+            <Feather
+              name={list.mergeDuplicates ? 'check-square' : 'square'}
+              size={16}
+              color={list.mergeDuplicates ? colors.primary : colors.textSecondary}
+            />
+            <Text style={styles.settingText}>Dubbele items samenvoegen</Text>
+          </TouchableOpacity>
+        ) : null}
+        {!isEditing ? (
+          <TouchableOpacity
+            style={styles.settingRow}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: list.stockPantry }}
+            disabled={isBusy}
+            onPress={() => handleToggleStockPantry(list)}>
+            <Feather
+              name={list.stockPantry ? 'check-square' : 'square'}
+              size={16}
+              color={list.stockPantry ? colors.primary : colors.textSecondary}
+            />
+            <Text style={styles.settingText}>Afgevinkte items naar de voorraad</Text>
+          </TouchableOpacity>
+        ) : null}
+        {!isEditing ? (
+          <View style={styles.listActions}>
+            <TouchableOpacity
+              style={styles.iconButton}
+              accessibilityLabel="Omhoog"
+              disabled={index === 0}
+              onPress={() => handleMove(list, -1)}>
+              <Feather name="arrow-up" size={16} color={index === 0 ? colors.border : palette.deepClay} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.iconButton}
+              accessibilityLabel="Omlaag"
+              disabled={index === openLists.length - 1}
+              onPress={() => handleMove(list, 1)}>
+              <Feather
+                name="arrow-down"
+                size={16}
+                color={index === openLists.length - 1 ? colors.border : palette.deepClay}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.iconButton}
+              accessibilityLabel="Naam wijzigen"
+              onPress={() => handleStartRename(list)}>
+              <Feather name="edit-2" size={16} color={palette.deepClay} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.iconButton}
+              accessibilityLabel="Archiveren"
+              disabled={isBusy}
+              onPress={() => handleArchive(list, true)}>
+              <Feather name="archive" size={16} color={palette.deepClay} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.iconButton}
+              accessibilityLabel="Verwijderen"
+              disabled={isBusy}
+              onPress={() => handleDelete(list)}>
+              <Feather name="trash-2" size={16} color={colors.error} />
+            </TouchableOpacity>
+          </View>
+        ) : null}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Feather name="arrow-left" size={18} color={palette.deepClay} />
+          <Text style={styles.backText}>Terug</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Lijsten</Text>
+        <View style={styles.backPlaceholder} />
+      </View>
+      <Text style={styles.headerSubtitle}>
+        Maak aparte lijsten voor de week, de drogist of een feestje.
+      </Text>
+
+      {loading ? (
+        <View style={styles.loader}>
+          <ActivityIndicator color={palette.deepClay} />
+          <Text style={styles.loaderText}>Lijsten laden…</Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <View style={styles.createCard}>
+            <TextField
+              label="Nieuwe lijst"
+              value={newListName}
+              onChangeText={setNewListName}
+              placeholder="Bijv. BBQ zaterdag"
+              returnKeyType="done"
+              onSubmitEditing={handleCreate}
+            />
+            <Button title="Lijst toevoegen" onPress={handleCreate} loading={creating} />
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Actief</Text>
+            {openLists.map(renderOpenList)}
+          </View>
+
+          {archivedLists.length > 0 ? (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Gearchiveerd</Text>
+              {archivedLists.map((list) => (
+                <View key={list.id} style={[styles.listCard, styles.listCardArchived]}>
+                  <View style={styles.listBody}>
+                    <Text style={styles.listName}>{list.name}</Text>
+                    <Text style={styles.listMeta}>Verborgen in de lijstkiezer</Text>
+                  </View>
+                  <View style={styles.listActions}>
+                    <TouchableOpacity
+                      style={styles.iconButton}
+                      accessibilityLabel="Terugzetten"
+                      disabled={busyId === list.id}
+                      onPress={() => handleArchive(list, false)}>
+                      <Feather name="rotate-ccw" size={16} color={palette.deepClay} />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.iconButton}
+                      accessibilityLabel="Verwijderen"
+                      disabled={busyId === list.id}
+                      onPress={() => handleDelete(list)}>
+                      <Feather name="trash-2" size={16} color={colors.error} />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))}
+            </View>
+          ) : null}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const palette = {
+  deepClay: '#3F2E2C',
+};
+
+const styles = StyleSheet.create({
+  safe: {
+    flex: 1,
+    backgroundColor: colors.background,
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  backText: {
+    fontWeight: '600',
+    color: palette.deepClay,
+  },
+  backPlaceholder: {
+    width: 48,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.textPrimary,
+  },
+  headerSubtitle: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+    marginTop: spacing.xs / 2,
+    marginBottom: spacing.md,
+  },
+  loader: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.sm,
+  },
+  loaderText: {
+    color: colors.textSecondary,
+  },
+  content: {
+    paddingBottom: spacing.xl * 2,
+    gap: spacing.lg,
+  },
+  createCard: {
+    backgroundColor: colors.surface,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    gap: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  section: {
+    gap: spacing.sm,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.textPrimary,
+  },
+  listCard: {
+    backgroundColor: colors.surface,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    gap: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  listCardActive: {
+    borderColor: colors.primary,
+  },
+  listCardArchived: {
+    opacity: 0.75,
+  },
+  listBody: {
+    gap: spacing.xs / 2,
+  },
+  listName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  listMeta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  settingText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  listActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.xs,
+  },
+  iconButton: {
+    padding: spacing.xs,
+  },
+  editRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  editInput: {
+    flex: 1,
+    fontSize: 16,
+    color: colors.textPrimary,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    paddingVertical: spacing.xs,
+  },
+});
@@ -0,0 +1,804 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { Feather } from '@expo/vector-icons';
+
+import { Button } from '@/components/Button';
+import { RecipeSheet } from '@/components/RecipeSheet';
+import { fetchLists, resolveActiveList, type GroceryList } from '@/lib/lists';
+import {
+  DEFAULT_SERVINGS,
+  MAX_SERVINGS,
+  addDays,
+  addMealsToList,
+  collectIngredients,
+  deleteRecipe,
+  describeWeek,
+  fetchMealPlan,
+  fetchRecipes,
+  formatMealDay,
+  planMeal,
+  removePlannedMeal,
+  saveRecipe,
+  startOfWeek,
+  weekDays,
+  type PlannedMeal,
+  type Recipe,
+  type RecipeDraft,
+} from '@/lib/meals';
+import { toDateKey } from '@/lib/recurring';
+import { isSupabaseConfigured, supabase } from '@/lib/supabase';
+import { colors, radius, spacing, textStyles } from '@/lib/theme';
+import { useActiveHousehold, useActiveList } from '@/state/sessionStore';
+import { toast } from '@/utils/toast';
+
+export default function MealPlannerScreen() {
+  const router = useRouter();
+  const { activeHouseholdId } = useActiveHousehold();
+  const { activeListId } = useActiveList();
+  const [weekStart, setWeekStart] = useState(() => startOfWeek());
+  const [meals, setMeals] = useState<PlannedMeal[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [lists, setLists] = useState<GroceryList[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingDay, setEditingDay] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+  const [editingRecipeId, setEditingRecipeId] = useState<string | null>(null);
+  const [editingServings, setEditingServings] = useState(DEFAULT_SERVINGS);
+  const [busyDay, setBusyDay] = useState<string | null>(null);
+  const [recipeSheetVisible, setRecipeSheetVisible] = useState(false);
+  const [selectedRecipe, setSelectedRecipe] = useState<Recipe | null>(null);
+  const [savingRecipe, setSavingRecipe] = useState(false);
+  const [addingToList, setAddingToList] = useState(false);
+
+  const days = useMemo(() => weekDays(weekStart), [weekStart]);
+  const today = toDateKey(new Date());
+  const isCurrentWeek = days.includes(today);
+
+  const loadMeals = useCallback(async () => {
+    if (!activeHouseholdId) {
+      setLoading(false);
+      return;
+    }
+    const { data, error } = await fetchMealPlan(activeHouseholdId, days[0], days[6]);
+    if (error) {
+      toast('Weekmenu laden is niet gelukt.');
+    }
+    setMeals(data ?? []);
+    setLoading(false);
+  }, [activeHouseholdId, days]);
+
+  useEffect(() => {
+    void loadMeals();
+  }, [loadMeals]);
+
+  useEffect(() => {
+    if (!activeHouseholdId) return;
+    let isMounted = true;
+    void Promise.all([
+      fetchRecipes(activeHouseholdId),
+      fetchLists(activeHouseholdId),
+    ]).then(([recipeResult, listResult]) => {
+      if (!isMounted) return;
+      if (recipeResult.error) {
+        toast('Recepten laden is niet gelukt.');
+      }
+      setRecipes(recipeResult.data ?? []);
+      setLists(listResult.data ?? []);
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, [activeHouseholdId]);
+
+  // Iemand anders plant of wijzigt een maaltijd: gewoon de week opnieuw laden.
+  useEffect(() => {
+    if (!isSupabaseConfigured || !supabase || !activeHouseholdId) return;
+    const client = supabase;
+    const channel = client
+      .channel(`meal-plans-${activeHouseholdId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'meal_plans',
+          filter: `household_id=eq.${activeHouseholdId}`,
+        },
+        () => {
+          void loadMeals();
+        },
+      )
+      .subscribe();
+
+    return () => {
+      void client.removeChannel(channel);
+    };
+  }, [activeHouseholdId, loadMeals]);
+
+  const activeList = useMemo(
+    () => resolveActiveList(lists, activeListId),
+    [activeListId, lists],
+  );
+
+  const mealsByDay = useMemo(
+    () => new Map(meals.map((meal) => [meal.plannedOn, meal])),
+    [meals],
+  );
+
+  const pendingMeals = useMemo(
+    () =>
+      meals.filter(
+        (meal) =>
+          !meal.addedToListAt && recipes.some((recipe) => recipe.id === meal.recipeId),
+      ),
+    [meals, recipes],
+  );
+
+  const pendingIngredients = useMemo(
+    () => collectIngredients(pendingMeals, recipes),
+    [pendingMeals, recipes],
+  );
+
+  const handleOpenDay = useCallback(
+    (day: string) => {
+      if (editingDay === day) {
+        setEditingDay(null);
+        return;
+      }
+      const meal = mealsByDay.get(day);
+      setEditingDay(day);
+      setEditingTitle(meal?.title ?? '');
+      setEditingRecipeId(meal?.recipeId ?? null);
+      setEditingServings(meal?.servings ?? DEFAULT_SERVINGS);
+    },
+    [editingDay, mealsByDay],
+  );
+
+  const handlePickRecipe = useCallback(
+    (recipe: Recipe | null) => {
+      setEditingRecipeId(recipe?.id ?? null);
+      if (!recipe) return;
+      // Een recept als titel, tenzij er al iets eigens staat.
+      const previous = recipes.find((option) => option.id === editingRecipeId);
+      if (!editingTitle.trim() || editingTitle === previous?.name) {
+        setEditingTitle(recipe.name);
+      }
+    },
+    [editingRecipeId, editingTitle, recipes],
+  );
+
+  const handleSaveMeal = useCallback(async () => {
+    if (!activeHouseholdId || !editingDay) return;
+    if (!editingTitle.trim()) {
+      toast('Wat eten jullie? Vul een gerecht in of kies een recept.');
+      return;
+    }
+    setBusyDay(editingDay);
+    const { data, error } = await planMeal(activeHouseholdId, editingDay, {
+      title: editingTitle,
+      recipeId: editingRecipeId,
+      servings: editingServings,
+    });
+    setBusyDay(null);
+    if (error || !data) {
+      toast('Maaltijd opslaan is niet gelukt.');
+      return;
+    }
+    setMeals((prev) => [
+      ...prev.filter((meal) => meal.plannedOn !== data.plannedOn),
+      data,
+    ]);
+    setEditingDay(null);
+  }, [activeHouseholdId, editingDay, editingRecipeId, editingServings, editingTitle]);
+
+  const handleRemoveMeal = useCallback(async (meal: PlannedMeal) => {
+    setBusyDay(meal.plannedOn);
+    const { error } = await removePlannedMeal(meal.id);
+    setBusyDay(null);
+    if (error) {
+      toast('Maaltijd verwijderen is niet gelukt.');
+      return;
+    }
+    setMeals((prev) => prev.filter((option) => option.id !== meal.id));
+    setEditingDay(null);
+  }, []);
+
+  const handleAddToList = useCallback(async () => {
+    if (!activeHouseholdId || !activeList) {
+      toast('Maak eerst een boodschappenlijst aan.');
+      return;
+    }
+    setAddingToList(true);
+    const { data, error } = await addMealsToList(
+      activeHouseholdId,
+      activeList.id,
+      pendingMeals,
+      recipes,
+    );
+    setAddingToList(false);
+    if (error || !data) {
+      toast('Ingrediënten toevoegen is niet gelukt.');
+      return;
+    }
+    const addedAt = new Date().toISOString();
+    setMeals((prev) =>
+      prev.map((meal) =>
+        pendingMeals.some((pending) => pending.id === meal.id)
+          ? { ...meal, addedToListAt: addedAt }
+          : meal,
+      ),
+    );
+    const parts = [
+      data.added > 0 ? `${data.added} nieuw` : null,
+      data.merged > 0 ? `${data.merged} opgehoogd` : null,
+      data.fromPantry.length > 0 ? `${data.fromPantry.length} al in huis` : null,
+      data.alreadyListed.length > 0
+        ? `${data.alreadyListed.join(', ')} stond er al op`
+        : null,
+    ].filter(Boolean);
+    toast(
+      parts.length > 0
+        ? `Op ${activeList.name}: ${parts.join(', ')}.`
+        : `Alles voor deze maaltijden staat al op ${activeList.name}.`,
+    );
+  }, [activeHouseholdId, activeList, pendingMeals, recipes]);
+
+  const handleSaveRecipe = useCallback(
+    async (draft: RecipeDraft) => {
+      if (!activeHouseholdId) return false;
+      setSavingRecipe(true);
+      const { data, error } = await saveRecipe(
+        activeHouseholdId,
+        draft,
+        selectedRecipe?.id,
+      );
+      setSavingRecipe(false);
+      if (error || !data) {
+        toast('Recept opslaan is niet gelukt.');
+        return false;
+      }
+      setRecipes((prev) =>
+        [...prev.filter((recipe) => recipe.id !== data.id), data].sort((a, b) =>
+          a.name.localeCompare(b.name, 'nl'),
+        ),
+      );
+      setRecipeSheetVisible(false);
+      return true;
+    },
+    [activeHouseholdId, selectedRecipe],
+  );
+
+  const handleDeleteRecipe = useCallback((recipe: Recipe) => {
+    Alert.alert(
+      `"${recipe.name}" verwijderen?`,
+      'Geplande maaltijden met dit recept blijven staan, maar zonder ingrediënten.',
+      [
+        { text: 'Annuleren', style: 'cancel' },
+        {
+          text: 'Verwijderen',
+          style: 'destructive',
+          onPress: async () => {
+            const { error } = await deleteRecipe(recipe.id);
+            if (error) {
+              toast('Recept verwijderen is niet gelukt.');
+              return;
+            }
+            setRecipes((prev) => prev.filter((option) => option.id !== recipe.id));
+            setMeals((prev) =>
+              prev.map((meal) =>
+                meal.recipeId === recipe.id ? { ...meal, recipeId: null } : meal,
+              ),
+            );
+            setRecipeSheetVisible(false);
+          },
+        },
+      ],
+    );
+  }, []);
+
+  const openRecipeSheet = (recipe: Recipe | null) => {
+    setSelectedRecipe(recipe);
+    setRecipeSheetVisible(true);
+  };
+
+  const renderDay = (day: string) => {
+    const meal = mealsByDay.get(day);
+    const recipe = recipes.find((option) => option.id === meal?.recipeId);
+    const isEditing = editingDay === day;
+    const isBusy = busyDay === day;
+
+    return (
+      <View
+        key={day}
+        style={[
+          styles.dayCard,
+          day === today && styles.dayCardToday,
+          isEditing && styles.dayCardActive,
+        ]}>
+        <TouchableOpacity
+          style={styles.dayHeader}
+          accessibilityRole="button"
+          onPress={() => handleOpenDay(day)}>
+          <Text style={styles.dayLabel}>{formatMealDay(day)}</Text>
+          <View style={styles.dayBody}>
+            {meal ? (
+              <>
+                <Text style={styles.mealTitle} numberOfLines={1}>
+                  {meal.title}
+                </Text>
+                <Text style={styles.mealMeta}>
+                  {[
+                    `${meal.servings} ${meal.servings === 1 ? 'persoon' : 'personen'}`,
+                    recipe ? `recept: ${recipe.name}` : 'zonder recept',
+                    meal.addedToListAt && recipe ? 'op de lijst' : null,
+                  ]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </Text>
+              </>
+            ) : (
+              <Text style={styles.mealPlaceholder}>Nog niets gepland</Text>
+            )}
+          </View>
+          <Feather
+            name={isEditing ? 'chevron-up' : meal ? 'edit-2' : 'plus'}
+            size={16}
+            color={palette.deepClay}
+          />
+        </TouchableOpacity>
+
+        {isEditing ? (
+          <View style={styles.editPanel}>
+            <TextInput
+              value={editingTitle}
+              onChangeText={setEditingTitle}
+              placeholder="Wat eten jullie? Bijv. Taco's"
+              placeholderTextColor={colors.textSecondary}
+              autoFocus={!meal}
+              returnKeyType="done"
+              onSubmitEditing={handleSaveMeal}
+              style={styles.editInput}
+            />
+            <View style={styles.chipRow}>
+              {[null, ...recipes].map((option) => {
+                const isActive = (option?.id ?? null) === editingRecipeId;
+                return (
+                  <TouchableOpacity
+                    key={option?.id ?? 'none'}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected: isActive }}
+                    style={[styles.chip, isActive && styles.chipActive]}
+                    onPress={() => handlePickRecipe(option)}>
+                    <Text
+                      style={[styles.chipText, isActive && styles.chipTextActive]}
+                      numberOfLines={1}>
+                      {option?.name ?? 'Geen recept'}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <View style={styles.servingsRow}>
+              <Text style={styles.servingsLabel}>Aantal eters</Text>
+              <TouchableOpacity
+                style={styles.stepperButton}
+                accessibilityLabel="Minder eters"
+                disabled={editingServings <= 1}
+                onPress={() => setEditingServings((count) => Math.max(count - 1, 1))}>
+                <Feather name="minus" size={14} color={palette.deepClay} />
+              </TouchableOpacity>
+              <Text style={styles.servingsValue}>{editingServings}</Text>
+              <TouchableOpacity
+                style={styles.stepperButton}
+                accessibilityLabel="Meer eters"
+                disabled={editingServings >= MAX_SERVINGS}
+                onPress={() =>
+                  setEditingServings((count) => Math.min(count + 1, MAX_SERVINGS))
+                }>
+                <Feather name="plus" size={14} color={palette.deepClay} />
+              </TouchableOpacity>
+            </View>
+            <View style={styles.editActions}>
+              {meal ? (
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  accessibilityLabel="Maaltijd verwijderen"
+                  disabled={isBusy}
+                  onPress={() => handleRemoveMeal(meal)}>
+                  <Feather name="trash-2" size={16} color={colors.error} />
+                </TouchableOpacity>
+              ) : (
+                <View />
+              )}
+              <TouchableOpacity
+                style={styles.saveButton}
+                accessibilityRole="button"
+                disabled={isBusy}
+                onPress={handleSaveMeal}>
+                {isBusy ? (
+                  <ActivityIndicator size="small" color={colors.surface} />
+                ) : (
+                  <Feather name="check" size={16} color={colors.surface} />
+                )}
+                <Text style={styles.saveButtonText}>Opslaan</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : null}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Feather name="arrow-left" size={18} color={palette.deepClay} />
+          <Text style={styles.backText}>Terug</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Weekmenu</Text>
+        <View style={styles.backPlaceholder} />
+      </View>
+      <Text style={styles.headerSubtitle}>
+        Plan per dag wat jullie eten; met een recept komen de ingrediënten in één keer op
+        de lijst.
+      </Text>
+
+      <View style={styles.weekRow}>
+        <TouchableOpacity
+          style={styles.iconButton}
+          accessibilityLabel="Vorige week"
+          onPress={() => setWeekStart((start) => addDays(start, -7))}>
+          <Feather name="chevron-left" size={20} color={palette.deepClay} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          disabled={isCurrentWeek}
+          onPress={() => setWeekStart(startOfWeek())}>
+          <Text style={styles.weekLabel}>{describeWeek(weekStart)}</Text>
+          <Text style={styles.weekHint}>
+            {isCurrentWeek ? 'Deze week' : 'Tik voor deze week'}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.iconButton}
+          accessibilityLabel="Volgende week"
+          onPress={() => setWeekStart((start) => addDays(start, 7))}>
+          <Feather name="chevron-right" size={20} color={palette.deepClay} />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.loader}>
+          <ActivityIndicator color={palette.deepClay} />
+          <Text style={styles.loaderText}>Weekmenu laden…</Text>
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled">
+          <View style={styles.section}>{days.map(renderDay)}</View>
+
+          <View style={styles.listCard}>
+            <Text style={styles.listTitle}>
+              {pendingMeals.length > 0
+                ? `${pendingIngredients.length} ingrediënten voor ${
+                    pendingMeals.length === 1
+                      ? '1 maaltijd'
+                      : `${pendingMeals.length} maaltijden`
+                  }`
+                : 'Alle ingrediënten staan op de lijst'}
+            </Text>
+            <Text style={styles.listHint}>
+              Wat al in de voorraad ligt slaan we over; wat al open staat wordt opgehoogd.
+            </Text>
+            <Button
+              title={
+                activeList
+                  ? `Zet ontbrekende op ${activeList.name}`
+                  : 'Zet ontbrekende op de lijst'
+              }
+              onPress={handleAddToList}
+              loading={addingToList}
+              disabled={pendingMeals.length === 0}
+            />
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Recepten</Text>
+              <TouchableOpacity onPress={() => openRecipeSheet(null)}>
+                <Text style={styles.linkText}>Nieuw recept</Text>
+              </TouchableOpacity>
+            </View>
+            {recipes.length > 0 ? (
+              recipes.map((recipe) => (
+                <TouchableOpacity
+                  key={recipe.id}
+                  style={styles.recipeCard}
+                  onPress={() => openRecipeSheet(recipe)}>
+                  <Text style={styles.recipeName}>{recipe.name}</Text>
+                  <Text style={styles.mealMeta}>
+                    {recipe.ingredients.length === 1
+                      ? '1 ingrediënt'
+                      : `${recipe.ingredients.length} ingrediënten`}{' '}
+                    · voor {recipe.servings}{' '}
+                    {recipe.servings === 1 ? 'persoon' : 'personen'}
+                  </Text>
+                </TouchableOpacity>
+              ))
+            ) : (
+              <Text style={styles.emptyText}>
+                Nog geen recepten. Leg een vaste favoriet vast met de ingrediënten, dan
+                rekent Groceo de hoeveelheden uit voor het aantal eters.
+              </Text>
+            )}
+          </View>
+        </ScrollView>
+      )}
+
+      <RecipeSheet
+        visible={recipeSheetVisible}
+        recipe={selectedRecipe}
+        saving={savingRecipe}
+        onClose={() => setRecipeSheetVisible(false)}
+        onSave={handleSaveRecipe}
+        onDelete={handleDeleteRecipe}
+      />
+    </SafeAreaView>
+  );
+}
+
+const palette = {
+  deepClay: '#3F2E2C',
+};
+
+const styles = StyleSheet.create({
+  safe: {
+    flex: 1,
+    backgroundColor: colors.background,
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  backText: {
+    fontWeight: '600',
+    color: palette.deepClay,
+  },
+  backPlaceholder: {
+    width: 48,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.textPrimary,
+  },
+  headerSubtitle: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+    marginTop: spacing.xs / 2,
+    marginBottom: spacing.md,
+  },
+  weekRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: spacing.md,
+  },
+  weekLabel: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.textPrimary,
+    textAlign: 'center',
+  },
+  weekHint: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  loader: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.sm,
+  },
+  loaderText: {
+    color: colors.textSecondary,
+  },
+  content: {
+    paddingBottom: spacing.xl * 2,
+    gap: spacing.lg,
+  },
+  section: {
+    gap: spacing.sm,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  sectionTitle: {
+    ...textStyles.subtitle,
+    color: colors.textPrimary,
+  },
+  linkText: {
+    color: colors.primaryDark,
+    fontWeight: '600',
+  },
+  emptyText: {
+    ...textStyles.body,
+    color: colors.textSecondary,
+  },
+  dayCard: {
+    backgroundColor: colors.surface,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    gap: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  dayCardToday: {
+    borderColor: palette.deepClay,
+  },
+  dayCardActive: {
+    borderColor: colors.primary,
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  dayLabel: {
+    width: 72,
+    fontSize: 13,
+    fontWeight: '700',
+    color: palette.deepClay,
+    textTransform: 'capitalize',
+  },
+  dayBody: {
+    flex: 1,
+    gap: spacing.xs / 2,
+  },
+  mealTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  mealMeta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  mealPlaceholder: {
+    fontSize: 15,
+    color: colors.textSecondary,
+  },
+  editPanel: {
+    gap: spacing.sm,
+  },
+  editInput: {
+    fontSize: 16,
+    color: colors.textPrimary,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    paddingVertical: spacing.xs,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.pill,
+    borderWidth: 1,
+    borderColor: colors.border,
+    maxWidth: 180,
+  },
+  chipActive: {
+    borderColor: colors.primary,
+    backgroundColor: 'rgba(61, 220, 132, 0.12)',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  chipTextActive: {
+    color: colors.primaryDark,
+  },
+  servingsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  servingsLabel: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  servingsValue: {
+    minWidth: 24,
+    textAlign: 'center',
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  stepperButton: {
+    padding: spacing.xs,
+    borderRadius: radius.pill,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  editActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  iconButton: {
+    padding: spacing.xs,
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.pill,
+    backgroundColor: colors.primary,
+  },
+  saveButtonText: {
+    fontWeight: '600',
+    color: colors.surface,
+  },
+  listCard: {
+    backgroundColor: colors.surface,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    gap: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  listTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  listHint: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  recipeCard: {
+    backgroundColor: colors.surface,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    gap: spacing.xs / 2,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  recipeName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+});
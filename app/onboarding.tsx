@@ -7,7 +7,9 @@ import { Pressable, ScrollView, StatusBar, StyleSheet, Text, View } from 'react-
 
 import { Button } from '@/components/Button';
 import { HeroAccentPill, OnboardingHero, type OnboardingIllustration } from '@/components/OnboardingSlide';
+import type { OnboardingAnswers } from '@/lib/preferences';
 import { colors, radius, spacing, textStyles } from '@/lib/theme';
+import { useSessionStore } from '@/state/sessionStore';
 
 type IconName = ComponentProps<typeof MaterialCommunityIcons>['name'];
 
@@ -47,7 +49,7 @@ type SummaryStep = StepBase & {
 
 type OnboardingStep = IntroStep | QuizStep | SummaryStep;
 
-type Answers = Record<string, string | string[]>;
+type Answers = OnboardingAnswers;
 
 const milestoneMeta: Record<
   MilestoneKey,
@@ -60,7 +62,7 @@ const milestoneMeta: Record<
   },
   rhythm: {
     label: 'Jouw ritme',
-    description: 'Deel je boodschappen-tempo zodat herinneringen precies op tijd komen.',
+    description: 'Deel je boodschappen-tempo zodat de herinnering op je thuisscherm op tijd komt.',
     icon: 'clock-outline',
   },
   setup: {
@@ -87,6 +89,7 @@ export default function OnboardingScreen() {
   const router = useRouter();
   const [activeIndex, setActiveIndex] = useState(0);
   const [answers, setAnswers] = useState<Answers>({ household: [] });
+  const setSessionState = useSessionStore((state) => state.setState);
 
   const steps = useMemo<OnboardingStep[]>(
     () => [
@@ -397,6 +400,8 @@ export default function OnboardingScreen() {
 
   const handlePrimary = () => {
     if (currentStep.type === 'summary') {
+      // Gaan bij registratie mee in de user metadata; het huishouden neemt ze over.
+      setSessionState({ onboardingAnswers: answers });
       router.replace('/(auth)/register');
       return;
     }
@@ -0,0 +1,496 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { Feather } from '@expo/vector-icons';
+
+import { Button } from '@/components/Button';
+import { TextField } from '@/components/TextField';
+import {
+  createStore,
+  deleteStore,
+  fetchStores,
+  updateStore,
+  type StoreLayout,
+} from '@/lib/stores';
+import { colors, radius, spacing, textStyles } from '@/lib/theme';
+import { useActiveHousehold } from '@/state/sessionStore';
+import { toast } from '@/utils/toast';
+
+export default function StoresScreen() {
+  const router = useRouter();
+  const { activeHouseholdId } = useActiveHousehold();
+  const [stores, setStores] = useState<StoreLayout[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newStoreName, setNewStoreName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [newAisle, setNewAisle] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadStores = useCallback(async () => {
+    if (!activeHouseholdId) {
+      setLoading(false);
+      return;
+    }
+    const { data, error } = await fetchStores(activeHouseholdId);
+    if (error) {
+      toast('Winkels laden is niet gelukt.');
+    }
+    setStores(data ?? []);
+    setLoading(false);
+  }, [activeHouseholdId]);
+
+  useEffect(() => {
+    void loadStores();
+  }, [loadStores]);
+
+  const replaceStore = useCallback((updated: StoreLayout) => {
+    setStores((prev) => prev.map((store) => (store.id === updated.id ? updated : store)));
+  }, []);
+
+  const handleCreate = useCallback(async () => {
+    if (!activeHouseholdId) return;
+    if (!newStoreName.trim()) {
+      toast('Geef de winkel een naam.');
+      return;
+    }
+    setCreating(true);
+    const { data, error } = await createStore(activeHouseholdId, newStoreName);
+    setCreating(false);
+    if (error || !data) {
+      toast('Winkel toevoegen is niet gelukt. Bestaat de naam al?');
+      return;
+    }
+    setStores((prev) =>
+      [...prev, data].sort((a, b) => a.name.localeCompare(b.name, 'nl')),
+    );
+    setNewStoreName('');
+    setExpandedId(data.id);
+  }, [activeHouseholdId, newStoreName]);
+
+  const handleRename = useCallback(async () => {
+    if (!editingId) return;
+    if (!editingName.trim()) {
+      toast('Geef de winkel een naam.');
+      return;
+    }
+    setBusyId(editingId);
+    const { data, error } = await updateStore(editingId, { name: editingName });
+    setBusyId(null);
+    if (error || !data) {
+      toast('Naam wijzigen is niet gelukt.');
+      return;
+    }
+    replaceStore(data);
+    setEditingId(null);
+  }, [editingId, editingName, replaceStore]);
+
+  /** Past de gangpaden direct aan en zet ze terug als opslaan mislukt. */
+  const saveAisles = useCallback(
+    async (store: StoreLayout, aisles: string[]) => {
+      replaceStore({ ...store, aisles });
+      const { data, error } = await updateStore(store.id, { aisles });
+      if (error || !data) {
+        replaceStore(store);
+        toast('Looproute opslaan is niet gelukt.');
+        return;
+      }
+      replaceStore(data);
+    },
+    [replaceStore],
+  );
+
+  const handleMoveAisle = useCallback(
+    (store: StoreLayout, index: number, direction: -1 | 1) => {
+      const target = index + direction;
+      if (target < 0 || target >= store.aisles.length) return;
+      const aisles = [...store.aisles];
+      [aisles[index], aisles[target]] = [aisles[target], aisles[index]];
+      void saveAisles(store, aisles);
+    },
+    [saveAisles],
+  );
+
+  const handleRemoveAisle = useCallback(
+    (store: StoreLayout, index: number) => {
+      void saveAisles(
+        store,
+        store.aisles.filter((_, position) => position !== index),
+      );
+    },
+    [saveAisles],
+  );
+
+  const handleAddAisle = useCallback(
+    (store: StoreLayout) => {
+      const aisle = newAisle.trim();
+      if (!aisle) return;
+      if (
+        store.aisles.some((existing) => existing.toLowerCase() === aisle.toLowerCase())
+      ) {
+        toast(`"${aisle}" staat al in de looproute.`);
+        return;
+      }
+      setNewAisle('');
+      void saveAisles(store, [...store.aisles, aisle]);
+    },
+    [newAisle, saveAisles],
+  );
+
+  const handleDelete = useCallback((store: StoreLayout) => {
+    Alert.alert(
+      `"${store.name}" verwijderen?`,
+      'Lijsten die deze winkel gebruiken, sorteren weer op de standaardmanier.',
+      [
+        { text: 'Annuleren', style: 'cancel' },
+        {
+          text: 'Verwijderen',
+          style: 'destructive',
+          onPress: async () => {
+            setBusyId(store.id);
+            const { error } = await deleteStore(store.id);
+            setBusyId(null);
+            if (error) {
+              toast('Winkel verwijderen is niet gelukt.');
+              return;
+            }
+            setStores((prev) => prev.filter((option) => option.id !== store.id));
+          },
+        },
+      ],
+    );
+  }, []);
+
+  const renderStore = (store: StoreLayout) => {
+    const isExpanded = expandedId === store.id;
+    const isEditing = editingId === store.id;
+    const isBusy = busyId === store.id;
+
+    return (
+      <View
+        key={store.id}
+        style={[styles.storeCard, isExpanded && styles.storeCardActive]}>
+        {isEditing ? (
+          <View style={styles.editRow}>
+            <TextInput
+              value={editingName}
+              onChangeText={setEditingName}
+              autoFocus
+              returnKeyType="done"
+              onSubmitEditing={handleRename}
+              style={styles.editInput}
+            />
+            <TouchableOpacity
+              style={styles.iconButton}
+              onPress={handleRename}
+              disabled={isBusy}>
+              {isBusy ? (
+                <ActivityIndicator size="small" color={palette.deepClay} />
+              ) : (
+                <Feather name="check" size={18} color={palette.deepClay} />
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.iconButton}
+              onPress={() => setEditingId(null)}>
+              <Feather name="x" size={18} color={palette.deepClay} />
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.storeHeader}>
+            <TouchableOpacity
+              style={styles.storeBody}
+              onPress={() => {
+                setExpandedId(isExpanded ? null : store.id);
+                setNewAisle('');
+              }}>
+              <Text style={styles.storeName}>{store.name}</Text>
+              <Text style={styles.storeMeta}>
+                {store.aisles.length === 1
+                  ? '1 afdeling'
+                  : `${store.aisles.length} afdelingen`}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.iconButton}
+              accessibilityLabel="Naam wijzigen"
+              onPress={() => {
+                setEditingId(store.id);
+                setEditingName(store.name);
+              }}>
+              <Feather name="edit-2" size={16} color={palette.deepClay} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.iconButton}
+              accessibilityLabel="Verwijderen"
+              disabled={isBusy}
+              onPress={() => handleDelete(store)}>
+              <Feather name="trash-2" size={16} color={colors.error} />
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {isExpanded ? (
+          <View style={styles.aisles}>
+            {store.aisles.map((aisle, index) => (
+              <View key={`${aisle}-${index}`} style={styles.aisleRow}>
+                <Text style={styles.aislePosition}>{index + 1}</Text>
+                <Text style={styles.aisleName} numberOfLines={1}>
+                  {aisle}
+                </Text>
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  accessibilityLabel={`${aisle} eerder in de route`}
+                  disabled={index === 0}
+                  onPress={() => handleMoveAisle(store, index, -1)}>
+                  <Feather
+                    name="arrow-up"
+                    size={16}
+                    color={index === 0 ? colors.border : palette.deepClay}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  accessibilityLabel={`${aisle} later in de route`}
+                  disabled={index === store.aisles.length - 1}
+                  onPress={() => handleMoveAisle(store, index, 1)}>
+                  <Feather
+                    name="arrow-down"
+                    size={16}
+                    color={
+                      index === store.aisles.length - 1 ? colors.border : palette.deepClay
+                    }
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  accessibilityLabel={`${aisle} verwijderen`}
+                  onPress={() => handleRemoveAisle(store, index)}>
+                  <Feather name="x" size={16} color={colors.textSecondary} />
+                </TouchableOpacity>
+              </View>
+            ))}
+            <View style={styles.editRow}>
+              <TextInput
+                value={newAisle}
+                onChangeText={setNewAisle}
+                placeholder="Afdeling toevoegen, bijv. Bakkerij"
+                placeholderTextColor={colors.textSecondary}
+                returnKeyType="done"
+                onSubmitEditing={() => handleAddAisle(store)}
+                style={styles.editInput}
+              />
+              <TouchableOpacity
+                style={styles.iconButton}
+                accessibilityLabel="Afdeling toevoegen"
+                onPress={() => handleAddAisle(store)}>
+                <Feather name="plus" size={18} color={palette.deepClay} />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.aisleHint}>
+              Items komen bij de afdeling die bij hun categorie past; de rest staat onder
+              &quot;Overig&quot; achteraan.
+            </Text>
+          </View>
+        ) : null}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Feather name="arrow-left" size={18} color={palette.deepClay} />
+          <Text style={styles.backText}>Terug</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Winkels</Text>
+        <View style={styles.backPlaceholder} />
+      </View>
+      <Text style={styles.headerSubtitle}>
+        Zet de afdelingen in de volgorde waarin je door de winkel loopt.
+      </Text>
+
+      {loading ? (
+        <View style={styles.loader}>
+          <ActivityIndicator color={palette.deepClay} />
+          <Text style={styles.loaderText}>Winkels laden…</Text>
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled">
+          <View style={styles.createCard}>
+            <TextField
+              label="Nieuwe winkel"
+              value={newStoreName}
+              onChangeText={setNewStoreName}
+              placeholder="Bijv. AH Centrum"
+              returnKeyType="done"
+              onSubmitEditing={handleCreate}
+            />
+            <Button title="Winkel toevoegen" onPress={handleCreate} loading={creating} />
+          </View>
+
+          {stores.length > 0 ? (
+            <View style={styles.section}>{stores.map(renderStore)}</View>
+          ) : (
+            <Text style={styles.emptyText}>
+              Nog geen winkels. Een nieuwe winkel begint met een standaardindeling die je
+              daarna aanpast.
+            </Text>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const palette = {
+  deepClay: '#3F2E2C',
+};
+
+const styles = StyleSheet.create({
+  safe: {
+    flex: 1,
+    backgroundColor: colors.background,
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  backText: {
+    fontWeight: '600',
+    color: palette.deepClay,
+  },
+  backPlaceholder: {
+    width: 48,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.textPrimary,
+  },
+  headerSubtitle: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+    marginTop: spacing.xs / 2,
+    marginBottom: spacing.md,
+  },
+  loader: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.sm,
+  },
+  loaderText: {
+    color: colors.textSecondary,
+  },
+  content: {
+    paddingBottom: spacing.xl * 2,
+    gap: spacing.lg,
+  },
+  createCard: {
+    backgroundColor: colors.surface,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    gap: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  section: {
+    gap: spacing.sm,
+  },
+  emptyText: {
+    ...textStyles.body,
+    color: colors.textSecondary,
+  },
+  storeCard: {
+    backgroundColor: colors.surface,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    gap: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  storeCardActive: {
+    borderColor: colors.primary,
+  },
+  storeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  storeBody: {
+    flex: 1,
+    gap: spacing.xs / 2,
+  },
+  storeName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  storeMeta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  aisles: {
+    gap: spacing.xs,
+  },
+  aisleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  aislePosition: {
+    width: 24,
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  aisleName: {
+    flex: 1,
+    fontSize: 15,
+    color: colors.textPrimary,
+  },
+  aisleHint: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  iconButton: {
+    padding: spacing.xs,
+  },
+  editRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  editInput: {
+    flex: 1,
+    fontSize: 16,
+    color: colors.textPrimary,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    paddingVertical: spacing.xs,
+  },
+});
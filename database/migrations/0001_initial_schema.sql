@@ -1,3 +1,5 @@
+-- 0001: households, members, lists and items with row-level security.
+
 -- Enable extensions required for UUID generation
 create extension if not exists "pgcrypto";
 
@@ -58,7 +60,8 @@ select m.user_id, m.household_id, m.role
 from public.members m;
 
 -- Policies for households
-create policy if not exists households_select
+drop policy if exists households_select on public.households;
+create policy households_select
   on public.households
   for select
   using (
@@ -69,39 +72,46 @@ create policy if not exists households_select
     or owner_id = auth.uid()
   );
 
-create policy if not exists households_insert
+drop policy if exists households_insert on public.households;
+create policy households_insert
   on public.households
   for insert
   with check (owner_id = auth.uid());
 
-create policy if not exists households_update
+drop policy if exists households_update on public.households;
+create policy households_update
   on public.households
   for update
   using (owner_id = auth.uid());
 
-create policy if not exists households_delete
+drop policy if exists households_delete on public.households;
+create policy households_delete
   on public.households
   for delete
   using (owner_id = auth.uid());
 
 -- Policies for members
-create policy if not exists members_select
+drop policy if exists members_select on public.members;
+create policy members_select
   on public.members
   for select
   using (user_id = auth.uid());
 
-create policy if not exists members_insert
+drop policy if exists members_insert on public.members;
+create policy members_insert
   on public.members
   for insert
   with check (user_id = auth.uid());
 
-create policy if not exists members_delete
+drop policy if exists members_delete on public.members;
+create policy members_delete
   on public.members
   for delete
   using (user_id = auth.uid());
 
 -- Policies for lists
-create policy if not exists lists_crud
+drop policy if exists lists_crud on public.lists;
+create policy lists_crud
   on public.lists
   for all
   using (
@@ -118,7 +128,8 @@ create policy if not exists lists_crud
   );
 
 -- Policies for items
-create policy if not exists items_crud
+drop policy if exists items_crud on public.items;
+create policy items_crud
   on public.items
   for all
   using (
@@ -135,36 +146,3 @@ create policy if not exists items_crud
       where l.id = items.list_id and m.user_id = auth.uid()
     )
   );
-
--- Optional seed data for local development
--- uncomment and adjust the auth uid before running locally.
-/*
-with current_user as (
-  select auth.uid() as user_id
-)
-insert into public.households (name, owner_id)
-select 'My First Household', user_id from current_user
-on conflict do nothing;
-
-insert into public.members (user_id, household_id, role)
-select
-  current_user.user_id,
-  h.id,
-  'owner'
-from current_user
-join public.households h on h.owner_id = current_user.user_id
-on conflict do nothing;
-
-insert into public.lists (household_id, name)
-select h.id, 'Weekly groceries'
-from public.households h
-where h.name = 'My First Household'
-on conflict do nothing;
-
-insert into public.items (list_id, name, quantity)
-select l.id, item_name, qty
-from public.lists l,
-     (values ('Milk', 2), ('Bread', 1)) as seed(item_name, qty)
-where l.name = 'Weekly groceries'
-on conflict do nothing;
-*/
@@ -0,0 +1,104 @@
+-- 0002: invite codes and server-side household joining.
+
+-- Invites table: expiring, revocable codes to join a household
+create table if not exists public.invites (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households(id) on delete cascade,
+  code text not null unique
+    default ('GROCEO-' || upper(substr(encode(gen_random_bytes(4), 'hex'), 1, 6))),
+  created_by uuid not null default auth.uid() references auth.users(id) on delete cascade,
+  expires_at timestamptz not null default (now() + interval '7 days'),
+  revoked_at timestamptz,
+  max_uses int check (max_uses is null or max_uses > 0),
+  use_count int not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_invites_household on public.invites (household_id);
+
+alter table public.invites enable row level security;
+
+-- Only household owners can see, create and revoke invites.
+drop policy if exists invites_owner_crud on public.invites;
+create policy invites_owner_crud
+  on public.invites
+  for all
+  using (
+    exists (
+      select 1 from public.households h
+      where h.id = invites.household_id and h.owner_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.households h
+      where h.id = invites.household_id and h.owner_id = auth.uid()
+    )
+  );
+
+-- Join a household with an invite code. Runs as definer so the invite can be
+-- validated without exposing the invites table to non-owners.
+create or replace function public.join_household(invite_code text)
+returns table (household_id uuid, household_name text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_invite public.invites%rowtype;
+  v_inserted int;
+begin
+  if auth.uid() is null then
+    raise exception 'not_authenticated' using errcode = '28000';
+  end if;
+
+  select * into v_invite
+  from public.invites i
+  where i.code = upper(trim(invite_code))
+  for update;
+
+  if not found then
+    raise exception 'invite_not_found' using errcode = 'P0002';
+  end if;
+  if v_invite.revoked_at is not null then
+    raise exception 'invite_revoked' using errcode = 'P0001';
+  end if;
+  if v_invite.expires_at <= now() then
+    raise exception 'invite_expired' using errcode = 'P0001';
+  end if;
+  if v_invite.max_uses is not null and v_invite.use_count >= v_invite.max_uses then
+    raise exception 'invite_exhausted' using errcode = 'P0001';
+  end if;
+
+  insert into public.members (user_id, household_id, role)
+  values (auth.uid(), v_invite.household_id, 'member')
+  on conflict (user_id, household_id) do nothing;
+  get diagnostics v_inserted = row_count;
+
+  if v_inserted > 0 then
+    update public.invites set use_count = use_count + 1 where id = v_invite.id;
+  end if;
+
+  return query
+  select h.id, h.name from public.households h where h.id = v_invite.household_id;
+end;
+$$;
+
+revoke all on function public.join_household(text) from public;
+grant execute on function public.join_household(text) to authenticated;
+
+-- Self-inserts are limited to the owner row of a household you created.
+-- Members join through public.join_household() which validates an invite.
+drop policy if exists members_insert on public.members;
+create policy members_insert
+  on public.members
+  for insert
+  with check (
+    user_id = auth.uid()
+    and role = 'owner'
+    and exists (
+      select 1 from public.households h
+      where h.id = members.household_id and h.owner_id = auth.uid()
+    )
+  );
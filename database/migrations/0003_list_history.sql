@@ -0,0 +1,70 @@
+-- 0003: list_history, the activity log behind the history screen and recent quick-adds.
+
+create table if not exists public.list_history (
+  id uuid primary key default gen_random_uuid(),
+  list_id uuid not null references public.lists(id) on delete cascade,
+  item_name text not null,
+  quantity int not null default 0 check (quantity >= 0),
+  action text not null check (action in ('added', 'deleted')),
+  user_id uuid default auth.uid() references auth.users(id) on delete set null,
+  user_email text,
+  created_at timestamptz not null default now()
+);
+
+-- History is always read newest-first per list, optionally filtered by action.
+create index if not exists idx_list_history_list_created
+  on public.list_history (list_id, created_at desc);
+create index if not exists idx_list_history_list_action_created
+  on public.list_history (list_id, action, created_at desc);
+
+alter table public.list_history enable row level security;
+
+drop policy if exists list_history_select on public.list_history;
+create policy list_history_select
+  on public.list_history
+  for select
+  using (
+    exists (
+      select 1 from public.lists l
+      join public.members m on m.household_id = l.household_id
+      where l.id = list_history.list_id and m.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists list_history_insert on public.list_history;
+create policy list_history_insert
+  on public.list_history
+  for insert
+  with check (
+    exists (
+      select 1 from public.lists l
+      join public.members m on m.household_id = l.household_id
+      where l.id = list_history.list_id and m.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists list_history_delete on public.list_history;
+create policy list_history_delete
+  on public.list_history
+  for delete
+  using (
+    exists (
+      select 1 from public.lists l
+      join public.members m on m.household_id = l.household_id
+      where l.id = list_history.list_id and m.user_id = auth.uid()
+    )
+  );
+
+-- Realtime: the groceries screen listens for new history rows.
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'list_history'
+    )
+  then
+    alter publication supabase_realtime add table public.list_history;
+  end if;
+end;
+$$;
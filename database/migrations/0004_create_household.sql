@@ -0,0 +1,38 @@
+-- 0004: create a household, its owner membership and the default list atomically.
+
+create or replace function public.create_household(name text)
+returns table (household_id uuid, household_name text, list_id uuid, list_name text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_name text := trim(create_household.name);
+  v_household public.households%rowtype;
+  v_list public.lists%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'not_authenticated' using errcode = '28000';
+  end if;
+  if v_name is null or v_name = '' then
+    raise exception 'household_name_required' using errcode = '22023';
+  end if;
+
+  insert into public.households (name, owner_id)
+  values (v_name, auth.uid())
+  returning * into v_household;
+
+  insert into public.members (user_id, household_id, role)
+  values (auth.uid(), v_household.id, 'owner');
+
+  insert into public.lists (household_id, name)
+  values (v_household.id, 'Hoofdlijst')
+  returning * into v_list;
+
+  return query select v_household.id, v_household.name, v_list.id, v_list.name;
+end;
+$$;
+
+revoke all on function public.create_household(text) from public;
+grant execute on function public.create_household(text) to authenticated;
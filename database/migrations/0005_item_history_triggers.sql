@@ -0,0 +1,125 @@
+-- 0005: record list_history server-side from triggers on public.items.
+-- Every insert, check/uncheck, edit and delete is logged with the acting
+-- auth.uid(), whichever client or agent made the change. Clearing a list goes
+-- through public.clear_list() and is logged as a single `cleared` event.
+
+alter table public.list_history add column if not exists item_id uuid;
+
+alter table public.list_history drop constraint if exists list_history_action_check;
+alter table public.list_history
+  add constraint list_history_action_check
+  check (action in ('added', 'deleted', 'checked', 'unchecked', 'updated', 'cleared'));
+
+-- Older clients faked a clear as a `deleted` row with this label.
+update public.list_history
+set action = 'cleared'
+where action = 'deleted' and item_name = 'Lijst geleegd';
+
+-- History is written by the triggers below; clients only read it.
+drop policy if exists list_history_insert on public.list_history;
+
+-- Display label for the acting user, matching what the app shows elsewhere.
+-- Changes without a user (scheduled jobs, service role) are attributed to Groceo.
+create or replace function public.history_actor_label()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (
+      select coalesce(
+        nullif(trim(u.raw_user_meta_data ->> 'full_name'), ''),
+        split_part(u.email, '@', 1)
+      )
+      from auth.users u
+      where u.id = auth.uid()
+    ),
+    'Groceo'
+  )
+$$;
+
+create or replace function public.record_item_history()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_label text := public.history_actor_label();
+begin
+  if tg_op = 'INSERT' then
+    insert into public.list_history (list_id, item_id, item_name, quantity, action, user_id, user_email)
+    values (new.list_id, new.id, new.name, new.quantity, 'added', v_user, v_label);
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' then
+    if new.checked is distinct from old.checked then
+      insert into public.list_history (list_id, item_id, item_name, quantity, action, user_id, user_email)
+      values (
+        new.list_id, new.id, new.name, new.quantity,
+        case when new.checked then 'checked' else 'unchecked' end,
+        v_user, v_label
+      );
+    end if;
+    if new.name is distinct from old.name or new.quantity is distinct from old.quantity then
+      insert into public.list_history (list_id, item_id, item_name, quantity, action, user_id, user_email)
+      values (new.list_id, new.id, new.name, new.quantity, 'updated', v_user, v_label);
+    end if;
+    return new;
+  end if;
+
+  -- DELETE: skip rows removed by clear_list() (logged once as `cleared`) and
+  -- rows cascading from a deleted list, whose history goes with it.
+  if coalesce(current_setting('groceo.history_action', true), '') = 'cleared'
+    or not exists (select 1 from public.lists l where l.id = old.list_id)
+  then
+    return old;
+  end if;
+  insert into public.list_history (list_id, item_id, item_name, quantity, action, user_id, user_email)
+  values (old.list_id, old.id, old.name, old.quantity, 'deleted', v_user, v_label);
+  return old;
+end;
+$$;
+
+drop trigger if exists items_record_history on public.items;
+create trigger items_record_history
+  after insert or update or delete on public.items
+  for each row execute function public.record_item_history();
+
+-- Remove every item from a list and log one `cleared` event with the count.
+create or replace function public.clear_list(target_list_id uuid)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count int;
+begin
+  if not exists (
+    select 1 from public.lists l
+    join public.members m on m.household_id = l.household_id
+    where l.id = target_list_id and m.user_id = auth.uid()
+  ) then
+    raise exception 'list_not_accessible' using errcode = '42501';
+  end if;
+
+  perform set_config('groceo.history_action', 'cleared', true);
+  delete from public.items where list_id = target_list_id;
+  get diagnostics v_count = row_count;
+  perform set_config('groceo.history_action', '', true);
+
+  if v_count > 0 then
+    insert into public.list_history (list_id, item_name, quantity, action, user_id, user_email)
+    values (target_list_id, 'Lijst geleegd', v_count, 'cleared', auth.uid(), public.history_actor_label());
+  end if;
+  return v_count;
+end;
+$$;
+
+revoke all on function public.clear_list(uuid) from public;
+grant execute on function public.clear_list(uuid) to authenticated;
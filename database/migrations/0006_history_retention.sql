@@ -0,0 +1,116 @@
+-- 0006: household-level history retention, enforced on the server.
+-- history_retention_days = null keeps history forever. When history_archive is
+-- true, expired rows move to list_history_archive instead of being deleted.
+
+alter table public.households
+  add column if not exists history_retention_days int
+    check (history_retention_days is null or history_retention_days > 0),
+  add column if not exists history_archive boolean not null default false;
+
+create table if not exists public.list_history_archive (
+  id uuid primary key,
+  list_id uuid not null references public.lists(id) on delete cascade,
+  item_id uuid,
+  item_name text not null,
+  quantity int not null default 0,
+  action text not null,
+  user_id uuid references auth.users(id) on delete set null,
+  user_email text,
+  created_at timestamptz not null,
+  archived_at timestamptz not null default now()
+);
+
+create index if not exists idx_list_history_archive_list_created
+  on public.list_history_archive (list_id, created_at desc);
+
+alter table public.list_history_archive enable row level security;
+
+drop policy if exists list_history_archive_select on public.list_history_archive;
+create policy list_history_archive_select
+  on public.list_history_archive
+  for select
+  using (
+    exists (
+      select 1 from public.lists l
+      join public.members m on m.household_id = l.household_id
+      where l.id = list_history_archive.list_id and m.user_id = auth.uid()
+    )
+  );
+
+-- Clients no longer prune history; retention runs server-side only.
+drop policy if exists list_history_delete on public.list_history;
+
+create or replace function public.apply_history_retention()
+returns table (household_id uuid, archived int, deleted int)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_household record;
+  v_archived int;
+  v_deleted int;
+begin
+  for v_household in
+    select h.id, h.history_retention_days, h.history_archive
+    from public.households h
+    where h.history_retention_days is not null
+  loop
+    v_archived := 0;
+
+    if v_household.history_archive then
+      with expired as (
+        delete from public.list_history lh
+        using public.lists l
+        where l.id = lh.list_id
+          and l.household_id = v_household.id
+          and lh.created_at < now() - make_interval(days => v_household.history_retention_days)
+        returning lh.*
+      )
+      insert into public.list_history_archive
+        (id, list_id, item_id, item_name, quantity, action, user_id, user_email, created_at)
+      select id, list_id, item_id, item_name, quantity, action, user_id, user_email, created_at
+      from expired
+      on conflict (id) do nothing;
+      get diagnostics v_archived = row_count;
+      v_deleted := 0;
+    else
+      delete from public.list_history lh
+      using public.lists l
+      where l.id = lh.list_id
+        and l.household_id = v_household.id
+        and lh.created_at < now() - make_interval(days => v_household.history_retention_days);
+      get diagnostics v_deleted = row_count;
+    end if;
+
+    household_id := v_household.id;
+    archived := v_archived;
+    deleted := v_deleted;
+    return next;
+  end loop;
+end;
+$$;
+
+revoke all on function public.apply_history_retention() from public;
+do $$
+begin
+  if exists (select 1 from pg_roles where rolname = 'service_role') then
+    grant execute on function public.apply_history_retention() to service_role;
+  end if;
+end;
+$$;
+
+-- Run nightly where pg_cron is available (Supabase: Database → Extensions).
+-- Otherwise run scripts/history-retention.js from a scheduler of your choice.
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule(
+      'groceo-history-retention',
+      '15 3 * * *',
+      'select public.apply_history_retention()'
+    );
+  end if;
+end;
+$$;
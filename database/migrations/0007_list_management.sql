@@ -0,0 +1,80 @@
+-- 0007: multiple named lists per household with an explicit order and archiving.
+
+alter table public.lists add column if not exists position int;
+alter table public.lists add column if not exists archived_at timestamptz;
+
+-- Existing lists keep their creation order.
+update public.lists l
+set position = ordered.rn
+from (
+  select id, row_number() over (partition by household_id order by created_at, id) as rn
+  from public.lists
+) ordered
+where l.id = ordered.id
+  and l.position is null;
+
+alter table public.lists alter column position set not null;
+
+create index if not exists idx_lists_household_position on public.lists (household_id, position);
+
+-- New lists go to the end unless the caller picks a position.
+create or replace function public.assign_list_position()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.position is null then
+    select coalesce(max(l.position), 0) + 1
+    into new.position
+    from public.lists l
+    where l.household_id = new.household_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists lists_assign_position on public.lists;
+create trigger lists_assign_position
+  before insert on public.lists
+  for each row execute function public.assign_list_position();
+
+-- Stores a new order for the lists of one household in a single statement.
+create or replace function public.reorder_lists(target_household_id uuid, list_ids uuid[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.members m
+    where m.household_id = target_household_id and m.user_id = auth.uid()
+  ) then
+    raise exception 'not_a_member' using errcode = '42501';
+  end if;
+
+  update public.lists l
+  set position = ordered.ordinality
+  from unnest(list_ids) with ordinality as ordered(id, ordinality)
+  where l.id = ordered.id
+    and l.household_id = target_household_id;
+end;
+$$;
+
+revoke all on function public.reorder_lists(uuid, uuid[]) from public;
+grant execute on function public.reorder_lists(uuid, uuid[]) to authenticated;
+
+-- Let other devices pick up renamed, archived or new lists.
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'lists'
+    )
+  then
+    alter publication supabase_realtime add table public.lists;
+  end if;
+end;
+$$;
@@ -0,0 +1,119 @@
+-- 0008: units and fractional quantities ("500 g gehakt", "1,5 kg aardappelen").
+-- Keep the unit list in sync with ITEM_UNITS in src/lib/units.ts.
+
+alter table public.items alter column quantity type numeric(10, 2) using quantity::numeric;
+alter table public.items add column if not exists unit text not null default 'stuks';
+
+alter table public.items drop constraint if exists items_quantity_positive;
+alter table public.items add constraint items_quantity_positive check (quantity > 0);
+
+alter table public.items drop constraint if exists items_unit_check;
+alter table public.items
+  add constraint items_unit_check
+  check (unit in ('stuks', 'g', 'kg', 'ml', 'l', 'pak', 'blik', 'fles', 'zak', 'bos'));
+
+alter table public.list_history alter column quantity type numeric(10, 2) using quantity::numeric;
+alter table public.list_history add column if not exists unit text;
+
+alter table public.list_history_archive alter column quantity type numeric(10, 2) using quantity::numeric;
+alter table public.list_history_archive add column if not exists unit text;
+
+-- Same as 0005, plus the unit; a unit change counts as an edit.
+create or replace function public.record_item_history()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_label text := public.history_actor_label();
+begin
+  if tg_op = 'INSERT' then
+    insert into public.list_history (list_id, item_id, item_name, quantity, unit, action, user_id, user_email)
+    values (new.list_id, new.id, new.name, new.quantity, new.unit, 'added', v_user, v_label);
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' then
+    if new.checked is distinct from old.checked then
+      insert into public.list_history (list_id, item_id, item_name, quantity, unit, action, user_id, user_email)
+      values (
+        new.list_id, new.id, new.name, new.quantity, new.unit,
+        case when new.checked then 'checked' else 'unchecked' end,
+        v_user, v_label
+      );
+    end if;
+    if new.name is distinct from old.name
+      or new.quantity is distinct from old.quantity
+      or new.unit is distinct from old.unit
+    then
+      insert into public.list_history (list_id, item_id, item_name, quantity, unit, action, user_id, user_email)
+      values (new.list_id, new.id, new.name, new.quantity, new.unit, 'updated', v_user, v_label);
+    end if;
+    return new;
+  end if;
+
+  if coalesce(current_setting('groceo.history_action', true), '') = 'cleared'
+    or not exists (select 1 from public.lists l where l.id = old.list_id)
+  then
+    return old;
+  end if;
+  insert into public.list_history (list_id, item_id, item_name, quantity, unit, action, user_id, user_email)
+  values (old.list_id, old.id, old.name, old.quantity, old.unit, 'deleted', v_user, v_label);
+  return old;
+end;
+$$;
+
+-- Same as 0006, but the archive keeps the unit as well.
+create or replace function public.apply_history_retention()
+returns table (household_id uuid, archived int, deleted int)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_household record;
+  v_archived int;
+  v_deleted int;
+begin
+  for v_household in
+    select h.id, h.history_retention_days, h.history_archive
+    from public.households h
+    where h.history_retention_days is not null
+  loop
+    v_archived := 0;
+
+    if v_household.history_archive then
+      with expired as (
+        delete from public.list_history lh
+        using public.lists l
+        where l.id = lh.list_id
+          and l.household_id = v_household.id
+          and lh.created_at < now() - make_interval(days => v_household.history_retention_days)
+        returning lh.*
+      )
+      insert into public.list_history_archive
+        (id, list_id, item_id, item_name, quantity, unit, action, user_id, user_email, created_at)
+      select id, list_id, item_id, item_name, quantity, unit, action, user_id, user_email, created_at
+      from expired
+      on conflict (id) do nothing;
+      get diagnostics v_archived = row_count;
+      v_deleted := 0;
+    else
+      delete from public.list_history lh
+      using public.lists l
+      where l.id = lh.list_id
+        and l.household_id = v_household.id
+        and lh.created_at < now() - make_interval(days => v_household.history_retention_days);
+      get diagnostics v_deleted = row_count;
+    end if;
+
+    household_id := v_household.id;
+    archived := v_archived;
+    deleted := v_deleted;
+    return next;
+  end loop;
+end;
+$$;
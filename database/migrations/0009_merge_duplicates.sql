@@ -0,0 +1,34 @@
+-- 0009: merge a re-added item into the open one instead of adding a second row.
+-- Matching (case, diacritics, simple plurals) happens in src/lib/itemMatching.ts;
+-- the database only stores the per-list switch and bumps quantities atomically.
+
+alter table public.lists add column if not exists merge_duplicates boolean not null default true;
+
+-- Adds `amount` to an item's quantity in one statement, so two people adding
+-- "melk" at the same time both count. Runs as the caller: items RLS applies.
+create or replace function public.bump_item_quantity(target_item_id uuid, amount numeric)
+returns numeric
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_quantity numeric;
+begin
+  if amount is null or amount <= 0 then
+    raise exception 'amount_must_be_positive' using errcode = '22023';
+  end if;
+
+  update public.items
+  set quantity = least(quantity + amount, 9999)
+  where id = target_item_id
+  returning quantity into v_quantity;
+
+  if v_quantity is null then
+    raise exception 'item_not_found' using errcode = 'P0002';
+  end if;
+  return v_quantity;
+end;
+$$;
+
+revoke all on function public.bump_item_quantity(uuid, numeric) from public;
+grant execute on function public.bump_item_quantity(uuid, numeric) to authenticated;
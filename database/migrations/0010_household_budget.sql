@@ -0,0 +1,162 @@
+-- 0010: household budget per week or month.
+-- Spending is recorded server-side when a priced item is checked off, so every
+-- client and the agent count the same way. Unchecking the item takes the entry
+-- back out; deleting or clearing checked items keeps what was spent.
+
+alter table public.households
+  add column if not exists budget_amount numeric(10, 2)
+    check (budget_amount is null or budget_amount > 0),
+  add column if not exists budget_period text not null default 'month';
+
+alter table public.households drop constraint if exists households_budget_period_check;
+alter table public.households
+  add constraint households_budget_period_check
+  check (budget_period in ('week', 'month'));
+
+create table if not exists public.household_spending (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households(id) on delete cascade,
+  list_id uuid references public.lists(id) on delete set null,
+  item_id uuid references public.items(id) on delete set null,
+  item_name text not null,
+  amount numeric(10, 2) not null check (amount >= 0),
+  recorded_by uuid references auth.users(id) on delete set null,
+  recorded_at timestamptz not null default now()
+);
+
+create unique index if not exists idx_household_spending_item
+  on public.household_spending (item_id)
+  where item_id is not null;
+
+create index if not exists idx_household_spending_household_recorded
+  on public.household_spending (household_id, recorded_at desc);
+
+alter table public.household_spending enable row level security;
+
+-- Written by the trigger below; members only read it.
+drop policy if exists household_spending_select on public.household_spending;
+create policy household_spending_select
+  on public.household_spending
+  for select
+  using (
+    exists (
+      select 1 from public.members m
+      where m.household_id = household_spending.household_id and m.user_id = auth.uid()
+    )
+  );
+
+-- Same rule as src/lib/prices.ts: price_estimate is per unit, except for g and
+-- ml where it is the price of the whole line.
+create or replace function public.item_line_total(quantity numeric, unit text, price_estimate numeric)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when price_estimate is null then null
+    when unit in ('g', 'ml') then price_estimate
+    else round(price_estimate * quantity, 2)
+  end
+$$;
+
+create or replace function public.record_item_spending()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_amount numeric := public.item_line_total(new.quantity, new.unit, new.price_estimate);
+begin
+  if tg_op = 'UPDATE'
+    and new.checked is not distinct from old.checked
+    and new.quantity is not distinct from old.quantity
+    and new.unit is not distinct from old.unit
+    and new.price_estimate is not distinct from old.price_estimate
+    and new.name is not distinct from old.name
+  then
+    return new;
+  end if;
+
+  if not new.checked or v_amount is null then
+    delete from public.household_spending where item_id = new.id;
+    return new;
+  end if;
+
+  -- Editing a checked item corrects its amount but keeps the original date.
+  insert into public.household_spending (household_id, list_id, item_id, item_name, amount, recorded_by)
+  select l.household_id, new.list_id, new.id, new.name, v_amount, auth.uid()
+  from public.lists l
+  where l.id = new.list_id
+  on conflict (item_id) where item_id is not null
+  do update set amount = excluded.amount, item_name = excluded.item_name;
+  return new;
+end;
+$$;
+
+-- No `update of <columns>` list: a trigger on items.quantity would block
+-- re-running the column type change in 0008.
+drop trigger if exists items_record_spending on public.items;
+create trigger items_record_spending
+  after insert or update on public.items
+  for each row execute function public.record_item_spending();
+
+-- Budget, current period, what has been spent in it and the estimate of the
+-- open items on the household's active lists. The groceries screen passes its
+-- own list as exclude_list_id and adds its live estimate on top. Runs as the
+-- caller: households, items and household_spending RLS limit it to members.
+create or replace function public.household_budget_status(
+  target_household_id uuid,
+  exclude_list_id uuid default null
+)
+returns table (
+  budget_amount numeric,
+  budget_period text,
+  period_start timestamptz,
+  period_end timestamptz,
+  spent numeric,
+  open_estimate numeric
+)
+language sql
+stable
+set search_path = public
+as $$
+  with period as (
+    select
+      h.budget_amount,
+      h.budget_period,
+      date_trunc(h.budget_period, now()) as period_start
+    from public.households h
+    where h.id = target_household_id
+  )
+  select
+    p.budget_amount,
+    p.budget_period,
+    p.period_start,
+    p.period_start + case when p.budget_period = 'week' then interval '1 week' else interval '1 month' end,
+    coalesce(
+      (
+        select sum(s.amount)
+        from public.household_spending s
+        where s.household_id = target_household_id
+          and s.recorded_at >= p.period_start
+      ),
+      0
+    ),
+    coalesce(
+      (
+        select sum(public.item_line_total(i.quantity, i.unit, i.price_estimate))
+        from public.items i
+        join public.lists l on l.id = i.list_id
+        where l.household_id = target_household_id
+          and l.archived_at is null
+          and not i.checked
+          and (exclude_list_id is null or i.list_id <> exclude_list_id)
+      ),
+      0
+    )
+  from period p
+$$;
+
+revoke all on function public.household_budget_status(uuid, uuid) from public;
+grant execute on function public.household_budget_status(uuid, uuid) to authenticated;
@@ -0,0 +1,114 @@
+-- 0011: household preferences from the onboarding quiz (crew, cadence, focus).
+-- The app stores the answers in the new user's metadata at sign up
+-- (`onboarding_answers`); creating a household copies them into
+-- household_preferences. The owner can change them later from the profile.
+
+create table if not exists public.household_preferences (
+  household_id uuid primary key references public.households(id) on delete cascade,
+  crew text[] not null default '{}',
+  cadence text,
+  focus text,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.household_preferences drop constraint if exists household_preferences_crew_check;
+alter table public.household_preferences
+  add constraint household_preferences_crew_check
+  check (crew <@ array['partner', 'roommates', 'kids', 'caregiver', 'just-me']::text[]);
+
+alter table public.household_preferences drop constraint if exists household_preferences_cadence_check;
+alter table public.household_preferences
+  add constraint household_preferences_cadence_check
+  check (cadence is null or cadence in ('weekly', 'biweekly', 'monthly', 'as-needed'));
+
+alter table public.household_preferences drop constraint if exists household_preferences_focus_check;
+alter table public.household_preferences
+  add constraint household_preferences_focus_check
+  check (focus is null or focus in ('never-miss', 'faster-trips', 'shared-planning', 'budget'));
+
+alter table public.household_preferences enable row level security;
+
+drop policy if exists household_preferences_select on public.household_preferences;
+create policy household_preferences_select
+  on public.household_preferences
+  for select
+  using (
+    exists (
+      select 1 from public.members m
+      where m.household_id = household_preferences.household_id and m.user_id = auth.uid()
+    )
+  );
+
+-- Same rule as households_update: only the owner changes household settings.
+drop policy if exists household_preferences_update on public.household_preferences;
+create policy household_preferences_update
+  on public.household_preferences
+  for update
+  using (
+    exists (
+      select 1 from public.households h
+      where h.id = household_preferences.household_id and h.owner_id = auth.uid()
+    )
+  );
+
+-- Copies a user's onboarding answers into a household's preferences. Unknown
+-- values are dropped instead of failing, metadata is client-supplied.
+create or replace function public.apply_onboarding_preferences(target_household_id uuid, source_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_answers jsonb;
+  v_crew text[] := '{}';
+begin
+  select u.raw_user_meta_data -> 'onboarding_answers' into v_answers
+  from auth.users u
+  where u.id = source_user_id;
+
+  if v_answers is not null and jsonb_typeof(v_answers -> 'household') = 'array' then
+    select coalesce(array_agg(distinct answer), '{}') into v_crew
+    from jsonb_array_elements_text(v_answers -> 'household') as answer
+    where answer in ('partner', 'roommates', 'kids', 'caregiver', 'just-me');
+  end if;
+
+  insert into public.household_preferences (household_id, crew, cadence, focus)
+  values (
+    target_household_id,
+    v_crew,
+    case
+      when v_answers ->> 'cadence' in ('weekly', 'biweekly', 'monthly', 'as-needed')
+        then v_answers ->> 'cadence'
+    end,
+    case
+      when v_answers ->> 'focus' in ('never-miss', 'faster-trips', 'shared-planning', 'budget')
+        then v_answers ->> 'focus'
+    end
+  )
+  on conflict (household_id) do nothing;
+end;
+$$;
+
+revoke all on function public.apply_onboarding_preferences(uuid, uuid) from public;
+
+create or replace function public.households_apply_onboarding()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.apply_onboarding_preferences(new.id, new.owner_id);
+  return new;
+end;
+$$;
+
+drop trigger if exists households_apply_onboarding on public.households;
+create trigger households_apply_onboarding
+  after insert on public.households
+  for each row execute function public.households_apply_onboarding();
+
+-- Existing households get a row too, so clients can always read one.
+select public.apply_onboarding_preferences(h.id, h.owner_id)
+from public.households h;
@@ -0,0 +1,297 @@
+-- 0012: shopping trips ("I'm in the store now").
+-- A trip is started and finished through RPCs; while it is open, every item
+-- checked on its list is recorded in shopping_trip_items by a trigger, so
+-- checks from other members count too. Finishing stores the totals and, when
+-- the shopper enters what they paid, books that amount as the spending for the
+-- trip instead of the per-item estimates.
+
+create table if not exists public.shopping_trips (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households(id) on delete cascade,
+  list_id uuid not null references public.lists(id) on delete cascade,
+  started_by uuid references auth.users(id) on delete set null,
+  shopper_label text,
+  started_at timestamptz not null default now(),
+  ended_at timestamptz,
+  item_count int not null default 0,
+  estimated_total numeric(10, 2),
+  final_spend numeric(10, 2) check (final_spend is null or final_spend >= 0),
+  cleared_checked boolean not null default false
+);
+
+-- One open trip per list; starting again joins it.
+create unique index if not exists idx_shopping_trips_open_list
+  on public.shopping_trips (list_id)
+  where ended_at is null;
+
+create index if not exists idx_shopping_trips_list_started
+  on public.shopping_trips (list_id, started_at desc);
+
+-- item_id has no foreign key: checked items are usually cleared after a trip.
+create table if not exists public.shopping_trip_items (
+  trip_id uuid not null references public.shopping_trips(id) on delete cascade,
+  item_id uuid not null,
+  item_name text not null,
+  quantity numeric(10, 2) not null,
+  unit text not null default 'stuks',
+  amount numeric(10, 2),
+  checked_by uuid references auth.users(id) on delete set null,
+  checked_at timestamptz not null default now(),
+  primary key (trip_id, item_id)
+);
+
+alter table public.household_spending
+  add column if not exists trip_id uuid references public.shopping_trips(id) on delete set null;
+
+alter table public.shopping_trips enable row level security;
+alter table public.shopping_trip_items enable row level security;
+
+-- Written by the RPCs and trigger below; members only read.
+drop policy if exists shopping_trips_select on public.shopping_trips;
+create policy shopping_trips_select
+  on public.shopping_trips
+  for select
+  using (
+    exists (
+      select 1 from public.members m
+      where m.household_id = shopping_trips.household_id and m.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists shopping_trip_items_select on public.shopping_trip_items;
+create policy shopping_trip_items_select
+  on public.shopping_trip_items
+  for select
+  using (
+    exists (
+      select 1 from public.shopping_trips t
+      join public.members m on m.household_id = t.household_id
+      where t.id = shopping_trip_items.trip_id and m.user_id = auth.uid()
+    )
+  );
+
+create or replace function public.record_trip_item()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_trip_id uuid;
+begin
+  if new.checked is not distinct from old.checked
+    and (
+      not new.checked
+      or (
+        new.quantity is not distinct from old.quantity
+        and new.unit is not distinct from old.unit
+        and new.price_estimate is not distinct from old.price_estimate
+        and new.name is not distinct from old.name
+      )
+    )
+  then
+    return new;
+  end if;
+
+  select t.id into v_trip_id
+  from public.shopping_trips t
+  where t.list_id = new.list_id and t.ended_at is null;
+
+  if v_trip_id is null then
+    return new;
+  end if;
+
+  if not new.checked then
+    delete from public.shopping_trip_items where trip_id = v_trip_id and item_id = new.id;
+    return new;
+  end if;
+
+  insert into public.shopping_trip_items (trip_id, item_id, item_name, quantity, unit, amount, checked_by)
+  values (
+    v_trip_id, new.id, new.name, new.quantity, new.unit,
+    public.item_line_total(new.quantity, new.unit, new.price_estimate),
+    auth.uid()
+  )
+  on conflict (trip_id, item_id) do update
+  set item_name = excluded.item_name,
+      quantity = excluded.quantity,
+      unit = excluded.unit,
+      amount = excluded.amount;
+  return new;
+end;
+$$;
+
+drop trigger if exists items_record_trip_item on public.items;
+create trigger items_record_trip_item
+  after update on public.items
+  for each row execute function public.record_trip_item();
+
+-- Same as 0010, except items paid for in a trip with a final amount are no
+-- longer booked one by one: the trip amount already covers them.
+create or replace function public.record_item_spending()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_amount numeric := public.item_line_total(new.quantity, new.unit, new.price_estimate);
+begin
+  if tg_op = 'UPDATE'
+    and new.checked is not distinct from old.checked
+    and new.quantity is not distinct from old.quantity
+    and new.unit is not distinct from old.unit
+    and new.price_estimate is not distinct from old.price_estimate
+    and new.name is not distinct from old.name
+  then
+    return new;
+  end if;
+
+  if not new.checked or v_amount is null then
+    delete from public.household_spending where item_id = new.id;
+    return new;
+  end if;
+
+  if exists (
+    select 1 from public.shopping_trip_items ti
+    join public.shopping_trips t on t.id = ti.trip_id
+    where ti.item_id = new.id and t.final_spend is not null
+  ) then
+    return new;
+  end if;
+
+  -- Editing a checked item corrects its amount but keeps the original date.
+  insert into public.household_spending (household_id, list_id, item_id, item_name, amount, recorded_by)
+  select l.household_id, new.list_id, new.id, new.name, v_amount, auth.uid()
+  from public.lists l
+  where l.id = new.list_id
+  on conflict (item_id) where item_id is not null
+  do update set amount = excluded.amount, item_name = excluded.item_name;
+  return new;
+end;
+$$;
+
+-- Starts a trip on a list, or returns the one that is already running.
+create or replace function public.start_shopping_trip(target_list_id uuid)
+returns public.shopping_trips
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_household_id uuid;
+  v_trip public.shopping_trips;
+begin
+  select l.household_id into v_household_id
+  from public.lists l
+  join public.members m on m.household_id = l.household_id
+  where l.id = target_list_id and m.user_id = auth.uid();
+
+  if v_household_id is null then
+    raise exception 'list_not_accessible' using errcode = '42501';
+  end if;
+
+  select * into v_trip
+  from public.shopping_trips t
+  where t.list_id = target_list_id and t.ended_at is null;
+
+  if found then
+    return v_trip;
+  end if;
+
+  insert into public.shopping_trips (household_id, list_id, started_by, shopper_label)
+  values (v_household_id, target_list_id, auth.uid(), public.history_actor_label())
+  returning * into v_trip;
+  return v_trip;
+end;
+$$;
+
+revoke all on function public.start_shopping_trip(uuid) from public;
+grant execute on function public.start_shopping_trip(uuid) to authenticated;
+
+-- Closes a trip. `final_spend` (what was actually paid) replaces the estimates
+-- of the trip's items in household_spending; `clear_checked` removes checked
+-- items from the list and logs that once, like clear_list().
+create or replace function public.finish_shopping_trip(
+  target_trip_id uuid,
+  final_spend numeric default null,
+  clear_checked boolean default false
+)
+returns public.shopping_trips
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_variable
+declare
+  v_trip public.shopping_trips;
+  v_cleared int := 0;
+begin
+  select t.* into v_trip
+  from public.shopping_trips t
+  join public.members m on m.household_id = t.household_id
+  where t.id = target_trip_id and m.user_id = auth.uid()
+  for update of t;
+
+  if not found then
+    raise exception 'trip_not_accessible' using errcode = '42501';
+  end if;
+  if v_trip.ended_at is not null then
+    raise exception 'trip_already_finished' using errcode = '22023';
+  end if;
+  if final_spend is not null and final_spend < 0 then
+    raise exception 'final_spend_must_not_be_negative' using errcode = '22023';
+  end if;
+
+  if final_spend is not null then
+    delete from public.household_spending s
+    using public.shopping_trip_items ti
+    where ti.trip_id = target_trip_id and s.item_id = ti.item_id;
+
+    insert into public.household_spending (household_id, list_id, item_name, amount, recorded_by, trip_id)
+    values (v_trip.household_id, v_trip.list_id, 'Boodschappenronde', final_spend, auth.uid(), target_trip_id);
+  end if;
+
+  if clear_checked then
+    perform set_config('groceo.history_action', 'cleared', true);
+    delete from public.items where list_id = v_trip.list_id and checked;
+    get diagnostics v_cleared = row_count;
+    perform set_config('groceo.history_action', '', true);
+
+    if v_cleared > 0 then
+      insert into public.list_history (list_id, item_name, quantity, action, user_id, user_email)
+      values (
+        v_trip.list_id, 'Afgevinkte items opgeruimd', v_cleared, 'cleared',
+        auth.uid(), public.history_actor_label()
+      );
+    end if;
+  end if;
+
+  update public.shopping_trips t
+  set ended_at = now(),
+      item_count = (select count(*) from public.shopping_trip_items ti where ti.trip_id = t.id),
+      estimated_total = (select sum(ti.amount) from public.shopping_trip_items ti where ti.trip_id = t.id),
+      final_spend = finish_shopping_trip.final_spend,
+      cleared_checked = v_cleared > 0
+  where t.id = target_trip_id
+  returning t.* into v_trip;
+  return v_trip;
+end;
+$$;
+
+revoke all on function public.finish_shopping_trip(uuid, numeric, boolean) from public;
+grant execute on function public.finish_shopping_trip(uuid, numeric, boolean) to authenticated;
+
+-- Let the other shoppers see a trip start and end.
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'shopping_trips'
+    )
+  then
+    alter publication supabase_realtime add table public.shopping_trips;
+  end if;
+end;
+$$;
@@ -0,0 +1,86 @@
+-- 0013: store layouts. A household keeps profiles of the stores it visits, each
+-- with its aisles in walking order; a list can point at one store so its items
+-- are sorted in that order. Matching item categories to aisles happens in
+-- src/lib/stores.ts.
+
+create table if not exists public.stores (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households(id) on delete cascade,
+  name text not null,
+  aisles text[] not null default '{}',
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.stores drop constraint if exists stores_name_check;
+alter table public.stores
+  add constraint stores_name_check
+  check (char_length(btrim(name)) between 1 and 60);
+
+create unique index if not exists idx_stores_household_name
+  on public.stores (household_id, lower(btrim(name)));
+
+alter table public.lists
+  add column if not exists store_id uuid references public.stores(id) on delete set null;
+
+alter table public.stores enable row level security;
+
+-- Shared like lists: every member can add and arrange stores.
+drop policy if exists stores_crud on public.stores;
+create policy stores_crud
+  on public.stores
+  for all
+  using (
+    exists (
+      select 1 from public.members m
+      where m.household_id = stores.household_id and m.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.members m
+      where m.household_id = stores.household_id and m.user_id = auth.uid()
+    )
+  );
+
+-- A list may only use a store of its own household.
+create or replace function public.check_list_store()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.store_id is null
+    or (tg_op = 'UPDATE' and new.store_id is not distinct from old.store_id)
+  then
+    return new;
+  end if;
+
+  if not exists (
+    select 1 from public.stores s
+    where s.id = new.store_id and s.household_id = new.household_id
+  ) then
+    raise exception 'store_not_in_household' using errcode = '23503';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists lists_check_store on public.lists;
+create trigger lists_check_store
+  before insert or update on public.lists
+  for each row execute function public.check_list_store();
+
+-- Aisle changes on one phone re-sort the list on the others.
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'stores'
+    )
+  then
+    alter publication supabase_realtime add table public.stores;
+  end if;
+end;
+$$;
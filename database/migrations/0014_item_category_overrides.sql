@@ -0,0 +1,41 @@
+-- 0014: household category overrides. The app fills an item's category from a
+-- bundled product catalogue (src/lib/catalog.ts); when a household picks a
+-- different category for an item, that choice is stored here and used the next
+-- time the item is added. `item_key` is the normalized name (lowercase, no
+-- accents or punctuation), computed by the client.
+
+create table if not exists public.item_category_overrides (
+  household_id uuid not null references public.households(id) on delete cascade,
+  item_key text not null,
+  item_name text not null,
+  category text not null,
+  updated_by uuid references auth.users(id) on delete set null default auth.uid(),
+  updated_at timestamptz not null default now(),
+  primary key (household_id, item_key)
+);
+
+alter table public.item_category_overrides
+  drop constraint if exists item_category_overrides_category_check;
+alter table public.item_category_overrides
+  add constraint item_category_overrides_category_check
+  check (char_length(btrim(category)) between 1 and 60);
+
+alter table public.item_category_overrides enable row level security;
+
+-- Shared like the items themselves: any member can correct a category.
+drop policy if exists item_category_overrides_crud on public.item_category_overrides;
+create policy item_category_overrides_crud
+  on public.item_category_overrides
+  for all
+  using (
+    exists (
+      select 1 from public.members m
+      where m.household_id = item_category_overrides.household_id and m.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.members m
+      where m.household_id = item_category_overrides.household_id and m.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,106 @@
+-- 0015: quick-add favourites learned from list_history. household_favorites()
+-- ranks the items a household adds or checks off by frequency and recency
+-- (one event per item per day, older days weigh less); members can pin items
+-- so they always come first.
+
+create table if not exists public.favorite_pins (
+  household_id uuid not null references public.households(id) on delete cascade,
+  item_key text not null,
+  item_name text not null,
+  pinned_by uuid references auth.users(id) on delete set null default auth.uid(),
+  pinned_at timestamptz not null default now(),
+  primary key (household_id, item_key)
+);
+
+alter table public.favorite_pins enable row level security;
+
+drop policy if exists favorite_pins_crud on public.favorite_pins;
+create policy favorite_pins_crud
+  on public.favorite_pins
+  for all
+  using (
+    exists (
+      select 1 from public.members m
+      where m.household_id = favorite_pins.household_id and m.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.members m
+      where m.household_id = favorite_pins.household_id and m.user_id = auth.uid()
+    )
+  );
+
+-- Runs as the caller, so list_history and favorite_pins RLS decide what counts.
+-- `half_life_days`: an item bought that many days ago counts half as much.
+create or replace function public.household_favorites(
+  target_household_id uuid,
+  max_results int default 12,
+  half_life_days int default 21
+)
+returns table (
+  item_name text,
+  buy_days int,
+  last_added_at timestamptz,
+  score numeric,
+  pinned boolean
+)
+language sql
+stable
+set search_path = public
+as $$
+  with events as (
+    select
+      lower(btrim(h.item_name)) as item_key,
+      h.item_name,
+      h.created_at,
+      date_trunc('day', h.created_at) as day
+    from public.list_history h
+    join public.lists l on l.id = h.list_id
+    where l.household_id = target_household_id
+      and h.action in ('added', 'checked')
+      and btrim(h.item_name) <> ''
+  ),
+  ranked as (
+    select
+      e.item_key,
+      (array_agg(e.item_name order by e.created_at desc))[1] as item_name,
+      count(distinct e.day)::int as buy_days,
+      max(e.created_at) as last_added_at
+    from events e
+    group by e.item_key
+  ),
+  scored as (
+    select
+      r.*,
+      (
+        select coalesce(sum(power(
+          0.5,
+          extract(epoch from now() - d.day) / 86400.0 / greatest(half_life_days, 1)
+        )), 0)
+        from (select distinct e.day from events e where e.item_key = r.item_key) d
+      )::numeric(10, 4) as score
+    from ranked r
+  ),
+  pins as (
+    select p.item_key, p.item_name
+    from public.favorite_pins p
+    where p.household_id = target_household_id
+  )
+  select
+    coalesce(p.item_name, s.item_name) as item_name,
+    coalesce(s.buy_days, 0) as buy_days,
+    s.last_added_at,
+    coalesce(s.score, 0) as score,
+    p.item_key is not null as pinned
+  from scored s
+  full join pins p on p.item_key = s.item_key
+  order by
+    (p.item_key is not null) desc,
+    coalesce(s.score, 0) desc,
+    s.last_added_at desc nulls last
+  limit greatest(max_results, 0);
+$$;
+
+revoke all on function public.household_favorites(uuid, int, int) from public;
+grant execute on function public.household_favorites(uuid, int, int) to authenticated;
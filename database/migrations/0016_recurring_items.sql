@@ -0,0 +1,311 @@
+-- 0016: recurring items ("Melk x2 elke maandag", "Koffie om de 2 weken").
+-- A rule repeats every `interval_count` days, weeks or months counted from
+-- `starts_on`. add_due_recurring_items() puts due rules on their list, unless
+-- the item is already open there, and moves `next_due_on` past today. It runs
+-- from pg_cron (or scripts/recurring-items.js) so rules fire while nobody has
+-- the app open; the app also calls it for the list it shows. Items added this
+-- way are logged in list_history as added by Groceo.
+
+create table if not exists public.recurring_items (
+  id uuid primary key default gen_random_uuid(),
+  list_id uuid not null references public.lists(id) on delete cascade,
+  name text not null,
+  quantity numeric(10, 2) not null default 1,
+  unit text not null default 'stuks',
+  category text,
+  frequency text not null default 'week',
+  interval_count int not null default 1,
+  starts_on date not null default current_date,
+  next_due_on date not null default current_date,
+  paused boolean not null default false,
+  last_added_at timestamptz,
+  created_by uuid references auth.users(id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+alter table public.recurring_items drop constraint if exists recurring_items_name_check;
+alter table public.recurring_items
+  add constraint recurring_items_name_check
+  check (char_length(btrim(name)) between 1 and 120);
+
+alter table public.recurring_items drop constraint if exists recurring_items_quantity_check;
+alter table public.recurring_items
+  add constraint recurring_items_quantity_check
+  check (quantity > 0 and quantity <= 9999);
+
+-- Same list as items_unit_check (0008).
+alter table public.recurring_items drop constraint if exists recurring_items_unit_check;
+alter table public.recurring_items
+  add constraint recurring_items_unit_check
+  check (unit in ('stuks', 'g', 'kg', 'ml', 'l', 'pak', 'blik', 'fles', 'zak', 'bos'));
+
+alter table public.recurring_items drop constraint if exists recurring_items_schedule_check;
+alter table public.recurring_items
+  add constraint recurring_items_schedule_check
+  check (frequency in ('day', 'week', 'month') and interval_count between 1 and 52);
+
+create index if not exists idx_recurring_items_list on public.recurring_items (list_id);
+create index if not exists idx_recurring_items_due
+  on public.recurring_items (next_due_on)
+  where not paused;
+
+alter table public.recurring_items enable row level security;
+
+drop policy if exists recurring_items_crud on public.recurring_items;
+create policy recurring_items_crud
+  on public.recurring_items
+  for all
+  using (
+    exists (
+      select 1 from public.lists l
+      join public.members m on m.household_id = l.household_id
+      where l.id = recurring_items.list_id and m.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.lists l
+      join public.members m on m.household_id = l.household_id
+      where l.id = recurring_items.list_id and m.user_id = auth.uid()
+    )
+  );
+
+-- First occurrence after `after_day`. Months are counted from the anchor, so a
+-- rule starting on the 31st lands on the last day of shorter months and goes
+-- back to the 31st afterwards.
+create or replace function public.recurring_next_due(
+  anchor date,
+  frequency text,
+  interval_count int,
+  after_day date
+)
+returns date
+language plpgsql
+immutable
+set search_path = public
+as $$
+declare
+  v_step int;
+  v_periods int;
+  v_due date;
+begin
+  if anchor > after_day then
+    return anchor;
+  end if;
+
+  if frequency = 'month' then
+    v_periods := (
+      (extract(year from after_day) - extract(year from anchor)) * 12
+      + extract(month from after_day) - extract(month from anchor)
+    )::int / interval_count;
+    loop
+      v_due := (anchor + make_interval(months => v_periods * interval_count))::date;
+      exit when v_due > after_day;
+      v_periods := v_periods + 1;
+    end loop;
+    return v_due;
+  end if;
+
+  v_step := interval_count * case when frequency = 'week' then 7 else 1 end;
+  return anchor + ((after_day - anchor) / v_step + 1) * v_step;
+end;
+$$;
+
+-- Keeps next_due_on in step with the schedule; a rule starting today is due today.
+create or replace function public.recurring_items_schedule()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.name := btrim(new.name);
+  if tg_op = 'INSERT'
+    or new.starts_on is distinct from old.starts_on
+    or new.frequency is distinct from old.frequency
+    or new.interval_count is distinct from old.interval_count
+  then
+    new.next_due_on := public.recurring_next_due(
+      new.starts_on, new.frequency, new.interval_count, current_date - 1
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists recurring_items_schedule on public.recurring_items;
+create trigger recurring_items_schedule
+  before insert or update on public.recurring_items
+  for each row execute function public.recurring_items_schedule();
+
+-- Scheduled jobs already run without auth.uid() and are logged as Groceo; the
+-- `groceo.history_actor` setting does the same for changes a member's call
+-- makes on Groceo's behalf, like adding due recurring items.
+create or replace function public.history_actor_id()
+returns uuid
+language sql
+stable
+set search_path = public
+as $$
+  select case
+    when coalesce(current_setting('groceo.history_actor', true), '') = 'groceo' then null
+    else auth.uid()
+  end
+$$;
+
+create or replace function public.history_actor_label()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (
+      select coalesce(
+        nullif(trim(u.raw_user_meta_data ->> 'full_name'), ''),
+        split_part(u.email, '@', 1)
+      )
+      from auth.users u
+      where u.id = public.history_actor_id()
+    ),
+    'Groceo'
+  )
+$$;
+
+-- Same as 0008, with the acting user from history_actor_id().
+create or replace function public.record_item_history()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := public.history_actor_id();
+  v_label text := public.history_actor_label();
+begin
+  if tg_op = 'INSERT' then
+    insert into public.list_history (list_id, item_id, item_name, quantity, unit, action, user_id, user_email)
+    values (new.list_id, new.id, new.name, new.quantity, new.unit, 'added', v_user, v_label);
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' then
+    if new.checked is distinct from old.checked then
+      insert into public.list_history (list_id, item_id, item_name, quantity, unit, action, user_id, user_email)
+      values (
+        new.list_id, new.id, new.name, new.quantity, new.unit,
+        case when new.checked then 'checked' else 'unchecked' end,
+        v_user, v_label
+      );
+    end if;
+    if new.name is distinct from old.name
+      or new.quantity is distinct from old.quantity
+      or new.unit is distinct from old.unit
+    then
+      insert into public.list_history (list_id, item_id, item_name, quantity, unit, action, user_id, user_email)
+      values (new.list_id, new.id, new.name, new.quantity, new.unit, 'updated', v_user, v_label);
+    end if;
+    return new;
+  end if;
+
+  if coalesce(current_setting('groceo.history_action', true), '') = 'cleared'
+    or not exists (select 1 from public.lists l where l.id = old.list_id)
+  then
+    return old;
+  end if;
+  insert into public.list_history (list_id, item_id, item_name, quantity, unit, action, user_id, user_email)
+  values (old.list_id, old.id, old.name, old.quantity, old.unit, 'deleted', v_user, v_label);
+  return old;
+end;
+$$;
+
+-- Adds every due rule (of one list, or of all lists the caller can see; all
+-- lists when run without a user) and returns how many items were added. Open
+-- items are matched on lower(btrim(name)), so a rule never adds a duplicate.
+create or replace function public.add_due_recurring_items(target_list_id uuid default null)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_today date := current_date;
+  v_rule record;
+  v_added int := 0;
+begin
+  if v_user is not null and target_list_id is not null and not exists (
+    select 1 from public.lists l
+    join public.members m on m.household_id = l.household_id
+    where l.id = target_list_id and m.user_id = v_user
+  ) then
+    raise exception 'list_not_accessible' using errcode = '42501';
+  end if;
+
+  perform set_config('groceo.history_actor', 'groceo', true);
+
+  for v_rule in
+    select r.*
+    from public.recurring_items r
+    where not r.paused
+      and r.next_due_on <= v_today
+      and (target_list_id is null or r.list_id = target_list_id)
+      and (
+        v_user is null
+        or exists (
+          select 1 from public.lists l
+          join public.members m on m.household_id = l.household_id
+          where l.id = r.list_id and m.user_id = v_user
+        )
+      )
+    for update of r skip locked
+  loop
+    if not exists (
+      select 1 from public.items i
+      where i.list_id = v_rule.list_id
+        and not i.checked
+        and lower(btrim(i.name)) = lower(v_rule.name)
+    ) then
+      insert into public.items (list_id, name, quantity, unit, category)
+      values (v_rule.list_id, v_rule.name, v_rule.quantity, v_rule.unit, v_rule.category);
+      v_added := v_added + 1;
+
+      update public.recurring_items
+      set last_added_at = now()
+      where id = v_rule.id;
+    end if;
+
+    -- Missed occurrences are not made up: the rule skips ahead to its next date.
+    update public.recurring_items
+    set next_due_on = public.recurring_next_due(starts_on, frequency, interval_count, v_today)
+    where id = v_rule.id;
+  end loop;
+
+  perform set_config('groceo.history_actor', '', true);
+  return v_added;
+end;
+$$;
+
+revoke all on function public.add_due_recurring_items(uuid) from public;
+grant execute on function public.add_due_recurring_items(uuid) to authenticated;
+do $$
+begin
+  if exists (select 1 from pg_roles where rolname = 'service_role') then
+    grant execute on function public.add_due_recurring_items(uuid) to service_role;
+  end if;
+end;
+$$;
+
+-- Hourly where pg_cron is available, so a rule due today shows up early in the
+-- morning. Otherwise run scripts/recurring-items.js from a scheduler.
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule(
+      'groceo-recurring-items',
+      '5 * * * *',
+      'select public.add_due_recurring_items()'
+    );
+  end if;
+end;
+$$;
@@ -0,0 +1,126 @@
+-- 0017: pantry inventory per household. Checking an item off a list stocks it
+-- in pantry_items (unless the list has `stock_pantry` switched off); unchecking
+-- takes it out again. Members adjust stock and best-before dates in the app.
+-- A row at quantity 0 means "op": the app offers to put it back on the list.
+
+alter table public.lists add column if not exists stock_pantry boolean not null default true;
+
+create table if not exists public.pantry_items (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households(id) on delete cascade,
+  name text not null,
+  item_key text generated always as (lower(btrim(name))) stored,
+  quantity numeric(10, 2) not null default 1,
+  unit text not null default 'stuks',
+  category text,
+  best_before date,
+  -- Where it was bought from; "add back to list" goes there.
+  source_list_id uuid references public.lists(id) on delete set null,
+  updated_by uuid references auth.users(id) on delete set null default auth.uid(),
+  updated_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+alter table public.pantry_items drop constraint if exists pantry_items_name_check;
+alter table public.pantry_items
+  add constraint pantry_items_name_check
+  check (char_length(btrim(name)) between 1 and 120);
+
+alter table public.pantry_items drop constraint if exists pantry_items_quantity_check;
+alter table public.pantry_items
+  add constraint pantry_items_quantity_check
+  check (quantity >= 0 and quantity <= 9999);
+
+-- Same list as items_unit_check (0008).
+alter table public.pantry_items drop constraint if exists pantry_items_unit_check;
+alter table public.pantry_items
+  add constraint pantry_items_unit_check
+  check (unit in ('stuks', 'g', 'kg', 'ml', 'l', 'pak', 'blik', 'fles', 'zak', 'bos'));
+
+-- One row per product and unit: "2 l melk" and "1 pak melk" stay apart.
+create unique index if not exists idx_pantry_items_household_key
+  on public.pantry_items (household_id, item_key, unit);
+
+alter table public.pantry_items enable row level security;
+
+drop policy if exists pantry_items_crud on public.pantry_items;
+create policy pantry_items_crud
+  on public.pantry_items
+  for all
+  using (
+    exists (
+      select 1 from public.members m
+      where m.household_id = pantry_items.household_id and m.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.members m
+      where m.household_id = pantry_items.household_id and m.user_id = auth.uid()
+    )
+  );
+
+-- Restocking keeps the existing best-before date: the older pack is the one to
+-- use first, so "use soon" stays on until someone updates it.
+create or replace function public.stock_checked_item()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_household_id uuid;
+begin
+  if new.checked is not distinct from old.checked then
+    return new;
+  end if;
+
+  select l.household_id into v_household_id
+  from public.lists l
+  where l.id = new.list_id and l.stock_pantry;
+
+  if v_household_id is null then
+    return new;
+  end if;
+
+  if new.checked then
+    insert into public.pantry_items
+      (household_id, name, quantity, unit, category, source_list_id, updated_by)
+    values
+      (v_household_id, btrim(new.name), new.quantity, new.unit, new.category, new.list_id, auth.uid())
+    on conflict (household_id, item_key, unit) do update
+    set quantity = least(pantry_items.quantity + excluded.quantity, 9999),
+        category = coalesce(pantry_items.category, excluded.category),
+        source_list_id = excluded.source_list_id,
+        updated_by = excluded.updated_by,
+        updated_at = now();
+  else
+    update public.pantry_items p
+    set quantity = greatest(p.quantity - old.quantity, 0),
+        updated_by = auth.uid(),
+        updated_at = now()
+    where p.household_id = v_household_id
+      and p.item_key = lower(btrim(old.name))
+      and p.unit = old.unit;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists items_stock_pantry on public.items;
+create trigger items_stock_pantry
+  after update of checked on public.items
+  for each row execute function public.stock_checked_item();
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'pantry_items'
+    )
+  then
+    alter publication supabase_realtime add table public.pantry_items;
+  end if;
+end;
+$$;
@@ -0,0 +1,104 @@
+-- 0018: minimum stock per pantry item ("altijd 2 pak pasta in huis"). When the
+-- stock drops below `min_quantity`, the missing amount is put on the item's
+-- restock list, or on the household's first open list. An item that is already
+-- open there is not added twice; with the same unit its quantity is raised to
+-- what is missing. Like recurring items (0016), these adds are logged as Groceo.
+
+alter table public.pantry_items add column if not exists min_quantity numeric(10, 2);
+alter table public.pantry_items
+  add column if not exists restock_list_id uuid references public.lists(id) on delete set null;
+
+alter table public.pantry_items drop constraint if exists pantry_items_min_quantity_check;
+alter table public.pantry_items
+  add constraint pantry_items_min_quantity_check
+  check (min_quantity is null or (min_quantity > 0 and min_quantity <= 9999));
+
+-- A pantry item may only restock a list of its own household.
+create or replace function public.check_pantry_restock_list()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.restock_list_id is null
+    or (tg_op = 'UPDATE' and new.restock_list_id is not distinct from old.restock_list_id)
+  then
+    return new;
+  end if;
+
+  if not exists (
+    select 1 from public.lists l
+    where l.id = new.restock_list_id and l.household_id = new.household_id
+  ) then
+    raise exception 'list_not_in_household' using errcode = '23503';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists pantry_items_check_restock_list on public.pantry_items;
+create trigger pantry_items_check_restock_list
+  before insert or update on public.pantry_items
+  for each row execute function public.check_pantry_restock_list();
+
+create or replace function public.restock_pantry_item()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_list_id uuid;
+  v_missing numeric(10, 2);
+  v_open_id uuid;
+  v_open_quantity numeric(10, 2);
+  v_open_unit text;
+  v_previous_actor text := coalesce(current_setting('groceo.history_actor', true), '');
+begin
+  if new.min_quantity is null or new.quantity >= new.min_quantity then
+    return new;
+  end if;
+  if tg_op = 'UPDATE'
+    and new.quantity is not distinct from old.quantity
+    and new.min_quantity is not distinct from old.min_quantity
+    and new.restock_list_id is not distinct from old.restock_list_id
+  then
+    return new;
+  end if;
+
+  select l.id into v_list_id
+  from public.lists l
+  where l.household_id = new.household_id and l.archived_at is null
+  order by (l.id = new.restock_list_id) desc nulls last, l.position asc
+  limit 1;
+
+  if v_list_id is null then
+    return new;
+  end if;
+
+  v_missing := new.min_quantity - new.quantity;
+
+  select i.id, i.quantity, i.unit into v_open_id, v_open_quantity, v_open_unit
+  from public.items i
+  where i.list_id = v_list_id
+    and not i.checked
+    and lower(btrim(i.name)) = new.item_key
+  order by (i.unit = new.unit) desc
+  limit 1;
+
+  perform set_config('groceo.history_actor', 'groceo', true);
+  if v_open_id is null then
+    insert into public.items (list_id, name, quantity, unit, category)
+    values (v_list_id, new.name, v_missing, new.unit, new.category);
+  elsif v_open_unit = new.unit and v_open_quantity < v_missing then
+    update public.items set quantity = v_missing where id = v_open_id;
+  end if;
+  perform set_config('groceo.history_actor', v_previous_actor, true);
+  return new;
+end;
+$$;
+
+drop trigger if exists pantry_items_restock on public.pantry_items;
+create trigger pantry_items_restock
+  after insert or update on public.pantry_items
+  for each row execute function public.restock_pantry_item();
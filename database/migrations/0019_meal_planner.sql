@@ -0,0 +1,204 @@
+-- 0019: weekly meal planner. Households keep recipes with ingredient lines and
+-- plan one meal per day, optionally based on a recipe and cooked for a given
+-- number of people. The app scales the ingredients, subtracts what is in the
+-- pantry and merges the rest into the open items of a list; `added_to_list_at`
+-- marks meals whose ingredients are already on a list.
+
+create table if not exists public.recipes (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households(id) on delete cascade,
+  name text not null,
+  servings integer not null default 4,
+  notes text,
+  created_by uuid references auth.users(id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.recipes drop constraint if exists recipes_name_check;
+alter table public.recipes
+  add constraint recipes_name_check
+  check (char_length(btrim(name)) between 1 and 120);
+
+alter table public.recipes drop constraint if exists recipes_servings_check;
+alter table public.recipes
+  add constraint recipes_servings_check
+  check (servings between 1 and 50);
+
+create index if not exists idx_recipes_household on public.recipes (household_id);
+
+create table if not exists public.recipe_ingredients (
+  id uuid primary key default gen_random_uuid(),
+  recipe_id uuid not null references public.recipes(id) on delete cascade,
+  name text not null,
+  quantity numeric(10, 2) not null default 1,
+  unit text not null default 'stuks',
+  position integer not null default 0
+);
+
+alter table public.recipe_ingredients drop constraint if exists recipe_ingredients_name_check;
+alter table public.recipe_ingredients
+  add constraint recipe_ingredients_name_check
+  check (char_length(btrim(name)) between 1 and 120);
+
+alter table public.recipe_ingredients drop constraint if exists recipe_ingredients_quantity_check;
+alter table public.recipe_ingredients
+  add constraint recipe_ingredients_quantity_check
+  check (quantity > 0 and quantity <= 9999);
+
+-- Same list as items_unit_check (0008).
+alter table public.recipe_ingredients drop constraint if exists recipe_ingredients_unit_check;
+alter table public.recipe_ingredients
+  add constraint recipe_ingredients_unit_check
+  check (unit in ('stuks', 'g', 'kg', 'ml', 'l', 'pak', 'blik', 'fles', 'zak', 'bos'));
+
+create index if not exists idx_recipe_ingredients_recipe
+  on public.recipe_ingredients (recipe_id, position);
+
+create table if not exists public.meal_plans (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households(id) on delete cascade,
+  planned_on date not null,
+  title text not null,
+  recipe_id uuid references public.recipes(id) on delete set null,
+  servings integer not null default 4,
+  added_to_list_at timestamptz,
+  created_by uuid references auth.users(id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+alter table public.meal_plans drop constraint if exists meal_plans_title_check;
+alter table public.meal_plans
+  add constraint meal_plans_title_check
+  check (char_length(btrim(title)) between 1 and 120);
+
+alter table public.meal_plans drop constraint if exists meal_plans_servings_check;
+alter table public.meal_plans
+  add constraint meal_plans_servings_check
+  check (servings between 1 and 50);
+
+-- One meal per day per household.
+create unique index if not exists idx_meal_plans_household_day
+  on public.meal_plans (household_id, planned_on);
+
+-- A different recipe or number of people needs different ingredients, so the
+-- meal counts as "not on the list yet" again.
+create or replace function public.reset_meal_plan_added()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.recipe_id is distinct from old.recipe_id
+    or new.servings is distinct from old.servings
+  then
+    new.added_to_list_at := null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists meal_plans_reset_added on public.meal_plans;
+create trigger meal_plans_reset_added
+  before update on public.meal_plans
+  for each row execute function public.reset_meal_plan_added();
+
+-- A meal may only use a recipe of its own household.
+create or replace function public.check_meal_plan_recipe()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.recipe_id is null
+    or (tg_op = 'UPDATE' and new.recipe_id is not distinct from old.recipe_id)
+  then
+    return new;
+  end if;
+
+  if not exists (
+    select 1 from public.recipes r
+    where r.id = new.recipe_id and r.household_id = new.household_id
+  ) then
+    raise exception 'recipe_not_in_household' using errcode = '23503';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists meal_plans_check_recipe on public.meal_plans;
+create trigger meal_plans_check_recipe
+  before insert or update on public.meal_plans
+  for each row execute function public.check_meal_plan_recipe();
+
+alter table public.recipes enable row level security;
+alter table public.recipe_ingredients enable row level security;
+alter table public.meal_plans enable row level security;
+
+drop policy if exists recipes_crud on public.recipes;
+create policy recipes_crud
+  on public.recipes
+  for all
+  using (
+    exists (
+      select 1 from public.members m
+      where m.household_id = recipes.household_id and m.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.members m
+      where m.household_id = recipes.household_id and m.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists recipe_ingredients_crud on public.recipe_ingredients;
+create policy recipe_ingredients_crud
+  on public.recipe_ingredients
+  for all
+  using (
+    exists (
+      select 1
+      from public.recipes r
+      join public.members m on m.household_id = r.household_id
+      where r.id = recipe_ingredients.recipe_id and m.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1
+      from public.recipes r
+      join public.members m on m.household_id = r.household_id
+      where r.id = recipe_ingredients.recipe_id and m.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists meal_plans_crud on public.meal_plans;
+create policy meal_plans_crud
+  on public.meal_plans
+  for all
+  using (
+    exists (
+      select 1 from public.members m
+      where m.household_id = meal_plans.household_id and m.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.members m
+      where m.household_id = meal_plans.household_id and m.user_id = auth.uid()
+    )
+  );
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'meal_plans'
+    )
+  then
+    alter publication supabase_realtime add table public.meal_plans;
+  end if;
+end;
+$$;
@@ -0,0 +1,139 @@
+-- 0020: one definition of "the same item" on the server. Mirrors
+-- isSameItemName in src/lib/itemMatching.ts: case, accents and simple plurals
+-- ("tomaat"/"tomaten", "kaas"/"kazen") do not count, so a recurring rule for
+-- "tomaat" does not add a second item next to an open "tomaten".
+
+create or replace function public.normalize_item_name(value text)
+returns text
+language sql
+immutable
+set search_path = public
+as $$
+  select btrim(regexp_replace(
+    regexp_replace(
+      replace(replace(
+        translate(
+          lower(coalesce(value, '')),
+          'áàâäãåéèêëíìîïóòôöõúùûüýÿçñ',
+          'aaaaaaeeeeiiiiooooouuuuyycn'
+        ),
+        '''', ''), '’', ''),
+      '[^a-z0-9[:space:]]', ' ', 'g'
+    ),
+    '[[:space:]]+', ' ', 'g'
+  ));
+$$;
+
+-- Long vowels and doubled or voiced final consonants ("kaas"/"kaz",
+-- "kipp"/"kip").
+create or replace function public.canonical_item_stem(stem text)
+returns text
+language sql
+immutable
+set search_path = public
+as $$
+  select regexp_replace(regexp_replace(regexp_replace(regexp_replace(
+    stem,
+    '([aeou])\1', '\1', 'g'),
+    '([^aeiou])\1$', '\1'),
+    'z$', 's'),
+    'v$', 'f');
+$$;
+
+create or replace function public.item_name_variants(value text)
+returns text[]
+language plpgsql
+immutable
+set search_path = public
+as $$
+declare
+  v_name text := public.normalize_item_name(value);
+  v_variants text[] := array[v_name, public.canonical_item_stem(v_name)];
+  v_suffix text;
+  v_stem text;
+begin
+  foreach v_suffix in array array['eren', 'en', 's'] loop
+    if right(v_name, length(v_suffix)) = v_suffix then
+      v_stem := left(v_name, length(v_name) - length(v_suffix));
+      if length(v_stem) >= 2 then
+        v_variants := v_variants || array[v_stem, public.canonical_item_stem(v_stem)];
+      end if;
+    end if;
+  end loop;
+  return v_variants;
+end;
+$$;
+
+create or replace function public.is_same_item_name(a text, b text)
+returns boolean
+language sql
+immutable
+set search_path = public
+as $$
+  select public.item_name_variants(a) && public.item_name_variants(b);
+$$;
+
+-- Same as 0016, but open items are matched with is_same_item_name.
+create or replace function public.add_due_recurring_items(target_list_id uuid default null)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_today date := current_date;
+  v_rule record;
+  v_added int := 0;
+begin
+  if v_user is not null and target_list_id is not null and not exists (
+    select 1 from public.lists l
+    join public.members m on m.household_id = l.household_id
+    where l.id = target_list_id and m.user_id = v_user
+  ) then
+    raise exception 'list_not_accessible' using errcode = '42501';
+  end if;
+
+  perform set_config('groceo.history_actor', 'groceo', true);
+
+  for v_rule in
+    select r.*
+    from public.recurring_items r
+    where not r.paused
+      and r.next_due_on <= v_today
+      and (target_list_id is null or r.list_id = target_list_id)
+      and (
+        v_user is null
+        or exists (
+          select 1 from public.lists l
+          join public.members m on m.household_id = l.household_id
+          where l.id = r.list_id and m.user_id = v_user
+        )
+      )
+    for update of r skip locked
+  loop
+    if not exists (
+      select 1 from public.items i
+      where i.list_id = v_rule.list_id
+        and not i.checked
+        and public.is_same_item_name(i.name, v_rule.name)
+    ) then
+      insert into public.items (list_id, name, quantity, unit, category)
+      values (v_rule.list_id, v_rule.name, v_rule.quantity, v_rule.unit, v_rule.category);
+      v_added := v_added + 1;
+
+      update public.recurring_items
+      set last_added_at = now()
+      where id = v_rule.id;
+    end if;
+
+    -- Missed occurrences are not made up: the rule skips ahead to its next date.
+    update public.recurring_items
+    set next_due_on = public.recurring_next_due(starts_on, frequency, interval_count, v_today)
+    where id = v_rule.id;
+  end loop;
+
+  perform set_config('groceo.history_actor', '', true);
+  return v_added;
+end;
+$$;
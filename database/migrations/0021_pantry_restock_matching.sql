@@ -0,0 +1,59 @@
+-- 0021: restocking (0018) matches open items with is_same_item_name (0020), so
+-- an open "tomaten" is raised instead of getting a second "tomaat" next to it.
+
+create or replace function public.restock_pantry_item()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_list_id uuid;
+  v_missing numeric(10, 2);
+  v_open_id uuid;
+  v_open_quantity numeric(10, 2);
+  v_open_unit text;
+  v_previous_actor text := coalesce(current_setting('groceo.history_actor', true), '');
+begin
+  if new.min_quantity is null or new.quantity >= new.min_quantity then
+    return new;
+  end if;
+  if tg_op = 'UPDATE'
+    and new.quantity is not distinct from old.quantity
+    and new.min_quantity is not distinct from old.min_quantity
+    and new.restock_list_id is not distinct from old.restock_list_id
+  then
+    return new;
+  end if;
+
+  select l.id into v_list_id
+  from public.lists l
+  where l.household_id = new.household_id and l.archived_at is null
+  order by (l.id = new.restock_list_id) desc nulls last, l.position asc
+  limit 1;
+
+  if v_list_id is null then
+    return new;
+  end if;
+
+  v_missing := new.min_quantity - new.quantity;
+
+  select i.id, i.quantity, i.unit into v_open_id, v_open_quantity, v_open_unit
+  from public.items i
+  where i.list_id = v_list_id
+    and not i.checked
+    and public.is_same_item_name(i.name, new.name)
+  order by (i.unit = new.unit) desc
+  limit 1;
+
+  perform set_config('groceo.history_actor', 'groceo', true);
+  if v_open_id is null then
+    insert into public.items (list_id, name, quantity, unit, category)
+    values (v_list_id, new.name, v_missing, new.unit, new.category);
+  elsif v_open_unit = new.unit and v_open_quantity < v_missing then
+    update public.items set quantity = v_missing where id = v_open_id;
+  end if;
+  perform set_config('groceo.history_actor', v_previous_actor, true);
+  return new;
+end;
+$$;
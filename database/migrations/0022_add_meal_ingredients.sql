@@ -0,0 +1,111 @@
+-- 0022: puts the missing ingredients of planned meals (0019) on a list in one
+-- transaction. Merged quantities, new items and `added_to_list_at` are written
+-- together, so a failed call changes nothing and a retry cannot add the same
+-- ingredients twice. The client still scales recipes and subtracts the pantry;
+-- merging follows the list's merge_duplicates switch (0009) and matches names
+-- with is_same_item_name (0020).
+
+create or replace function public.add_meal_ingredients(
+  target_list_id uuid,
+  meal_ids uuid[],
+  ingredients jsonb
+)
+returns table (added int, merged int, already_listed text[])
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_variable
+declare
+  v_household_id uuid;
+  v_merge boolean;
+  v_ingredient jsonb;
+  v_name text;
+  v_quantity numeric(10, 2);
+  v_unit text;
+  v_open_id uuid;
+  v_added int := 0;
+  v_merged int := 0;
+  v_already_listed text[] := '{}';
+begin
+  select l.household_id, l.merge_duplicates into v_household_id, v_merge
+  from public.lists l
+  join public.members m on m.household_id = l.household_id
+  where l.id = target_list_id and m.user_id = auth.uid();
+
+  if v_household_id is null then
+    raise exception 'list_not_accessible' using errcode = '42501';
+  end if;
+
+  -- Locks the meals, so two taps on "op de lijst" cannot both get through.
+  perform 1 from public.meal_plans p
+  where p.id = any(meal_ids) and p.household_id = v_household_id
+  for update;
+
+  if exists (
+    select 1 from unnest(meal_ids) as requested(id)
+    where not exists (
+      select 1 from public.meal_plans p
+      where p.id = requested.id
+        and p.household_id = v_household_id
+        and p.added_to_list_at is null
+    )
+  ) then
+    raise exception 'meals_already_added' using errcode = '55000';
+  end if;
+
+  for v_ingredient in
+    select value from jsonb_array_elements(coalesce(ingredients, '[]'::jsonb))
+  loop
+    v_name := btrim(v_ingredient ->> 'name');
+    continue when coalesce(v_name, '') = '';
+    v_quantity := least(greatest(coalesce((v_ingredient ->> 'quantity')::numeric, 1), 0.01), 9999);
+    v_unit := coalesce(v_ingredient ->> 'unit', 'stuks');
+
+    if v_merge then
+      v_open_id := null;
+      select i.id into v_open_id
+      from public.items i
+      where i.list_id = target_list_id
+        and not i.checked
+        and i.unit = v_unit
+        and public.is_same_item_name(i.name, v_name)
+      order by i.created_at
+      limit 1
+      for update;
+
+      if v_open_id is not null then
+        update public.items
+        set quantity = least(quantity + v_quantity, 9999)
+        where id = v_open_id;
+        v_merged := v_merged + 1;
+        continue;
+      end if;
+
+      -- Open in another unit: 500 g and 2 stuks are not added up.
+      if exists (
+        select 1 from public.items i
+        where i.list_id = target_list_id
+          and not i.checked
+          and public.is_same_item_name(i.name, v_name)
+      ) then
+        v_already_listed := v_already_listed || v_name;
+        continue;
+      end if;
+    end if;
+
+    insert into public.items (list_id, name, quantity, unit, category)
+    values (target_list_id, v_name, v_quantity, v_unit, v_ingredient ->> 'category');
+    v_added := v_added + 1;
+  end loop;
+
+  update public.meal_plans p
+  set added_to_list_at = now()
+  where p.id = any(meal_ids) and p.household_id = v_household_id;
+
+  return query select v_added, v_merged, v_already_listed;
+end;
+$$;
+
+revoke all on function public.add_meal_ingredients(uuid, uuid[], jsonb) from public;
+grant execute on function public.add_meal_ingredients(uuid, uuid[], jsonb) to authenticated;
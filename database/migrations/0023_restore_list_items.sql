@@ -0,0 +1,190 @@
+-- 0023: undo for the agent's "clear" and "remove" (src/agents/meAgent.ts).
+-- restore_list_items() puts deleted items back with their old id, and logs it
+-- as one `restored` event instead of an `added` event per item. Spending that
+-- was booked for a restored checked item is still in household_spending with
+-- item_id set to null (0010); it is re-attached to the item rather than booked
+-- a second time.
+
+alter table public.list_history drop constraint if exists list_history_action_check;
+alter table public.list_history
+  add constraint list_history_action_check
+  check (action in ('added', 'deleted', 'checked', 'unchecked', 'updated', 'cleared', 'restored'));
+
+-- Same as 0016; rows put back by restore_list_items() are not logged one by one.
+create or replace function public.record_item_history()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := public.history_actor_id();
+  v_label text := public.history_actor_label();
+begin
+  if tg_op = 'INSERT' then
+    if coalesce(current_setting('groceo.history_action', true), '') = 'restored' then
+      return new;
+    end if;
+    insert into public.list_history (list_id, item_id, item_name, quantity, unit, action, user_id, user_email)
+    values (new.list_id, new.id, new.name, new.quantity, new.unit, 'added', v_user, v_label);
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' then
+    if new.checked is distinct from old.checked then
+      insert into public.list_history (list_id, item_id, item_name, quantity, unit, action, user_id, user_email)
+      values (
+        new.list_id, new.id, new.name, new.quantity, new.unit,
+        case when new.checked then 'checked' else 'unchecked' end,
+        v_user, v_label
+      );
+    end if;
+    if new.name is distinct from old.name
+      or new.quantity is distinct from old.quantity
+      or new.unit is distinct from old.unit
+    then
+      insert into public.list_history (list_id, item_id, item_name, quantity, unit, action, user_id, user_email)
+      values (new.list_id, new.id, new.name, new.quantity, new.unit, 'updated', v_user, v_label);
+    end if;
+    return new;
+  end if;
+
+  if coalesce(current_setting('groceo.history_action', true), '') = 'cleared'
+    or not exists (select 1 from public.lists l where l.id = old.list_id)
+  then
+    return old;
+  end if;
+  insert into public.list_history (list_id, item_id, item_name, quantity, unit, action, user_id, user_email)
+  values (old.list_id, old.id, old.name, old.quantity, old.unit, 'deleted', v_user, v_label);
+  return old;
+end;
+$$;
+
+-- Same as 0012; restore_list_items() re-attaches the spending of restored items.
+create or replace function public.record_item_spending()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_amount numeric := public.item_line_total(new.quantity, new.unit, new.price_estimate);
+begin
+  if tg_op = 'INSERT'
+    and coalesce(current_setting('groceo.history_action', true), '') = 'restored'
+  then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE'
+    and new.checked is not distinct from old.checked
+    and new.quantity is not distinct from old.quantity
+    and new.unit is not distinct from old.unit
+    and new.price_estimate is not distinct from old.price_estimate
+    and new.name is not distinct from old.name
+  then
+    return new;
+  end if;
+
+  if not new.checked or v_amount is null then
+    delete from public.household_spending where item_id = new.id;
+    return new;
+  end if;
+
+  if exists (
+    select 1 from public.shopping_trip_items ti
+    join public.shopping_trips t on t.id = ti.trip_id
+    where ti.item_id = new.id and t.final_spend is not null
+  ) then
+    return new;
+  end if;
+
+  -- Editing a checked item corrects its amount but keeps the original date.
+  insert into public.household_spending (household_id, list_id, item_id, item_name, amount, recorded_by)
+  select l.household_id, new.list_id, new.id, new.name, v_amount, auth.uid()
+  from public.lists l
+  where l.id = new.list_id
+  on conflict (item_id) where item_id is not null
+  do update set amount = excluded.amount, item_name = excluded.item_name;
+  return new;
+end;
+$$;
+
+-- `restored`: the items as they were, [{ id, name, quantity, unit, category,
+-- price_estimate, checked }]. Items that are on a list again are skipped.
+-- Returns how many items came back.
+create or replace function public.restore_list_items(target_list_id uuid, restored jsonb)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item record;
+  v_count int := 0;
+begin
+  if not exists (
+    select 1 from public.lists l
+    join public.members m on m.household_id = l.household_id
+    where l.id = target_list_id and m.user_id = auth.uid()
+  ) then
+    raise exception 'list_not_accessible' using errcode = '42501';
+  end if;
+
+  perform set_config('groceo.history_action', 'restored', true);
+  for v_item in
+    select *
+    from jsonb_to_recordset(coalesce(restored, '[]'::jsonb)) as r(
+      id uuid,
+      name text,
+      quantity numeric,
+      unit text,
+      category text,
+      price_estimate numeric,
+      checked boolean
+    )
+  loop
+    continue when v_item.id is null
+      or exists (select 1 from public.items i where i.id = v_item.id);
+
+    insert into public.items (id, list_id, name, quantity, unit, category, price_estimate, checked)
+    values (
+      v_item.id,
+      target_list_id,
+      v_item.name,
+      v_item.quantity,
+      coalesce(v_item.unit, 'stuks'),
+      v_item.category,
+      v_item.price_estimate,
+      coalesce(v_item.checked, false)
+    );
+    v_count := v_count + 1;
+
+    if v_item.checked then
+      update public.household_spending s
+      set item_id = v_item.id
+      where s.id = (
+        select o.id from public.household_spending o
+        where o.item_id is null
+          and o.list_id = target_list_id
+          and o.item_name = v_item.name
+        order by o.recorded_at desc
+        limit 1
+      );
+    end if;
+  end loop;
+  perform set_config('groceo.history_action', '', true);
+
+  if v_count > 0 then
+    insert into public.list_history (list_id, item_name, quantity, action, user_id, user_email)
+    values (
+      target_list_id, 'Items teruggezet', v_count, 'restored',
+      public.history_actor_id(), public.history_actor_label()
+    );
+  end if;
+  return v_count;
+end;
+$$;
+
+revoke all on function public.restore_list_items(uuid, jsonb) from public;
+grant execute on function public.restore_list_items(uuid, jsonb) to authenticated;
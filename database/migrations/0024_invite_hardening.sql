@@ -0,0 +1,103 @@
+-- 0024: invite codes that cannot be guessed. New codes carry 64 random bits
+-- (13 base32 characters instead of 6 hex), and join_household() allows each
+-- user a limited number of unknown codes per hour. Existing codes keep working
+-- until they expire.
+
+create or replace function public.invite_code_base32(bytes bytea)
+returns text
+language plpgsql
+immutable
+set search_path = public
+as $$
+declare
+  v_alphabet constant text := 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  v_bits text := '';
+  v_code text := '';
+  v_index int;
+begin
+  for v_index in 0 .. length(bytes) - 1 loop
+    v_bits := v_bits || get_byte(bytes, v_index)::bit(8)::text;
+  end loop;
+  v_bits := rpad(v_bits, ((length(v_bits) + 4) / 5) * 5, '0');
+
+  for v_index in 0 .. length(v_bits) / 5 - 1 loop
+    v_code := v_code
+      || substr(v_alphabet, substr(v_bits, v_index * 5 + 1, 5)::bit(5)::int + 1, 1);
+  end loop;
+  return v_code;
+end;
+$$;
+
+alter table public.invites
+  alter column code set default ('GROCEO-' || public.invite_code_base32(gen_random_bytes(8)));
+
+-- Unknown codes per user, for the limit in join_household(). Only the function
+-- reads and writes it.
+create table if not exists public.invite_attempts (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  attempted_at timestamptz not null default now()
+);
+
+create index if not exists idx_invite_attempts_user
+  on public.invite_attempts (user_id, attempted_at desc);
+
+alter table public.invite_attempts enable row level security;
+
+-- Same as 0002, with the attempt limit. An unknown code returns no row instead
+-- of raising invite_not_found, so the recorded attempt is not rolled back.
+create or replace function public.join_household(invite_code text)
+returns table (household_id uuid, household_name text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_invite public.invites%rowtype;
+  v_inserted int;
+begin
+  if auth.uid() is null then
+    raise exception 'not_authenticated' using errcode = '28000';
+  end if;
+
+  if (
+    select count(*) from public.invite_attempts a
+    where a.user_id = auth.uid() and a.attempted_at > now() - interval '1 hour'
+  ) >= 10 then
+    raise exception 'too_many_attempts' using errcode = '54000';
+  end if;
+
+  select * into v_invite
+  from public.invites i
+  where i.code = upper(trim(invite_code))
+  for update;
+
+  if not found then
+    delete from public.invite_attempts a
+    where a.user_id = auth.uid() and a.attempted_at <= now() - interval '1 hour';
+    insert into public.invite_attempts (user_id) values (auth.uid());
+    return;
+  end if;
+  if v_invite.revoked_at is not null then
+    raise exception 'invite_revoked' using errcode = 'P0001';
+  end if;
+  if v_invite.expires_at <= now() then
+    raise exception 'invite_expired' using errcode = 'P0001';
+  end if;
+  if v_invite.max_uses is not null and v_invite.use_count >= v_invite.max_uses then
+    raise exception 'invite_exhausted' using errcode = 'P0001';
+  end if;
+
+  insert into public.members (user_id, household_id, role)
+  values (auth.uid(), v_invite.household_id, 'member')
+  on conflict (user_id, household_id) do nothing;
+  get diagnostics v_inserted = row_count;
+
+  if v_inserted > 0 then
+    update public.invites set use_count = use_count + 1 where id = v_invite.id;
+  end if;
+
+  return query
+  select h.id, h.name from public.households h where h.id = v_invite.household_id;
+end;
+$$;
@@ -0,0 +1,103 @@
+-- 0025: favourites (0015) and pins agree on what the same item is. Pins are
+-- keyed on normalize_item_name() like the history, and a pin is matched to the
+-- history with is_same_item_name() (0020), so a pinned "tomaat" and bought
+-- "tomaten" are one suggestion.
+
+-- Pins that now share a key: keep the oldest.
+delete from public.favorite_pins p
+using public.favorite_pins o
+where p.household_id = o.household_id
+  and p.item_key <> o.item_key
+  and public.normalize_item_name(p.item_name) = public.normalize_item_name(o.item_name)
+  and (p.pinned_at, p.item_key) > (o.pinned_at, o.item_key);
+
+update public.favorite_pins
+set item_key = public.normalize_item_name(item_name)
+where item_key <> public.normalize_item_name(item_name);
+
+-- Same as 0015, with the keys and matching above.
+create or replace function public.household_favorites(
+  target_household_id uuid,
+  max_results int default 12,
+  half_life_days int default 21
+)
+returns table (
+  item_name text,
+  buy_days int,
+  last_added_at timestamptz,
+  score numeric,
+  pinned boolean
+)
+language sql
+stable
+set search_path = public
+as $$
+  with events as (
+    select
+      public.normalize_item_name(h.item_name) as item_key,
+      h.item_name,
+      h.created_at,
+      date_trunc('day', h.created_at) as day
+    from public.list_history h
+    join public.lists l on l.id = h.list_id
+    where l.household_id = target_household_id
+      and h.action in ('added', 'checked')
+      and btrim(h.item_name) <> ''
+  ),
+  ranked as (
+    select
+      e.item_key,
+      (array_agg(e.item_name order by e.created_at desc))[1] as item_name,
+      count(distinct e.day)::int as buy_days,
+      max(e.created_at) as last_added_at
+    from events e
+    group by e.item_key
+  ),
+  scored as (
+    select
+      r.*,
+      (
+        select coalesce(sum(power(
+          0.5,
+          extract(epoch from now() - d.day) / 86400.0 / greatest(half_life_days, 1)
+        )), 0)
+        from (select distinct e.day from events e where e.item_key = r.item_key) d
+      )::numeric(10, 4) as score
+    from ranked r
+  ),
+  pins as (
+    select p.item_key, p.item_name
+    from public.favorite_pins p
+    where p.household_id = target_household_id
+  ),
+  matched as (
+    select
+      s.*,
+      p.item_key as pin_key,
+      p.item_name as pin_name
+    from scored s
+    left join lateral (
+      select p.* from pins p
+      where public.is_same_item_name(p.item_name, s.item_name)
+      limit 1
+    ) p on true
+  )
+  select
+    coalesce(m.pin_name, m.item_name) as item_name,
+    m.buy_days,
+    m.last_added_at,
+    m.score,
+    m.pin_key is not null as pinned
+  from matched m
+  union all
+  select p.item_name, 0, null, 0, true
+  from pins p
+  where not exists (
+    select 1 from scored s where public.is_same_item_name(p.item_name, s.item_name)
+  )
+  order by pinned desc, score desc, last_added_at desc nulls last
+  limit greatest(max_results, 0);
+$$;
+
+revoke all on function public.household_favorites(uuid, int, int) from public;
+grant execute on function public.household_favorites(uuid, int, int) to authenticated;
@@ -0,0 +1,134 @@
+-- 0026: restore_list_items() (0023) re-attaches spending by item id instead of
+-- by name. item_id is set to null when the item is deleted, so the spending row
+-- keeps the id it was booked for in source_item_id. Two deleted items with the
+-- same name no longer swap their spending.
+
+alter table public.household_spending
+  add column if not exists source_item_id uuid;
+
+update public.household_spending
+set source_item_id = item_id
+where item_id is not null and source_item_id is null;
+
+-- Same as 0023, with source_item_id.
+create or replace function public.record_item_spending()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_amount numeric := public.item_line_total(new.quantity, new.unit, new.price_estimate);
+begin
+  if tg_op = 'INSERT'
+    and coalesce(current_setting('groceo.history_action', true), '') = 'restored'
+  then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE'
+    and new.checked is not distinct from old.checked
+    and new.quantity is not distinct from old.quantity
+    and new.unit is not distinct from old.unit
+    and new.price_estimate is not distinct from old.price_estimate
+    and new.name is not distinct from old.name
+  then
+    return new;
+  end if;
+
+  if not new.checked or v_amount is null then
+    delete from public.household_spending where item_id = new.id;
+    return new;
+  end if;
+
+  if exists (
+    select 1 from public.shopping_trip_items ti
+    join public.shopping_trips t on t.id = ti.trip_id
+    where ti.item_id = new.id and t.final_spend is not null
+  ) then
+    return new;
+  end if;
+
+  -- Editing a checked item corrects its amount but keeps the original date.
+  insert into public.household_spending (
+    household_id, list_id, item_id, source_item_id, item_name, amount, recorded_by
+  )
+  select l.household_id, new.list_id, new.id, new.id, new.name, v_amount, auth.uid()
+  from public.lists l
+  where l.id = new.list_id
+  on conflict (item_id) where item_id is not null
+  do update set amount = excluded.amount, item_name = excluded.item_name;
+  return new;
+end;
+$$;
+
+-- Same as 0023, matching spending on source_item_id.
+create or replace function public.restore_list_items(target_list_id uuid, restored jsonb)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item record;
+  v_count int := 0;
+begin
+  if not exists (
+    select 1 from public.lists l
+    join public.members m on m.household_id = l.household_id
+    where l.id = target_list_id and m.user_id = auth.uid()
+  ) then
+    raise exception 'list_not_accessible' using errcode = '42501';
+  end if;
+
+  perform set_config('groceo.history_action', 'restored', true);
+  for v_item in
+    select *
+    from jsonb_to_recordset(coalesce(restored, '[]'::jsonb)) as r(
+      id uuid,
+      name text,
+      quantity numeric,
+      unit text,
+      category text,
+      price_estimate numeric,
+      checked boolean
+    )
+  loop
+    continue when v_item.id is null
+      or exists (select 1 from public.items i where i.id = v_item.id);
+
+    insert into public.items (id, list_id, name, quantity, unit, category, price_estimate, checked)
+    values (
+      v_item.id,
+      target_list_id,
+      v_item.name,
+      v_item.quantity,
+      coalesce(v_item.unit, 'stuks'),
+      v_item.category,
+      v_item.price_estimate,
+      coalesce(v_item.checked, false)
+    );
+    v_count := v_count + 1;
+
+    if v_item.checked then
+      update public.household_spending s
+      set item_id = v_item.id
+      where s.item_id is null
+        and s.source_item_id = v_item.id;
+    end if;
+  end loop;
+  perform set_config('groceo.history_action', '', true);
+
+  if v_count > 0 then
+    insert into public.list_history (list_id, item_name, quantity, action, user_id, user_email)
+    values (
+      target_list_id, 'Items teruggezet', v_count, 'restored',
+      public.history_actor_id(), public.history_actor_label()
+    );
+  end if;
+  return v_count;
+end;
+$$;
+
+revoke all on function public.restore_list_items(uuid, jsonb) from public;
+grant execute on function public.restore_list_items(uuid, jsonb) to authenticated;
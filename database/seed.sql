@@ -0,0 +1,32 @@
+-- Optional seed data for local development
+-- uncomment and adjust the auth uid before running locally.
+/*
+with current_user as (
+  select auth.uid() as user_id
+)
+insert into public.households (name, owner_id)
+select 'My First Household', user_id from current_user
+on conflict do nothing;
+
+insert into public.members (user_id, household_id, role)
+select
+  current_user.user_id,
+  h.id,
+  'owner'
+from current_user
+join public.households h on h.owner_id = current_user.user_id
+on conflict do nothing;
+
+insert into public.lists (household_id, name)
+select h.id, 'Weekly groceries'
+from public.households h
+where h.name = 'My First Household'
+on conflict do nothing;
+
+insert into public.items (list_id, name, quantity)
+select l.id, item_name, qty
+from public.lists l,
+     (values ('Milk', 2), ('Bread', 1)) as seed(item_name, qty)
+where l.name = 'Weekly groceries'
+on conflict do nothing;
+*/
@@ -0,0 +1,36 @@
+-- Minimal stand-in for the pieces of Supabase the migrations rely on, so they
+-- can be applied to a plain local Postgres. Never run this against Supabase.
+--
+-- auth.uid() reads the `request.jwt.claim.sub` setting, which lets you act as a
+-- user in psql:  select set_config('request.jwt.claim.sub', '<uuid>', false);
+
+create schema if not exists auth;
+
+create table if not exists auth.users (
+  id uuid primary key,
+  email text unique,
+  raw_user_meta_data jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create or replace function auth.uid()
+returns uuid
+language sql
+stable
+as $$
+  select nullif(current_setting('request.jwt.claim.sub', true), '')::uuid
+$$;
+
+do $$
+begin
+  if not exists (select 1 from pg_roles where rolname = 'anon') then
+    create role anon nologin;
+  end if;
+  if not exists (select 1 from pg_roles where rolname = 'authenticated') then
+    create role authenticated nologin;
+  end if;
+  if not exists (select 1 from pg_roles where rolname = 'service_role') then
+    create role service_role nologin;
+  end if;
+end;
+$$;
@@ -0,0 +1,62 @@
+#!/usr/bin/env node
+
+/**
+ * Runs public.apply_history_retention() once and prints what was archived or
+ * deleted per household. Use it from cron or CI when pg_cron is not enabled.
+ *
+ * Usage:
+ *   DATABASE_URL=postgres://… node scripts/history-retention.js
+ *
+ * Connect as a role allowed to execute the function (postgres or service_role).
+ */
+
+const { spawnSync } = require("child_process");
+
+const databaseUrl = process.env.DATABASE_URL;
+
+if (!databaseUrl) {
+  console.error("❌ Set DATABASE_URL to the Postgres connection string.");
+  process.exit(1);
+}
+
+const result = spawnSync(
+  "psql",
+  [
+    databaseUrl,
+    "-X",
+    "-q",
+    "-v",
+    "ON_ERROR_STOP=1",
+    "-At",
+    "-F",
+    "\t",
+    "-c",
+    "select household_id, archived, deleted from public.apply_history_retention();",
+  ],
+  { encoding: "utf8" }
+);
+
+if (result.error) {
+  console.error(`❌ Could not run psql: ${result.error.message}`);
+  process.exit(1);
+}
+if (result.status !== 0) {
+  console.error(`❌ ${result.stderr.trim() || `psql exited with code ${result.status}`}`);
+  process.exit(1);
+}
+
+const rows = result.stdout.split("\n").filter(Boolean);
+if (rows.length === 0) {
+  console.log("✅ No households with a retention period; nothing to do.");
+  process.exit(0);
+}
+
+let archivedTotal = 0;
+let deletedTotal = 0;
+rows.forEach((line) => {
+  const [householdId, archived, deleted] = line.split("\t");
+  archivedTotal += Number(archived);
+  deletedTotal += Number(deleted);
+  console.log(`  ${householdId}  archived ${archived}  deleted ${deleted}`);
+});
+console.log(`✅ Retention applied: ${archivedTotal} archived, ${deletedTotal} deleted.`);
@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+
+/**
+ * Runs public.add_due_recurring_items() once for every list and prints how
+ * many items were added. Use it from cron or CI when pg_cron is not enabled.
+ *
+ * Usage:
+ *   DATABASE_URL=postgres://… node scripts/recurring-items.js
+ *
+ * Connect as a role allowed to execute the function (postgres or service_role).
+ */
+
+const { spawnSync } = require("child_process");
+
+const databaseUrl = process.env.DATABASE_URL;
+
+if (!databaseUrl) {
+  console.error("❌ Set DATABASE_URL to the Postgres connection string.");
+  process.exit(1);
+}
+
+const result = spawnSync(
+  "psql",
+  [
+    databaseUrl,
+    "-X",
+    "-q",
+    "-v",
+    "ON_ERROR_STOP=1",
+    "-At",
+    "-c",
+    "select public.add_due_recurring_items();",
+  ],
+  { encoding: "utf8" }
+);
+
+if (result.error) {
+  console.error(`❌ Could not run psql: ${result.error.message}`);
+  process.exit(1);
+}
+if (result.status !== 0) {
+  console.error(`❌ ${result.stderr.trim() || `psql exited with code ${result.status}`}`);
+  process.exit(1);
+}
+
+const added = Number(result.stdout.trim() || 0);
+console.log(
+  added === 0
+    ? "✅ No recurring items due; nothing to add."
+    : `✅ Added ${added} recurring item${added === 1 ? "" : "s"}.`
+);
@@ -0,0 +1,308 @@
+/**
+ * Intentherkenning voor groceoAgent.
+ *
+ * Een IntentProvider zet vrije tekst om in een ParsedIntent (intentie + items). De agent kiest
+ * via configuratie welke provider hij gebruikt (zie meAgent); de keyword-scanner hieronder werkt
+ * altijd lokaal en is het vangnet als een externe provider faalt of te lang duurt.
+ *
+ * Providers:
+ * - keywordIntentProvider: keyword-scan plus de gedeelde grammatica uit `@/lib/itemParser`.
+ * - createLlmIntentProvider (`@/agents/llmIntentProvider`): function calling via een taalmodel.
+ * - createMockIntentProvider: vaste antwoorden per zin, met optionele vertraging of fout, voor tests.
+ */
+
+import {
+  normalizeQuantityWords,
+  parseItemList,
+  parseItemPhrase,
+  splitItemPhrases,
+} from '@/lib/itemParser';
+import { parseItemInput, type ParsedQuantity } from '@/lib/units';
+
+export type AgentIntent =
+  | 'addItems'
+  | 'summarizeList'
+  | 'clearList'
+  | 'removeItems'
+  | 'checkItems'
+  | 'uncheckItems'
+  | 'setQuantity'
+  | 'unknown';
+
+/** Intenties die bestaande items bij naam aanpassen. */
+export type ItemIntent = Extract<
+  AgentIntent,
+  'removeItems' | 'checkItems' | 'uncheckItems' | 'setQuantity'
+>;
+
+export type ParsedIntent = {
+  intent: AgentIntent;
+  /** Keywords (of bij een taalmodel de gekozen tool) die tot de intentie leidden. */
+  matchedKeywords: string[];
+  items?: ParsedQuantity[];
+};
+
+export type IntentProvider = {
+  /** Naam in de debug-informatie van de agent, bijvoorbeeld "keywords" of "llm". */
+  name: string;
+  /** `signal` wordt afgebroken zodra de agent niet langer wacht. */
+  resolve: (text: string, signal?: AbortSignal) => Promise<ParsedIntent>;
+};
+
+const ITEM_INTENTS: ItemIntent[] = [
+  'removeItems',
+  'checkItems',
+  'uncheckItems',
+  'setQuantity',
+];
+
+export function isItemIntent(intent: AgentIntent): intent is ItemIntent {
+  return (ITEM_INTENTS as AgentIntent[]).includes(intent);
+}
+
+const INTENT_KEYWORDS: Record<AgentIntent, string[]> = {
+  addItems: ['toevoegen', 'voeg', 'add', 'zet', 'plaats', 'op de lijst'],
+  summarizeList: ['wat staat', 'toon', 'bekijk', 'overzicht', 'open items'],
+  clearList: ['leeg', 'leegmaken', 'clear', 'opruimen', 'wis alles', 'verwijder alles'],
+  removeItems: [
+    'eraf',
+    'er af',
+    'van de lijst',
+    'verwijder',
+    'verwijderen',
+    'schrap',
+    'niet meer nodig',
+    'remove',
+    'delete',
+  ],
+  checkItems: [
+    'gekocht',
+    'afvinken',
+    'vink',
+    'in de kar',
+    'in het mandje',
+    'bought',
+    'check off',
+  ],
+  uncheckItems: [
+    'niet gekocht',
+    'toch nodig',
+    'terug',
+    'terugzetten',
+    'weer open',
+    'uncheck',
+  ],
+  setQuantity: ['maak het', 'maak er', 'verander', 'wijzig', 'change'],
+  unknown: [],
+};
+
+// Volgorde van de keyword-scan: specifieke intenties eerst ("niet gekocht" bevat "gekocht",
+// "zet de melk terug" bevat "zet"). Weghalen komt na leegmaken zodat "verwijder alles" de hele lijst is.
+// Een expliciet toevoeg-werkwoord wint van setQuantity: "voeg een paar appels toe".
+const INTENT_ORDER: AgentIntent[] = [
+  'uncheckItems',
+  'checkItems',
+  'setQuantity',
+  'addItems',
+  'summarizeList',
+  'clearList',
+  'removeItems',
+];
+
+// Opdracht- en vulwoorden rond de items zelf ("zet ... op de lijst", "voeg ... toe", "zet ... erop").
+// Samen met alle intent-keywords worden ze uit de tekst gehaald voordat de items gelezen worden.
+const COMMAND_WORDS = [
+  'voeg',
+  'zet',
+  'plaats',
+  'toevoegen',
+  'toe',
+  'op de boodschappenlijst',
+  'op mijn lijst',
+  'erop',
+  'erbij',
+  'graag',
+  'ook',
+  'even',
+  'please',
+  'also',
+];
+
+// Vulwoorden rond bestaande items ("haal de ... eraf", "... is gekocht", "maak het ...").
+const TARGET_WORDS = [
+  'haal',
+  'af',
+  'weg',
+  'uit de lijst',
+  'is',
+  'zijn',
+  'heb',
+  'hebben',
+  'ik',
+  'we',
+  'afgevinkt',
+  'aan',
+  'uit',
+  'toch',
+  'nodig',
+  'niet',
+  'nog',
+  'weer',
+  'open',
+  'check',
+  'off',
+  'maak',
+  'het',
+  'er',
+  'van',
+  'mijn',
+  'aantal',
+];
+
+// Werkwoorden die altijd toevoegen betekenen, ook als de zin verder op setQuantity lijkt.
+const ADD_VERBS = ['toevoegen', 'voeg', 'add'];
+
+const ITEM_STOP_WORDS = [...Object.values(INTENT_KEYWORDS).flat(), ...COMMAND_WORDS];
+const TARGET_STOP_WORDS = [...ITEM_STOP_WORDS, ...TARGET_WORDS];
+
+// "eieren op 12", "melk naar 2 pakken": naam vóór het nieuwe aantal.
+const QUANTITY_TARGET = /^(.+?)\s+(?:op|naar|to)\s+(\S.*)$/;
+
+// "zet de eieren op 12", "maak melk naar 2 pakken": een nieuw aantal voor een bestaand item.
+const QUANTITY_COMMAND = /(?:^|\s)(zet|maak)\s+(.+?)\s+(op|naar)\s+(\S.*)$/;
+
+// Een los "op"/"naar" aan het eind hoort nooit bij de naam van een nieuw item.
+const TRAILING_PREPOSITION = /\s+(?:op|naar)$/;
+
+// Letters en cijfers, ook met accent: wat daar direct naast staat hoort bij hetzelfde woord.
+const WORD_CHAR = /[a-z0-9\u00c0-\u024f]/;
+
+/**
+ * Een keyword moet als heel woord (of hele woordgroep) voorkomen: "clear" past niet op
+ * "nuclear", "add" niet op "paddenstoelen" en "terug" niet op "terugslagklep".
+ */
+function hasWord(input: string, keyword: string): boolean {
+  for (
+    let index = input.indexOf(keyword);
+    index !== -1;
+    index = input.indexOf(keyword, index + 1)
+  ) {
+    const before = index === 0 ? '' : input[index - 1];
+    const after = input[index + keyword.length] ?? '';
+    if (!WORD_CHAR.test(before) && !WORD_CHAR.test(after)) return true;
+  }
+  return false;
+}
+
+/**
+ * "zet X op N" en "maak X naar N" zijn setQuantity zolang er een aantal volgt; "zet X op de
+ * lijst" blijft toevoegen. Geeft de herkende vorm terug, of `null`.
+ */
+function matchQuantityCommand(text: string): string | null {
+  const match = text.match(QUANTITY_COMMAND);
+  if (!match || !/^\d/.test(normalizeQuantityWords(`${match[4]} ${match[2]}`, true))) {
+    return null;
+  }
+  return `${match[1]} … ${match[3]}`;
+}
+
+/** Nieuwe items uit de zin, zonder achtergebleven "op"/"naar" in de naam. */
+function extractNewItems(text: string): ParsedQuantity[] {
+  return parseItemList(text, ITEM_STOP_WORDS)
+    .map((item) => ({ ...item, name: item.name.replace(TRAILING_PREPOSITION, '') }))
+    .filter((item) => item.name.length > 0);
+}
+
+/**
+ * Namen (en bij setQuantity het nieuwe aantal) uit "haal de eieren en de melk eraf" of
+ * "zet het aantal eieren op twaalf". Het aantal komt vóór de naam voor parseItemPhrase.
+ */
+function extractTargets(text: string): ParsedQuantity[] {
+  return splitItemPhrases(text, TARGET_STOP_WORDS)
+    .map((chunk) => {
+      const reordered = chunk.match(QUANTITY_TARGET);
+      return reordered
+        ? parseItemInput(normalizeQuantityWords(`${reordered[2]} ${reordered[1]}`, true))
+        : parseItemPhrase(chunk);
+    })
+    .filter((candidate) => candidate.name.length > 0);
+}
+
+/**
+ * Keyword-scan: de eerste intentie in INTENT_ORDER waarvan een keyword voorkomt, met de items
+ * uit de rest van de zin ("twee pakken melk, een paar appels en 500 gram gehakt").
+ */
+export function resolveKeywordIntent(text: string): ParsedIntent {
+  const lower = text.toLowerCase();
+  const hits: string[] = [];
+  const addVerb = ADD_VERBS.some((verb) => hasWord(lower, verb));
+  const quantityCommand = addVerb ? null : matchQuantityCommand(lower);
+
+  const intent =
+    INTENT_ORDER.find((candidate) => {
+      if (candidate === 'setQuantity' && addVerb) return false;
+      const matched =
+        candidate === 'setQuantity' && quantityCommand
+          ? quantityCommand
+          : INTENT_KEYWORDS[candidate].find((keyword) => hasWord(lower, keyword));
+      if (matched) hits.push(matched);
+      return Boolean(matched);
+    }) ?? 'unknown';
+
+  const items =
+    intent === 'addItems'
+      ? extractNewItems(lower)
+      : isItemIntent(intent)
+        ? extractTargets(lower)
+        : undefined;
+
+  return { intent, matchedKeywords: hits, items };
+}
+
+export const keywordIntentProvider: IntentProvider = {
+  name: 'keywords',
+  resolve: async (text) => resolveKeywordIntent(text),
+};
+
+export type MockIntentProvider = IntentProvider & {
+  /** De zinnen die de provider kreeg, in volgorde. */
+  calls: string[];
+};
+
+/**
+ * Provider met vaste antwoorden per zin (hoofdletters en spaties aan de randen tellen niet mee).
+ * Een Error als antwoord wordt gegooid; met `delayMs` kun je een trage provider nabootsen om de
+ * time-out en de terugval op keywords te testen. Onbekende zinnen geven `unknown`.
+ */
+export function createMockIntentProvider(
+  responses: Record<string, ParsedIntent | Error>,
+  { delayMs = 0 }: { delayMs?: number } = {},
+): MockIntentProvider {
+  const canned = new Map(
+    Object.entries(responses).map(([text, response]) => [
+      text.trim().toLowerCase(),
+      response,
+    ]),
+  );
+  const calls: string[] = [];
+
+  return {
+    name: 'mock',
+    calls,
+    resolve: async (text, signal) => {
+      calls.push(text);
+      if (delayMs > 0) {
+        await new Promise<void>((resolve, reject) => {
+          const timer = setTimeout(resolve, delayMs);
+          signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new Error('Mock-provider afgebroken.'));
+          });
+        });
+      }
+      const response = canned.get(text.trim().toLowerCase());
+      if (response instanceof Error) throw response;
+      return response ?? { intent: 'unknown', matchedKeywords: [] };
+    },
+  };
+}
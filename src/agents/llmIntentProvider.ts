@@ -0,0 +1,187 @@
+/**
+ * Intentherkenning via een taalmodel met function calling.
+ *
+ * De app praat niet zelf met het model: een Supabase Edge Function krijgt de tekst en AGENT_TOOLS,
+ * laat het model één tool kiezen en geeft die terug. Zo blijft de API-sleutel van het model op de
+ * server en werkt de sessie van de gebruiker als autorisatie. Die functie zit niet in deze repo;
+ * zolang EXPO_PUBLIC_AGENT_NLU_FUNCTION niet naar een eigen functie wijst, staat deze provider uit.
+ *
+ * Contract van de functie:
+ * - request body: `{ text: string, tools: AGENT_TOOLS }`
+ * - response: `{ tool_calls: [{ name: AgentToolName, arguments: object | string }] }`
+ *   `arguments` mag een JSON-string zijn, zoals veel model-API's die teruggeven. Geen tool call
+ *   betekent "niet begrepen"; een onbekende tool of ongeldige argumenten gelden als fout, waarna
+ *   de agent terugvalt op de keyword-scan.
+ */
+
+import {
+  type AgentIntent,
+  type IntentProvider,
+  type ParsedIntent,
+} from '@/agents/intents';
+import { isSupabaseConfigured, supabase } from '@/lib/supabase';
+import {
+  ITEM_UNITS,
+  clampQuantity,
+  normalizeUnit,
+  type ParsedQuantity,
+} from '@/lib/units';
+
+const ITEM_LIST_PARAMETERS = {
+  type: 'object',
+  properties: {
+    items: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          name: {
+            type: 'string',
+            description: 'Productnaam zonder aantal of eenheid, bijvoorbeeld "melk".',
+          },
+          quantity: { type: 'number', exclusiveMinimum: 0 },
+          unit: { type: 'string', enum: [...ITEM_UNITS] },
+        },
+        required: ['name'],
+      },
+    },
+  },
+  required: ['items'],
+} as const;
+
+const NO_PARAMETERS = { type: 'object', properties: {} } as const;
+
+/** De tools die het model mag kiezen, als JSON Schema. */
+export const AGENT_TOOLS = [
+  {
+    name: 'add_items',
+    description: 'Zet nieuwe items op de boodschappenlijst.',
+    parameters: ITEM_LIST_PARAMETERS,
+  },
+  {
+    name: 'remove_items',
+    description: 'Haal genoemde items van de lijst.',
+    parameters: ITEM_LIST_PARAMETERS,
+  },
+  {
+    name: 'check_items',
+    description: 'Vink genoemde items af omdat ze gekocht zijn.',
+    parameters: ITEM_LIST_PARAMETERS,
+  },
+  {
+    name: 'uncheck_items',
+    description: 'Zet afgevinkte items weer open.',
+    parameters: ITEM_LIST_PARAMETERS,
+  },
+  {
+    name: 'set_quantity',
+    description:
+      'Geef items die al op de lijst staan een nieuw aantal en eventueel een eenheid.',
+    parameters: ITEM_LIST_PARAMETERS,
+  },
+  {
+    name: 'summarize_list',
+    description: 'Vat samen wat er nog open staat.',
+    parameters: NO_PARAMETERS,
+  },
+  {
+    name: 'clear_list',
+    description: 'Haal alle items van de lijst.',
+    parameters: NO_PARAMETERS,
+  },
+] as const;
+
+export type AgentToolName = (typeof AGENT_TOOLS)[number]['name'];
+
+const TOOL_INTENTS: Record<AgentToolName, AgentIntent> = {
+  add_items: 'addItems',
+  remove_items: 'removeItems',
+  check_items: 'checkItems',
+  uncheck_items: 'uncheckItems',
+  set_quantity: 'setQuantity',
+  summarize_list: 'summarizeList',
+  clear_list: 'clearList',
+};
+
+function isToolName(name: unknown): name is AgentToolName {
+  return (
+    typeof name === 'string' && Object.prototype.hasOwnProperty.call(TOOL_INTENTS, name)
+  );
+}
+
+function readToolItems(args: unknown): ParsedQuantity[] {
+  const parsed = typeof args === 'string' ? JSON.parse(args) : args;
+  const items = (parsed as { items?: unknown } | null)?.items;
+  if (!Array.isArray(items)) {
+    throw new Error('Tool-argumenten missen een items-lijst.');
+  }
+  return items.map((raw) => {
+    const { name, quantity, unit } = (raw ?? {}) as Record<string, unknown>;
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new Error('Tool-argumenten bevatten een item zonder naam.');
+    }
+    return {
+      name: name.trim().toLowerCase(),
+      quantity:
+        typeof quantity === 'number' && quantity > 0 ? clampQuantity(quantity) : 1,
+      unit: normalizeUnit(typeof unit === 'string' ? unit : null),
+    };
+  });
+}
+
+/**
+ * Zet het antwoord van de functie om naar een ParsedIntent. Alleen de eerste tool call telt:
+ * één bericht is één opdracht.
+ */
+export function parseToolCalls(response: unknown): ParsedIntent {
+  const calls = (response as { tool_calls?: unknown } | null)?.tool_calls;
+  if (!Array.isArray(calls)) {
+    throw new Error('Antwoord van de NLU-functie mist tool_calls.');
+  }
+  if (calls.length === 0) {
+    return { intent: 'unknown', matchedKeywords: [] };
+  }
+
+  const [call] = calls as { name?: unknown; arguments?: unknown }[];
+  if (!isToolName(call?.name)) {
+    throw new Error(`Onbekende tool van de NLU-functie: ${String(call?.name)}.`);
+  }
+  const intent = TOOL_INTENTS[call.name];
+  const hasItems = intent !== 'summarizeList' && intent !== 'clearList';
+  return {
+    intent,
+    matchedKeywords: [call.name],
+    items: hasItems ? readToolItems(call.arguments) : undefined,
+  };
+}
+
+export type LlmTransport = (
+  body: { text: string; tools: typeof AGENT_TOOLS },
+  signal?: AbortSignal,
+) => Promise<unknown>;
+
+/** Roept de Edge Function aan met de sessie van de ingelogde gebruiker. */
+export function supabaseFunctionTransport(functionName: string): LlmTransport {
+  return async (body, signal) => {
+    if (!isSupabaseConfigured || !supabase) {
+      throw new Error('Supabase is niet geconfigureerd.');
+    }
+    const { data, error } = await supabase.functions.invoke(functionName, {
+      body,
+      signal,
+    });
+    if (error) {
+      throw new Error(`NLU-functie mislukt: ${error.message}`);
+    }
+    return data;
+  };
+}
+
+export function createLlmIntentProvider(transport: LlmTransport): IntentProvider {
+  return {
+    name: 'llm',
+    resolve: async (text, signal) =>
+      parseToolCalls(await transport({ text, tools: AGENT_TOOLS }, signal)),
+  };
+}
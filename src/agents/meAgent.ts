@@ -2,31 +2,67 @@
  * Groceo agents.me-agent
  *
  * Deze agent behandelt natuurlijke taalroutines rond boodschappenlijsten:
- * 1) Ontleed gebruikersinvoer naar een intentie (toevoegen, tonen, leegmaken).
+ * 1) Ontleed gebruikersinvoer naar een intentie (toevoegen, tonen, leegmaken, weghalen,
+ *    afvinken, terugzetten of een aantal aanpassen).
  * 2) Voer Supabase-calls uit als die beschikbaar zijn; val terug op een in-memory store voor lokaal gebruik.
  * 3) Geef een compacte samenvatting terug die direct in UI of logs gebruikt kan worden.
  *
  * Flow van input naar output:
  * - Input: AgentRequest met tekst + lijstId.
- * - Parsing: resolveIntent() detecteert intenties/keywords en extraheert items.
- * - Actie: performIntent() routeert naar addItems(), fetchItems() of clearList().
- * - Output: AgentResponse met status, samenvatting, optioneel actuele items en debug-informatie.
+ * - Parsing: resolveIntent() vraagt de ingestelde IntentProvider (`@/agents/intents`) om intentie en
+ *   items: standaard de keyword-scan met de gedeelde grammatica uit `@/lib/itemParser`, of een
+ *   taalmodel met function calling (`@/agents/llmIntentProvider`). Faalt die provider of duurt hij
+ *   langer dan de time-out, dan valt de agent terug op de keyword-scan.
+ * - Actie: performIntent() routeert naar addItems(), fetchItems(), clearList() of updateItems().
+ * - Output: AgentResponse met status, samenvatting, optioneel actuele items, een resultaat per
+ *   genoemd item en debug-informatie.
  *
  * Hoe op te zetten/te gebruiken:
  * - Importeer groceoAgent en roep handle(request) aan wanneer een gebruiker een boodschap-commando typt.
  * - Voor supabase-productie: geef een geldig listId door zodat items in de database worden bijgehouden.
  * - Voor demo/dev zonder supabase: laat listId leeg of gebruik een willekeurige string; de fallback store wordt gebruikt.
+ * - NLU kiezen: EXPO_PUBLIC_AGENT_NLU=keywords (standaard) of llm, met EXPO_PUBLIC_AGENT_NLU_FUNCTION
+ *   en EXPO_PUBLIC_AGENT_NLU_TIMEOUT_MS. De Edge Function voor llm zit niet in deze repo: zonder
+ *   functienaam blijft de agent bij keywords. Een eigen provider: createGroceoAgent({ provider }),
+ *   voor tests bijvoorbeeld createGroceoAgent({ provider: createMockIntentProvider({...}) }).
+ * - Historie hoeft de agent niet zelf te schrijven: triggers op `items` vullen list_history server-side.
+ * - Items die al open op de lijst staan worden opgehoogd in plaats van dubbel toegevoegd (per lijst uit te zetten).
+ * - Nieuwe items krijgen een categorie uit de productcatalogus, of de eigen keuze van het huishouden.
+ * - Leegmaken en weghalen gebeuren pas na bevestiging: de agent antwoordt met status `pending` en een
+ *   `pendingAction.token`; stuur dat terug als `confirmToken` met "ja"/"bevestig" als tekst om uit te
+ *   voeren of "nee"/"annuleer" om af te breken. Na uitvoeren kan het `undo.token` als `undoToken` de verwijderde items nog even terugzetten.
+ * - Bij weghalen, afvinken en aanpassen worden namen ruim gematcht ("melk" vindt "halfvolle melk",
+ *   "yoghrt" vindt "yoghurt"); wat niet of niet eenduidig gevonden wordt, staat apart in de samenvatting.
  *
  * Voorbeeldinteracties (zie EXAMPLE_INTERACTIONS):
  * - "Zet melk en eieren op de lijst" -> intent addItems, plaatst twee items.
  * - "Wat staat er open?" -> intent summarizeList, retourneert lopende items.
- * - "Maak de lijst leeg" -> intent clearList, verwijdert alle items.
+ * - "Maak de lijst leeg" -> intent clearList, vraagt bevestiging en verwijdert daarna alle items.
+ * - "Haal de eieren eraf" -> intent removeItems, vraagt bevestiging en verwijdert alleen de eieren.
+ * - "Melk is gekocht" -> intent checkItems, vinkt de melk af.
+ * - "Maak het 3 pakken melk" -> intent setQuantity, zet de melk op 3 pakken.
  */
 
+import Constants from 'expo-constants';
+
+import {
+  keywordIntentProvider,
+  resolveKeywordIntent,
+  type AgentIntent,
+  type IntentProvider,
+  type ItemIntent,
+  type ParsedIntent,
+} from '@/agents/intents';
+import { createLlmIntentProvider, supabaseFunctionTransport } from '@/agents/llmIntentProvider';
 import { isSupabaseConfigured, supabase } from '@/lib/supabase';
+import { classifyItem, fetchCategoryOverrides, type CategoryOverride } from '@/lib/catalog';
+import { findItemsByName, findMergeTarget } from '@/lib/itemMatching';
+import { formatEuro, summarizeTotals } from '@/lib/prices';
+import { DEFAULT_UNIT, clampQuantity, formatQuantity, type ParsedQuantity } from '@/lib/units';
 import { type GroceryItem } from '@/components/ItemRow';
 
-type AgentIntent = 'addItems' | 'summarizeList' | 'clearList' | 'unknown';
+/** Intenties die items verwijderen; die wachten eerst op bevestiging. */
+type DestructiveIntent = Extract<AgentIntent, 'clearList' | 'removeItems'>;
 
 export type AgentRequest = {
   /** Vrije tekst van de gebruiker, bijvoorbeeld "voeg melk x2 toe". */
@@ -35,44 +71,157 @@ export type AgentRequest = {
   listId?: string | null;
   /** Optioneel voor logging/metrics. */
   userId?: string;
+  /** Token uit `pendingAction`; met "ja" voert de agent de verwijderactie uit, met "nee" niet. */
+  confirmToken?: string;
+  /** Token uit `undo` om net verwijderde items terug te zetten. */
+  undoToken?: string;
 };
 
 export type AgentResponse = {
-  status: 'success' | 'error';
+  /** `pending`: er is niets gewijzigd, de actie wacht op bevestiging via `pendingAction`. */
+  status: 'success' | 'pending' | 'error';
   /** Beknopte uitleg voor UI/logging. */
   summary: string;
   /** Actuele items na de uitgevoerde actie (indien van toepassing). */
   items?: GroceryItem[];
+  /** Per genoemd item wat er gebeurd is (bij weghalen, afvinken en aanpassen). */
+  results?: AgentItemResult[];
+  pendingAction?: AgentPendingAction;
+  undo?: AgentUndo;
   /** Extra metadata om debugging te vergemakkelijken. */
   debug?: {
     intent: AgentIntent;
     matchedKeywords?: string[];
+    /** Welke IntentProvider de tekst begreep ("keywords", "llm", ...). */
+    provider?: string;
+    /** Waarom de ingestelde provider niet gebruikt kon worden (fout of time-out). */
+    nluFallbackReason?: string;
     offlineFallback: boolean;
   };
   error?: string;
 };
 
-type ParsedIntent = {
-  intent: AgentIntent;
-  matchedKeywords: string[];
-  items?: Array<{ name: string; quantity: number }>;
+export type AgentItemResult = {
+  /** De naam zoals de gebruiker hem noemde. */
+  query: string;
+  /**
+   * done: aangepast; unchanged: stond al zo (al afgevinkt, al dat aantal);
+   * notFound: niets op de lijst lijkt erop; ambiguous: meerdere producten passen.
+   */
+  status: 'done' | 'unchanged' | 'notFound' | 'ambiguous';
+  itemIds: string[];
+  /** Naam op de lijst, of bij ambiguous de namen waartussen gekozen moet worden. */
+  matchedNames: string[];
+  /** Bij setQuantity: het nieuwe aantal en de eenheid. */
+  quantity?: number;
+  unit?: string;
+};
+
+export type AgentPendingAction = {
+  /** Terugsturen als `confirmToken`; eenmalig te gebruiken. */
+  token: string;
+  intent: DestructiveIntent;
+  /** Aantal items dat verdwijnt als de actie nu bevestigd wordt. */
+  itemCount: number;
+  /** ISO-tijdstip waarna het token niet meer geldt. */
+  expiresAt: string;
+};
+
+export type AgentUndo = {
+  /** Terugsturen als `undoToken`; eenmalig te gebruiken. */
+  token: string;
+  itemCount: number;
+  expiresAt: string;
+};
+
+type ResolvedIntent = ParsedIntent & {
+  provider: string;
+  fallbackReason?: string;
+};
+
+export type AgentOptions = {
+  /** Standaard de keyword-scan. */
+  provider?: IntentProvider;
+  /** Hoe lang de agent op een andere provider wacht voordat hij de keyword-scan gebruikt. */
+  timeoutMs?: number;
 };
 
-const INTENT_KEYWORDS: Record<AgentIntent, string[]> = {
-  addItems: ['toevoeg', 'add', 'zet', 'plaats', 'op de lijst'],
-  summarizeList: ['wat staat', 'toon', 'bekijk', 'overzicht', 'open items'],
-  clearList: ['leeg', 'clear', 'opruimen', 'wis alles', 'verwijder alles'],
-  unknown: [],
+const ITEM_VERBS: Record<ItemIntent, string> = {
+  removeItems: 'Verwijderd',
+  checkItems: 'Afgevinkt',
+  uncheckItems: 'Teruggezet',
+  setQuantity: 'Aangepast',
 };
 
+type AgentNluExtra = {
+  agentNlu?: string;
+  agentNluFunction?: string;
+  agentNluTimeoutMs?: string | number;
+};
+
+const nluExtra = (Constants.expoConfig?.extra ?? Constants.manifest?.extra ?? {}) as AgentNluExtra;
+
+const NLU_PROVIDER = nluExtra.agentNlu ?? process.env.EXPO_PUBLIC_AGENT_NLU ?? 'keywords';
+const NLU_FUNCTION =
+  nluExtra.agentNluFunction || process.env.EXPO_PUBLIC_AGENT_NLU_FUNCTION || null;
+const DEFAULT_NLU_TIMEOUT_MS = 4000;
+const NLU_TIMEOUT_MS =
+  Number(nluExtra.agentNluTimeoutMs ?? process.env.EXPO_PUBLIC_AGENT_NLU_TIMEOUT_MS) ||
+  DEFAULT_NLU_TIMEOUT_MS;
+
 const DEFAULT_LIST_ID = 'offline-list';
 const offlineStore = new Map<string, GroceryItem[]>();
 
+const CONFIRM_WINDOW_MS = 2 * 60 * 1000;
+// Bevestigingen en momentopnames staan alleen in de Maps hieronder (per module, in geheugen):
+// na herladen van de app is ongedaan maken niet meer mogelijk.
+const UNDO_WINDOW_MS = 30 * 1000;
+
+// Tekst bij een confirmToken die de actie afbreekt in plaats van uitvoert.
+const CANCEL_PATTERN = /(?:^|[^a-z])(?:nee|niet doen|annuleer|laat maar|stop|no|cancel)(?![a-z])/i;
+// Alleen een uitdrukkelijk ja voert de actie uit; andere tekst laat het token staan.
+const CONFIRM_PATTERN = /(?:^|[^a-z])(?:ja|yes|bevestig|ok|oké|okay|doe maar)(?![a-z])/i;
+
+type PendingAction = {
+  intent: DestructiveIntent;
+  listId: string;
+  /** Bij removeItems de gematchte items; bij clearList de hele lijst van dat moment. */
+  results: AgentItemResult[];
+  expiresAt: number;
+};
+
+type UndoSnapshot = {
+  intent: DestructiveIntent;
+  listId: string;
+  items: GroceryItem[];
+  expiresAt: number;
+};
+
+// Wachtende bevestigingen en momentopnames voor ongedaan maken, per token.
+const pendingActions = new Map<string, PendingAction>();
+const undoSnapshots = new Map<string, UndoSnapshot>();
+
+function createToken() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
 /**
  * AgentsMeAgent bundelt de volledige agent-implementatie en documentatie.
- * De class is bewust stateless; state zit in Supabase of de offlineStore.
+ * De class is bewust stateless; state zit in Supabase, de offlineStore en de maps met
+ * wachtende bevestigingen en momentopnames.
  */
 class AgentsMeAgent {
+  private readonly provider: IntentProvider;
+  private readonly timeoutMs: number;
+
+  constructor({
+    provider = keywordIntentProvider,
+    timeoutMs = DEFAULT_NLU_TIMEOUT_MS,
+  }: AgentOptions = {}) {
+    this.provider = provider;
+    this.timeoutMs = timeoutMs;
+  }
+
   /**
    * Hoofdingang voor de agent. Handelt parsing, routering en error handling af.
    */
@@ -80,26 +229,35 @@ class AgentsMeAgent {
     const targetListId = request.listId ?? DEFAULT_LIST_ID;
 
     try {
-      const parsedIntent = this.resolveIntent(request.text);
+      this.dropExpiredTokens();
+      if (request.undoToken) {
+        return await this.undo(request.undoToken, targetListId);
+      }
+      if (request.confirmToken) {
+        return await this.confirm(request.confirmToken, request.text, targetListId);
+      }
+
+      const parsedIntent = await this.resolveIntent(request.text);
       if (parsedIntent.intent === 'unknown') {
         return {
           status: 'success',
           summary:
             'Ik begrijp je bericht niet helemaal. Zeg bijvoorbeeld "voeg melk toe" of "wat staat er open?".',
-          debug: { intent: parsedIntent.intent, matchedKeywords: parsedIntent.matchedKeywords, offlineFallback: !isSupabaseConfigured },
+          debug: this.debugFor(parsedIntent),
         };
       }
 
+      if (parsedIntent.intent === 'clearList' || parsedIntent.intent === 'removeItems') {
+        return await this.requestConfirmation(parsedIntent.intent, parsedIntent, targetListId);
+      }
+
       const result = await this.performIntent(parsedIntent, targetListId);
       return {
         status: 'success',
         summary: result.summary,
         items: result.items,
-        debug: {
-          intent: parsedIntent.intent,
-          matchedKeywords: parsedIntent.matchedKeywords,
-          offlineFallback: result.offlineFallback,
-        },
+        results: result.results,
+        debug: { ...this.debugFor(parsedIntent), offlineFallback: result.offlineFallback },
       };
     } catch (error) {
       // Centrale errorafvang zodat consumers een voorspelbare payload krijgen.
@@ -114,25 +272,51 @@ class AgentsMeAgent {
   }
 
   /**
-   * Breekt gebruikersinput op in intentie + items (bij add) voor downstream acties.
+   * Breekt gebruikersinput op in intentie + items via de ingestelde provider. Een fout of een
+   * antwoord dat langer dan `timeoutMs` uitblijft, valt terug op de keyword-scan.
    */
-  resolveIntent(text: string): ParsedIntent {
-    const lower = text.toLowerCase();
-    const hits: ParsedIntent['matchedKeywords'] = [];
-
-    // Intentdetectie met eenvoudige keyword-scan. Kan later worden vervangen door NLU.
-    const intent =
-      (this.hasKeyword(lower, INTENT_KEYWORDS.addItems, hits) && 'addItems') ||
-      (this.hasKeyword(lower, INTENT_KEYWORDS.summarizeList, hits) && 'summarizeList') ||
-      (this.hasKeyword(lower, INTENT_KEYWORDS.clearList, hits) && 'clearList') ||
-      'unknown';
-
-    const items =
-      intent === 'addItems'
-        ? this.extractItems(lower)
-        : undefined;
-
-    return { intent, matchedKeywords: hits, items };
+  async resolveIntent(text: string): Promise<ResolvedIntent> {
+    if (this.provider === keywordIntentProvider) {
+      return { ...resolveKeywordIntent(text), provider: keywordIntentProvider.name };
+    }
+
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const parsed = await Promise.race([
+        this.provider.resolve(text, controller.signal),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => {
+            controller.abort();
+            reject(new Error(`Geen antwoord van ${this.provider.name} binnen ${this.timeoutMs} ms.`));
+          }, this.timeoutMs);
+        }),
+      ]);
+      return { ...parsed, provider: this.provider.name };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Onbekende fout in NLU-provider.';
+      console.warn('[Agent] NLU-provider faalde, terug naar keywords', {
+        provider: this.provider.name,
+        reason,
+      });
+      return {
+        ...resolveKeywordIntent(text),
+        provider: keywordIntentProvider.name,
+        fallbackReason: reason,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private debugFor(parsed: ResolvedIntent): NonNullable<AgentResponse['debug']> {
+    return {
+      intent: parsed.intent,
+      matchedKeywords: parsed.matchedKeywords,
+      provider: parsed.provider,
+      nluFallbackReason: parsed.fallbackReason,
+      offlineFallback: !isSupabaseConfigured,
+    };
   }
 
   /**
@@ -141,13 +325,22 @@ class AgentsMeAgent {
   private async performIntent(
     parsed: ParsedIntent,
     listId: string,
-  ): Promise<{ summary: string; items?: GroceryItem[]; offlineFallback: boolean }> {
+  ): Promise<{
+    summary: string;
+    items?: GroceryItem[];
+    results?: AgentItemResult[];
+    offlineFallback: boolean;
+  }> {
     switch (parsed.intent) {
       case 'addItems': {
-        const addedCount = await this.addItems(listId, parsed.items ?? []);
+        const { added, merged } = await this.addItems(listId, parsed.items ?? []);
         const items = await this.fetchItems(listId);
+        const parts = [
+          added > 0 ? `Toegevoegd: ${added} item(s).` : null,
+          merged > 0 ? `Opgehoogd: ${merged} item(s) die al op de lijst stonden.` : null,
+        ].filter(Boolean);
         return {
-          summary: addedCount > 0 ? `Toegevoegd: ${addedCount} item(s).` : 'Geen nieuwe items gevonden om toe te voegen.',
+          summary: parts.length > 0 ? parts.join(' ') : 'Geen nieuwe items gevonden om toe te voegen.',
           items,
           offlineFallback: !isSupabaseConfigured,
         };
@@ -155,18 +348,36 @@ class AgentsMeAgent {
       case 'summarizeList': {
         const items = await this.fetchItems(listId);
         const open = items.filter((item) => !item.checked);
-        const label = open.length === 0 ? 'Lijst is leeg.' : `Nog open: ${open.length} item(s).`;
+        const totals = summarizeTotals(open);
+        const label =
+          open.length === 0
+            ? 'Lijst is leeg.'
+            : totals.pricedCount > 0
+              ? `Nog open: ${open.length} item(s), geschat ${formatEuro(totals.remaining)}.`
+              : `Nog open: ${open.length} item(s).`;
         return {
           summary: label,
           items,
           offlineFallback: !isSupabaseConfigured,
         };
       }
-      case 'clearList': {
-        await this.clearList(listId);
+      case 'checkItems':
+      case 'uncheckItems':
+      case 'setQuantity': {
+        const targets = parsed.items ?? [];
+        if (targets.length === 0) {
+          return {
+            summary: 'Noem de items waar het om gaat, bijvoorbeeld "haal de eieren eraf".',
+            results: [],
+            offlineFallback: !isSupabaseConfigured,
+          };
+        }
+        const results = await this.updateItems(listId, parsed.intent, targets);
+        const items = await this.fetchItems(listId);
         return {
-          summary: 'Lijst geleegd.',
-          items: [],
+          summary: this.describeResults(parsed.intent, results),
+          items,
+          results,
           offlineFallback: !isSupabaseConfigured,
         };
       }
@@ -176,68 +387,455 @@ class AgentsMeAgent {
   }
 
   /**
-   * Controleer of keywords voorkomen in de input en houd bij welke keywords matchen.
+   * Leegmaken en weghalen voeren nog niets uit: ze geven een token terug dat binnen
+   * CONFIRM_WINDOW_MS bevestigd moet worden. Zo wist een zin met toevallig "leeg" erin
+   * nooit ongemerkt een gedeelde lijst.
+   */
+  private async requestConfirmation(
+    intent: DestructiveIntent,
+    parsed: ResolvedIntent,
+    listId: string,
+  ): Promise<AgentResponse> {
+    const debug = this.debugFor(parsed);
+    const items = await this.fetchItems(listId);
+
+    let results: AgentItemResult[];
+    let question: string;
+    if (intent === 'clearList') {
+      if (items.length === 0) {
+        return { status: 'success', summary: 'Lijst is al leeg.', items, debug };
+      }
+      results = [
+        {
+          query: 'alles',
+          status: 'done',
+          itemIds: items.map((item) => item.id),
+          matchedNames: items.map((item) => item.name),
+        },
+      ];
+      question = `Alle ${items.length} item(s) van de lijst halen?`;
+    } else {
+      const targets = parsed.items ?? [];
+      if (targets.length === 0) {
+        return {
+          status: 'success',
+          summary: 'Noem de items waar het om gaat, bijvoorbeeld "haal de eieren eraf".',
+          results: [],
+          debug,
+        };
+      }
+      results = targets.map((target) => this.matchTarget(items, 'removeItems', target));
+      const names = results.flatMap((result) => (result.status === 'done' ? result.matchedNames : []));
+      if (names.length === 0) {
+        return {
+          status: 'success',
+          summary: this.describeResults('removeItems', results),
+          items,
+          results,
+          debug,
+        };
+      }
+      // Niet gevonden of dubbelzinnig meteen melden; alleen het gevonden deel wacht op bevestiging.
+      const others = results.filter((result) => result.status !== 'done');
+      question = [
+        `Van de lijst halen: ${names.join(', ')}?`,
+        others.length > 0 ? this.describeResults('removeItems', others) : null,
+      ]
+        .filter(Boolean)
+        .join(' ');
+    }
+
+    const token = createToken();
+    const expiresAt = Date.now() + CONFIRM_WINDOW_MS;
+    pendingActions.set(token, { intent, listId, results, expiresAt });
+    return {
+      status: 'pending',
+      summary: `${question} Bevestig om door te gaan.`,
+      items,
+      results,
+      pendingAction: {
+        token,
+        intent,
+        itemCount: this.doneIds(results).length,
+        expiresAt: new Date(expiresAt).toISOString(),
+      },
+      debug,
+    };
+  }
+
+  /**
+   * Voert een wachtende actie uit na een uitdrukkelijk ja (of breekt hem af) en bewaart een momentopname van wat er
+   * verdwijnt, zodat undo() het binnen UNDO_WINDOW_MS kan terugzetten.
+   */
+  private async confirm(token: string, text: string, listId: string): Promise<AgentResponse> {
+    const pending = pendingActions.get(token);
+    if (!pending || pending.listId !== listId) {
+      return {
+        status: 'error',
+        summary: 'Deze bevestiging is verlopen. Geef de opdracht opnieuw.',
+        error: 'Onbekend of verlopen bevestigingstoken.',
+        debug: { intent: 'unknown', offlineFallback: !isSupabaseConfigured },
+      };
+    }
+
+    const debug = { intent: pending.intent, offlineFallback: !isSupabaseConfigured };
+    if (CANCEL_PATTERN.test(text)) {
+      pendingActions.delete(token);
+      return { status: 'success', summary: 'Oké, er is niets verwijderd.', debug };
+    }
+    if (!CONFIRM_PATTERN.test(text)) {
+      return {
+        status: 'pending',
+        summary: 'Niet bevestigd. Antwoord met "ja" om door te gaan of "nee" om af te breken.',
+        results: pending.results,
+        pendingAction: {
+          token,
+          intent: pending.intent,
+          itemCount: this.doneIds(pending.results).length,
+          expiresAt: new Date(pending.expiresAt).toISOString(),
+        },
+        debug,
+      };
+    }
+    pendingActions.delete(token);
+
+    const current = await this.fetchItems(listId);
+    // clear_list wist ook wat na de vraag is toegevoegd; dat hoort dan in de momentopname.
+    const ids = this.doneIds(pending.results);
+    const snapshot =
+      pending.intent === 'clearList' ? current : current.filter((item) => ids.includes(item.id));
+    if (snapshot.length === 0) {
+      return { status: 'success', summary: 'Die items staan al niet meer op de lijst.', items: current, debug };
+    }
+
+    if (pending.intent === 'clearList') {
+      await this.clearList(listId);
+    } else {
+      await this.applyResults(
+        listId,
+        'removeItems',
+        current,
+        pending.results.map((result) => ({
+          ...result,
+          itemIds: result.itemIds.filter((id) => snapshot.some((item) => item.id === id)),
+        })),
+      );
+    }
+
+    const undoToken = createToken();
+    const expiresAt = Date.now() + UNDO_WINDOW_MS;
+    undoSnapshots.set(undoToken, { intent: pending.intent, listId, items: snapshot, expiresAt });
+    const done =
+      pending.intent === 'clearList'
+        ? 'Lijst geleegd.'
+        : `Verwijderd: ${snapshot.map((item) => item.name).join(', ')}.`;
+    return {
+      status: 'success',
+      summary: `${done} Ongedaan maken kan nog ${UNDO_WINDOW_MS / 1000} seconden.`,
+      items: await this.fetchItems(listId),
+      results: pending.intent === 'removeItems' ? pending.results : undefined,
+      undo: {
+        token: undoToken,
+        itemCount: snapshot.length,
+        expiresAt: new Date(expiresAt).toISOString(),
+      },
+      debug,
+    };
+  }
+
+  /**
+   * Zet de items uit een momentopname terug, met hun oude id, aantal, categorie en vinkje.
+   */
+  private async undo(token: string, listId: string): Promise<AgentResponse> {
+    const snapshot = undoSnapshots.get(token);
+    if (!snapshot || snapshot.listId !== listId) {
+      return {
+        status: 'error',
+        summary: 'Ongedaan maken kan niet meer.',
+        error: 'Onbekend of verlopen undo-token.',
+        debug: { intent: 'unknown', offlineFallback: !isSupabaseConfigured },
+      };
+    }
+
+    undoSnapshots.delete(token);
+    await this.restoreItems(listId, snapshot.items);
+    return {
+      status: 'success',
+      summary: `Teruggezet: ${snapshot.items.length} item(s).`,
+      items: await this.fetchItems(listId),
+      debug: { intent: snapshot.intent, offlineFallback: !isSupabaseConfigured },
+    };
+  }
+
+  /** Verlopen bevestigingen en momentopnames opruimen; ze blijven anders in geheugen staan. */
+  private dropExpiredTokens() {
+    const now = Date.now();
+    pendingActions.forEach((pending, token) => {
+      if (pending.expiresAt < now) pendingActions.delete(token);
+    });
+    undoSnapshots.forEach((snapshot, token) => {
+      if (snapshot.expiresAt < now) undoSnapshots.delete(token);
+    });
+  }
+
+  private doneIds(results: AgentItemResult[]) {
+    return Array.from(
+      new Set(results.flatMap((result) => (result.status === 'done' ? result.itemIds : []))),
+    );
+  }
+
+
+  /**
+   * Zoek per genoemde naam het item op de lijst. Afvinken zoekt eerst in de open items,
+   * terugzetten in de afgevinkte; staat een item al zo, dan is het resultaat `unchanged`.
    */
-  private hasKeyword(input: string, keywords: string[], hits: string[]): boolean {
-    const matched = keywords.find((keyword) => input.includes(keyword));
-    if (matched) {
-      hits.push(matched);
-      return true;
+  private matchTarget(
+    items: GroceryItem[],
+    intent: ItemIntent,
+    target: ParsedQuantity,
+  ): AgentItemResult {
+    const preferred =
+      intent === 'checkItems' || intent === 'setQuantity'
+        ? items.filter((item) => !item.checked)
+        : intent === 'uncheckItems'
+          ? items.filter((item) => item.checked)
+          : items;
+    let match = findItemsByName(preferred, target.name);
+    let status: AgentItemResult['status'] = 'done';
+    if (match.items.length === 0 && preferred.length !== items.length) {
+      match = findItemsByName(items, target.name);
+      status = intent === 'setQuantity' ? 'done' : 'unchanged';
+    }
+
+    if (match.items.length === 0) {
+      return { query: target.name, status: 'notFound', itemIds: [], matchedNames: [] };
+    }
+    const names = Array.from(new Set(match.items.map((item) => item.name)));
+    if (match.ambiguous) {
+      return { query: target.name, status: 'ambiguous', itemIds: [], matchedNames: names };
     }
-    return false;
+
+    if (intent !== 'setQuantity') {
+      return {
+        query: target.name,
+        status,
+        itemIds: match.items.map((item) => item.id),
+        matchedNames: names,
+      };
+    }
+
+    // Een nieuw aantal geldt voor één item. Zonder eenheid ("maak het 3 melk") blijft de
+    // eenheid van het item staan.
+    const [item] = match.items;
+    const quantity = clampQuantity(target.quantity);
+    const unit = target.unit === DEFAULT_UNIT ? (item.unit ?? DEFAULT_UNIT) : target.unit;
+    return {
+      query: target.name,
+      status: item.quantity === quantity && item.unit === unit ? 'unchanged' : status,
+      itemIds: [item.id],
+      matchedNames: [item.name],
+      quantity,
+      unit,
+    };
   }
 
   /**
-   * Eenvoudige parser om "melk x2, brood" naar item-lijst te vertalen.
+   * Vink af, zet terug of pas het aantal aan voor de genoemde items. De triggers op
+   * `items` schrijven de historie, net als bij de knoppen in de app.
    */
-  private extractItems(text: string): Array<{ name: string; quantity: number }> {
-    return text
-      .split(/[,.]/)
-      .map((chunk) => chunk.trim())
-      .filter(Boolean)
-      .map((chunk) => {
-        const quantityMatch = chunk.match(/x(\d+)/);
-        const quantity = quantityMatch ? Number(quantityMatch[1]) : 1;
-        const name = chunk.replace(/x\d+/, '').replace(/toevoeg(en)?/, '').trim();
-        return { name: name || chunk, quantity };
-      })
-      .filter((candidate) => candidate.name.length > 0);
+  private async updateItems(
+    listId: string,
+    intent: ItemIntent,
+    targets: ParsedQuantity[],
+  ): Promise<AgentItemResult[]> {
+    const current = await this.fetchItems(listId);
+    const results = targets.map((target) => this.matchTarget(current, intent, target));
+    await this.applyResults(listId, intent, current, results);
+    return results;
   }
 
   /**
-   * Voeg items toe via Supabase of via de offline fallback.
+   * Voert de gematchte resultaten met status `done` door in Supabase of de offline store.
    */
-  private async addItems(listId: string, itemsToAdd: Array<{ name: string; quantity: number }>): Promise<number> {
+  private async applyResults(
+    listId: string,
+    intent: ItemIntent,
+    current: GroceryItem[],
+    results: AgentItemResult[],
+  ): Promise<void> {
+    const ids = this.doneIds(results);
+    if (ids.length === 0) {
+      return;
+    }
+
+    const quantities = new Map(
+      results.flatMap((result) =>
+        result.status === 'done' && result.quantity != null
+          ? [[result.itemIds[0], { quantity: result.quantity, unit: result.unit }] as const]
+          : [],
+      ),
+    );
+
+    if (isSupabaseConfigured && supabase) {
+      if (intent === 'removeItems') {
+        const { error } = await supabase.from('items').delete().in('id', ids);
+        if (error) {
+          throw new Error(`Supabase verwijderen mislukt: ${error.message}`);
+        }
+      } else if (intent === 'setQuantity') {
+        for (const [id, change] of quantities) {
+          const { error } = await supabase.from('items').update(change).eq('id', id);
+          if (error) {
+            throw new Error(`Supabase bijwerken mislukt: ${error.message}`);
+          }
+        }
+      } else {
+        const { error } = await supabase
+          .from('items')
+          .update({ checked: intent === 'checkItems' })
+          .in('id', ids);
+        if (error) {
+          throw new Error(`Supabase bijwerken mislukt: ${error.message}`);
+        }
+      }
+      return;
+    }
+
+    // Offline fallback: pas de in-memory list aan.
+    const next = current
+      .filter((item) => intent !== 'removeItems' || !ids.includes(item.id))
+      .map((item) => {
+        if (!ids.includes(item.id)) return item;
+        if (intent === 'setQuantity') return { ...item, ...quantities.get(item.id) };
+        return { ...item, checked: intent === 'checkItems' };
+      });
+    offlineStore.set(listId, next);
+  }
+
+  /**
+   * "Afgevinkt: melk, brood. Niet gevonden: kaas." Ook bij aanpassen het nieuwe aantal.
+   */
+  private describeResults(intent: ItemIntent, results: AgentItemResult[]): string {
+    const label = (result: AgentItemResult) => {
+      const name = result.matchedNames.join(', ');
+      return result.quantity == null ? name : `${name} (${formatQuantity(result.quantity, result.unit)})`;
+    };
+    const withStatus = (status: AgentItemResult['status']) =>
+      results.filter((result) => result.status === status);
+    const done = withStatus('done').map(label);
+    const unchanged = withStatus('unchanged').map((result) => result.matchedNames.join(', '));
+    const notFound = withStatus('notFound').map((result) => result.query);
+    const parts = [
+      done.length > 0 ? `${ITEM_VERBS[intent]}: ${done.join(', ')}.` : null,
+      unchanged.length > 0 ? `Stond al goed: ${unchanged.join(', ')}.` : null,
+      notFound.length > 0 ? `Niet gevonden op de lijst: ${notFound.join(', ')}.` : null,
+      ...withStatus('ambiguous').map(
+        (result) => `Welke bedoel je met "${result.query}": ${result.matchedNames.join(' of ')}?`,
+      ),
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(' ') : 'Geen items aangepast.';
+  }
+
+  /**
+   * Voeg items toe via Supabase of via de offline fallback. Items die al open op
+   * de lijst staan worden opgehoogd, tenzij samenvoegen voor de lijst uit staat.
+   */
+  private async addItems(
+    listId: string,
+    itemsToAdd: ParsedQuantity[],
+  ): Promise<{ added: number; merged: number }> {
     if (itemsToAdd.length === 0) {
-      return 0;
+      return { added: 0, merged: 0 };
     }
 
     if (isSupabaseConfigured && supabase) {
-      const payload = itemsToAdd.map((item) => ({
-        list_id: listId,
+      const { data: listRow } = await supabase
+        .from('lists')
+        .select('household_id, merge_duplicates')
+        .eq('id', listId)
+        .maybeSingle();
+      const mergeDuplicates = listRow?.merge_duplicates ?? true;
+      let overrides: CategoryOverride[] = [];
+      if (listRow?.household_id) {
+        const { data } = await fetchCategoryOverrides(listRow.household_id);
+        overrides = data ?? [];
+      }
+      const existing = mergeDuplicates ? await this.fetchItems(listId) : [];
+
+      const inserts: ParsedQuantity[] = [];
+      let merged = 0;
+      for (const item of mergeDuplicates ? this.collapseDuplicates(itemsToAdd) : itemsToAdd) {
+        const target = mergeDuplicates ? findMergeTarget(existing, item) : null;
+        if (!target) {
+          inserts.push(item);
+          continue;
+        }
+        const { error } = await supabase.rpc('bump_item_quantity', {
+          target_item_id: target.id,
+          amount: item.quantity || 1,
+        });
+        if (error) {
+          throw new Error(`Supabase bijwerken mislukt: ${error.message}`);
+        }
+        merged += 1;
+      }
+
+      if (inserts.length > 0) {
+        const payload = inserts.map((item) => ({
+          list_id: listId,
+          name: item.name,
+          quantity: item.quantity || 1,
+          unit: item.unit,
+          category: classifyItem(item.name, overrides).category,
+          checked: false,
+        }));
+        const { error } = await supabase.from('items').insert(payload);
+        if (error) {
+          throw new Error(`Supabase insert mislukt: ${error.message}`);
+        }
+      }
+      return { added: inserts.length, merged };
+    }
+
+    // Offline fallback: voeg toe aan (of hoog op in) de in-memory list.
+    const current = [...(offlineStore.get(listId) ?? [])];
+    let added = 0;
+    let merged = 0;
+    itemsToAdd.forEach((item, index) => {
+      const target = findMergeTarget(current, item);
+      if (target) {
+        target.quantity = clampQuantity(target.quantity + (item.quantity || 1));
+        merged += 1;
+        return;
+      }
+      current.push({
+        id: `${Date.now()}-${index}`,
         name: item.name,
         quantity: item.quantity || 1,
+        unit: item.unit,
+        category: classifyItem(item.name).category,
         checked: false,
-      }));
+      });
+      added += 1;
+    });
+    offlineStore.set(listId, current);
+    return { added, merged };
+  }
 
-      // Insert + select zodat de actuele records beschikbaar zijn voor de response.
-      const { error } = await supabase.from('items').insert(payload);
-      if (error) {
-        throw new Error(`Supabase insert mislukt: ${error.message}`);
+  /**
+   * Telt dubbelingen binnen één bericht op ("melk en nog 2 melk" -> 3 melk).
+   */
+  private collapseDuplicates(itemsToAdd: ParsedQuantity[]): ParsedQuantity[] {
+    const collapsed: (ParsedQuantity & { id: string; checked: boolean })[] = [];
+    itemsToAdd.forEach((item, index) => {
+      const same = findMergeTarget(collapsed, item);
+      if (same) {
+        same.quantity = clampQuantity(same.quantity + (item.quantity || 1));
+        return;
       }
-      return payload.length;
-    }
-
-    // Offline fallback: voeg toe aan in-memory list.
-    const current = offlineStore.get(listId) ?? [];
-    const additions: GroceryItem[] = itemsToAdd.map((item, index) => ({
-      id: `${Date.now()}-${index}`,
-      name: item.name,
-      quantity: item.quantity || 1,
-      checked: false,
-    }));
-    offlineStore.set(listId, [...current, ...additions]);
-    return additions.length;
+      collapsed.push({ ...item, id: String(index), checked: false });
+    });
+    return collapsed.map(({ name, quantity, unit }) => ({ name, quantity, unit }));
   }
 
   /**
@@ -247,7 +845,7 @@ class AgentsMeAgent {
     if (isSupabaseConfigured && supabase) {
       const { data, error } = await supabase
         .from('items')
-        .select('id,name,quantity,checked,category')
+        .select('id,name,quantity,unit,checked,category,price_estimate')
         .eq('list_id', listId)
         .order('created_at', { ascending: true });
 
@@ -258,9 +856,11 @@ class AgentsMeAgent {
       return (data ?? []).map((row) => ({
         id: String(row.id),
         name: row.name ?? '',
-        quantity: row.quantity ?? 1,
+        quantity: Number(row.quantity ?? 1),
+        unit: row.unit,
         checked: row.checked ?? false,
         category: row.category,
+        priceEstimate: row.price_estimate == null ? null : Number(row.price_estimate),
       }));
     }
 
@@ -268,11 +868,11 @@ class AgentsMeAgent {
   }
 
   /**
-   * Wis alle items voor de gegeven lijst.
+   * Wis alle items voor de gegeven lijst. Via de clear_list RPC zodat de historie één `cleared`-event krijgt.
    */
   private async clearList(listId: string): Promise<void> {
     if (isSupabaseConfigured && supabase) {
-      const { error } = await supabase.from('items').delete().eq('list_id', listId);
+      const { error } = await supabase.rpc('clear_list', { target_list_id: listId });
       if (error) {
         throw new Error(`Supabase clear mislukt: ${error.message}`);
       }
@@ -280,12 +880,69 @@ class AgentsMeAgent {
     }
     offlineStore.set(listId, []);
   }
+
+  /**
+   * Zet verwijderde items terug. Via Supabase doet restore_list_items dat met hun oorspronkelijke
+   * id en één `restored` in de historie; uitgaven van afgevinkte items worden weer aan het item
+   * gekoppeld in plaats van nog eens geboekt. Items die intussen weer bestaan worden overgeslagen.
+   */
+  private async restoreItems(listId: string, items: GroceryItem[]): Promise<void> {
+    if (isSupabaseConfigured && supabase) {
+      const { error } = await supabase.rpc('restore_list_items', {
+        target_list_id: listId,
+        restored: items.map((item) => ({
+          id: item.id,
+          name: item.name,
+          quantity: item.quantity,
+          unit: item.unit ?? DEFAULT_UNIT,
+          category: item.category ?? null,
+          price_estimate: item.priceEstimate ?? null,
+          checked: item.checked,
+        })),
+      });
+      if (error) {
+        throw new Error(`Supabase terugzetten mislukt: ${error.message}`);
+      }
+      return;
+    }
+
+    const current = await this.fetchItems(listId);
+    const missing = items.filter((item) => !current.some((existing) => existing.id === item.id));
+    offlineStore.set(listId, [...current, ...missing]);
+  }
+}
+
+/**
+ * Agent met een eigen IntentProvider in plaats van die uit de configuratie, bijvoorbeeld een
+ * mock-provider (createMockIntentProvider) in tests.
+ */
+export function createGroceoAgent(options: AgentOptions = {}) {
+  return new AgentsMeAgent(options);
+}
+
+/**
+ * De provider uit de configuratie. `llm` zonder Supabase of zonder functienaam kan niet en valt
+ * meteen terug op keywords.
+ */
+function configuredIntentProvider(): IntentProvider {
+  if (NLU_PROVIDER === 'llm' && isSupabaseConfigured && NLU_FUNCTION) {
+    return createLlmIntentProvider(supabaseFunctionTransport(NLU_FUNCTION));
+  }
+  if (NLU_PROVIDER !== 'keywords') {
+    console.warn('[Agent] Onbekende of onbruikbare NLU-provider, keywords worden gebruikt', {
+      provider: NLU_PROVIDER,
+    });
+  }
+  return keywordIntentProvider;
 }
 
 /**
  * Direct inzetbare instantie van de agent.
  */
-export const groceoAgent = new AgentsMeAgent();
+export const groceoAgent = createGroceoAgent({
+  provider: configuredIntentProvider(),
+  timeoutMs: NLU_TIMEOUT_MS,
+});
 
 /**
  * Voorbeeldscenario's om de agent snel te testen of te tonen in documentatie/UI.
@@ -295,13 +952,35 @@ export const EXAMPLE_INTERACTIONS: Array<{ input: AgentRequest['text']; descript
     input: 'Zet melk x2 en brood op de lijst',
     description: 'Voegt melk (2) en brood toe en retourneert een samenvatting plus de actuele lijst.',
   },
+  {
+    input: 'Voeg twee pakken melk, een half dozijn eieren en 500 gram gehakt toe',
+    description: 'Telwoorden en eenheden: 2 pakken melk, 6 eieren en 500 g gehakt.',
+  },
   {
     input: 'Wat staat er open?',
     description: 'Geeft een overzicht van open items zonder mutaties door te voeren.',
   },
   {
     input: 'Maak de lijst leeg',
-    description: 'Verwijdert alle items voor het huidige listId (Supabase of offline).',
+    description:
+      'Antwoordt met status pending en een pendingAction.token; pas met dat token als confirmToken worden alle items verwijderd (Supabase of offline).',
+  },
+  {
+    input: 'Haal de eieren eraf',
+    description:
+      'Vraagt bevestiging voor alleen de eieren; een naam die niet op de lijst staat komt meteen terug als notFound.',
+  },
+  {
+    input: 'Melk en brood zijn gekocht',
+    description: 'Vinkt melk en brood af, ook als er "halfvolle melk" op de lijst staat.',
+  },
+  {
+    input: 'Zet de yoghurt terug',
+    description: 'Zet een afgevinkt item weer open.',
+  },
+  {
+    input: 'Maak het 3 pakken melk',
+    description: 'Past aantal en eenheid van de melk aan; zonder eenheid blijft de huidige eenheid staan.',
   },
 ];
 
@@ -0,0 +1,74 @@
+/**
+ * Controle op de terugval van de agent: een NLU-provider die faalt of te traag is, mag een
+ * commando niet laten mislukken. De agent breekt de provider af, logt een waarschuwing en
+ * gebruikt de keyword-scan.
+ *
+ * Er is geen testrunner in deze repo; roep checkNluFallback() aan vanuit een dev-build of een
+ * script. Hij gooit een Error met alle afwijkingen, en raakt de lijst zelf niet aan.
+ */
+
+import { createMockIntentProvider, type IntentProvider } from '@/agents/intents';
+import { createGroceoAgent } from '@/agents/meAgent';
+
+const TEXT = 'zet kaas op de lijst';
+
+export async function checkNluFallback() {
+  const failures: string[] = [];
+  const warnings: unknown[][] = [];
+  const warn = console.warn;
+  console.warn = (...args: unknown[]) => {
+    warnings.push(args);
+  };
+
+  try {
+    const failing = createMockIntentProvider({ [TEXT]: new Error('Provider stuk.') });
+    const thrown = await createGroceoAgent({ provider: failing }).resolveIntent(TEXT);
+    if (thrown.intent !== 'addItems' || thrown.provider !== 'keywords') {
+      failures.push(
+        `fout: ${thrown.provider}/${thrown.intent} in plaats van keywords/addItems`,
+      );
+    }
+    if (thrown.fallbackReason !== 'Provider stuk.') {
+      failures.push(
+        `fout: reden "${thrown.fallbackReason}" in plaats van "Provider stuk."`,
+      );
+    }
+
+    // Houdt het signaal vast om te zien of de agent de trage provider afbreekt.
+    const slow = createMockIntentProvider({}, { delayMs: 2000 });
+    let signal: AbortSignal | undefined;
+    const watched: IntentProvider = {
+      name: slow.name,
+      resolve: (text, providerSignal) => {
+        signal = providerSignal;
+        return slow.resolve(text, providerSignal);
+      },
+    };
+    const started = Date.now();
+    const timedOut = await createGroceoAgent({
+      provider: watched,
+      timeoutMs: 50,
+    }).resolveIntent(TEXT);
+    if (timedOut.intent !== 'addItems' || timedOut.provider !== 'keywords') {
+      failures.push(
+        `time-out: ${timedOut.provider}/${timedOut.intent} in plaats van keywords/addItems`,
+      );
+    }
+    if (!timedOut.fallbackReason || Date.now() - started >= 2000) {
+      failures.push('time-out: de agent wachtte op de trage provider');
+    }
+    if (!signal?.aborted) {
+      failures.push('time-out: de trage provider is niet afgebroken');
+    }
+
+    if (warnings.length !== 2) {
+      failures.push(`${warnings.length} waarschuwing(en) in plaats van 2`);
+    }
+  } finally {
+    console.warn = warn;
+  }
+
+  if (failures.length > 0) {
+    throw new Error(`NLU-terugval klopt niet: ${failures.join('; ')}`);
+  }
+}
@@ -0,0 +1,230 @@
+import { Feather } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import {
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+
+import { Button } from '@/components/Button';
+import type { GroceryItem } from '@/components/ItemRow';
+import { TextField } from '@/components/TextField';
+import { PRODUCT_CATEGORIES } from '@/lib/catalog';
+import { parseEuroInput, priceBasisLabel } from '@/lib/prices';
+import { colors, radius, spacing, textStyles } from '@/lib/theme';
+import {
+  ITEM_UNITS,
+  formatQuantityNumber,
+  normalizeUnit,
+  parseQuantityValue,
+  type ItemUnit,
+} from '@/lib/units';
+
+export type ItemChanges = Pick<GroceryItem, 'name' | 'quantity' | 'category' | 'priceEstimate'> & {
+  unit: ItemUnit;
+};
+
+type ItemEditSheetProps = {
+  item: GroceryItem | null;
+  saving?: boolean;
+  onClose: () => void;
+  onSave: (changes: ItemChanges) => void;
+};
+
+function formatPriceInput(value: number | null | undefined) {
+  return value == null ? '' : value.toFixed(2).replace('.', ',');
+}
+
+/** Accepteert zowel "2,49" als "2.49"; leeg betekent geen schatting. */
+export function ItemEditSheet({ item, saving = false, onClose, onSave }: ItemEditSheetProps) {
+  const [name, setName] = useState('');
+  const [quantity, setQuantity] = useState('1');
+  const [unit, setUnit] = useState<ItemUnit>('stuks');
+  const [category, setCategory] = useState('');
+  const [price, setPrice] = useState('');
+  const [nameError, setNameError] = useState<string | undefined>();
+  const [quantityError, setQuantityError] = useState<string | undefined>();
+  const [priceError, setPriceError] = useState<string | undefined>();
+
+  useEffect(() => {
+    if (!item) return;
+    setName(item.name);
+    setQuantity(formatQuantityNumber(item.quantity));
+    setUnit(normalizeUnit(item.unit));
+    setCategory(item.category ?? '');
+    setPrice(formatPriceInput(item.priceEstimate));
+    setNameError(undefined);
+    setQuantityError(undefined);
+    setPriceError(undefined);
+  }, [item]);
+
+  const handleSave = () => {
+    const trimmedName = name.trim();
+    const parsedQuantity = parseQuantityValue(quantity);
+    const parsedPrice = parseEuroInput(price);
+    setNameError(trimmedName ? undefined : 'Naam is verplicht.');
+    setQuantityError(parsedQuantity != null ? undefined : 'Vul een aantal groter dan 0 in.');
+    setPriceError(parsedPrice.valid ? undefined : 'Vul een bedrag in, bijv. 2,49.');
+    if (!trimmedName || parsedQuantity == null || !parsedPrice.valid) return;
+
+    onSave({
+      name: trimmedName,
+      quantity: parsedQuantity,
+      unit,
+      category: category.trim() || null,
+      priceEstimate: parsedPrice.value,
+    });
+  };
+
+  return (
+    <Modal visible={Boolean(item)} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.backdrop}>
+        <Pressable style={styles.dismissArea} onPress={onClose} accessibilityLabel="Sluiten" />
+        <View style={styles.sheet}>
+          <View style={styles.handle} />
+          <View style={styles.header}>
+            <Text style={styles.title}>Item bewerken</Text>
+            <Pressable onPress={onClose} accessibilityRole="button" style={styles.close}>
+              <Feather name="x" size={20} color={colors.textSecondary} />
+            </Pressable>
+          </View>
+
+          <TextField
+            label="Naam"
+            value={name}
+            onChangeText={setName}
+            error={nameError}
+            returnKeyType="done"
+          />
+
+          <TextField
+            label="Aantal"
+            value={quantity}
+            onChangeText={setQuantity}
+            error={quantityError}
+            keyboardType="decimal-pad"
+          />
+          <View style={styles.unitRow}>
+            {ITEM_UNITS.map((option) => {
+              const isActive = option === unit;
+              return (
+                <Pressable
+                  key={option}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: isActive }}
+                  onPress={() => setUnit(option)}
+                  style={[styles.unitChip, isActive && styles.unitChipActive]}>
+                  <Text style={[styles.unitChipText, isActive && styles.unitChipTextActive]}>
+                    {option}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          <TextField
+            label="Categorie"
+            value={category}
+            onChangeText={setCategory}
+            placeholder="Bijv. Zuivel"
+          />
+          <View style={styles.unitRow}>
+            {PRODUCT_CATEGORIES.map((option) => {
+              const isActive = option === category.trim();
+              return (
+                <Pressable
+                  key={option}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: isActive }}
+                  onPress={() => setCategory(isActive ? '' : option)}
+                  style={[styles.unitChip, isActive && styles.unitChipActive]}>
+                  <Text style={[styles.unitChipText, isActive && styles.unitChipTextActive]}>
+                    {option}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          <TextField
+            label={`Prijsschatting ${priceBasisLabel(unit)} (€)`}
+            value={price}
+            onChangeText={setPrice}
+            error={priceError}
+            placeholder="0,00"
+            keyboardType="decimal-pad"
+          />
+
+          <Button title="Opslaan" onPress={handleSave} loading={saving} />
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.35)',
+  },
+  dismissArea: {
+    flex: 1,
+  },
+  sheet: {
+    backgroundColor: colors.surface,
+    borderTopLeftRadius: radius.lg,
+    borderTopRightRadius: radius.lg,
+    padding: spacing.lg,
+    paddingBottom: spacing.xl,
+    gap: spacing.md,
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: radius.pill,
+    backgroundColor: colors.border,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    ...textStyles.subtitle,
+    color: colors.textPrimary,
+  },
+  close: {
+    padding: spacing.xs,
+  },
+  unitRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  unitChip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.pill,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  unitChipActive: {
+    borderColor: colors.primary,
+    backgroundColor: 'rgba(61, 220, 132, 0.12)',
+  },
+  unitChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  unitChipTextActive: {
+    color: colors.primaryDark,
+  },
+});
@@ -1,23 +1,32 @@
 import { Feather } from '@expo/vector-icons';
 import { Pressable, StyleSheet, Text, View } from 'react-native';
 
+import { formatEuro, lineTotal } from '@/lib/prices';
 import { colors, radius, spacing, textStyles } from '@/lib/theme';
+import { formatQuantity } from '@/lib/units';
 
 export type GroceryItem = {
   id: string;
   name: string;
+  /** Mag een decimaal getal zijn, bijvoorbeeld 1,5 kg. */
   quantity: number;
+  unit?: string | null;
   checked: boolean;
   category?: string | null;
+  priceEstimate?: number | null;
 };
 
 type ItemRowProps = {
   item: GroceryItem;
   onToggle: (item: GroceryItem) => void;
   onDelete: (item: GroceryItem) => void;
+  /** Opent het bewerkscherm; zonder handler is de rij alleen af te vinken. */
+  onEdit?: (item: GroceryItem) => void;
 };
 
-export function ItemRow({ item, onToggle, onDelete }: ItemRowProps) {
+export function ItemRow({ item, onToggle, onDelete, onEdit }: ItemRowProps) {
+  const total = lineTotal(item);
+
   return (
     <View style={[styles.container, item.checked && styles.checkedBackground]}>
       <Pressable
@@ -27,10 +36,19 @@ export function ItemRow({ item, onToggle, onDelete }: ItemRowProps) {
         style={[styles.checkbox, item.checked && styles.checkboxChecked]}>
         {item.checked ? <Feather name="check" size={16} color={colors.surface} /> : null}
       </Pressable>
-      <View style={styles.content}>
+      <Pressable
+        accessibilityRole={onEdit ? 'button' : undefined}
+        accessibilityLabel={onEdit ? `Bewerk ${item.name}` : undefined}
+        disabled={!onEdit}
+        onPress={() => onEdit?.(item)}
+        style={styles.content}>
         <Text style={[styles.name, item.checked && styles.nameChecked]}>{item.name}</Text>
-        <Text style={styles.meta}>Aantal {item.quantity}</Text>
-      </View>
+        <Text style={styles.meta}>
+          {formatQuantity(item.quantity, item.unit)}
+          {item.category ? ` • ${item.category}` : ''}
+          {total != null ? ` • ${formatEuro(total)}` : ''}
+        </Text>
+      </Pressable>
       <Pressable
         accessibilityRole="button"
         accessibilityLabel={`Verwijder ${item.name}`}
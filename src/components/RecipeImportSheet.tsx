@@ -0,0 +1,311 @@
+import { Feather } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import {
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+
+import { Button } from '@/components/Button';
+import { TextField } from '@/components/TextField';
+import {
+  parseRecipeImport,
+  type RecipeImport,
+  type RecipeImportError,
+} from '@/lib/recipeImport';
+import { colors, radius, spacing, textStyles } from '@/lib/theme';
+import { formatQuantity, type ParsedQuantity } from '@/lib/units';
+
+const IMPORT_ERRORS: Record<RecipeImportError, string> = {
+  empty: 'Plak eerst de ingrediënten of de HTML van een receptpagina.',
+  'no-recipe': 'Geen recept gevonden in deze pagina. Plak dan alleen de ingrediënten.',
+  'no-ingredients': 'Geen ingrediënten herkend. Zet elk ingrediënt op een eigen regel.',
+};
+
+type RecipeImportSheetProps = {
+  visible: boolean;
+  listName: string;
+  adding?: boolean;
+  onClose: () => void;
+  /** Geeft terug of het toevoegen gelukt is; dan sluit de sheet. */
+  onAdd: (ingredients: ParsedQuantity[]) => Promise<boolean>;
+};
+
+/**
+ * Recept importeren: plak ingrediëntregels of de HTML van een opgeslagen
+ * receptpagina, vink aan wat erbij moet en zet het op de lijst. Wat je meestal
+ * al in huis hebt (lepels olie, snufje zout) staat standaard uit.
+ */
+export function RecipeImportSheet({
+  visible,
+  listName,
+  adding = false,
+  onClose,
+  onAdd,
+}: RecipeImportSheetProps) {
+  const [input, setInput] = useState('');
+  const [inputError, setInputError] = useState<string | undefined>();
+  const [recipe, setRecipe] = useState<RecipeImport | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    if (!visible) return;
+    setInput('');
+    setInputError(undefined);
+    setRecipe(null);
+    setSelected(new Set());
+  }, [visible]);
+
+  const handleRead = () => {
+    const { data, error } = parseRecipeImport(input);
+    if (error || !data) {
+      setInputError(IMPORT_ERRORS[error ?? 'no-ingredients']);
+      return;
+    }
+    setRecipe(data);
+    setSelected(
+      new Set(
+        data.ingredients.flatMap((ingredient, index) =>
+          ingredient.likelyInStock ? [] : [index],
+        ),
+      ),
+    );
+  };
+
+  const toggle = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleAdd = async () => {
+    if (!recipe) return;
+    const ingredients = recipe.ingredients
+      .filter((_, index) => selected.has(index))
+      .map(({ name, quantity, unit }) => ({ name, quantity, unit }));
+    if (ingredients.length === 0) return;
+    await onAdd(ingredients);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.backdrop}>
+        <Pressable
+          style={styles.dismissArea}
+          onPress={onClose}
+          accessibilityLabel="Sluiten"
+        />
+        <View style={styles.sheet}>
+          <View style={styles.handle} />
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={styles.title} numberOfLines={1}>
+                {recipe?.title ?? 'Recept importeren'}
+              </Text>
+              <Text style={styles.subtitle} numberOfLines={1}>
+                {recipe
+                  ? [
+                      recipe.servings ? `Voor ${recipe.servings} personen` : null,
+                      `${selected.size} van ${recipe.ingredients.length} aangevinkt`,
+                    ]
+                      .filter(Boolean)
+                      .join(' · ')
+                  : `Ingrediënten komen op ${listName}.`}
+              </Text>
+            </View>
+            <Pressable onPress={onClose} accessibilityRole="button" style={styles.close}>
+              <Feather name="x" size={20} color={colors.textSecondary} />
+            </Pressable>
+          </View>
+
+          {recipe ? (
+            <>
+              <ScrollView style={styles.ingredients} contentContainerStyle={styles.rows}>
+                {recipe.ingredients.map((ingredient, index) => {
+                  const isSelected = selected.has(index);
+                  const label = `${formatQuantity(ingredient.quantity, ingredient.unit)} ${ingredient.name}`;
+                  return (
+                    <Pressable
+                      key={`${ingredient.original}-${index}`}
+                      accessibilityRole="checkbox"
+                      accessibilityState={{ checked: isSelected }}
+                      onPress={() => toggle(index)}
+                      style={styles.row}>
+                      <Feather
+                        name={isSelected ? 'check-square' : 'square'}
+                        size={20}
+                        color={isSelected ? colors.primaryDark : colors.textSecondary}
+                      />
+                      <View style={styles.rowText}>
+                        <Text
+                          style={[styles.rowName, !isSelected && styles.rowNameOff]}
+                          numberOfLines={1}>
+                          {label}
+                        </Text>
+                        <Text style={styles.rowOriginal} numberOfLines={1}>
+                          {ingredient.likelyInStock
+                            ? `${ingredient.original} · misschien al in huis`
+                            : ingredient.original}
+                        </Text>
+                      </View>
+                    </Pressable>
+                  );
+                })}
+              </ScrollView>
+              <View style={styles.actions}>
+                <Pressable
+                  accessibilityRole="button"
+                  onPress={() => setRecipe(null)}
+                  style={styles.backButton}>
+                  <Feather name="arrow-left" size={16} color={colors.textSecondary} />
+                  <Text style={styles.backText}>Anders</Text>
+                </Pressable>
+                <View style={styles.addButton}>
+                  <Button
+                    title={
+                      selected.size === 1
+                        ? `1 ingrediënt op ${listName}`
+                        : `${selected.size} ingrediënten op ${listName}`
+                    }
+                    onPress={handleAdd}
+                    loading={adding}
+                    disabled={selected.size === 0}
+                  />
+                </View>
+              </View>
+            </>
+          ) : (
+            <>
+              <TextField
+                label="Ingrediënten of HTML van een receptpagina"
+                value={input}
+                onChangeText={(text) => {
+                  setInput(text);
+                  setInputError(undefined);
+                }}
+                error={inputError}
+                hint="Eén ingrediënt per regel, of de paginabron van een opgeslagen recept."
+                placeholder={'400 g spaghetti\n2 el olijfolie\n1 ui, gesnipperd'}
+                multiline
+                textAlignVertical="top"
+                autoCorrect={false}
+                style={styles.input}
+              />
+              <Button title="Ingrediënten herkennen" onPress={handleRead} />
+            </>
+          )}
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.35)',
+  },
+  dismissArea: {
+    flex: 1,
+  },
+  sheet: {
+    backgroundColor: colors.surface,
+    borderTopLeftRadius: radius.lg,
+    borderTopRightRadius: radius.lg,
+    padding: spacing.lg,
+    paddingBottom: spacing.xl,
+    gap: spacing.md,
+    maxHeight: '90%',
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: radius.pill,
+    backgroundColor: colors.border,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    gap: spacing.sm,
+  },
+  headerText: {
+    flex: 1,
+    gap: 2,
+  },
+  title: {
+    ...textStyles.subtitle,
+    color: colors.textPrimary,
+  },
+  subtitle: {
+    ...textStyles.caption,
+  },
+  close: {
+    padding: spacing.xs,
+  },
+  input: {
+    minHeight: 160,
+    maxHeight: 280,
+  },
+  ingredients: {
+    maxHeight: 360,
+  },
+  rows: {
+    gap: spacing.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  rowText: {
+    flex: 1,
+    gap: 2,
+  },
+  rowName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  rowNameOff: {
+    color: colors.textSecondary,
+  },
+  rowOriginal: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    padding: spacing.sm,
+  },
+  backText: {
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  addButton: {
+    flex: 1,
+  },
+});
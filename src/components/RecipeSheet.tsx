@@ -0,0 +1,258 @@
+import { Feather } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import {
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+
+import { Button } from '@/components/Button';
+import { TextField } from '@/components/TextField';
+import {
+  DEFAULT_SERVINGS,
+  MAX_SERVINGS,
+  formatIngredientLines,
+  parseIngredientLines,
+  type Recipe,
+  type RecipeDraft,
+} from '@/lib/meals';
+import { colors, radius, spacing, textStyles } from '@/lib/theme';
+
+type RecipeSheetProps = {
+  visible: boolean;
+  /** `null` voor een nieuw recept. */
+  recipe: Recipe | null;
+  saving?: boolean;
+  onClose: () => void;
+  onSave: (draft: RecipeDraft) => Promise<boolean>;
+  onDelete?: (recipe: Recipe) => void;
+};
+
+/**
+ * Recept aanmaken of bewerken. Ingrediënten staan één per regel, in dezelfde
+ * vorm als de invoerbalk van de boodschappenlijst: "400 g spaghetti".
+ */
+export function RecipeSheet({
+  visible,
+  recipe,
+  saving = false,
+  onClose,
+  onSave,
+  onDelete,
+}: RecipeSheetProps) {
+  const [name, setName] = useState('');
+  const [servings, setServings] = useState(DEFAULT_SERVINGS);
+  const [ingredientText, setIngredientText] = useState('');
+  const [nameError, setNameError] = useState<string | undefined>();
+
+  useEffect(() => {
+    if (!visible) return;
+    setName(recipe?.name ?? '');
+    setServings(recipe?.servings ?? DEFAULT_SERVINGS);
+    setIngredientText(recipe ? formatIngredientLines(recipe.ingredients) : '');
+    setNameError(undefined);
+  }, [recipe, visible]);
+
+  const ingredients = parseIngredientLines(ingredientText);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setNameError('Geef het recept een naam.');
+      return;
+    }
+    await onSave({
+      name,
+      servings,
+      notes: recipe?.notes ?? null,
+      ingredients,
+    });
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.backdrop}>
+        <Pressable
+          style={styles.dismissArea}
+          onPress={onClose}
+          accessibilityLabel="Sluiten"
+        />
+        <View style={styles.sheet}>
+          <View style={styles.handle} />
+          <View style={styles.header}>
+            <Text style={styles.title}>
+              {recipe ? 'Recept bewerken' : 'Nieuw recept'}
+            </Text>
+            <Pressable onPress={onClose} accessibilityRole="button" style={styles.close}>
+              <Feather name="x" size={20} color={colors.textSecondary} />
+            </Pressable>
+          </View>
+
+          <ScrollView
+            contentContainerStyle={styles.content}
+            keyboardShouldPersistTaps="handled">
+            <TextField
+              label="Naam"
+              value={name}
+              onChangeText={(text) => {
+                setName(text);
+                setNameError(undefined);
+              }}
+              error={nameError}
+              placeholder="Pasta pesto"
+            />
+            <View style={styles.servingsRow}>
+              <Text style={styles.servingsLabel}>Hoeveelheden voor</Text>
+              <View style={styles.stepper}>
+                <Pressable
+                  accessibilityRole="button"
+                  accessibilityLabel="Minder personen"
+                  disabled={servings <= 1}
+                  onPress={() => setServings((count) => Math.max(count - 1, 1))}
+                  style={styles.stepperButton}>
+                  <Feather name="minus" size={14} color={colors.textSecondary} />
+                </Pressable>
+                <Text style={styles.stepperValue}>
+                  {servings === 1 ? '1 persoon' : `${servings} personen`}
+                </Text>
+                <Pressable
+                  accessibilityRole="button"
+                  accessibilityLabel="Meer personen"
+                  disabled={servings >= MAX_SERVINGS}
+                  onPress={() =>
+                    setServings((count) => Math.min(count + 1, MAX_SERVINGS))
+                  }
+                  style={styles.stepperButton}>
+                  <Feather name="plus" size={14} color={colors.textSecondary} />
+                </Pressable>
+              </View>
+            </View>
+            <TextField
+              label="Ingrediënten (één per regel)"
+              value={ingredientText}
+              onChangeText={setIngredientText}
+              placeholder={'400 g spaghetti\n1 blik tomaten\n2 uien'}
+              multiline
+              textAlignVertical="top"
+              style={styles.ingredientInput}
+              hint={
+                ingredients.length === 1
+                  ? '1 ingrediënt'
+                  : `${ingredients.length} ingrediënten`
+              }
+            />
+          </ScrollView>
+
+          <View style={styles.actions}>
+            {recipe && onDelete ? (
+              <Pressable
+                accessibilityRole="button"
+                accessibilityLabel="Recept verwijderen"
+                onPress={() => onDelete(recipe)}
+                style={styles.deleteButton}>
+                <Feather name="trash-2" size={18} color={colors.error} />
+              </Pressable>
+            ) : null}
+            <View style={styles.saveButton}>
+              <Button title="Opslaan" onPress={handleSave} loading={saving} />
+            </View>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.35)',
+  },
+  dismissArea: {
+    flex: 1,
+  },
+  sheet: {
+    backgroundColor: colors.surface,
+    borderTopLeftRadius: radius.lg,
+    borderTopRightRadius: radius.lg,
+    padding: spacing.lg,
+    paddingBottom: spacing.xl,
+    gap: spacing.md,
+    maxHeight: '90%',
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: radius.pill,
+    backgroundColor: colors.border,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing.sm,
+  },
+  title: {
+    ...textStyles.subtitle,
+    color: colors.textPrimary,
+  },
+  close: {
+    padding: spacing.xs,
+  },
+  content: {
+    gap: spacing.md,
+  },
+  servingsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing.sm,
+  },
+  servingsLabel: {
+    ...textStyles.caption,
+    fontWeight: '600',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  stepperButton: {
+    padding: spacing.xs,
+    borderRadius: radius.pill,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  stepperValue: {
+    minWidth: 84,
+    textAlign: 'center',
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  ingredientInput: {
+    minHeight: 140,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  deleteButton: {
+    padding: spacing.sm,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  saveButton: {
+    flex: 1,
+  },
+});
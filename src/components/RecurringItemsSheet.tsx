@@ -0,0 +1,399 @@
+import { Feather } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+
+import { Button } from '@/components/Button';
+import { TextField } from '@/components/TextField';
+import {
+  MAX_INTERVAL_COUNT,
+  RECURRING_FREQUENCIES,
+  WEEKDAY_LABELS,
+  describeSchedule,
+  formatDueDate,
+  parseRecurringInput,
+  startDateFor,
+  type RecurringDraft,
+  type RecurringFrequency,
+  type RecurringItem,
+} from '@/lib/recurring';
+import { colors, radius, spacing, textStyles } from '@/lib/theme';
+import { formatQuantity } from '@/lib/units';
+
+/** Maandag eerst, zoals in een Nederlandse agenda. */
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+type RecurringItemsSheetProps = {
+  visible: boolean;
+  listName: string;
+  rules: RecurringItem[];
+  loading?: boolean;
+  saving?: boolean;
+  busyId?: string | null;
+  onClose: () => void;
+  onCreate: (draft: Omit<RecurringDraft, 'category'>) => Promise<boolean>;
+  onTogglePaused: (rule: RecurringItem) => void;
+  onDelete: (rule: RecurringItem) => void;
+};
+
+/**
+ * Beheer van terugkerende items voor één lijst. Het invoerveld begrijpt ook
+ * "Melk x2 elke maandag": een herkend schema zet de keuzes eronder goed.
+ */
+export function RecurringItemsSheet({
+  visible,
+  listName,
+  rules,
+  loading = false,
+  saving = false,
+  busyId = null,
+  onClose,
+  onCreate,
+  onTogglePaused,
+  onDelete,
+}: RecurringItemsSheetProps) {
+  const [input, setInput] = useState('');
+  const [frequency, setFrequency] = useState<RecurringFrequency>('week');
+  const [intervalCount, setIntervalCount] = useState(1);
+  const [weekday, setWeekday] = useState(() => new Date().getDay());
+  const [inputError, setInputError] = useState<string | undefined>();
+
+  useEffect(() => {
+    if (!visible) return;
+    setInput('');
+    setFrequency('week');
+    setIntervalCount(1);
+    setWeekday(new Date().getDay());
+    setInputError(undefined);
+  }, [visible]);
+
+  const handleChangeInput = (text: string) => {
+    setInput(text);
+    setInputError(undefined);
+    const { schedule } = parseRecurringInput(text);
+    if (!schedule) return;
+    setFrequency(schedule.frequency);
+    setIntervalCount(schedule.intervalCount);
+    if (schedule.weekday != null) {
+      setWeekday(schedule.weekday);
+    }
+  };
+
+  const handleCreate = async () => {
+    const { item } = parseRecurringInput(input);
+    if (!item.name) {
+      setInputError('Vul in wat er terug moet komen, bijv. "Melk x2".');
+      return;
+    }
+    const created = await onCreate({
+      name: item.name,
+      quantity: item.quantity,
+      unit: item.unit,
+      frequency,
+      intervalCount,
+      startsOn: startDateFor(frequency === 'week' ? weekday : null),
+    });
+    if (created) {
+      setInput('');
+    }
+  };
+
+  const preview = describeSchedule({
+    frequency,
+    intervalCount,
+    startsOn: startDateFor(frequency === 'week' ? weekday : null),
+  });
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.backdrop}>
+        <Pressable
+          style={styles.dismissArea}
+          onPress={onClose}
+          accessibilityLabel="Sluiten"
+        />
+        <View style={styles.sheet}>
+          <View style={styles.handle} />
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={styles.title}>Terugkerende items</Text>
+              <Text style={styles.subtitle} numberOfLines={1}>
+                Groceo zet ze op {listName}, tenzij ze er nog open op staan.
+              </Text>
+            </View>
+            <Pressable onPress={onClose} accessibilityRole="button" style={styles.close}>
+              <Feather name="x" size={20} color={colors.textSecondary} />
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.rules} contentContainerStyle={styles.rulesContent}>
+            {loading ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : rules.length === 0 ? (
+              <Text style={styles.empty}>
+                Nog niets dat vanzelf terugkomt. Probeer &quot;Koffie om de 2 weken&quot;.
+              </Text>
+            ) : (
+              rules.map((rule) => (
+                <View
+                  key={rule.id}
+                  style={[styles.rule, rule.paused && styles.rulePaused]}>
+                  <View style={styles.ruleText}>
+                    <Text style={styles.ruleName} numberOfLines={1}>
+                      {rule.name} · {formatQuantity(rule.quantity, rule.unit)}
+                    </Text>
+                    <Text style={styles.ruleMeta}>
+                      {describeSchedule(rule)} ·{' '}
+                      {rule.paused
+                        ? 'gepauzeerd'
+                        : `volgende: ${formatDueDate(rule.nextDueOn)}`}
+                    </Text>
+                  </View>
+                  {busyId === rule.id ? (
+                    <ActivityIndicator size="small" color={colors.primary} />
+                  ) : (
+                    <>
+                      <Pressable
+                        accessibilityRole="button"
+                        accessibilityLabel={rule.paused ? 'Hervatten' : 'Pauzeren'}
+                        onPress={() => onTogglePaused(rule)}
+                        style={styles.ruleAction}>
+                        <Feather
+                          name={rule.paused ? 'play' : 'pause'}
+                          size={18}
+                          color={colors.textSecondary}
+                        />
+                      </Pressable>
+                      <Pressable
+                        accessibilityRole="button"
+                        accessibilityLabel="Verwijderen"
+                        onPress={() => onDelete(rule)}
+                        style={styles.ruleAction}>
+                        <Feather name="trash-2" size={18} color={colors.error} />
+                      </Pressable>
+                    </>
+                  )}
+                </View>
+              ))
+            )}
+          </ScrollView>
+
+          <TextField
+            label="Nieuw terugkerend item"
+            value={input}
+            onChangeText={handleChangeInput}
+            error={inputError}
+            placeholder="Melk x2 elke maandag"
+            returnKeyType="done"
+            onSubmitEditing={handleCreate}
+          />
+          <View style={styles.chipRow}>
+            {RECURRING_FREQUENCIES.map((option) => {
+              const isActive = option.value === frequency;
+              return (
+                <Pressable
+                  key={option.value}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: isActive }}
+                  onPress={() => setFrequency(option.value)}
+                  style={[styles.chip, isActive && styles.chipActive]}>
+                  <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                    {option.label}
+                  </Text>
+                </Pressable>
+              );
+            })}
+            <View style={styles.stepper}>
+              <Pressable
+                accessibilityRole="button"
+                accessibilityLabel="Vaker"
+                disabled={intervalCount <= 1}
+                onPress={() => setIntervalCount((count) => Math.max(count - 1, 1))}
+                style={styles.stepperButton}>
+                <Feather name="minus" size={14} color={colors.textSecondary} />
+              </Pressable>
+              <Text style={styles.stepperValue}>{intervalCount}</Text>
+              <Pressable
+                accessibilityRole="button"
+                accessibilityLabel="Minder vaak"
+                disabled={intervalCount >= MAX_INTERVAL_COUNT}
+                onPress={() =>
+                  setIntervalCount((count) => Math.min(count + 1, MAX_INTERVAL_COUNT))
+                }
+                style={styles.stepperButton}>
+                <Feather name="plus" size={14} color={colors.textSecondary} />
+              </Pressable>
+            </View>
+          </View>
+          {frequency === 'week' ? (
+            <View style={styles.chipRow}>
+              {WEEKDAY_ORDER.map((day) => {
+                const isActive = day === weekday;
+                return (
+                  <Pressable
+                    key={day}
+                    accessibilityRole="button"
+                    accessibilityLabel={WEEKDAY_LABELS[day]}
+                    accessibilityState={{ selected: isActive }}
+                    onPress={() => setWeekday(day)}
+                    style={[styles.chip, isActive && styles.chipActive]}>
+                    <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                      {WEEKDAY_LABELS[day].slice(0, 2)}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          ) : null}
+          <Text style={styles.preview}>{preview}</Text>
+
+          <Button title="Toevoegen" onPress={handleCreate} loading={saving} />
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.35)',
+  },
+  dismissArea: {
+    flex: 1,
+  },
+  sheet: {
+    backgroundColor: colors.surface,
+    borderTopLeftRadius: radius.lg,
+    borderTopRightRadius: radius.lg,
+    padding: spacing.lg,
+    paddingBottom: spacing.xl,
+    gap: spacing.md,
+    maxHeight: '90%',
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: radius.pill,
+    backgroundColor: colors.border,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    gap: spacing.sm,
+  },
+  headerText: {
+    flex: 1,
+    gap: 2,
+  },
+  title: {
+    ...textStyles.subtitle,
+    color: colors.textPrimary,
+  },
+  subtitle: {
+    ...textStyles.caption,
+  },
+  close: {
+    padding: spacing.xs,
+  },
+  rules: {
+    maxHeight: 240,
+  },
+  rulesContent: {
+    gap: spacing.sm,
+  },
+  empty: {
+    ...textStyles.caption,
+  },
+  rule: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  rulePaused: {
+    opacity: 0.6,
+  },
+  ruleText: {
+    flex: 1,
+    gap: 2,
+  },
+  ruleName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  ruleMeta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  ruleAction: {
+    padding: spacing.xs,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.pill,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipActive: {
+    borderColor: colors.primary,
+    backgroundColor: 'rgba(61, 220, 132, 0.12)',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  chipTextActive: {
+    color: colors.primaryDark,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginLeft: 'auto',
+  },
+  stepperButton: {
+    padding: spacing.xs,
+    borderRadius: radius.pill,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  stepperValue: {
+    minWidth: 28,
+    textAlign: 'center',
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  preview: {
+    ...textStyles.caption,
+    color: colors.primaryDark,
+  },
+});
@@ -0,0 +1,342 @@
+import { Feather } from '@expo/vector-icons';
+import { useEffect, useMemo, useState } from 'react';
+import {
+  FlatList,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { Button } from '@/components/Button';
+import type { GroceryItem } from '@/components/ItemRow';
+import { TextField } from '@/components/TextField';
+import { formatEuro, parseEuroInput, summarizeTotals } from '@/lib/prices';
+import { colors, radius, spacing, textStyles } from '@/lib/theme';
+import { formatTripDuration, type ShoppingTrip } from '@/lib/trips';
+import { formatQuantity } from '@/lib/units';
+
+export type TripFinish = {
+  finalSpend: number | null;
+  clearChecked: boolean;
+};
+
+type ShoppingTripModeProps<T extends GroceryItem> = {
+  trip: ShoppingTrip | null;
+  visible: boolean;
+  items: T[];
+  finishing?: boolean;
+  onToggle: (item: T) => void;
+  /** Sluit de modus; de ronde blijft lopen en kan later worden hervat. */
+  onClose: () => void;
+  onFinish: (finish: TripFinish) => void;
+};
+
+const CLOCK_INTERVAL_MS = 30000;
+
+/**
+ * Winkelmodus: alleen open items, groot en met één hand af te vinken. Wat
+ * tijdens deze ronde in het mandje is gegaan blijft onderaan staan, zodat een
+ * misser terug te zetten is.
+ */
+export function ShoppingTripMode<T extends GroceryItem>({
+  trip,
+  visible,
+  items,
+  finishing = false,
+  onToggle,
+  onClose,
+  onFinish,
+}: ShoppingTripModeProps<T>) {
+  const [basketIds, setBasketIds] = useState<string[]>([]);
+  const [step, setStep] = useState<'shop' | 'finish'>('shop');
+  const [paid, setPaid] = useState('');
+  const [paidError, setPaidError] = useState<string | undefined>();
+  const [clearChecked, setClearChecked] = useState(true);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    setBasketIds([]);
+    setStep('shop');
+    setPaid('');
+    setPaidError(undefined);
+    setClearChecked(true);
+  }, [trip?.id]);
+
+  useEffect(() => {
+    if (!visible) return;
+    setNow(new Date());
+    const interval = setInterval(() => setNow(new Date()), CLOCK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [visible]);
+
+  const openItems = useMemo(() => items.filter((item) => !item.checked), [items]);
+  const basket = useMemo(
+    () => items.filter((item) => item.checked && basketIds.includes(item.id)),
+    [basketIds, items],
+  );
+  const basketTotals = useMemo(() => summarizeTotals(basket), [basket]);
+
+  const handleToggle = (item: T) => {
+    setBasketIds((prev) =>
+      item.checked ? prev.filter((id) => id !== item.id) : [...prev, item.id],
+    );
+    onToggle(item);
+  };
+
+  const handleFinish = () => {
+    const parsed = parseEuroInput(paid);
+    if (!parsed.valid) {
+      setPaidError('Vul een bedrag in, bijv. 42,10, of laat het leeg.');
+      return;
+    }
+    setPaidError(undefined);
+    onFinish({ finalSpend: parsed.value, clearChecked });
+  };
+
+  if (!trip) return null;
+
+  const startedLabel = new Date(trip.startedAt).toLocaleTimeString('nl-NL', {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={styles.safe}>
+        <KeyboardAvoidingView
+          style={styles.flex}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={styles.title}>In de winkel</Text>
+              <Text style={styles.subtitle}>
+                Sinds {startedLabel} • {formatTripDuration(trip.startedAt, null, now)} •{' '}
+                {basket.length} in je mandje
+              </Text>
+            </View>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="Winkelmodus sluiten, ronde loopt door"
+              onPress={onClose}
+              style={styles.close}>
+              <Feather name="minimize-2" size={22} color={colors.textPrimary} />
+            </Pressable>
+          </View>
+
+          {step === 'shop' ? (
+            <>
+              <FlatList
+                data={openItems}
+                keyExtractor={(item) => item.id}
+                contentContainerStyle={styles.listContent}
+                renderItem={({ item }) => (
+                  <Pressable
+                    accessibilityRole="checkbox"
+                    accessibilityState={{ checked: false }}
+                    onPress={() => handleToggle(item)}
+                    style={({ pressed }) => [styles.row, pressed && styles.rowPressed]}>
+                    <Feather name="circle" size={28} color={colors.primary} />
+                    <View style={styles.rowText}>
+                      <Text style={styles.rowName}>{item.name}</Text>
+                      <Text style={styles.rowMeta}>
+                        {formatQuantity(item.quantity, item.unit)}
+                      </Text>
+                    </View>
+                  </Pressable>
+                )}
+                ListEmptyComponent={
+                  <View style={styles.done}>
+                    <Feather name="check-circle" size={40} color={colors.primary} />
+                    <Text style={styles.doneText}>Alles gevonden!</Text>
+                  </View>
+                }
+                ListFooterComponent={
+                  basket.length > 0 ? (
+                    <View style={styles.basket}>
+                      <Text style={styles.basketTitle}>In je mandje</Text>
+                      {basket.map((item) => (
+                        <Pressable
+                          key={item.id}
+                          accessibilityRole="checkbox"
+                          accessibilityState={{ checked: true }}
+                          accessibilityLabel={`${item.name} terugzetten`}
+                          onPress={() => handleToggle(item)}
+                          style={styles.basketRow}>
+                          <Feather name="check-circle" size={20} color={colors.primary} />
+                          <Text style={styles.basketName}>{item.name}</Text>
+                        </Pressable>
+                      ))}
+                    </View>
+                  ) : null
+                }
+              />
+              <View style={styles.footer}>
+                <Button title="Ronde afronden" onPress={() => setStep('finish')} />
+              </View>
+            </>
+          ) : (
+            <View style={styles.finish}>
+              <Text style={styles.finishSummary}>
+                {basket.length === 1 ? '1 item' : `${basket.length} items`} afgevinkt
+                {basketTotals.pricedCount > 0
+                  ? `, geschat ${formatEuro(basketTotals.total)}`
+                  : ''}
+                .
+              </Text>
+              <TextField
+                label="Wat heb je betaald? (€)"
+                value={paid}
+                onChangeText={setPaid}
+                error={paidError}
+                placeholder={
+                  basketTotals.pricedCount > 0
+                    ? basketTotals.total.toFixed(2).replace('.', ',')
+                    : 'Optioneel'
+                }
+                keyboardType="decimal-pad"
+                hint="Telt mee voor het budget in plaats van de schattingen."
+              />
+              <Pressable
+                accessibilityRole="checkbox"
+                accessibilityState={{ checked: clearChecked }}
+                onPress={() => setClearChecked((prev) => !prev)}
+                style={styles.checkboxRow}>
+                <Feather
+                  name={clearChecked ? 'check-square' : 'square'}
+                  size={20}
+                  color={clearChecked ? colors.primary : colors.border}
+                />
+                <Text style={styles.checkboxText}>
+                  Afgevinkte items van de lijst halen
+                </Text>
+              </Pressable>
+              <Button title="Ronde opslaan" onPress={handleFinish} loading={finishing} />
+              <Button
+                title="Verder winkelen"
+                variant="ghost"
+                onPress={() => setStep('shop')}
+                disabled={finishing}
+              />
+            </View>
+          )}
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  safe: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  flex: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    gap: spacing.md,
+  },
+  headerText: {
+    flex: 1,
+    gap: spacing.xs,
+  },
+  title: {
+    ...textStyles.title,
+  },
+  subtitle: {
+    ...textStyles.caption,
+  },
+  close: {
+    padding: spacing.sm,
+  },
+  listContent: {
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.xl,
+    gap: spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    minHeight: 72,
+    paddingHorizontal: spacing.lg,
+    borderRadius: radius.lg,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  rowPressed: {
+    opacity: 0.7,
+  },
+  rowText: {
+    flex: 1,
+    gap: 2,
+  },
+  rowName: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  rowMeta: {
+    ...textStyles.body,
+    color: colors.textSecondary,
+  },
+  done: {
+    alignItems: 'center',
+    gap: spacing.sm,
+    padding: spacing.xl,
+  },
+  doneText: {
+    ...textStyles.subtitle,
+    color: colors.textPrimary,
+  },
+  basket: {
+    marginTop: spacing.lg,
+    gap: spacing.xs,
+  },
+  basketTitle: {
+    ...textStyles.caption,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  basketRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.sm,
+  },
+  basketName: {
+    ...textStyles.body,
+    color: colors.textSecondary,
+    textDecorationLine: 'line-through',
+  },
+  footer: {
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.lg,
+  },
+  finish: {
+    flex: 1,
+    paddingHorizontal: spacing.lg,
+    gap: spacing.md,
+  },
+  finishSummary: {
+    ...textStyles.body,
+  },
+  checkboxRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  checkboxText: {
+    ...textStyles.body,
+  },
+});
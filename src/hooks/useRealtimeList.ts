@@ -33,7 +33,7 @@ export function useRealtimeList(listId: string | null) {
     setState((prev) => ({ ...prev, isLoading: true }));
     const { data, error } = await supabase
       .from('items')
-      .select('id,name,quantity,checked,category')
+      .select('id,name,quantity,unit,checked,category,price_estimate')
       .eq('list_id', listId)
       .order('created_at', { ascending: true });
 
@@ -46,9 +46,11 @@ export function useRealtimeList(listId: string | null) {
       items: data.map((item) => ({
         id: item.id,
         name: item.name,
-        quantity: item.quantity ?? 1,
+        quantity: Number(item.quantity ?? 1),
+        unit: item.unit,
         checked: item.checked ?? false,
         category: item.category,
+        priceEstimate: item.price_estimate == null ? null : Number(item.price_estimate),
       })),
       isLoading: false,
       error: null,
@@ -86,9 +88,12 @@ export function useRealtimeList(listId: string | null) {
                   {
                     id: payload.new.id as string,
                     name: (payload.new.name as string) ?? '',
-                    quantity: (payload.new.quantity as number) ?? 1,
+                    quantity: Number(payload.new.quantity ?? 1),
+                    unit: (payload.new.unit as string | null) ?? null,
                     checked: (payload.new.checked as boolean) ?? false,
                     category: (payload.new.category as string | null) ?? null,
+                    priceEstimate:
+                      payload.new.price_estimate == null ? null : Number(payload.new.price_estimate),
                   },
                 ];
               }
@@ -99,9 +104,14 @@ export function useRealtimeList(listId: string | null) {
                   ? {
                       id: payload.new.id as string,
                       name: (payload.new.name as string) ?? '',
-                      quantity: (payload.new.quantity as number) ?? 1,
+                      quantity: Number(payload.new.quantity ?? 1),
+                      unit: (payload.new.unit as string | null) ?? null,
                       checked: (payload.new.checked as boolean) ?? false,
                       category: (payload.new.category as string | null) ?? null,
+                      priceEstimate:
+                        payload.new.price_estimate == null
+                          ? null
+                          : Number(payload.new.price_estimate),
                     }
                   : item
               );
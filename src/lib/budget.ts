@@ -0,0 +1,130 @@
+import {
+  NOT_CONFIGURED_ERROR,
+  isSupabaseConfigured,
+  supabase,
+  type SupabaseResult,
+} from '@/lib/supabase';
+import { logSupabaseError } from '@/utils/logging';
+
+/**
+ * Huishoudbudget per week of maand. Uitgaven worden server-side vastgelegd
+ * zodra een item met prijs wordt afgevinkt (migratie 0010); open items tellen
+ * mee als schatting.
+ */
+
+export type BudgetPeriod = 'week' | 'month';
+
+export type HouseholdBudget = {
+  /** Budget in euro's; `null` betekent geen budget ingesteld. */
+  amount: number | null;
+  period: BudgetPeriod;
+};
+
+export type BudgetStatus = HouseholdBudget & {
+  periodStart: string;
+  periodEnd: string;
+  /** Afgevinkte items met prijs in de huidige periode. */
+  spent: number;
+  /** Schatting van de open items op de (overige) actieve lijsten. */
+  openEstimate: number;
+};
+
+export type BudgetProjection = {
+  amount: number;
+  spent: number;
+  /** Uitgegeven plus de schatting van alles wat nog open staat. */
+  projected: number;
+  /** Wat er overblijft na de schatting; negatief bij overschrijding. */
+  remaining: number;
+  ratio: number;
+  overBudget: boolean;
+};
+
+export const BUDGET_PERIOD_OPTIONS: { period: BudgetPeriod; label: string }[] = [
+  { period: 'week', label: 'Per week' },
+  { period: 'month', label: 'Per maand' },
+];
+
+type BudgetStatusRow = {
+  budget_amount: number | string | null;
+  budget_period: BudgetPeriod;
+  period_start: string;
+  period_end: string;
+  spent: number | string;
+  open_estimate: number | string;
+};
+
+export function describeBudgetPeriod(period: BudgetPeriod) {
+  return period === 'week' ? 'deze week' : 'deze maand';
+}
+
+/**
+ * Zet uitgaven en open schatting af tegen het budget. `extraOpenEstimate` is
+ * de live schatting van een lijst die niet in `status.openEstimate` zit.
+ */
+export function projectBudget(
+  status: BudgetStatus | null,
+  extraOpenEstimate = 0,
+): BudgetProjection | null {
+  if (!status || status.amount == null) return null;
+  const projected = Math.round((status.spent + status.openEstimate + extraOpenEstimate) * 100) / 100;
+  return {
+    amount: status.amount,
+    spent: status.spent,
+    projected,
+    remaining: Math.round((status.amount - projected) * 100) / 100,
+    ratio: status.amount > 0 ? projected / status.amount : 0,
+    overBudget: projected > status.amount,
+  };
+}
+
+export async function fetchBudgetStatus(
+  householdId: string,
+  { excludeListId }: { excludeListId?: string | null } = {},
+): Promise<SupabaseResult<BudgetStatus>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .rpc('household_budget_status', {
+      target_household_id: householdId,
+      exclude_list_id: excludeListId ?? null,
+    })
+    .single<BudgetStatusRow>();
+
+  if (error || !data) {
+    logSupabaseError('rpc.household_budget_status', error, { householdId });
+    return { data: null, error };
+  }
+  return {
+    data: {
+      amount: data.budget_amount == null ? null : Number(data.budget_amount),
+      period: data.budget_period,
+      periodStart: data.period_start,
+      periodEnd: data.period_end,
+      spent: Number(data.spent),
+      openEstimate: Number(data.open_estimate),
+    },
+    error: null,
+  };
+}
+
+/** Alleen de eigenaar mag dit aanpassen (households_update policy). */
+export async function updateBudget(
+  householdId: string,
+  budget: HouseholdBudget,
+): Promise<SupabaseResult<HouseholdBudget>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { error } = await supabase
+    .from('households')
+    .update({ budget_amount: budget.amount, budget_period: budget.period })
+    .eq('id', householdId);
+
+  if (error) {
+    logSupabaseError('households.update', error, { householdId, budget });
+    return { data: null, error };
+  }
+  return { data: budget, error: null };
+}
@@ -0,0 +1,338 @@
+import { isSameItemName, normalizeItemName } from '@/lib/itemMatching';
+import {
+  NOT_CONFIGURED_ERROR,
+  isSupabaseConfigured,
+  supabase,
+  type SupabaseResult,
+} from '@/lib/supabase';
+import { logSupabaseError } from '@/utils/logging';
+
+/**
+ * Productcatalogus: bekende boodschappen (Nederlands en Engels, met synoniemen)
+ * met een standaardcategorie en emoji. Meervouden hoeven er niet in, die vangt
+ * isSameItemName af. Huishoudens kunnen de categorie per item overschrijven
+ * (migratie 0014); die keuze wint altijd van de catalogus.
+ */
+
+/** Standaardcategorieën, in de looproute van een gemiddelde supermarkt. */
+export const PRODUCT_CATEGORIES = [
+  'Groente & fruit',
+  'Brood',
+  'Vlees & vis',
+  'Zuivel',
+  'Kaas',
+  'Houdbaar',
+  'Diepvries',
+  'Snoep & snacks',
+  'Drinken',
+  'Drogisterij',
+  'Huishouden',
+];
+
+export type CatalogProduct = {
+  /** Eerste naam is de Nederlandse hoofdnaam, daarna synoniemen en Engels. */
+  names: string[];
+  category: string;
+  emoji: string;
+};
+
+export type CategoryOverride = {
+  itemName: string;
+  category: string;
+};
+
+export type ItemClassification = {
+  category: string | null;
+  emoji: string;
+};
+
+export const DEFAULT_ITEM_EMOJI = '🛒';
+
+/** Korter dan dit telt het einde van een samenstelling ("karnemelk") niet mee. */
+const MIN_COMPOUND_LENGTH = 4;
+
+/** Producten per categorie als `[emoji, ...namen]`, zodat de lijst compact blijft. */
+function inCategory(
+  category: string,
+  products: [string, ...string[]][],
+): CatalogProduct[] {
+  return products.map(([emoji, ...names]) => ({ names, category, emoji }));
+}
+
+const BUILT_IN_PRODUCTS: CatalogProduct[] = [
+  ...inCategory('Groente & fruit', [
+    ['🍎', 'appel', 'apple', 'elstar', 'jonagold'],
+    ['🍐', 'peer', 'pear'],
+    ['🍌', 'banaan', 'banana'],
+    ['🍊', 'sinaasappel', 'orange', 'mandarijn', 'mandarin'],
+    ['🍋', 'citroen', 'lemon', 'limoen', 'lime'],
+    ['🍓', 'aardbei', 'strawberry'],
+    ['🫐', 'blauwe bes', 'blueberry', 'framboos', 'raspberry'],
+    ['🍇', 'druif', 'druiven', 'grape'],
+    ['🥑', 'avocado'],
+    ['🍅', 'tomaat', 'tomato', 'cherrytomaat'],
+    ['🥒', 'komkommer', 'cucumber'],
+    ['🫑', 'paprika', 'bell pepper'],
+    ['🥕', 'wortel', 'worteltje', 'carrot'],
+    ['🥦', 'broccoli'],
+    ['🥬', 'spinazie', 'spinach', 'sla', 'lettuce', 'rucola', 'andijvie'],
+    ['🧅', 'ui', 'uien', 'onion', 'sjalot'],
+    ['🧄', 'knoflook', 'garlic'],
+    ['🥔', 'aardappel', 'potato', 'krieltjes'],
+    ['🍄', 'champignon', 'mushroom', 'paddenstoel'],
+    ['🍆', 'courgette', 'zucchini', 'aubergine', 'eggplant'],
+    ['🌽', 'mais', 'corn'],
+    ['🥗', 'groente', 'vegetables', 'fruit'],
+  ]),
+  ...inCategory('Brood', [
+    ['🍞', 'brood', 'bread', 'volkoren', 'casino'],
+    ['🥖', 'stokbrood', 'baguette'],
+    ['🥐', 'croissant'],
+    ['🥯', 'bolletje', 'broodje', 'bun', 'roll'],
+    ['🫓', 'wrap', 'tortilla', 'pita'],
+  ]),
+  ...inCategory('Vlees & vis', [
+    ['🍗', 'kip', 'chicken', 'kipfilet', 'kippendij'],
+    ['🥩', 'gehakt', 'mince', 'minced meat', 'rundergehakt'],
+    ['🥩', 'biefstuk', 'steak', 'rundvlees', 'beef'],
+    ['🥓', 'spek', 'bacon', 'spekjes', 'ontbijtspek'],
+    ['🌭', 'worst', 'sausage', 'rookworst'],
+    ['🥓', 'ham', 'vleeswaren', 'salami', 'cold cuts'],
+    ['🐟', 'vis', 'fish', 'zalm', 'salmon', 'kabeljauw', 'cod', 'zalmfilet', 'visfilet'],
+    ['🍤', 'garnaal', 'shrimp', 'garnalen'],
+  ]),
+  ...inCategory('Zuivel', [
+    ['🥛', 'melk', 'milk', 'halfvolle melk', 'karnemelk'],
+    ['🥣', 'yoghurt', 'yogurt', 'kwark', 'vla'],
+    ['🧈', 'boter', 'butter', 'roomboter', 'margarine'],
+    ['🥚', 'ei', 'eieren', 'egg'],
+    ['🥛', 'room', 'slagroom', 'cream', 'creme fraiche'],
+  ]),
+  ...inCategory('Kaas', [
+    ['🧀', 'kaas', 'cheese', 'gouda', 'brie', 'mozzarella', 'feta', 'parmezaan'],
+  ]),
+  ...inCategory('Houdbaar', [
+    ['🍝', 'pasta', 'spaghetti', 'penne', 'macaroni'],
+    ['🍚', 'rijst', 'rice'],
+    ['🍜', 'noedels', 'noodles', 'mie'],
+    ['🌾', 'meel', 'bloem', 'flour'],
+    ['🍬', 'suiker', 'sugar'],
+    ['🧂', 'zout', 'salt', 'peper', 'pepper', 'kruiden', 'spices'],
+    ['🫒', 'olie', 'olijfolie', 'oil', 'olive oil', 'azijn', 'vinegar'],
+    [
+      '🍯',
+      'pindakaas',
+      'peanut butter',
+      'hagelslag',
+      'jam',
+      'honing',
+      'honey',
+      'chocoladepasta',
+    ],
+    ['🥣', 'muesli', 'cornflakes', 'cereal', 'havermout', 'oats', 'granola'],
+    ['🥫', 'tomatenpuree', 'passata', 'tomatensaus', 'tomato sauce'],
+    ['🫘', 'bonen', 'beans', 'kikkererwten', 'chickpeas', 'linzen', 'lentils'],
+    ['🥫', 'soep', 'soup', 'bouillon', 'stock'],
+    ['☕️', 'koffie', 'coffee', 'koffiebonen', 'koffiepads'],
+    ['🍵', 'thee', 'tea'],
+  ]),
+  ...inCategory('Diepvries', [
+    ['🍨', 'ijs', 'ice cream', 'ijsjes'],
+    ['🍕', 'pizza', 'diepvriespizza', 'frozen pizza'],
+    ['🍟', 'friet', 'patat', 'fries'],
+    ['🫛', 'diepvriesgroente', 'frozen vegetables', 'doperwten', 'peas'],
+  ]),
+  ...inCategory('Snoep & snacks', [
+    ['🥔', 'chips', 'crisps'],
+    ['🍫', 'chocolade', 'chocolate'],
+    ['🍪', 'koek', 'koekjes', 'cookie', 'biscuit', 'stroopwafel'],
+    ['🍬', 'snoep', 'candy', 'drop', 'sweets'],
+    ['🥜', 'noten', 'nuts', 'pinda', 'peanuts', 'cashew'],
+  ]),
+  ...inCategory('Drinken', [
+    ['💧', 'water', 'spa', 'bronwater', 'sparkling water'],
+    ['🧃', 'sap', 'juice', "jus d'orange", 'appelsap', 'sinaasappelsap'],
+    ['🥤', 'frisdrank', 'cola', 'soda', 'limonade', 'ranja'],
+    ['🍺', 'bier', 'beer'],
+    ['🍷', 'wijn', 'wine', 'rode wijn', 'witte wijn'],
+    ['🥛', 'havermelk', 'oat milk', 'sojamelk', 'soy milk', 'amandelmelk'],
+  ]),
+  ...inCategory('Drogisterij', [
+    ['🪥', 'tandpasta', 'toothpaste', 'tandenborstel', 'toothbrush'],
+    ['🧴', 'shampoo', 'douchegel', 'shower gel', 'zeep', 'soap'],
+    ['🧴', 'deodorant', 'deo'],
+    ['🧷', 'luiers', 'diapers', 'billendoekjes', 'wipes'],
+    ['💊', 'pleisters', 'plasters', 'paracetamol', 'ibuprofen'],
+  ]),
+  ...inCategory('Huishouden', [
+    ['🧻', 'wc papier', 'toiletpapier', 'toilet paper', 'wcpapier'],
+    ['🧻', 'keukenrol', 'paper towels', 'tissues', 'zakdoekjes'],
+    ['🧽', 'afwasmiddel', 'dish soap', 'vaatwastabletten', 'dishwasher tablets'],
+    ['🧺', 'wasmiddel', 'laundry detergent', 'wasverzachter'],
+    ['🧽', 'schoonmaakmiddel', 'allesreiniger', 'cleaner', 'spons', 'sponge'],
+    ['🗑️', 'vuilniszakken', 'afvalzakken', 'bin bags', 'trash bags'],
+    ['🔋', 'batterijen', 'batteries', 'lamp', 'light bulb'],
+  ]),
+];
+
+type CatalogEntry = {
+  alias: string;
+  product: CatalogProduct;
+};
+
+function indexProducts(products: CatalogProduct[]) {
+  return products.flatMap((product) =>
+    product.names
+      .map((name) => normalizeItemName(name))
+      .filter((alias) => alias.length > 0)
+      .map((alias) => ({ alias, product })),
+  );
+}
+
+let catalogEntries = indexProducts(BUILT_IN_PRODUCTS);
+
+/**
+ * Voegt producten toe aan de catalogus (bijv. regionale merken). Latere
+ * producten winnen bij een gelijke naam, zodat een toevoeging kan corrigeren.
+ */
+export function extendCatalog(products: CatalogProduct[]) {
+  catalogEntries = [...indexProducts(products), ...catalogEntries];
+}
+
+function matchWhole(text: string) {
+  return (
+    catalogEntries.find((entry) => isSameItemName(entry.alias, text))?.product ?? null
+  );
+}
+
+/** "karnemelk" -> melk, "volkorenbrood" -> brood: het langste passende einde wint. */
+function matchCompound(word: string) {
+  let best: CatalogEntry | null = null;
+  for (const entry of catalogEntries) {
+    if (
+      entry.alias.length >= MIN_COMPOUND_LENGTH &&
+      !entry.alias.includes(' ') &&
+      word.endsWith(entry.alias) &&
+      (!best || entry.alias.length > best.alias.length)
+    ) {
+      best = entry;
+    }
+  }
+  return best?.product ?? null;
+}
+
+/**
+ * Zoekt het product bij een itemnaam: eerst de hele naam ("halfvolle melk"),
+ * dan de losse woorden van achter naar voren ("verse aardbeien"), dan het
+ * einde van samengestelde woorden.
+ */
+export function findProduct(name: string): CatalogProduct | null {
+  const normalized = normalizeItemName(name);
+  if (!normalized) return null;
+
+  const whole = matchWhole(normalized);
+  if (whole) return whole;
+
+  const words = normalized.split(' ').reverse();
+  for (const word of words) {
+    const match = matchWhole(word);
+    if (match) return match;
+  }
+  for (const word of words) {
+    const match = matchCompound(word);
+    if (match) return match;
+  }
+  return null;
+}
+
+export function emojiForItem(name: string) {
+  return findProduct(name)?.emoji ?? DEFAULT_ITEM_EMOJI;
+}
+
+/** Eigen keuze van het huishouden eerst, dan de catalogus; onbekend blijft `null`. */
+export function classifyItem(
+  name: string,
+  overrides: CategoryOverride[] = [],
+): ItemClassification {
+  const product = findProduct(name);
+  const override = overrides.find((option) => isSameItemName(option.itemName, name));
+  return {
+    category: override?.category ?? product?.category ?? null,
+    emoji: product?.emoji ?? DEFAULT_ITEM_EMOJI,
+  };
+}
+
+type OverrideRow = {
+  item_name: string;
+  category: string;
+};
+
+export async function fetchCategoryOverrides(
+  householdId: string,
+): Promise<SupabaseResult<CategoryOverride[]>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('item_category_overrides')
+    .select('item_name, category')
+    .eq('household_id', householdId);
+
+  if (error) {
+    logSupabaseError('item_category_overrides.select', error, { householdId });
+    return { data: null, error };
+  }
+  return {
+    data: ((data ?? []) as OverrideRow[]).map((row) => ({
+      itemName: row.item_name,
+      category: row.category,
+    })),
+    error: null,
+  };
+}
+
+/**
+ * Onthoudt de categorie die het huishouden voor dit item kiest. Kiezen wat de
+ * catalogus al zegt, of de categorie leegmaken, ruimt de eigen keuze op.
+ */
+export async function rememberCategory(
+  householdId: string,
+  itemName: string,
+  category: string | null,
+): Promise<SupabaseResult<CategoryOverride | null>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const itemKey = normalizeItemName(itemName);
+  const trimmed = category?.trim() ?? '';
+  const matchesCatalog = trimmed === (findProduct(itemName)?.category ?? '');
+
+  if (!trimmed || matchesCatalog) {
+    const { error } = await supabase
+      .from('item_category_overrides')
+      .delete()
+      .eq('household_id', householdId)
+      .eq('item_key', itemKey);
+    if (error) {
+      logSupabaseError('item_category_overrides.delete', error, { householdId, itemKey });
+      return { data: null, error };
+    }
+    return { data: null, error: null };
+  }
+
+  const { error } = await supabase.from('item_category_overrides').upsert(
+    {
+      household_id: householdId,
+      item_key: itemKey,
+      item_name: itemName.trim(),
+      category: trimmed,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'household_id,item_key' },
+  );
+  if (error) {
+    logSupabaseError('item_category_overrides.upsert', error, { householdId, itemKey });
+    return { data: null, error };
+  }
+  return { data: { itemName: itemName.trim(), category: trimmed }, error: null };
+}
@@ -0,0 +1,158 @@
+import { isSameItemName, normalizeItemName } from '@/lib/itemMatching';
+import {
+  NOT_CONFIGURED_ERROR,
+  isSupabaseConfigured,
+  supabase,
+  type SupabaseResult,
+} from '@/lib/supabase';
+import { logSupabaseError } from '@/utils/logging';
+
+/**
+ * Snelkeuzes: favorieten per huishouden uit de historie (household_favorites,
+ * migratie 0015) plus vastgezette items, en recent toegevoegde items per lijst.
+ */
+
+export type FavoriteItem = {
+  name: string;
+  /** Aantal dagen waarop het item is toegevoegd of afgevinkt. */
+  buyDays: number;
+  lastAddedAt: string | null;
+  pinned: boolean;
+};
+
+/** Voor een nieuw huishouden zonder historie. */
+export const STARTER_FAVORITES = ['Kaas', 'Melk', 'Vers brood', 'Broccoli', 'Aardbeien'];
+
+export const FAVORITES_LIMIT = 8;
+export const RECENT_LIMIT = 8;
+/** Zoveel `added`-regels lezen we terug om genoeg verschillende recente items te vinden. */
+export const RECENT_HISTORY_WINDOW = 60;
+
+type FavoriteRow = {
+  item_name: string;
+  buy_days: number;
+  last_added_at: string | null;
+  pinned: boolean;
+};
+
+/** Zelfde sleutel als household_favorites(): normalize_item_name() (migratie 0025). */
+function favoriteKey(name: string) {
+  return normalizeItemName(name);
+}
+
+/** Eerste voorkomen wint; "tomaat" en "Tomaten" tellen als één item. */
+export function dedupeItemNames(names: string[], limit = Infinity) {
+  return names
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0)
+    .reduce<string[]>((acc, name) => {
+      if (acc.length >= limit || acc.some((existing) => isSameItemName(existing, name))) {
+        return acc;
+      }
+      return [...acc, name];
+    }, []);
+}
+
+export async function fetchFavorites(
+  householdId: string,
+  limit = FAVORITES_LIMIT,
+): Promise<SupabaseResult<FavoriteItem[]>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  // Ruimer ophalen: meervouden die we client-side samenvoegen kosten plekken.
+  const { data, error } = await supabase.rpc('household_favorites', {
+    target_household_id: householdId,
+    max_results: limit * 2,
+  });
+
+  if (error) {
+    logSupabaseError('rpc.household_favorites', error, { householdId });
+    return { data: null, error };
+  }
+  const rows = (data ?? []) as FavoriteRow[];
+  const names = dedupeItemNames(
+    rows.map((row) => row.item_name),
+    limit,
+  );
+  return {
+    data: names.map((name) => {
+      const row = rows.find((option) => option.item_name.trim() === name) as FavoriteRow;
+      return {
+        name,
+        buyDays: row.buy_days,
+        lastAddedAt: row.last_added_at,
+        pinned: row.pinned,
+      };
+    }),
+    error: null,
+  };
+}
+
+/** Laatst toegevoegde, verschillende items van een lijst; nieuwste eerst. */
+export async function fetchRecentAdditions(
+  listId: string,
+  limit = RECENT_LIMIT,
+): Promise<SupabaseResult<string[]>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('list_history')
+    .select('item_name')
+    .eq('list_id', listId)
+    .eq('action', 'added')
+    .order('created_at', { ascending: false })
+    .limit(RECENT_HISTORY_WINDOW);
+
+  if (error) {
+    logSupabaseError('list_history.recent', error, { listId });
+    return { data: null, error };
+  }
+  return {
+    data: dedupeItemNames(
+      (data ?? []).map((row) => row.item_name ?? ''),
+      limit,
+    ),
+    error: null,
+  };
+}
+
+export async function pinFavorite(
+  householdId: string,
+  name: string,
+): Promise<SupabaseResult<true>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { error } = await supabase.from('favorite_pins').upsert(
+    { household_id: householdId, item_key: favoriteKey(name), item_name: name.trim() },
+    { onConflict: 'household_id,item_key' },
+  );
+
+  if (error) {
+    logSupabaseError('favorite_pins.upsert', error, { householdId, name });
+    return { data: null, error };
+  }
+  return { data: true, error: null };
+}
+
+export async function unpinFavorite(
+  householdId: string,
+  name: string,
+): Promise<SupabaseResult<true>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { error } = await supabase
+    .from('favorite_pins')
+    .delete()
+    .eq('household_id', householdId)
+    .eq('item_key', favoriteKey(name));
+
+  if (error) {
+    logSupabaseError('favorite_pins.delete', error, { householdId, name });
+    return { data: null, error };
+  }
+  return { data: true, error: null };
+}
@@ -0,0 +1,114 @@
+import {
+  NOT_CONFIGURED_ERROR,
+  isSupabaseConfigured,
+  supabase,
+  type SupabaseResult,
+} from '@/lib/supabase';
+import { logSupabaseError } from '@/utils/logging';
+
+export type CreatedHousehold = {
+  household: { id: string; name: string };
+  list: { id: string; name: string };
+};
+
+type CreateHouseholdRow = {
+  household_id: string;
+  household_name: string;
+  list_id: string;
+  list_name: string;
+};
+
+/**
+ * Maakt huishouden, eigenaar-lidmaatschap en standaardlijst in één transactie
+ * aan via de create_household RPC, zodat er geen wees-huishoudens ontstaan.
+ */
+export async function createHousehold(name: string): Promise<SupabaseResult<CreatedHousehold>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const trimmedName = name.trim();
+  const { data, error } = await supabase
+    .rpc('create_household', { name: trimmedName })
+    .single<CreateHouseholdRow>();
+
+  if (error || !data) {
+    logSupabaseError('rpc.create_household', error, { householdName: trimmedName });
+    return { data: null, error };
+  }
+
+  return {
+    data: {
+      household: { id: data.household_id, name: data.household_name },
+      list: { id: data.list_id, name: data.list_name },
+    },
+    error: null,
+  };
+}
+
+export type HistoryRetention = {
+  /** Aantal dagen dat historie bewaard blijft; `null` betekent voor altijd. */
+  days: number | null;
+  /** Verlopen historie archiveren in plaats van verwijderen. */
+  archive: boolean;
+};
+
+export const HISTORY_RETENTION_OPTIONS: { days: number | null; label: string }[] = [
+  { days: 7, label: '7 dagen' },
+  { days: 30, label: '30 dagen' },
+  { days: 90, label: '90 dagen' },
+  { days: null, label: 'Altijd' },
+];
+
+export function describeHistoryRetention(retention: HistoryRetention | null) {
+  if (!retention || retention.days == null) {
+    return 'Alles bewaard';
+  }
+  return retention.archive
+    ? `Laatste ${retention.days} dagen, ouder gearchiveerd`
+    : `Laatste ${retention.days} dagen`;
+}
+
+export async function fetchHistoryRetention(
+  householdId: string,
+): Promise<SupabaseResult<HistoryRetention>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('households')
+    .select('history_retention_days, history_archive')
+    .eq('id', householdId)
+    .single();
+
+  if (error || !data) {
+    logSupabaseError('households.select', error, { householdId });
+    return { data: null, error };
+  }
+  return {
+    data: { days: data.history_retention_days, archive: data.history_archive ?? false },
+    error: null,
+  };
+}
+
+/**
+ * Alleen de eigenaar mag dit aanpassen (households_update policy). Het opschonen
+ * zelf gebeurt server-side door apply_history_retention().
+ */
+export async function updateHistoryRetention(
+  householdId: string,
+  retention: HistoryRetention,
+): Promise<SupabaseResult<HistoryRetention>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { error } = await supabase
+    .from('households')
+    .update({ history_retention_days: retention.days, history_archive: retention.archive })
+    .eq('id', householdId);
+
+  if (error) {
+    logSupabaseError('households.update', error, { householdId, retention });
+    return { data: null, error };
+  }
+  return { data: retention, error: null };
+}
@@ -0,0 +1,196 @@
+import type { PostgrestError, User } from '@supabase/supabase-js';
+
+import {
+  NOT_CONFIGURED_ERROR,
+  isSupabaseConfigured,
+  supabase,
+  type SupabaseResult,
+} from '@/lib/supabase';
+import { logSupabaseError } from '@/utils/logging';
+
+export type Invite = {
+  id: string;
+  code: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  useCount: number;
+  maxUses: number | null;
+};
+
+export type JoinedHousehold = {
+  id: string;
+  name: string;
+};
+
+const JOIN_ERROR_MESSAGES: Record<string, string> = {
+  invite_not_found: 'Deze code bestaat niet. Controleer de spelling.',
+  invite_revoked: 'Deze uitnodiging is ingetrokken.',
+  invite_expired: 'Deze uitnodiging is verlopen. Vraag om een nieuwe code.',
+  invite_exhausted: 'Deze uitnodiging is al gebruikt.',
+  not_authenticated: 'Log eerst in om lid te worden.',
+  too_many_attempts: 'Te veel onbekende codes geprobeerd. Probeer het over een uur opnieuw.',
+};
+
+/** Afwijzingen die bij opnieuw proberen niet veranderen; een bewaarde code mag dan weg. */
+const DEFINITIVE_JOIN_ERRORS = [
+  'invite_not_found',
+  'invite_revoked',
+  'invite_expired',
+  'invite_exhausted',
+];
+
+// join_household() geeft geen rij terug voor een onbekende code (migratie 0024).
+const INVITE_NOT_FOUND_ERROR = {
+  message: 'invite_not_found',
+  code: 'P0002',
+  details: '',
+  hint: '',
+} as PostgrestError;
+
+/** Metadata key used to remember an invite code until the user has a session. */
+export const PENDING_INVITE_METADATA_KEY = 'pending_invite_code';
+
+export function normalizeInviteCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+export function isInviteActive(invite: Invite, now = Date.now()) {
+  if (invite.revokedAt) return false;
+  if (invite.maxUses != null && invite.useCount >= invite.maxUses) return false;
+  return new Date(invite.expiresAt).getTime() > now;
+}
+
+function isDefinitiveJoinError(error: PostgrestError) {
+  return DEFINITIVE_JOIN_ERRORS.some((code) => error.message?.includes(code));
+}
+
+/**
+ * Vertaalt een fout van join_household() naar een tekst voor de gebruiker.
+ */
+export function describeJoinError(error: PostgrestError | null) {
+  if (!error) return null;
+  const key = Object.keys(JOIN_ERROR_MESSAGES).find((code) => error.message?.includes(code));
+  return key ? JOIN_ERROR_MESSAGES[key] : 'Lid worden is niet gelukt. Probeer het opnieuw.';
+}
+
+export async function fetchInvites(householdId: string): Promise<SupabaseResult<Invite[]>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('invites')
+    .select('id, code, expires_at, revoked_at, use_count, max_uses')
+    .eq('household_id', householdId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    logSupabaseError('invites.select', error, { householdId });
+    return { data: null, error };
+  }
+
+  return {
+    data: (data ?? []).map((row) => ({
+      id: row.id,
+      code: row.code,
+      expiresAt: row.expires_at,
+      revokedAt: row.revoked_at,
+      useCount: row.use_count ?? 0,
+      maxUses: row.max_uses,
+    })),
+    error: null,
+  };
+}
+
+export async function createInvite(householdId: string): Promise<SupabaseResult<Invite>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('invites')
+    .insert({ household_id: householdId })
+    .select('id, code, expires_at, revoked_at, use_count, max_uses')
+    .single();
+
+  if (error || !data) {
+    logSupabaseError('invites.insert', error, { householdId });
+    return { data: null, error };
+  }
+
+  return {
+    data: {
+      id: data.id,
+      code: data.code,
+      expiresAt: data.expires_at,
+      revokedAt: data.revoked_at,
+      useCount: data.use_count ?? 0,
+      maxUses: data.max_uses,
+    },
+    error: null,
+  };
+}
+
+export async function revokeInvite(inviteId: string): Promise<SupabaseResult<true>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { error } = await supabase
+    .from('invites')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', inviteId);
+
+  if (error) {
+    logSupabaseError('invites.update', error, { inviteId });
+    return { data: null, error };
+  }
+  return { data: true, error: null };
+}
+
+/**
+ * Wordt lid van een huishouden. De code wordt server-side gevalideerd via de
+ * join_household RPC, die ook de members-rij met rol `member` aanmaakt.
+ */
+export async function joinHouseholdWithInvite(code: string): Promise<SupabaseResult<JoinedHousehold>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .rpc('join_household', { invite_code: normalizeInviteCode(code) })
+    .maybeSingle<{ household_id: string; household_name: string }>();
+
+  if (error || !data) {
+    logSupabaseError('rpc.join_household', error ?? INVITE_NOT_FOUND_ERROR, {
+      code: normalizeInviteCode(code),
+    });
+    return { data: null, error: error ?? INVITE_NOT_FOUND_ERROR };
+  }
+
+  return { data: { id: data.household_id, name: data.household_name }, error: null };
+}
+
+/**
+ * Verzilvert een code die tijdens registratie is bewaard maar nog niet kon
+ * worden gebruikt omdat er toen geen sessie was (bijv. e-mailbevestiging).
+ * De code blijft bewaard na een tijdelijke fout, zodat de volgende login het
+ * opnieuw probeert; alleen na lid worden of een definitieve afwijzing gaat hij weg.
+ */
+export async function redeemPendingInvite(user: User): Promise<SupabaseResult<JoinedHousehold>> {
+  const pendingCode = user.user_metadata?.[PENDING_INVITE_METADATA_KEY] as string | undefined;
+  if (!pendingCode || !isSupabaseConfigured || !supabase) {
+    return { data: null, error: null };
+  }
+
+  const result = await joinHouseholdWithInvite(pendingCode);
+  if (result.error && !isDefinitiveJoinError(result.error)) {
+    return result;
+  }
+  const { error: clearError } = await supabase.auth.updateUser({
+    data: { [PENDING_INVITE_METADATA_KEY]: null },
+  });
+  if (clearError) {
+    console.warn('[Invites] Failed to clear pending invite code', {
+      userId: user.id,
+      error: clearError.message,
+    });
+  }
+  return result;
+}
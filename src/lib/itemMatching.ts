@@ -0,0 +1,138 @@
+import { normalizeUnit } from '@/lib/units';
+
+/**
+ * Herkent of twee itemnamen hetzelfde product zijn: hoofdletters, accenten en
+ * eenvoudige meervouden ("tomaat"/"tomaten", "kip"/"kippen", "kaas"/"kazen")
+ * tellen niet mee.
+ */
+
+const PLURAL_SUFFIXES = ['eren', 'en', 's'];
+const MIN_STEM_LENGTH = 2;
+
+export function normalizeItemName(name: string) {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Lange klinkers en verdubbelde/stemhebbende eindmedeklinkers gelijktrekken. */
+function canonicalStem(stem: string) {
+  return stem
+    .replace(/([aeou])\1/g, '$1')
+    .replace(/([^aeiou])\1$/, '$1')
+    .replace(/z$/, 's')
+    .replace(/v$/, 'f');
+}
+
+function nameVariants(name: string) {
+  const normalized = normalizeItemName(name);
+  const variants = new Set([normalized, canonicalStem(normalized)]);
+  PLURAL_SUFFIXES.forEach((suffix) => {
+    if (!normalized.endsWith(suffix)) return;
+    const stem = normalized.slice(0, -suffix.length);
+    if (stem.length < MIN_STEM_LENGTH) return;
+    variants.add(stem);
+    variants.add(canonicalStem(stem));
+  });
+  return variants;
+}
+
+export function isSameItemName(a: string, b: string) {
+  const left = nameVariants(a);
+  return Array.from(nameVariants(b)).some((variant) => left.has(variant));
+}
+
+type MergeCandidate = {
+  id: string;
+  name: string;
+  unit?: string | null;
+  checked: boolean;
+};
+
+/**
+ * Zoekt een open item met dezelfde naam én eenheid; 500 g en 2 stuks worden
+ * niet bij elkaar opgeteld.
+ */
+export function findMergeTarget<T extends MergeCandidate>(
+  items: T[],
+  candidate: { name: string; unit?: string | null },
+) {
+  const unit = normalizeUnit(candidate.unit);
+  return (
+    items.find(
+      (item) =>
+        !item.checked &&
+        normalizeUnit(item.unit) === unit &&
+        isSameItemName(item.name, candidate.name),
+    ) ?? null
+  );
+}
+
+/** Aantal bewerkingen (invoegen, weglaten, vervangen) tussen twee namen. */
+function editDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Eén tikfout in korte namen, twee in langere ("yoghrt", "komkomer"). */
+function isTypoOf(query: string, name: string) {
+  const allowed = query.length <= 5 ? 1 : 2;
+  return (
+    Math.abs(query.length - name.length) <= allowed &&
+    editDistance(query, name) <= allowed
+  );
+}
+
+/** Alle woorden van de zoeknaam komen in de itemnaam voor ("melk" in "halfvolle melk"). */
+function containsWords(name: string, query: string) {
+  const words = normalizeItemName(name).split(' ');
+  return normalizeItemName(query)
+    .split(' ')
+    .every((part) => words.some((word) => isSameItemName(word, part)));
+}
+
+export type NameMatch<T> = {
+  items: T[];
+  /** Meerdere verschillende producten passen even goed; vraag door. */
+  ambiguous: boolean;
+};
+
+/**
+ * Zoekt de items die iemand met een losse naam bedoelt ("de eieren", "melk"
+ * voor "halfvolle melk", "yoghrt"). Eerst dezelfde naam, dan items waar de naam
+ * in voorkomt, dan een kleine tikfout. Meerdere items met dezelfde naam horen
+ * bij elkaar; verschillende namen in dezelfde ronde zijn dubbelzinnig.
+ */
+export function findItemsByName<T extends { name: string }>(
+  items: T[],
+  query: string,
+): NameMatch<T> {
+  const normalized = normalizeItemName(query);
+  if (!normalized) return { items: [], ambiguous: false };
+
+  const rounds = [
+    (item: T) => isSameItemName(item.name, query),
+    (item: T) => containsWords(item.name, query),
+    (item: T) => isTypoOf(normalized, normalizeItemName(item.name)),
+  ];
+  for (const matches of rounds) {
+    const found = items.filter(matches);
+    if (found.length === 0) continue;
+    const names = new Set(found.map((item) => normalizeItemName(item.name)));
+    return { items: found, ambiguous: names.size > 1 };
+  }
+  return { items: [], ambiguous: false };
+}
@@ -0,0 +1,226 @@
+import {
+  convertedMeasure,
+  isKitchenMeasure,
+  isUnitWord,
+  parseItemInput,
+  type ParsedQuantity,
+} from '@/lib/units';
+
+/**
+ * Hoeveelheden zoals mensen ze typen of zeggen, in het Nederlands en Engels:
+ * "twee pakken melk", "een half dozijn eieren", "anderhalve kilo aardappelen",
+ * "a couple of lemons". Telwoorden worden cijfers; daarna leest
+ * parseItemInput eenheden en "melk x2" zoals in de invoerbalk.
+ */
+
+const NUMBER_WORDS: Record<string, number> = {
+  een: 1,
+  één: 1,
+  eén: 1,
+  a: 1,
+  an: 1,
+  one: 1,
+  twee: 2,
+  two: 2,
+  drie: 3,
+  three: 3,
+  vier: 4,
+  four: 4,
+  vijf: 5,
+  five: 5,
+  zes: 6,
+  six: 6,
+  zeven: 7,
+  seven: 7,
+  acht: 8,
+  eight: 8,
+  negen: 9,
+  nine: 9,
+  tien: 10,
+  ten: 10,
+  elf: 11,
+  eleven: 11,
+  twaalf: 12,
+  twelve: 12,
+  vijftien: 15,
+  fifteen: 15,
+  twintig: 20,
+  twenty: 20,
+  dertig: 30,
+  veertig: 40,
+  vijftig: 50,
+  honderd: 100,
+  hundred: 100,
+  half: 0.5,
+  halve: 0.5,
+  anderhalf: 1.5,
+  anderhalve: 1.5,
+};
+
+// Vage aantallen: "een paar appels" zijn er twee, "een aantal" en "a few" drie.
+const FEW_WORDS: [RegExp, number][] = [
+  [/^(?:een\s+)?paar\s+/i, 2],
+  [/^een\s+aantal\s+/i, 3],
+  [/^(?:a\s+)?couple(?:\s+of)?\s+/i, 2],
+  [/^(?:a\s+)?few\s+/i, 3],
+  [/^enkele\s+/i, 3],
+];
+
+const DOZEN_WORDS = 'dozijn|dozijnen|dozen';
+
+// Lidwoorden tellen aan het eind niet als aantal ("vitamine a").
+const ARTICLES = ['een', 'a', 'an'];
+
+// "tweehonderd", "vijfhonderd": honderdtallen in één woord.
+const HUNDREDS = /^(twee|drie|vier|vijf|zes|zeven|acht|negen)honderd$/;
+
+/** Leest "3", "1,5", "twee" of "vijfhonderd" als getal; anders `null`. */
+function readNumber(word: string): number | null {
+  const lower = word.toLowerCase();
+  if (/^\d+(?:[.,]\d+)?$/.test(lower)) return Number(lower.replace(',', '.'));
+  if (Object.prototype.hasOwnProperty.call(NUMBER_WORDS, lower))
+    return NUMBER_WORDS[lower];
+  const hundreds = lower.match(HUNDREDS);
+  return hundreds ? NUMBER_WORDS[hundreds[1]] * 100 : null;
+}
+
+/**
+ * Zet een telwoord aan het begin om naar cijfers: "een half dozijn eieren" ->
+ * "6 eieren", "een pak melk" -> "1 pak melk", "melk x twee" -> "melk x2". Een
+ * telwoord telt alleen vóór een eenheid of één zelfstandig naamwoord: "halve kip"
+ * en "vier kazen pizza" zijn productnamen. Met `leadingIsQuantity` is het eerste
+ * woord altijd het aantal, zoals in "zet de paprika op drie".
+ * Ook "2 bottles of wine" -> "2 bottles wine".
+ */
+export function normalizeQuantityWords(text: string, leadingIsQuantity = false) {
+  let rest = text.trim().replace(/\s+/g, ' ');
+  let amount: number | null = null;
+  // "half om half gehakt" is een productnaam.
+  if (/^half om half\b/i.test(rest)) return rest;
+
+  const halfDozen = rest.match(
+    new RegExp(
+      `^(?:een\\s+|a\\s+)?(?:half|halve)(?:\\s+a)?\\s+(?:${DOZEN_WORDS})\\s+`,
+      'i',
+    ),
+  );
+  const dozen = rest.match(
+    new RegExp(`^(?:(\\S+)\\s+)?(?:${DOZEN_WORDS})(?:\\s+of)?\\s+`, 'i'),
+  );
+  const few = FEW_WORDS.find(([pattern]) => pattern.test(rest));
+  const stukOf = rest.match(/^(?:een\s+)?stuk\s+of\s+(\S+)\s+/i);
+  const halfOf = rest.match(/^(?:een|a)\s+(?:half|halve)\s+/i);
+
+  if (halfDozen) {
+    amount = 6;
+    rest = rest.slice(halfDozen[0].length);
+  } else if (dozen && (!dozen[1] || readNumber(dozen[1]) != null)) {
+    amount = (dozen[1] ? (readNumber(dozen[1]) ?? 1) : 1) * 12;
+    rest = rest.slice(dozen[0].length);
+  } else if (few) {
+    amount = few[1];
+    rest = rest.replace(few[0], '');
+  } else if (stukOf && readNumber(stukOf[1]) != null) {
+    amount = readNumber(stukOf[1]);
+    rest = rest.slice(stukOf[0].length);
+  } else if (halfOf) {
+    amount = 0.5;
+    rest = rest.slice(halfOf[0].length);
+  } else {
+    const [first, ...others] = rest.split(' ');
+    const value = others.length > 0 && !/^\d/.test(first) ? readNumber(first) : null;
+    const counts =
+      value != null &&
+      (leadingIsQuantity ||
+        value === 1 ||
+        isMeasureWord(others[0]) ||
+        (others.length === 1 && Number.isInteger(value)));
+    if (value != null && counts) {
+      amount = value;
+      rest = others.join(' ');
+    }
+  }
+
+  if (amount != null) {
+    rest = `${amount} ${rest}`;
+  } else {
+    // "melk x twee"; een los telwoord aan het eind hoort bij de naam.
+    const trailing = rest.match(/^(.+?)\s+x\s*(\S+)$/i);
+    const word = trailing?.[2].toLowerCase() ?? '';
+    const value = /^\d/.test(word) || ARTICLES.includes(word) ? null : readNumber(word);
+    if (trailing && value != null && value >= 1) {
+      rest = `${trailing[1]} x${value}`;
+    }
+  }
+
+  // "2 bottles of wine" -> "2 bottles wine"
+  const unitOf = rest.match(/^(\d+(?:[.,]\d+)?)\s+(\S+)\s+of\s+(.+)$/i);
+  return unitOf && isMeasureWord(unitOf[2])
+    ? `${unitOf[1]} ${unitOf[2]} ${unitOf[3]}`
+    : rest;
+}
+
+/** Eenheden van de lijst plus keukenmaten als "el" en "dl". */
+function isMeasureWord(word: string) {
+  return isUnitWord(word) || isKitchenMeasure(word) || convertedMeasure(word) != null;
+}
+
+/** parseItemInput met telwoorden: "twee pakken melk" wordt 2 pak melk. */
+export function parseItemPhrase(text: string, fallbackQuantity = 1): ParsedQuantity {
+  return parseItemInput(normalizeQuantityWords(text), fallbackQuantity);
+}
+
+// Scheidt items op komma's, puntkomma's, regels, "en"/"and"/"plus" en "+", maar niet binnen "1,5 kg".
+const ITEM_SEPARATOR = /(?:[,.](?!\d)|;|\n|\s+(?:en|and|plus|&|\+)\s+)/i;
+
+const LEADING_ARTICLE = /^(?:de|het|the|some)\s+/i;
+
+// Leestekens die na het weghalen van opdrachtwoorden overblijven: "voeg toe: boter".
+const EDGE_PUNCTUATION = /^[\s:;,.!?-]+|[\s:;,.!?-]+$/g;
+
+// Letters en cijfers, ook met accent: een stopwoord moet een heel woord zijn.
+const WORD_CHAR = 'a-z0-9\\u00c0-\\u024f';
+
+function escapeForPattern(word: string) {
+  return word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Knipt een zin in losse itemstukken en haalt opdracht- en vulwoorden weg
+ * ("zet melk x2 en brood op de lijst" met stopwoorden "zet" en "op de lijst"
+ * wordt "melk x2" en "brood"). Stopwoorden tellen alleen als heel woord.
+ */
+export function splitItemPhrases(text: string, stopWords: string[] = []) {
+  const phrases = Array.from(
+    new Set(stopWords.map((word) => word.trim()).filter(Boolean)),
+  )
+    .sort((a, b) => b.length - a.length)
+    .map(escapeForPattern);
+  const stripped =
+    phrases.length > 0
+      ? text.replace(
+          new RegExp(
+            `(^|[^${WORD_CHAR}])(?:${phrases.join('|')})(?=[^${WORD_CHAR}]|$)`,
+            'gi',
+          ),
+          '$1 ',
+        )
+      : text;
+
+  return stripped
+    .split(ITEM_SEPARATOR)
+    .map((chunk) =>
+      chunk
+        .replace(EDGE_PUNCTUATION, '')
+        .replace(/\s+/g, ' ')
+        .replace(LEADING_ARTICLE, ''),
+    )
+    .filter(Boolean);
+}
+
+/** Meerdere items uit één zin: "twee pakken melk, een paar appels en 500 gram gehakt". */
+export function parseItemList(text: string, stopWords: string[] = []): ParsedQuantity[] {
+  return splitItemPhrases(text, stopWords)
+    .map((chunk) => parseItemPhrase(chunk))
+    .filter((item) => item.name.length > 0);
+}
@@ -0,0 +1,183 @@
+import {
+  NOT_CONFIGURED_ERROR,
+  isSupabaseConfigured,
+  supabase,
+  type SupabaseResult,
+} from '@/lib/supabase';
+import { logSupabaseError } from '@/utils/logging';
+
+export type GroceryList = {
+  id: string;
+  name: string;
+  position: number;
+  archivedAt: string | null;
+  /** Opnieuw toegevoegde items ophogen in plaats van een tweede regel maken. */
+  mergeDuplicates: boolean;
+  /** Afgevinkte items aanvullen in de voorraad van het huishouden. */
+  stockPantry: boolean;
+  /** Winkel waarvan de looproute de sortering bepaalt; `null` = standaardindeling. */
+  storeId: string | null;
+};
+
+export const DEFAULT_LIST_NAME = 'Hoofdlijst';
+
+const LIST_COLUMNS =
+  'id, name, position, archived_at, merge_duplicates, stock_pantry, store_id';
+
+type ListRow = {
+  id: string;
+  name: string;
+  position: number;
+  archived_at: string | null;
+  merge_duplicates: boolean;
+  stock_pantry: boolean;
+  store_id: string | null;
+};
+
+function mapList(row: ListRow): GroceryList {
+  return {
+    id: row.id,
+    name: row.name,
+    position: row.position,
+    archivedAt: row.archived_at,
+    mergeDuplicates: row.merge_duplicates ?? true,
+    stockPantry: row.stock_pantry ?? true,
+    storeId: row.store_id ?? null,
+  };
+}
+
+/**
+ * Kiest de lijst die een scherm moet tonen: de bewaarde keuze als die nog
+ * actief is, anders de eerste niet-gearchiveerde lijst.
+ */
+export function resolveActiveList(lists: GroceryList[], preferredId: string | null | undefined) {
+  const open = lists.filter((list) => !list.archivedAt);
+  return open.find((list) => list.id === preferredId) ?? open[0] ?? null;
+}
+
+export async function fetchLists(
+  householdId: string,
+  { includeArchived = false }: { includeArchived?: boolean } = {},
+): Promise<SupabaseResult<GroceryList[]>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  let query = supabase
+    .from('lists')
+    .select(LIST_COLUMNS)
+    .eq('household_id', householdId)
+    .order('position', { ascending: true });
+  if (!includeArchived) {
+    query = query.is('archived_at', null);
+  }
+  const { data, error } = await query;
+
+  if (error) {
+    logSupabaseError('lists.select', error, { householdId });
+    return { data: null, error };
+  }
+  return { data: (data ?? []).map(mapList), error: null };
+}
+
+/** De positie wordt server-side bepaald (lists_assign_position trigger). */
+export async function createList(
+  householdId: string,
+  name: string,
+): Promise<SupabaseResult<GroceryList>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const trimmedName = name.trim();
+  const { data, error } = await supabase
+    .from('lists')
+    .insert({ household_id: householdId, name: trimmedName })
+    .select(LIST_COLUMNS)
+    .single<ListRow>();
+
+  if (error || !data) {
+    logSupabaseError('lists.insert', error, { householdId, name: trimmedName });
+    return { data: null, error };
+  }
+  return { data: mapList(data), error: null };
+}
+
+async function updateList(
+  listId: string,
+  changes: {
+    name?: string;
+    archived_at?: string | null;
+    merge_duplicates?: boolean;
+    stock_pantry?: boolean;
+    store_id?: string | null;
+  },
+): Promise<SupabaseResult<GroceryList>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('lists')
+    .update(changes)
+    .eq('id', listId)
+    .select(LIST_COLUMNS)
+    .single<ListRow>();
+
+  if (error || !data) {
+    logSupabaseError('lists.update', error, { listId, changes });
+    return { data: null, error };
+  }
+  return { data: mapList(data), error: null };
+}
+
+export function renameList(listId: string, name: string) {
+  return updateList(listId, { name: name.trim() });
+}
+
+/** Gearchiveerde lijsten blijven bewaard (inclusief historie) maar verdwijnen uit de kiezer. */
+export function setListArchived(listId: string, archived: boolean) {
+  return updateList(listId, { archived_at: archived ? new Date().toISOString() : null });
+}
+
+export function setListMergeDuplicates(listId: string, enabled: boolean) {
+  return updateList(listId, { merge_duplicates: enabled });
+}
+
+export function setListStockPantry(listId: string, enabled: boolean) {
+  return updateList(listId, { stock_pantry: enabled });
+}
+
+export function setListStore(listId: string, storeId: string | null) {
+  return updateList(listId, { store_id: storeId });
+}
+
+/** Verwijdert de lijst met al zijn items en historie (on delete cascade). */
+export async function deleteList(listId: string): Promise<SupabaseResult<true>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { error } = await supabase.from('lists').delete().eq('id', listId);
+
+  if (error) {
+    logSupabaseError('lists.delete', error, { listId });
+    return { data: null, error };
+  }
+  return { data: true, error: null };
+}
+
+export async function reorderLists(
+  householdId: string,
+  orderedIds: string[],
+): Promise<SupabaseResult<true>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { error } = await supabase.rpc('reorder_lists', {
+    target_household_id: householdId,
+    list_ids: orderedIds,
+  });
+
+  if (error) {
+    logSupabaseError('rpc.reorder_lists', error, { householdId });
+    return { data: null, error };
+  }
+  return { data: true, error: null };
+}
@@ -0,0 +1,485 @@
+import { classifyItem, fetchCategoryOverrides } from '@/lib/catalog';
+import { findMergeTarget } from '@/lib/itemMatching';
+import { fetchPantry } from '@/lib/pantry';
+import { fromDateKey, toDateKey } from '@/lib/recurring';
+import {
+  NOT_CONFIGURED_ERROR,
+  isSupabaseConfigured,
+  supabase,
+  type SupabaseResult,
+} from '@/lib/supabase';
+import {
+  clampQuantity,
+  formatQuantityNumber,
+  normalizeUnit,
+  parseItemInput,
+  type ItemUnit,
+} from '@/lib/units';
+import { logSupabaseError } from '@/utils/logging';
+
+/**
+ * Weekmenu per huishouden (migratie 0019): recepten met ingrediënten en per dag
+ * één maaltijd. Voor de lijst schalen we de ingrediënten naar het aantal eters,
+ * trekken we de voorraad eraf en tellen we de rest op bij open items.
+ */
+
+export type RecipeIngredient = {
+  name: string;
+  quantity: number;
+  unit: ItemUnit;
+};
+
+export type Recipe = {
+  id: string;
+  name: string;
+  /** Voor hoeveel personen de hoeveelheden in het recept zijn. */
+  servings: number;
+  notes: string | null;
+  ingredients: RecipeIngredient[];
+};
+
+export type RecipeDraft = Omit<Recipe, 'id'>;
+
+export type PlannedMeal = {
+  id: string;
+  /** YYYY-MM-DD. */
+  plannedOn: string;
+  title: string;
+  recipeId: string | null;
+  /** Aantal eters. */
+  servings: number;
+  /** Gezet zodra de ingrediënten op een lijst staan; een ander recept of aantal wist hem. */
+  addedToListAt: string | null;
+};
+
+export type MealDraft = Pick<PlannedMeal, 'title' | 'recipeId' | 'servings'>;
+
+/** Wat er voor de geplande maaltijden nodig is, met de gerechten waar het voor is. */
+export type NeededIngredient = RecipeIngredient & { meals: string[] };
+
+export type AddMealsResult = {
+  added: number;
+  merged: number;
+  /** Staat al open op de lijst in een andere eenheid; niet opgeteld. */
+  alreadyListed: string[];
+  /** Genoeg van in de voorraad. */
+  fromPantry: string[];
+  mealCount: number;
+};
+
+export const DEFAULT_SERVINGS = 4;
+export const MAX_SERVINGS = 50;
+
+/** Geschaald "1,5 blik" wordt 2 blikken; gewichten en volumes mogen decimalen houden. */
+const WHOLE_UNITS: ItemUnit[] = ['stuks', 'pak', 'blik', 'fles', 'zak', 'bos'];
+
+const RECIPE_COLUMNS =
+  'id, name, servings, notes, recipe_ingredients(name, quantity, unit, position)';
+
+const MEAL_COLUMNS = 'id, planned_on, title, recipe_id, servings, added_to_list_at';
+
+type RecipeRow = {
+  id: string;
+  name: string;
+  servings: number;
+  notes: string | null;
+  recipe_ingredients:
+    | { name: string; quantity: number | string; unit: string; position: number }[]
+    | null;
+};
+
+type MealRow = {
+  id: string;
+  planned_on: string;
+  title: string;
+  recipe_id: string | null;
+  servings: number;
+  added_to_list_at: string | null;
+};
+
+function mapRecipe(row: RecipeRow): Recipe {
+  return {
+    id: row.id,
+    name: row.name,
+    servings: row.servings,
+    notes: row.notes,
+    ingredients: [...(row.recipe_ingredients ?? [])]
+      .sort((a, b) => a.position - b.position)
+      .map((ingredient) => ({
+        name: ingredient.name,
+        quantity: Number(ingredient.quantity),
+        unit: normalizeUnit(ingredient.unit),
+      })),
+  };
+}
+
+function mapMeal(row: MealRow): PlannedMeal {
+  return {
+    id: row.id,
+    plannedOn: row.planned_on,
+    title: row.title,
+    recipeId: row.recipe_id,
+    servings: row.servings,
+    addedToListAt: row.added_to_list_at,
+  };
+}
+
+/** Maandag van de week waar `date` in valt. */
+export function startOfWeek(date = new Date()) {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+export function addDays(date: Date, days: number) {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+/** De zeven datums van maandag t/m zondag als YYYY-MM-DD. */
+export function weekDays(weekStart: Date) {
+  return Array.from({ length: 7 }, (_, index) => toDateKey(addDays(weekStart, index)));
+}
+
+/** "19 – 25 okt" of "27 okt – 2 nov". */
+export function describeWeek(weekStart: Date) {
+  const end = addDays(weekStart, 6);
+  const month = (date: Date) => date.toLocaleDateString('nl-NL', { month: 'short' });
+  return weekStart.getMonth() === end.getMonth()
+    ? `${weekStart.getDate()} – ${end.getDate()} ${month(end)}`
+    : `${weekStart.getDate()} ${month(weekStart)} – ${end.getDate()} ${month(end)}`;
+}
+
+/** "ma 19 okt". */
+export function formatMealDay(dateKey: string) {
+  return fromDateKey(dateKey).toLocaleDateString('nl-NL', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+  });
+}
+
+/** Eén ingrediënt per regel, zoals in het invoerveld: "400 g spaghetti", "basilicum". */
+export function parseIngredientLines(text: string): RecipeIngredient[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^\s*[-*•]\s*/, '').trim())
+    .filter(Boolean)
+    .map((line) => parseItemInput(line))
+    .filter((ingredient) => ingredient.name.length > 0);
+}
+
+/** Terug naar regels die `parseIngredientLines` weer leest; stuks zonder eenheid. */
+export function formatIngredientLines(ingredients: RecipeIngredient[]) {
+  return ingredients
+    .map(({ name, quantity, unit }) => {
+      if (unit !== 'stuks') return `${formatQuantityNumber(quantity)} ${unit} ${name}`;
+      return quantity === 1 ? name : `${formatQuantityNumber(quantity)} ${name}`;
+    })
+    .join('\n');
+}
+
+export function roundForUnit(quantity: number, unit: ItemUnit) {
+  return WHOLE_UNITS.includes(unit)
+    ? Math.max(Math.ceil(quantity - 0.001), 1)
+    : clampQuantity(quantity);
+}
+
+/**
+ * Telt de ingrediënten van alle maaltijden met een recept bij elkaar op,
+ * geschaald naar het aantal eters. Afronden gebeurt pas na het optellen, zodat
+ * twee keer een half blik één blik blijft.
+ */
+export function collectIngredients(meals: PlannedMeal[], recipes: Recipe[]) {
+  const needed: (NeededIngredient & { id: string; checked: boolean })[] = [];
+  meals.forEach((meal) => {
+    const recipe = recipes.find((option) => option.id === meal.recipeId);
+    if (!recipe) return;
+    const factor = meal.servings / recipe.servings;
+    recipe.ingredients.forEach((ingredient) => {
+      const quantity = ingredient.quantity * factor;
+      const same = findMergeTarget(needed, ingredient);
+      if (same) {
+        same.quantity += quantity;
+        if (!same.meals.includes(meal.title)) same.meals.push(meal.title);
+        return;
+      }
+      needed.push({
+        ...ingredient,
+        quantity,
+        meals: [meal.title],
+        id: String(needed.length),
+        checked: false,
+      });
+    });
+  });
+  return needed.map(({ name, quantity, unit, meals: forMeals }) => ({
+    name,
+    quantity: roundForUnit(quantity, unit),
+    unit,
+    meals: forMeals,
+  }));
+}
+
+/** Haalt eraf wat al in huis is (zelfde product en eenheid). */
+export function subtractPantry(
+  needed: NeededIngredient[],
+  pantry: { id: string; name: string; quantity: number; unit: string }[],
+) {
+  const stock = pantry.map((item) => ({ ...item, checked: false }));
+  const missing: NeededIngredient[] = [];
+  const fromPantry: string[] = [];
+  needed.forEach((ingredient) => {
+    const inStock = findMergeTarget(stock, ingredient);
+    const quantity = ingredient.quantity - (inStock?.quantity ?? 0);
+    if (quantity <= 0) {
+      fromPantry.push(ingredient.name);
+      return;
+    }
+    missing.push({ ...ingredient, quantity: roundForUnit(quantity, ingredient.unit) });
+  });
+  return { missing, fromPantry };
+}
+
+export async function fetchRecipes(
+  householdId: string,
+): Promise<SupabaseResult<Recipe[]>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('recipes')
+    .select(RECIPE_COLUMNS)
+    .eq('household_id', householdId)
+    .order('name', { ascending: true });
+
+  if (error) {
+    logSupabaseError('recipes.select', error, { householdId });
+    return { data: null, error };
+  }
+  return { data: ((data ?? []) as RecipeRow[]).map(mapRecipe), error: null };
+}
+
+/**
+ * Maakt een recept aan, of werkt `recipeId` bij. De ingrediënten worden in hun
+ * geheel vervangen; de volgorde van `draft.ingredients` blijft bewaard.
+ */
+export async function saveRecipe(
+  householdId: string,
+  draft: RecipeDraft,
+  recipeId?: string,
+): Promise<SupabaseResult<Recipe>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const fields = {
+    name: draft.name.trim(),
+    servings: draft.servings,
+    notes: draft.notes?.trim() || null,
+  };
+  const { data: recipeRow, error } = recipeId
+    ? await supabase
+        .from('recipes')
+        .update({ ...fields, updated_at: new Date().toISOString() })
+        .eq('id', recipeId)
+        .select('id')
+        .single<{ id: string }>()
+    : await supabase
+        .from('recipes')
+        .insert({ household_id: householdId, ...fields })
+        .select('id')
+        .single<{ id: string }>();
+
+  if (error || !recipeRow) {
+    logSupabaseError(recipeId ? 'recipes.update' : 'recipes.insert', error, {
+      householdId,
+      recipeId,
+    });
+    return { data: null, error };
+  }
+
+  if (recipeId) {
+    const { error: deleteError } = await supabase
+      .from('recipe_ingredients')
+      .delete()
+      .eq('recipe_id', recipeId);
+    if (deleteError) {
+      logSupabaseError('recipe_ingredients.delete', deleteError, { recipeId });
+      return { data: null, error: deleteError };
+    }
+  }
+
+  if (draft.ingredients.length > 0) {
+    const { error: insertError } = await supabase.from('recipe_ingredients').insert(
+      draft.ingredients.map((ingredient, position) => ({
+        recipe_id: recipeRow.id,
+        name: ingredient.name.trim(),
+        quantity: ingredient.quantity,
+        unit: ingredient.unit,
+        position,
+      })),
+    );
+    if (insertError) {
+      logSupabaseError('recipe_ingredients.insert', insertError, {
+        recipeId: recipeRow.id,
+      });
+      return { data: null, error: insertError };
+    }
+  }
+
+  return {
+    data: { id: recipeRow.id, ...fields, ingredients: draft.ingredients },
+    error: null,
+  };
+}
+
+/** Maaltijden met dit recept blijven staan, alleen zonder ingrediënten. */
+export async function deleteRecipe(recipeId: string): Promise<SupabaseResult<true>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { error } = await supabase.from('recipes').delete().eq('id', recipeId);
+
+  if (error) {
+    logSupabaseError('recipes.delete', error, { recipeId });
+    return { data: null, error };
+  }
+  return { data: true, error: null };
+}
+
+export async function fetchMealPlan(
+  householdId: string,
+  fromDay: string,
+  toDay: string,
+): Promise<SupabaseResult<PlannedMeal[]>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('meal_plans')
+    .select(MEAL_COLUMNS)
+    .eq('household_id', householdId)
+    .gte('planned_on', fromDay)
+    .lte('planned_on', toDay)
+    .order('planned_on', { ascending: true });
+
+  if (error) {
+    logSupabaseError('meal_plans.select', error, { householdId, fromDay, toDay });
+    return { data: null, error };
+  }
+  return { data: ((data ?? []) as MealRow[]).map(mapMeal), error: null };
+}
+
+/** Eén maaltijd per dag: opnieuw plannen op dezelfde dag vervangt de vorige. */
+export async function planMeal(
+  householdId: string,
+  plannedOn: string,
+  meal: MealDraft,
+): Promise<SupabaseResult<PlannedMeal>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('meal_plans')
+    .upsert(
+      {
+        household_id: householdId,
+        planned_on: plannedOn,
+        title: meal.title.trim(),
+        recipe_id: meal.recipeId,
+        servings: meal.servings,
+      },
+      { onConflict: 'household_id,planned_on' },
+    )
+    .select(MEAL_COLUMNS)
+    .single<MealRow>();
+
+  if (error || !data) {
+    logSupabaseError('meal_plans.upsert', error, { householdId, plannedOn });
+    return { data: null, error };
+  }
+  return { data: mapMeal(data), error: null };
+}
+
+export async function removePlannedMeal(mealId: string): Promise<SupabaseResult<true>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { error } = await supabase.from('meal_plans').delete().eq('id', mealId);
+
+  if (error) {
+    logSupabaseError('meal_plans.delete', error, { mealId });
+    return { data: null, error };
+  }
+  return { data: true, error: null };
+}
+
+/**
+ * Zet wat er voor `meals` nog ontbreekt op de lijst. Maaltijden die al op een
+ * lijst stonden tellen niet mee. Ophogen, toevoegen en afvinken van de
+ * maaltijden gebeurt in één transactie (add_meal_ingredients, migratie 0022),
+ * zodat een mislukte poging niets half achterlaat; samenvoegen volgt de
+ * instelling van de lijst.
+ */
+export async function addMealsToList(
+  householdId: string,
+  listId: string,
+  meals: PlannedMeal[],
+  recipes: Recipe[],
+): Promise<SupabaseResult<AddMealsResult>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const pending = meals.filter(
+    (meal) =>
+      !meal.addedToListAt && recipes.some((recipe) => recipe.id === meal.recipeId),
+  );
+  const result: AddMealsResult = {
+    added: 0,
+    merged: 0,
+    alreadyListed: [],
+    fromPantry: [],
+    mealCount: pending.length,
+  };
+  if (pending.length === 0) {
+    return { data: result, error: null };
+  }
+
+  const [pantryResult, overridesResult] = await Promise.all([
+    fetchPantry(householdId),
+    fetchCategoryOverrides(householdId),
+  ]);
+  const { missing, fromPantry } = subtractPantry(
+    collectIngredients(pending, recipes),
+    pantryResult.data ?? [],
+  );
+
+  const { data, error } = await supabase
+    .rpc('add_meal_ingredients', {
+      target_list_id: listId,
+      meal_ids: pending.map((meal) => meal.id),
+      ingredients: missing.map((ingredient) => ({
+        name: ingredient.name,
+        quantity: ingredient.quantity,
+        unit: ingredient.unit,
+        category: classifyItem(ingredient.name, overridesResult.data ?? []).category,
+      })),
+    })
+    .single<{ added: number; merged: number; already_listed: string[] | null }>();
+
+  if (error || !data) {
+    logSupabaseError('rpc.add_meal_ingredients', error, { householdId, listId });
+    return { data: null, error };
+  }
+  return {
+    data: {
+      ...result,
+      added: data.added,
+      merged: data.merged,
+      alreadyListed: data.already_listed ?? [],
+      fromPantry,
+    },
+    error: null,
+  };
+}
@@ -0,0 +1,338 @@
+import { isSameItemName } from '@/lib/itemMatching';
+import { toDateKey } from '@/lib/recurring';
+import {
+  NOT_CONFIGURED_ERROR,
+  isSupabaseConfigured,
+  supabase,
+  type SupabaseResult,
+} from '@/lib/supabase';
+import { clampQuantity, isItemUnit, type ItemUnit } from '@/lib/units';
+import { logSupabaseError } from '@/utils/logging';
+
+/**
+ * Voorraad per huishouden (pantry_items, migratie 0017). Afvinken op een lijst
+ * vult de voorraad server-side aan; hier passen leden aantallen en
+ * houdbaarheidsdatums aan en zetten ze wat op is terug op de lijst. Met een
+ * minimum (migratie 0018) vult de server de lijst zelf aan als er te weinig is.
+ */
+
+export type PantryItem = {
+  id: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  category: string | null;
+  /** Tenminste houdbaar tot, als YYYY-MM-DD. */
+  bestBefore: string | null;
+  sourceListId: string | null;
+  /** Altijd minstens zoveel in huis; daaronder komt het tekort op de lijst. */
+  minQuantity: number | null;
+  /** Lijst voor het aanvullen; `null` = de eerste open lijst van het huishouden. */
+  restockListId: string | null;
+  updatedAt: string;
+};
+
+export type ExpiryState = 'expired' | 'soon' | 'fresh' | 'unknown';
+
+/** Zoveel dagen voor de datum markeren we een item als "snel opmaken". */
+export const USE_SOON_DAYS = 3;
+
+/** Bij terugzetten op de lijst wordt "750 g" gewoon één stuk; een pak blijft een pak. */
+const MEASURED_UNITS: ItemUnit[] = ['g', 'kg', 'ml', 'l'];
+
+const PANTRY_COLUMNS =
+  'id, name, quantity, unit, category, best_before, source_list_id, min_quantity, restock_list_id, updated_at';
+
+type PantryRow = {
+  id: string;
+  name: string;
+  quantity: number | string;
+  unit: string;
+  category: string | null;
+  best_before: string | null;
+  source_list_id: string | null;
+  min_quantity: number | string | null;
+  restock_list_id: string | null;
+  updated_at: string;
+};
+
+function mapPantryItem(row: PantryRow): PantryItem {
+  return {
+    id: row.id,
+    name: row.name,
+    quantity: Number(row.quantity),
+    unit: row.unit,
+    category: row.category,
+    bestBefore: row.best_before,
+    sourceListId: row.source_list_id,
+    minQuantity: row.min_quantity == null ? null : Number(row.min_quantity),
+    restockListId: row.restock_list_id,
+    updatedAt: row.updated_at,
+  };
+}
+
+function startOfDay(date: Date) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/** Dagen tot de datum; negatief als die voorbij is. */
+export function daysUntil(dateKey: string, now = new Date()) {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const due = new Date(year, month - 1, day);
+  return Math.round((due.getTime() - startOfDay(now).getTime()) / 86_400_000);
+}
+
+export function expiryState(bestBefore: string | null, now = new Date()): ExpiryState {
+  if (!bestBefore) return 'unknown';
+  const days = daysUntil(bestBefore, now);
+  if (days < 0) return 'expired';
+  return days <= USE_SOON_DAYS ? 'soon' : 'fresh';
+}
+
+/** "Vandaag opmaken", "Nog 2 dagen", "3 dagen over de datum", "Tot 12 nov". */
+export function describeExpiry(bestBefore: string | null, now = new Date()) {
+  if (!bestBefore) return null;
+  const days = daysUntil(bestBefore, now);
+  if (days < 0)
+    return days === -1 ? '1 dag over de datum' : `${-days} dagen over de datum`;
+  if (days === 0) return 'Vandaag opmaken';
+  if (days === 1) return 'Morgen opmaken';
+  if (days <= USE_SOON_DAYS) return `Nog ${days} dagen`;
+  const [year, month, day] = bestBefore.split('-').map(Number);
+  return `Tot ${new Date(year, month - 1, day).toLocaleDateString('nl-NL', {
+    day: 'numeric',
+    month: 'short',
+  })}`;
+}
+
+export function isBelowMinimum(item: Pick<PantryItem, 'quantity' | 'minQuantity'>) {
+  return item.minQuantity != null && item.quantity < item.minQuantity;
+}
+
+const EXPIRY_ORDER: Record<ExpiryState, number> = {
+  expired: 0,
+  soon: 1,
+  fresh: 2,
+  unknown: 2,
+};
+
+/** Eerst wat over de datum is of snel op moet, dan de rest op naam; lege voorraad achteraan. */
+export function sortPantry(items: PantryItem[], now = new Date()) {
+  return [...items].sort((a, b) => {
+    const emptyA = a.quantity <= 0 ? 1 : 0;
+    const emptyB = b.quantity <= 0 ? 1 : 0;
+    if (emptyA !== emptyB) return emptyA - emptyB;
+    const stateA = EXPIRY_ORDER[expiryState(a.bestBefore, now)];
+    const stateB = EXPIRY_ORDER[expiryState(b.bestBefore, now)];
+    if (stateA !== stateB) return stateA - stateB;
+    if (stateA < 2 && a.bestBefore && b.bestBefore && a.bestBefore !== b.bestBefore) {
+      return a.bestBefore < b.bestBefore ? -1 : 1;
+    }
+    return a.name.localeCompare(b.name, 'nl', { sensitivity: 'base' });
+  });
+}
+
+/**
+ * Leest "12-11", "12-11-2026", "12/11/26" of "2026-11-12". Zonder jaar kiezen
+ * we de eerstvolgende keer dat die datum valt. Leeg betekent geen datum.
+ */
+export function parseBestBeforeInput(
+  text: string,
+  now = new Date(),
+): { valid: boolean; value: string | null } {
+  const trimmed = text.trim();
+  if (!trimmed) return { valid: true, value: null };
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const local = trimmed.match(/^(\d{1,2})[-/.](\d{1,2})(?:[-/.](\d{2}|\d{4}))?$/);
+  let year: number;
+  let month: number;
+  let day: number;
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (local) {
+    day = Number(local[1]);
+    month = Number(local[2]);
+    if (local[3]) {
+      year = Number(local[3].length === 2 ? `20${local[3]}` : local[3]);
+    } else {
+      year = now.getFullYear();
+      const thisYear = new Date(year, month - 1, day);
+      if (thisYear < startOfDay(now)) year += 1;
+    }
+  } else {
+    return { valid: false, value: null };
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (
+    date.getFullYear() !== year ||
+    date.getMonth() !== month - 1 ||
+    date.getDate() !== day
+  ) {
+    return { valid: false, value: null };
+  }
+  return { valid: true, value: toDateKey(date) };
+}
+
+export async function fetchPantry(
+  householdId: string,
+): Promise<SupabaseResult<PantryItem[]>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('pantry_items')
+    .select(PANTRY_COLUMNS)
+    .eq('household_id', householdId)
+    .order('name', { ascending: true });
+
+  if (error) {
+    logSupabaseError('pantry_items.select', error, { householdId });
+    return { data: null, error };
+  }
+  return { data: ((data ?? []) as PantryRow[]).map(mapPantryItem), error: null };
+}
+
+/** Handmatig toevoegen; bestaat het product al in die eenheid, dan telt het op. */
+export async function addPantryItem(
+  householdId: string,
+  item: {
+    name: string;
+    quantity: number;
+    unit: ItemUnit;
+    category: string | null;
+    bestBefore: string | null;
+  },
+  existing: PantryItem[],
+): Promise<SupabaseResult<PantryItem>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const match = existing.find(
+    (candidate) =>
+      candidate.unit === item.unit && isSameItemName(candidate.name, item.name),
+  );
+  if (match) {
+    return updatePantryItem(match.id, {
+      quantity: clampQuantity(match.quantity + item.quantity),
+      bestBefore: item.bestBefore ?? match.bestBefore,
+    });
+  }
+
+  const { data, error } = await supabase
+    .from('pantry_items')
+    .insert({
+      household_id: householdId,
+      name: item.name.trim(),
+      quantity: item.quantity,
+      unit: item.unit,
+      category: item.category,
+      best_before: item.bestBefore,
+    })
+    .select(PANTRY_COLUMNS)
+    .single<PantryRow>();
+
+  if (error || !data) {
+    logSupabaseError('pantry_items.insert', error, { householdId, name: item.name });
+    return { data: null, error };
+  }
+  return { data: mapPantryItem(data), error: null };
+}
+
+/**
+ * Een aantal van 0 laat het item staan als "op". Komt de voorraad onder het
+ * minimum, dan zet de server het tekort op de lijst (restock_pantry_item).
+ */
+export async function updatePantryItem(
+  pantryItemId: string,
+  changes: {
+    quantity?: number;
+    bestBefore?: string | null;
+    minQuantity?: number | null;
+    restockListId?: string | null;
+  },
+): Promise<SupabaseResult<PantryItem>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('pantry_items')
+    .update({
+      ...(changes.quantity !== undefined
+        ? { quantity: Math.max(changes.quantity, 0) }
+        : {}),
+      ...(changes.bestBefore !== undefined ? { best_before: changes.bestBefore } : {}),
+      ...(changes.minQuantity !== undefined ? { min_quantity: changes.minQuantity } : {}),
+      ...(changes.restockListId !== undefined
+        ? { restock_list_id: changes.restockListId }
+        : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', pantryItemId)
+    .select(PANTRY_COLUMNS)
+    .single<PantryRow>();
+
+  if (error || !data) {
+    logSupabaseError('pantry_items.update', error, { pantryItemId, changes });
+    return { data: null, error };
+  }
+  return { data: mapPantryItem(data), error: null };
+}
+
+export async function deletePantryItem(
+  pantryItemId: string,
+): Promise<SupabaseResult<true>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { error } = await supabase.from('pantry_items').delete().eq('id', pantryItemId);
+
+  if (error) {
+    logSupabaseError('pantry_items.delete', error, { pantryItemId });
+    return { data: null, error };
+  }
+  return { data: true, error: null };
+}
+
+/**
+ * Zet een voorraaditem terug op een lijst. Staat het daar al open, dan doen we
+ * niets en meldt `data` dat met `'already'`.
+ */
+export async function addPantryItemToList(
+  listId: string,
+  item: PantryItem,
+): Promise<SupabaseResult<'added' | 'already'>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { data: openItems, error: selectError } = await supabase
+    .from('items')
+    .select('name')
+    .eq('list_id', listId)
+    .eq('checked', false);
+
+  if (selectError) {
+    logSupabaseError('items.select', selectError, { listId });
+    return { data: null, error: selectError };
+  }
+  if ((openItems ?? []).some((row) => isSameItemName(row.name ?? '', item.name))) {
+    return { data: 'already', error: null };
+  }
+
+  const { error } = await supabase.from('items').insert({
+    list_id: listId,
+    name: item.name,
+    quantity: 1,
+    unit:
+      isItemUnit(item.unit) && !MEASURED_UNITS.includes(item.unit) ? item.unit : 'stuks',
+    category: item.category,
+    checked: false,
+  });
+
+  if (error) {
+    logSupabaseError('items.insert', error, { listId, name: item.name });
+    return { data: null, error };
+  }
+  return { data: 'added', error: null };
+}
@@ -0,0 +1,240 @@
+import {
+  NOT_CONFIGURED_ERROR,
+  isSupabaseConfigured,
+  supabase,
+  type SupabaseResult,
+} from '@/lib/supabase';
+import { logSupabaseError } from '@/utils/logging';
+
+/**
+ * Voorkeuren van een huishouden uit de onboarding-quiz: wie er meedoet, het
+ * boodschappenritme en waar Groceo vooral bij moet helpen. De toegestane
+ * waarden moeten gelijk blijven aan de checks in migratie 0011.
+ */
+
+export type CrewMember = 'partner' | 'roommates' | 'kids' | 'caregiver' | 'just-me';
+export type ShoppingCadence = 'weekly' | 'biweekly' | 'monthly' | 'as-needed';
+export type HouseholdFocus = 'never-miss' | 'faster-trips' | 'shared-planning' | 'budget';
+
+export type HouseholdPreferences = {
+  crew: CrewMember[];
+  cadence: ShoppingCadence | null;
+  focus: HouseholdFocus | null;
+};
+
+/** Ruwe antwoorden zoals het onboardingscherm ze verzamelt (sleutels = stap-keys). */
+export type OnboardingAnswers = Record<string, string | string[]>;
+
+/** Bij registratie in de user metadata gezet; create_household neemt ze over. */
+export const ONBOARDING_METADATA_KEY = 'onboarding_answers';
+
+export const EMPTY_PREFERENCES: HouseholdPreferences = { crew: [], cadence: null, focus: null };
+
+export const CREW_OPTIONS: { id: CrewMember; label: string }[] = [
+  { id: 'partner', label: 'Partner' },
+  { id: 'roommates', label: 'Huisgenoten' },
+  { id: 'kids', label: 'Kinderen' },
+  { id: 'caregiver', label: 'Grootouder of verzorger' },
+  { id: 'just-me', label: 'Alleen ik' },
+];
+
+export const CADENCE_OPTIONS: { id: ShoppingCadence; label: string }[] = [
+  { id: 'weekly', label: 'Wekelijks' },
+  { id: 'biweekly', label: 'Om de week' },
+  { id: 'monthly', label: 'Maandelijks' },
+  { id: 'as-needed', label: 'Als het nodig is' },
+];
+
+export const FOCUS_OPTIONS: { id: HouseholdFocus; label: string }[] = [
+  { id: 'never-miss', label: 'Nooit misgrijpen' },
+  { id: 'faster-trips', label: 'Snellere rondes' },
+  { id: 'shared-planning', label: 'Samen plannen' },
+  { id: 'budget', label: 'Binnen budget' },
+];
+
+const CREW_INVITE_LABELS: Record<Exclude<CrewMember, 'just-me'>, string> = {
+  partner: 'je partner',
+  roommates: 'je huisgenoten',
+  kids: 'de kinderen',
+  caregiver: 'opa, oma of de verzorger',
+};
+
+const CADENCE_INTERVAL_DAYS: Record<Exclude<ShoppingCadence, 'as-needed'>, number> = {
+  weekly: 7,
+  biweekly: 14,
+  monthly: 30,
+};
+
+/** Bij "als het nodig is" herinneren we pas als de lijst zo lang is. */
+export const AS_NEEDED_OPEN_ITEMS = 8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type HomeSection =
+  | 'overview'
+  | 'budget'
+  | 'missions'
+  | 'quickActions'
+  | 'board'
+  | 'agenda'
+  | 'inspiration';
+
+const DEFAULT_HOME_SECTIONS: HomeSection[] = [
+  'overview',
+  'budget',
+  'missions',
+  'quickActions',
+  'board',
+  'agenda',
+  'inspiration',
+];
+
+const FOCUS_HOME_SECTIONS: Record<HouseholdFocus, HomeSection[]> = {
+  'never-miss': ['overview', 'quickActions'],
+  'faster-trips': ['quickActions', 'overview'],
+  'shared-planning': ['agenda', 'missions'],
+  budget: ['budget', 'overview'],
+};
+
+type PreferencesRow = {
+  crew: string[] | null;
+  cadence: string | null;
+  focus: string | null;
+};
+
+function pickOne<T extends string>(options: { id: T }[], value: unknown): T | null {
+  return options.find((option) => option.id === value)?.id ?? null;
+}
+
+function pickMany<T extends string>(options: { id: T }[], values: unknown): T[] {
+  if (!Array.isArray(values)) return [];
+  return options.filter((option) => values.includes(option.id)).map((option) => option.id);
+}
+
+function mapPreferences(row: PreferencesRow): HouseholdPreferences {
+  return {
+    crew: pickMany(CREW_OPTIONS, row.crew),
+    cadence: pickOne(CADENCE_OPTIONS, row.cadence),
+    focus: pickOne(FOCUS_OPTIONS, row.focus),
+  };
+}
+
+/** Wie meedoet; "alleen ik" sluit de rest uit, net als in de onboarding. */
+export function toggleCrewMember(crew: CrewMember[], member: CrewMember): CrewMember[] {
+  if (crew.includes(member)) {
+    return crew.filter((id) => id !== member);
+  }
+  if (member === 'just-me') {
+    return ['just-me'];
+  }
+  return [...crew.filter((id) => id !== 'just-me'), member];
+}
+
+/** "je partner en de kinderen"; `null` als er niemand uit te nodigen valt. */
+export function describeInviteAudience(crew: CrewMember[]) {
+  const labels = crew
+    .filter((member): member is Exclude<CrewMember, 'just-me'> => member !== 'just-me')
+    .map((member) => CREW_INVITE_LABELS[member]);
+  if (labels.length === 0) return null;
+  if (labels.length === 1) return labels[0];
+  return `${labels.slice(0, -1).join(', ')} en ${labels[labels.length - 1]}`;
+}
+
+export type ShoppingReminder = {
+  /** Moment van de volgende herinnering; `null` bij "als het nodig is". */
+  dueAt: Date | null;
+  due: boolean;
+  label: string;
+};
+
+function formatReminderDay(date: Date) {
+  return date.toLocaleDateString('nl-NL', { weekday: 'long', day: 'numeric', month: 'long' });
+}
+
+/**
+ * Rekent de volgende boodschappenronde uit vanaf de laatste ronde (het laatste
+ * afgevinkte item), voor de herinneringstekst op het thuisscherm. Er wordt geen
+ * melding ingepland. Zonder ritme of eerdere ronde is er niets uit te rekenen.
+ */
+export function planShoppingReminder(
+  cadence: ShoppingCadence | null,
+  lastShoppedAt: Date | null,
+  openItems: number,
+  now = new Date(),
+): ShoppingReminder | null {
+  if (!cadence) return null;
+
+  if (cadence === 'as-needed') {
+    const due = openItems >= AS_NEEDED_OPEN_ITEMS;
+    return {
+      dueAt: null,
+      due,
+      label: due
+        ? `${openItems} items open: tijd voor een ronde`
+        : 'boodschappen doen zodra de lijst vol raakt',
+    };
+  }
+
+  if (!lastShoppedAt) {
+    return { dueAt: now, due: openItems > 0, label: 'plan jullie eerste boodschappenronde' };
+  }
+
+  const dueAt = new Date(lastShoppedAt.getTime() + CADENCE_INTERVAL_DAYS[cadence] * DAY_MS);
+  const due = dueAt.getTime() <= now.getTime();
+  return {
+    dueAt,
+    due,
+    label: due ? 'tijd voor de volgende boodschappenronde' : `volgende ronde ${formatReminderDay(dueAt)}`,
+  };
+}
+
+/** Zet de kaarten die bij de gekozen focus horen bovenaan het thuisscherm. */
+export function prioritizeHomeSections(focus: HouseholdFocus | null): HomeSection[] {
+  if (!focus) return DEFAULT_HOME_SECTIONS;
+  const first = FOCUS_HOME_SECTIONS[focus];
+  return [...first, ...DEFAULT_HOME_SECTIONS.filter((section) => !first.includes(section))];
+}
+
+export async function fetchHouseholdPreferences(
+  householdId: string,
+): Promise<SupabaseResult<HouseholdPreferences>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('household_preferences')
+    .select('crew, cadence, focus')
+    .eq('household_id', householdId)
+    .maybeSingle<PreferencesRow>();
+
+  if (error) {
+    logSupabaseError('household_preferences.select', error, { householdId });
+    return { data: null, error };
+  }
+  return { data: data ? mapPreferences(data) : EMPTY_PREFERENCES, error: null };
+}
+
+/** Alleen de eigenaar mag dit aanpassen (household_preferences_update policy). */
+export async function updateHouseholdPreferences(
+  householdId: string,
+  preferences: HouseholdPreferences,
+): Promise<SupabaseResult<HouseholdPreferences>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { error } = await supabase
+    .from('household_preferences')
+    .update({
+      crew: preferences.crew,
+      cadence: preferences.cadence,
+      focus: preferences.focus,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('household_id', householdId);
+
+  if (error) {
+    logSupabaseError('household_preferences.update', error, { householdId, preferences });
+    return { data: null, error };
+  }
+  return { data: preferences, error: null };
+}
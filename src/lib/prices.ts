@@ -0,0 +1,77 @@
+import { isItemUnit, type ItemUnit } from '@/lib/units';
+
+/**
+ * Prijsschattingen voor items. `price_estimate` geldt per stuk, kg, liter,
+ * pak enz.; bij g en ml is het de prijs voor de hele regel, want niemand
+ * schat per gram.
+ */
+
+const PRICED_PER_LINE: ItemUnit[] = ['g', 'ml'];
+
+const euroFormatter = new Intl.NumberFormat('nl-NL', { style: 'currency', currency: 'EUR' });
+
+type PricedItem = {
+  quantity: number;
+  unit?: string | null;
+  priceEstimate?: number | null;
+  checked?: boolean;
+};
+
+export type ListTotals = {
+  /** Geschat totaal van alle items met een prijs. */
+  total: number;
+  /** Geschat totaal van de items die nog niet zijn afgevinkt. */
+  remaining: number;
+  pricedCount: number;
+  unpricedCount: number;
+};
+
+export function formatEuro(amount: number) {
+  return euroFormatter.format(amount);
+}
+
+/** Leest "2,49", "2.49" of "€ 2,49"; leeg is geldig en geeft `null`. */
+export function parseEuroInput(value: string) {
+  const normalized = value.trim().replace('€', '').replace(',', '.').trim();
+  if (!normalized) return { value: null, valid: true };
+  const parsed = Number(normalized);
+  if (!Number.isFinite(parsed) || parsed < 0) return { value: null, valid: false };
+  return { value: Math.round(parsed * 100) / 100, valid: true };
+}
+
+function isPricedPerLine(unit: string | null | undefined) {
+  return isItemUnit(unit) && PRICED_PER_LINE.includes(unit);
+}
+
+/** "per stuk", "per kg", "per pak"; "totaal" voor g en ml. */
+export function priceBasisLabel(unit: string | null | undefined) {
+  if (isPricedPerLine(unit)) return 'totaal';
+  if (!isItemUnit(unit) || unit === 'stuks') return 'per stuk';
+  return `per ${unit}`;
+}
+
+export function lineTotal(item: PricedItem) {
+  if (item.priceEstimate == null) return null;
+  const total = isPricedPerLine(item.unit)
+    ? item.priceEstimate
+    : item.priceEstimate * item.quantity;
+  return Math.round(total * 100) / 100;
+}
+
+export function summarizeTotals(items: PricedItem[]): ListTotals {
+  return items.reduce<ListTotals>(
+    (acc, item) => {
+      const total = lineTotal(item);
+      if (total == null) {
+        return { ...acc, unpricedCount: acc.unpricedCount + 1 };
+      }
+      return {
+        total: acc.total + total,
+        remaining: item.checked ? acc.remaining : acc.remaining + total,
+        pricedCount: acc.pricedCount + 1,
+        unpricedCount: acc.unpricedCount,
+      };
+    },
+    { total: 0, remaining: 0, pricedCount: 0, unpricedCount: 0 },
+  );
+}
@@ -0,0 +1,319 @@
+import { findMergeTarget } from '@/lib/itemMatching';
+import { roundForUnit } from '@/lib/meals';
+import {
+  DEFAULT_UNIT,
+  clampQuantity,
+  convertedMeasure,
+  isItemUnit,
+  isKitchenMeasure,
+  unitForWord,
+  type ItemUnit,
+  type ParsedQuantity,
+} from '@/lib/units';
+
+/**
+ * Recepten importeren zonder netwerk: geplakte ingrediëntregels, of de HTML van
+ * een opgeslagen receptpagina met schema.org `Recipe` in JSON-LD. Regels als
+ * "2 el olijfolie" of "400 g spaghetti" worden naam, hoeveelheid en eenheid
+ * zoals de boodschappenlijst die kent.
+ */
+
+export type ImportedIngredient = ParsedQuantity & {
+  /** De regel zoals hij in het recept stond. */
+  original: string;
+  /** Keukenmaat ("2 el", "snufje") of "naar smaak": waarschijnlijk al in huis. */
+  likelyInStock: boolean;
+};
+
+export type RecipeImport = {
+  title: string | null;
+  servings: number | null;
+  ingredients: ImportedIngredient[];
+  source: 'json-ld' | 'text';
+};
+
+export type RecipeImportError = 'empty' | 'no-recipe' | 'no-ingredients';
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 0.5,
+  '⅓': 1 / 3,
+  '⅔': 2 / 3,
+  '¼': 0.25,
+  '¾': 0.75,
+  '⅛': 0.125,
+};
+
+const TO_TASTE = /\b(?:naar smaak|naar keuze|optioneel|to taste|optional)\b/i;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  frac12: '½',
+  frac14: '¼',
+  frac34: '¾',
+  eacute: 'é',
+  euml: 'ë',
+  iuml: 'ï',
+  ouml: 'ö',
+  uuml: 'ü',
+};
+
+export function decodeHtmlEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value =
+        code[1] === 'x' || code[1] === 'X'
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function stripTags(text: string) {
+  return text.replace(/<[^>]*>/g, ' ');
+}
+
+/** "1", "1,5", "½", "1 ½", "1/2", "1 1/2"; een bereik "2-3" of "2 à 3" telt als de bovenkant. */
+function readAmount(text: string): { value: number; rest: string } | null {
+  const number =
+    '(\\d+\\s+\\d+/\\d+|\\d+/\\d+|\\d+(?:[.,]\\d+)?(?:\\s*[½⅓⅔¼¾⅛])?|[½⅓⅔¼¾⅛])';
+  const match = text.match(
+    new RegExp(
+      `^(?:ca\\.?|circa|ongeveer|about)?\\s*${number}(?:\\s*(?:-|–|à|tot|to)\\s*${number})?\\s*`,
+      'i',
+    ),
+  );
+  if (!match) {
+    const article = text.match(/^(?:een|één|a|an)\s+/i);
+    return article ? { value: 1, rest: text.slice(article[0].length) } : null;
+  }
+  const value = toNumber(match[2] ?? match[1]);
+  return value != null && value > 0 ? { value, rest: text.slice(match[0].length) } : null;
+}
+
+function toNumber(raw: string) {
+  const trimmed = raw.trim();
+  const mixed = trimmed.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+  const fraction = trimmed.match(/^(\d+)\/(\d+)$/);
+  if (fraction)
+    return Number(fraction[2]) ? Number(fraction[1]) / Number(fraction[2]) : null;
+  const unicode = trimmed.match(/^(\d+(?:[.,]\d+)?)?\s*([½⅓⅔¼¾⅛])$/);
+  if (unicode)
+    return Number(unicode[1]?.replace(',', '.') ?? 0) + UNICODE_FRACTIONS[unicode[2]];
+  const value = Number(trimmed.replace(',', '.'));
+  return Number.isFinite(value) ? value : null;
+}
+
+/** Eerste woord als maat: "el", "gram", "blikjes"; de punt in "gr." of "el." mag. */
+function readMeasure(text: string) {
+  const match = text.match(/^([a-zà-ÿ]+)\.?(?:\s+|$)/i);
+  if (!match) return null;
+  const word = match[1].toLowerCase();
+  const rest = text.slice(match[0].length);
+  if (isKitchenMeasure(word)) return { kind: 'kitchen' as const, rest };
+  const conversion = convertedMeasure(word);
+  if (conversion) return { kind: 'converted' as const, conversion, rest };
+  const unit = unitForWord(word);
+  return unit ? { kind: 'unit' as const, unit, rest } : null;
+}
+
+/** Haalt bereidingen en toelichting weg: "ui, gesnipperd", "tomaten (in blik)". */
+function cleanName(text: string) {
+  return text
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(TO_TASTE, ' ')
+    .split(/\s*[,;]\s*/)[0]
+    .replace(/^(?:of|van)\s+/i, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[.:]$/, '');
+}
+
+/**
+ * Eén ingrediëntregel naar een item. Zonder hoeveelheid wordt het één stuk;
+ * keukenmaten worden één stuk van het product en gemarkeerd als `likelyInStock`.
+ */
+export function parseIngredientLine(line: string): ImportedIngredient {
+  const original = line.replace(/\s+/g, ' ').trim();
+  const text = original.replace(/^[-*•·▪]\s*/, '').replace(/\(\s*[^)]*\)\s*/, (group) =>
+    // "1 (400 g) blik tomaten": de maat tussen haakjes hoort niet bij de naam.
+    /^\(\s*\d/.test(group) ? '' : group,
+  );
+  const toTaste = TO_TASTE.test(text);
+  const amount = readAmount(text);
+  const measure = readMeasure(amount?.rest ?? text);
+
+  let quantity = amount?.value ?? 1;
+  let unit: ItemUnit = DEFAULT_UNIT;
+  let rest = amount?.rest ?? text;
+  let kitchenMeasure = false;
+
+  if (measure?.kind === 'kitchen') {
+    kitchenMeasure = true;
+    quantity = 1;
+    rest = measure.rest;
+  } else if (measure?.kind === 'converted') {
+    unit = measure.conversion.unit;
+    quantity = quantity * measure.conversion.factor;
+    rest = measure.rest;
+  } else if (measure?.kind === 'unit' && (amount || measure.unit !== DEFAULT_UNIT)) {
+    unit = measure.unit;
+    rest = measure.rest;
+  }
+
+  const name = cleanName(rest) || cleanName(text);
+  return {
+    original,
+    name,
+    quantity:
+      unit === 'g' || unit === 'ml'
+        ? clampQuantity(Math.round(quantity))
+        : roundForUnit(quantity, unit),
+    unit,
+    likelyInStock: kitchenMeasure || toTaste,
+  };
+}
+
+/** Kopjes als "Ingrediënten:" of "Voor de saus" zijn geen ingrediënt. */
+function isHeading(line: string) {
+  return (
+    /:$/.test(line) || /^(?:ingredi[eë]nten|ingredients|voor de\b|for the\b)/i.test(line)
+  );
+}
+
+export function parseIngredientText(text: string): ImportedIngredient[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => decodeHtmlEntities(line).trim())
+    .filter((line) => line.length > 0 && !isHeading(line))
+    .map(parseIngredientLine)
+    .filter((ingredient) => ingredient.name.length > 0);
+}
+
+type JsonLdNode = Record<string, unknown>;
+
+function isRecipeNode(node: JsonLdNode) {
+  const type = node['@type'];
+  return Array.isArray(type) ? type.includes('Recipe') : type === 'Recipe';
+}
+
+/** Zoekt het eerste `Recipe`-object, ook in `@graph` of geneste arrays. */
+function findRecipeNode(value: unknown, depth = 0): JsonLdNode | null {
+  if (!value || typeof value !== 'object' || depth > 6) return null;
+  if (Array.isArray(value)) {
+    for (const entry of value) {
+      const found = findRecipeNode(entry, depth + 1);
+      if (found) return found;
+    }
+    return null;
+  }
+  const node = value as JsonLdNode;
+  if (isRecipeNode(node)) return node;
+  for (const key of ['@graph', 'mainEntity', 'mainEntityOfPage', 'itemListElement']) {
+    const found = findRecipeNode(node[key], depth + 1);
+    if (found) return found;
+  }
+  return null;
+}
+
+/** "4 personen", 4, ["4", "4 servings"]. */
+function parseYield(value: unknown): number | null {
+  const first = Array.isArray(value) ? value[0] : value;
+  const match = String(first ?? '').match(/\d+/);
+  const servings = match ? Number(match[0]) : NaN;
+  return Number.isFinite(servings) && servings > 0 ? Math.min(servings, 50) : null;
+}
+
+function textValue(value: unknown) {
+  return typeof value === 'string'
+    ? decodeHtmlEntities(stripTags(value)).replace(/\s+/g, ' ').trim()
+    : null;
+}
+
+/** Leest de JSON-LD blokken van een pagina; kapotte blokken slaan we over. */
+export function extractJsonLdRecipe(html: string): Omit<RecipeImport, 'source'> | null {
+  const blocks = html.matchAll(
+    /<script[^>]*type=["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi,
+  );
+  for (const [, body] of blocks) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(
+        body
+          .replace(/^\s*<!\[CDATA\[/, '')
+          .replace(/\]\]>\s*$/, '')
+          .trim(),
+      );
+    } catch {
+      continue;
+    }
+    const recipe = findRecipeNode(parsed);
+    if (!recipe) continue;
+    const lines = (
+      Array.isArray(recipe.recipeIngredient)
+        ? recipe.recipeIngredient
+        : Array.isArray(recipe.ingredients)
+          ? recipe.ingredients
+          : []
+    )
+      .map(textValue)
+      .filter((line): line is string => Boolean(line));
+    return {
+      title: textValue(recipe.name),
+      servings: parseYield(recipe.recipeYield),
+      ingredients: parseIngredientText(lines.join('\n')),
+    };
+  }
+  return null;
+}
+
+function looksLikeHtml(text: string) {
+  return /<(?:!doctype|html|head|script|meta|body|div)\b/i.test(text);
+}
+
+/** Geplakte tekst of HTML naar ingrediënten, of een reden waarom dat niet lukte. */
+export function parseRecipeImport(
+  input: string,
+): { data: RecipeImport; error: null } | { data: null; error: RecipeImportError } {
+  const trimmed = input.trim();
+  if (!trimmed) return { data: null, error: 'empty' };
+
+  if (looksLikeHtml(trimmed)) {
+    const recipe = extractJsonLdRecipe(trimmed);
+    if (!recipe) return { data: null, error: 'no-recipe' };
+    if (recipe.ingredients.length === 0) return { data: null, error: 'no-ingredients' };
+    return { data: { ...recipe, source: 'json-ld' }, error: null };
+  }
+
+  const ingredients = parseIngredientText(trimmed);
+  if (ingredients.length === 0) return { data: null, error: 'no-ingredients' };
+  return {
+    data: { title: null, servings: null, ingredients, source: 'text' },
+    error: null,
+  };
+}
+
+/**
+ * Telt dubbele ingrediënten op ("1 ui" in de saus en "2 uien" erbij), zodat
+ * elke regel één keer door het toevoegen van de lijst gaat.
+ */
+export function collapseIngredients(ingredients: ParsedQuantity[]): ParsedQuantity[] {
+  const collapsed: (ParsedQuantity & { id: string; checked: boolean })[] = [];
+  ingredients.forEach((ingredient, index) => {
+    const unit = isItemUnit(ingredient.unit) ? ingredient.unit : DEFAULT_UNIT;
+    const same = findMergeTarget(collapsed, { name: ingredient.name, unit });
+    if (same) {
+      same.quantity = clampQuantity(same.quantity + ingredient.quantity);
+      return;
+    }
+    collapsed.push({ ...ingredient, unit, id: String(index), checked: false });
+  });
+  return collapsed.map(({ name, quantity, unit }) => ({ name, quantity, unit }));
+}
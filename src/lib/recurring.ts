@@ -0,0 +1,344 @@
+import {
+  NOT_CONFIGURED_ERROR,
+  isSupabaseConfigured,
+  supabase,
+  type SupabaseResult,
+} from '@/lib/supabase';
+import { parseItemInput, type ItemUnit, type ParsedQuantity } from '@/lib/units';
+import { logSupabaseError } from '@/utils/logging';
+
+/**
+ * Terugkerende items per lijst. De regels staan in recurring_items (migratie
+ * 0016); de server zet ze op de lijst zodra ze aan de beurt zijn.
+ */
+
+export type RecurringFrequency = 'day' | 'week' | 'month';
+
+export const RECURRING_FREQUENCIES: { value: RecurringFrequency; label: string }[] = [
+  { value: 'day', label: 'Dagelijks' },
+  { value: 'week', label: 'Wekelijks' },
+  { value: 'month', label: 'Maandelijks' },
+];
+
+export const MAX_INTERVAL_COUNT = 52;
+
+/** Volgorde van `Date.getDay()`: zondag is 0. */
+export const WEEKDAY_LABELS = [
+  'zondag',
+  'maandag',
+  'dinsdag',
+  'woensdag',
+  'donderdag',
+  'vrijdag',
+  'zaterdag',
+];
+
+export type RecurringSchedule = {
+  frequency: RecurringFrequency;
+  intervalCount: number;
+  /** Eerste keer, als YYYY-MM-DD; bepaalt ook de weekdag of dag van de maand. */
+  startsOn: string;
+};
+
+export type RecurringItem = RecurringSchedule & {
+  id: string;
+  listId: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  category: string | null;
+  nextDueOn: string;
+  paused: boolean;
+  lastAddedAt: string | null;
+};
+
+export type RecurringDraft = RecurringSchedule & {
+  name: string;
+  quantity: number;
+  unit: ItemUnit;
+  category: string | null;
+};
+
+/** Uit vrije tekst: het schema zonder startdatum, met de genoemde weekdag. */
+export type ParsedSchedule = {
+  frequency: RecurringFrequency;
+  intervalCount: number;
+  weekday: number | null;
+};
+
+const RECURRING_COLUMNS =
+  'id, list_id, name, quantity, unit, category, frequency, interval_count, starts_on, next_due_on, paused, last_added_at';
+
+type RecurringRow = {
+  id: string;
+  list_id: string;
+  name: string;
+  quantity: number | string;
+  unit: string;
+  category: string | null;
+  frequency: RecurringFrequency;
+  interval_count: number;
+  starts_on: string;
+  next_due_on: string;
+  paused: boolean;
+  last_added_at: string | null;
+};
+
+function mapRecurringItem(row: RecurringRow): RecurringItem {
+  return {
+    id: row.id,
+    listId: row.list_id,
+    name: row.name,
+    quantity: Number(row.quantity),
+    unit: row.unit,
+    category: row.category,
+    frequency: row.frequency,
+    intervalCount: row.interval_count,
+    startsOn: row.starts_on,
+    nextDueOn: row.next_due_on,
+    paused: row.paused,
+    lastAddedAt: row.last_added_at,
+  };
+}
+
+const WEEKDAY_WORDS: Record<string, number> = {
+  zondag: 0,
+  sunday: 0,
+  maandag: 1,
+  monday: 1,
+  dinsdag: 2,
+  tuesday: 2,
+  woensdag: 3,
+  wednesday: 3,
+  donderdag: 4,
+  thursday: 4,
+  vrijdag: 5,
+  friday: 5,
+  zaterdag: 6,
+  saturday: 6,
+};
+
+const PERIOD_WORDS: Record<string, RecurringFrequency> = {
+  dag: 'day',
+  dagen: 'day',
+  day: 'day',
+  days: 'day',
+  week: 'week',
+  weken: 'week',
+  weeks: 'week',
+  maand: 'month',
+  maanden: 'month',
+  month: 'month',
+  months: 'month',
+};
+
+const ADVERB_WORDS: Record<string, Omit<ParsedSchedule, 'weekday'>> = {
+  dagelijks: { frequency: 'day', intervalCount: 1 },
+  daily: { frequency: 'day', intervalCount: 1 },
+  wekelijks: { frequency: 'week', intervalCount: 1 },
+  weekly: { frequency: 'week', intervalCount: 1 },
+  tweewekelijks: { frequency: 'week', intervalCount: 2 },
+  biweekly: { frequency: 'week', intervalCount: 2 },
+  maandelijks: { frequency: 'month', intervalCount: 1 },
+  monthly: { frequency: 'month', intervalCount: 1 },
+};
+
+const words = (map: object) => Object.keys(map).join('|');
+
+// "elke maandag", "om de 2 weken op vrijdag", "every 3 days", "maandelijks"
+const SCHEDULE_PATTERN = new RegExp(
+  `\\s+(?:(?:elke|iedere|every|om de)\\s+(?:(\\d+|other)\\s+)?(${words(PERIOD_WORDS)}|${words(
+    WEEKDAY_WORDS,
+  )})|(${words(ADVERB_WORDS)}))(?:\\s+(?:op|on)\\s+(${words(WEEKDAY_WORDS)}))?$`,
+  'i',
+);
+
+/**
+ * Splitst "Melk x2 elke maandag" of "Koffie every 2 weeks" in het item en het
+ * schema. Zonder herkenbaar schema is `schedule` null en is alles het item.
+ */
+export function parseRecurringInput(text: string): {
+  item: ParsedQuantity;
+  schedule: ParsedSchedule | null;
+} {
+  const trimmed = text.trim().replace(/\s+/g, ' ');
+  const match = trimmed.match(SCHEDULE_PATTERN);
+  if (!match) {
+    return { item: parseItemInput(trimmed), schedule: null };
+  }
+
+  const [, countWord, periodWord, adverbWord, onWeekdayWord] = match;
+  const onWeekday = onWeekdayWord ? WEEKDAY_WORDS[onWeekdayWord.toLowerCase()] : null;
+  let schedule: ParsedSchedule;
+  if (adverbWord) {
+    schedule = { ...ADVERB_WORDS[adverbWord.toLowerCase()], weekday: onWeekday };
+  } else {
+    const period = periodWord.toLowerCase();
+    const count = countWord?.toLowerCase() === 'other' ? 2 : Number(countWord ?? 1);
+    const weekday = WEEKDAY_WORDS[period];
+    schedule = {
+      frequency: weekday != null ? 'week' : PERIOD_WORDS[period],
+      intervalCount: Math.min(Math.max(count, 1), MAX_INTERVAL_COUNT),
+      weekday: weekday ?? onWeekday,
+    };
+  }
+  return { item: parseItemInput(trimmed.slice(0, match.index)), schedule };
+}
+
+/** Lokale datum als YYYY-MM-DD, zoals Postgres `date` hem teruggeeft. */
+export function toDateKey(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function fromDateKey(key: string) {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/** Eerstvolgende dag op `weekday`, vandaag meegerekend. */
+export function startDateFor(weekday: number | null, from = new Date()) {
+  const start = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  if (weekday != null) {
+    start.setDate(start.getDate() + ((weekday - start.getDay() + 7) % 7));
+  }
+  return toDateKey(start);
+}
+
+/** "Elke maandag", "Om de 2 weken op vrijdag", "Elke maand op de 5e". */
+export function describeSchedule({
+  frequency,
+  intervalCount,
+  startsOn,
+}: RecurringSchedule) {
+  const start = fromDateKey(startsOn);
+  if (frequency === 'day') {
+    return intervalCount === 1 ? 'Elke dag' : `Om de ${intervalCount} dagen`;
+  }
+  if (frequency === 'week') {
+    const weekday = WEEKDAY_LABELS[start.getDay()];
+    return intervalCount === 1
+      ? `Elke ${weekday}`
+      : `Om de ${intervalCount} weken op ${weekday}`;
+  }
+  const day = `de ${start.getDate()}e`;
+  return intervalCount === 1
+    ? `Elke maand op ${day}`
+    : `Om de ${intervalCount} maanden op ${day}`;
+}
+
+/** "vandaag", "morgen" of "ma 26 okt". */
+export function formatDueDate(dateKey: string, now = new Date()) {
+  const due = fromDateKey(dateKey);
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const days = Math.round((due.getTime() - today.getTime()) / 86_400_000);
+  if (days <= 0) return 'vandaag';
+  if (days === 1) return 'morgen';
+  return due.toLocaleDateString('nl-NL', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+  });
+}
+
+export async function fetchRecurringItems(
+  listId: string,
+): Promise<SupabaseResult<RecurringItem[]>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('recurring_items')
+    .select(RECURRING_COLUMNS)
+    .eq('list_id', listId)
+    .order('next_due_on', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) {
+    logSupabaseError('recurring_items.select', error, { listId });
+    return { data: null, error };
+  }
+  return { data: ((data ?? []) as RecurringRow[]).map(mapRecurringItem), error: null };
+}
+
+export async function createRecurringItem(
+  listId: string,
+  draft: RecurringDraft,
+): Promise<SupabaseResult<RecurringItem>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('recurring_items')
+    .insert({
+      list_id: listId,
+      name: draft.name.trim(),
+      quantity: draft.quantity,
+      unit: draft.unit,
+      category: draft.category,
+      frequency: draft.frequency,
+      interval_count: draft.intervalCount,
+      starts_on: draft.startsOn,
+    })
+    .select(RECURRING_COLUMNS)
+    .single<RecurringRow>();
+
+  if (error || !data) {
+    logSupabaseError('recurring_items.insert', error, { listId, name: draft.name });
+    return { data: null, error };
+  }
+  return { data: mapRecurringItem(data), error: null };
+}
+
+export async function setRecurringItemPaused(
+  recurringId: string,
+  paused: boolean,
+): Promise<SupabaseResult<true>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { error } = await supabase
+    .from('recurring_items')
+    .update({ paused })
+    .eq('id', recurringId);
+
+  if (error) {
+    logSupabaseError('recurring_items.pause', error, { recurringId, paused });
+    return { data: null, error };
+  }
+  return { data: true, error: null };
+}
+
+export async function deleteRecurringItem(
+  recurringId: string,
+): Promise<SupabaseResult<true>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { error } = await supabase.from('recurring_items').delete().eq('id', recurringId);
+
+  if (error) {
+    logSupabaseError('recurring_items.delete', error, { recurringId });
+    return { data: null, error };
+  }
+  return { data: true, error: null };
+}
+
+/** Zet wat vandaag aan de beurt is op de lijst; geeft het aantal toegevoegde items. */
+export async function addDueRecurringItems(
+  listId: string,
+): Promise<SupabaseResult<number>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase.rpc('add_due_recurring_items', {
+    target_list_id: listId,
+  });
+
+  if (error) {
+    logSupabaseError('rpc.add_due_recurring_items', error, { listId });
+    return { data: null, error };
+  }
+  return { data: Number(data ?? 0), error: null };
+}
@@ -0,0 +1,178 @@
+import { PRODUCT_CATEGORIES } from '@/lib/catalog';
+import { isSameItemName, normalizeItemName } from '@/lib/itemMatching';
+import {
+  NOT_CONFIGURED_ERROR,
+  isSupabaseConfigured,
+  supabase,
+  type SupabaseResult,
+} from '@/lib/supabase';
+import { logSupabaseError } from '@/utils/logging';
+
+/**
+ * Winkelprofielen: per winkel de gangpaden in looprichting. Een lijst met een
+ * gekozen winkel sorteert items op het gangpad waar hun categorie bij hoort.
+ */
+
+export type StoreLayout = {
+  id: string;
+  name: string;
+  /** Gangpaden of afdelingen in de volgorde waarin je door de winkel loopt. */
+  aisles: string[];
+};
+
+export type AisleGroup = {
+  /** Positie in `aisles`; items zonder passend gangpad krijgen `aisles.length`. */
+  index: number;
+  label: string;
+};
+
+/** Startindeling voor een nieuwe winkel: de catalogus-categorieën in looproute. */
+export const DEFAULT_AISLES = [...PRODUCT_CATEGORIES];
+
+export const UNMATCHED_AISLE_LABEL = 'Overig';
+
+/** Korter dan dit telt een begin ("vlees" in "vleeswaren") niet als match. */
+const MIN_PREFIX_LENGTH = 4;
+
+const STORE_COLUMNS = 'id, name, aisles';
+
+type StoreRow = {
+  id: string;
+  name: string;
+  aisles: string[] | null;
+};
+
+function mapStore(row: StoreRow): StoreLayout {
+  return { id: row.id, name: row.name, aisles: row.aisles ?? [] };
+}
+
+function cleanAisles(aisles: string[]) {
+  return aisles.map((aisle) => aisle.trim()).filter((aisle) => aisle.length > 0);
+}
+
+/** "Groente & fruit" past bij de categorieën "groente", "fruit" en de hele naam. */
+function aisleParts(aisle: string) {
+  return [aisle, ...aisle.split(/\s*(?:&|,|\/|\+|\sen\s)\s*/i)].filter(
+    (part) => part.trim().length > 0,
+  );
+}
+
+/** Ook "groenten" bij "groente" en "vleeswaren" bij "vlees". */
+function categoryMatchesPart(category: string, part: string) {
+  if (isSameItemName(category, part)) return true;
+  const normalizedPart = normalizeItemName(part);
+  return (
+    normalizedPart.length >= MIN_PREFIX_LENGTH &&
+    normalizeItemName(category).startsWith(normalizedPart)
+  );
+}
+
+/** Het gangpad waar een item met deze categorie ligt, of "Overig" achteraan. */
+export function aisleForCategory(
+  category: string | null | undefined,
+  aisles: string[],
+): AisleGroup {
+  const trimmed = category?.trim();
+  if (trimmed) {
+    const index = aisles.findIndex((aisle) =>
+      aisleParts(aisle).some((part) => categoryMatchesPart(trimmed, part)),
+    );
+    if (index >= 0) {
+      return { index, label: aisles[index] };
+    }
+  }
+  return { index: aisles.length, label: UNMATCHED_AISLE_LABEL };
+}
+
+/** Sorteert in looprichting; binnen een gangpad alfabetisch. */
+export function sortByAisle<T extends { name: string; category?: string | null }>(
+  items: T[],
+  aisles: string[],
+): (T & { aisle: AisleGroup })[] {
+  return items
+    .map((item) => ({ ...item, aisle: aisleForCategory(item.category, aisles) }))
+    .sort(
+      (a, b) =>
+        a.aisle.index - b.aisle.index ||
+        a.name.localeCompare(b.name, 'nl', { sensitivity: 'base' }),
+    );
+}
+
+export async function fetchStores(
+  householdId: string,
+): Promise<SupabaseResult<StoreLayout[]>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('stores')
+    .select(STORE_COLUMNS)
+    .eq('household_id', householdId)
+    .order('name', { ascending: true });
+
+  if (error) {
+    logSupabaseError('stores.select', error, { householdId });
+    return { data: null, error };
+  }
+  return { data: (data ?? []).map(mapStore), error: null };
+}
+
+export async function createStore(
+  householdId: string,
+  name: string,
+  aisles: string[] = DEFAULT_AISLES,
+): Promise<SupabaseResult<StoreLayout>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const trimmedName = name.trim();
+  const { data, error } = await supabase
+    .from('stores')
+    .insert({ household_id: householdId, name: trimmedName, aisles: cleanAisles(aisles) })
+    .select(STORE_COLUMNS)
+    .single<StoreRow>();
+
+  if (error || !data) {
+    logSupabaseError('stores.insert', error, { householdId, name: trimmedName });
+    return { data: null, error };
+  }
+  return { data: mapStore(data), error: null };
+}
+
+export async function updateStore(
+  storeId: string,
+  changes: { name?: string; aisles?: string[] },
+): Promise<SupabaseResult<StoreLayout>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('stores')
+    .update({
+      ...(changes.name !== undefined ? { name: changes.name.trim() } : {}),
+      ...(changes.aisles !== undefined ? { aisles: cleanAisles(changes.aisles) } : {}),
+    })
+    .eq('id', storeId)
+    .select(STORE_COLUMNS)
+    .single<StoreRow>();
+
+  if (error || !data) {
+    logSupabaseError('stores.update', error, { storeId, changes });
+    return { data: null, error };
+  }
+  return { data: mapStore(data), error: null };
+}
+
+/** Lijsten die deze winkel gebruikten vallen terug op de gewone indeling. */
+export async function deleteStore(storeId: string): Promise<SupabaseResult<true>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { error } = await supabase.from('stores').delete().eq('id', storeId);
+
+  if (error) {
+    logSupabaseError('stores.delete', error, { storeId });
+    return { data: null, error };
+  }
+  return { data: true, error: null };
+}
@@ -1,6 +1,6 @@
 import 'react-native-url-polyfill/auto';
 
-import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { createClient, type PostgrestError, type SupabaseClient } from '@supabase/supabase-js';
 import Constants from 'expo-constants';
 
 type SupabaseExtra = {
@@ -24,6 +24,16 @@ export const SUPABASE_WARNING_MESSAGE =
 
 export const isSupabaseConfigured = Boolean(supabaseUrl && supabaseAnonKey);
 
+/** Return shape for data helpers in src/lib, mirroring supabase-js responses. */
+export type SupabaseResult<T> = { data: T | null; error: PostgrestError | null };
+
+export const NOT_CONFIGURED_ERROR = {
+  message: 'Supabase is niet geconfigureerd.',
+  code: 'not_configured',
+  details: '',
+  hint: '',
+} as PostgrestError;
+
 if (!isSupabaseConfigured) {
   console.warn('[Supabase] Configuration incomplete. Using local offline experience only.');
 }
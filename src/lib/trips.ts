@@ -0,0 +1,172 @@
+import {
+  NOT_CONFIGURED_ERROR,
+  isSupabaseConfigured,
+  supabase,
+  type SupabaseResult,
+} from '@/lib/supabase';
+import { logSupabaseError } from '@/utils/logging';
+
+/**
+ * Boodschappenrondes: starten en afronden gaan via RPC's (migratie 0012); welke
+ * items tijdens de ronde zijn afgevinkt legt de database zelf vast.
+ */
+
+export type TripItem = {
+  itemName: string;
+  quantity: number;
+  unit: string;
+};
+
+export type ShoppingTrip = {
+  id: string;
+  listId: string;
+  shopperLabel: string | null;
+  startedAt: string;
+  endedAt: string | null;
+  itemCount: number;
+  estimatedTotal: number | null;
+  /** Wat er echt is betaald, als de shopper dat heeft ingevuld. */
+  finalSpend: number | null;
+  clearedChecked: boolean;
+  items: TripItem[];
+};
+
+const TRIP_COLUMNS =
+  'id, list_id, shopper_label, started_at, ended_at, item_count, estimated_total, final_spend, cleared_checked';
+
+type TripRow = {
+  id: string;
+  list_id: string;
+  shopper_label: string | null;
+  started_at: string;
+  ended_at: string | null;
+  item_count: number;
+  estimated_total: number | string | null;
+  final_spend: number | string | null;
+  cleared_checked: boolean;
+  shopping_trip_items?: { item_name: string; quantity: number | string; unit: string }[];
+};
+
+function toNumber(value: number | string | null) {
+  return value == null ? null : Number(value);
+}
+
+function mapTrip(row: TripRow): ShoppingTrip {
+  return {
+    id: row.id,
+    listId: row.list_id,
+    shopperLabel: row.shopper_label,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    itemCount: row.item_count,
+    estimatedTotal: toNumber(row.estimated_total),
+    finalSpend: toNumber(row.final_spend),
+    clearedChecked: row.cleared_checked,
+    items: (row.shopping_trip_items ?? []).map((item) => ({
+      itemName: item.item_name,
+      quantity: Number(item.quantity),
+      unit: item.unit,
+    })),
+  };
+}
+
+/** "12 min", "1 u 05 min". */
+export function formatTripDuration(
+  startedAt: string,
+  endedAt: string | null,
+  now = new Date(),
+) {
+  const end = endedAt ? new Date(endedAt) : now;
+  const minutes = Math.max(
+    0,
+    Math.round((end.getTime() - new Date(startedAt).getTime()) / 60000),
+  );
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} u ${String(minutes % 60).padStart(2, '0')} min`;
+}
+
+/** Start een ronde op de lijst, of sluit aan bij de ronde die al loopt. */
+export async function startShoppingTrip(
+  listId: string,
+): Promise<SupabaseResult<ShoppingTrip>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .rpc('start_shopping_trip', { target_list_id: listId })
+    .single<TripRow>();
+
+  if (error || !data) {
+    logSupabaseError('rpc.start_shopping_trip', error, { listId });
+    return { data: null, error };
+  }
+  return { data: mapTrip(data), error: null };
+}
+
+export async function finishShoppingTrip(
+  tripId: string,
+  {
+    finalSpend = null,
+    clearChecked = false,
+  }: { finalSpend?: number | null; clearChecked?: boolean } = {},
+): Promise<SupabaseResult<ShoppingTrip>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .rpc('finish_shopping_trip', {
+      target_trip_id: tripId,
+      final_spend: finalSpend,
+      clear_checked: clearChecked,
+    })
+    .single<TripRow>();
+
+  if (error || !data) {
+    logSupabaseError('rpc.finish_shopping_trip', error, { tripId });
+    return { data: null, error };
+  }
+  return { data: mapTrip(data), error: null };
+}
+
+export async function fetchOpenTrip(
+  listId: string,
+): Promise<SupabaseResult<ShoppingTrip | null>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('shopping_trips')
+    .select(TRIP_COLUMNS)
+    .eq('list_id', listId)
+    .is('ended_at', null)
+    .maybeSingle<TripRow>();
+
+  if (error) {
+    logSupabaseError('shopping_trips.select', error, { listId });
+    return { data: null, error };
+  }
+  return { data: data ? mapTrip(data) : null, error: null };
+}
+
+/** Afgeronde rondes met hun items, nieuwste eerst. */
+export async function fetchFinishedTrips(
+  listId: string,
+  limit = 20,
+): Promise<SupabaseResult<ShoppingTrip[]>> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { data: null, error: NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('shopping_trips')
+    .select(`${TRIP_COLUMNS}, shopping_trip_items(item_name, quantity, unit)`)
+    .eq('list_id', listId)
+    .not('ended_at', 'is', null)
+    .order('ended_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    logSupabaseError('shopping_trips.select', error, { listId });
+    return { data: null, error };
+  }
+  return { data: ((data ?? []) as TripRow[]).map(mapTrip), error: null };
+}
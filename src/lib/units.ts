@@ -0,0 +1,283 @@
+/**
+ * Eenheden en hoeveelheden voor boodschappen ("500 g gehakt", "1,5 kg aardappelen").
+ * De lijst moet gelijk blijven aan de items_unit_check constraint (migratie 0008).
+ */
+
+export const ITEM_UNITS = ['stuks', 'g', 'kg', 'ml', 'l', 'pak', 'blik', 'fles', 'zak', 'bos'] as const;
+
+export type ItemUnit = (typeof ITEM_UNITS)[number];
+
+export const DEFAULT_UNIT: ItemUnit = 'stuks';
+
+export const MAX_QUANTITY = 9999;
+
+const UNIT_ALIASES: Record<string, ItemUnit> = {
+  x: 'stuks',
+  st: 'stuks',
+  stuk: 'stuks',
+  stuks: 'stuks',
+  piece: 'stuks',
+  pieces: 'stuks',
+  pot: 'stuks',
+  potje: 'stuks',
+  potjes: 'stuks',
+  jar: 'stuks',
+  jars: 'stuks',
+  g: 'g',
+  gr: 'g',
+  gram: 'g',
+  grams: 'g',
+  kg: 'kg',
+  kilo: 'kg',
+  kilos: 'kg',
+  "kilo's": 'kg',
+  kilogram: 'kg',
+  ml: 'ml',
+  milliliter: 'ml',
+  l: 'l',
+  ltr: 'l',
+  liter: 'l',
+  liters: 'l',
+  litre: 'l',
+  litres: 'l',
+  pak: 'pak',
+  pakken: 'pak',
+  pakje: 'pak',
+  pakjes: 'pak',
+  pack: 'pak',
+  packs: 'pak',
+  doos: 'pak',
+  doosje: 'pak',
+  doosjes: 'pak',
+  bakje: 'pak',
+  bakjes: 'pak',
+  blik: 'blik',
+  blikken: 'blik',
+  blikje: 'blik',
+  blikjes: 'blik',
+  can: 'blik',
+  cans: 'blik',
+  tin: 'blik',
+  tins: 'blik',
+  fles: 'fles',
+  flessen: 'fles',
+  flesje: 'fles',
+  flesjes: 'fles',
+  bottle: 'fles',
+  bottles: 'fles',
+  zak: 'zak',
+  zakken: 'zak',
+  zakje: 'zak',
+  zakjes: 'zak',
+  bag: 'zak',
+  bags: 'zak',
+  bos: 'bos',
+  bossen: 'bos',
+  bosje: 'bos',
+  bosjes: 'bos',
+  bunch: 'bos',
+  bunches: 'bos',
+};
+
+/** Lepels, snufjes en teentjes koop je niet los: één stuk van het product. */
+const KITCHEN_MEASURES = [
+  'eetlepels',
+  'eetlepel',
+  'el',
+  'theelepels',
+  'theelepel',
+  'tl',
+  'koffielepels',
+  'koffielepel',
+  'kl',
+  'snufjes',
+  'snufje',
+  'snuf',
+  'mespuntjes',
+  'mespuntje',
+  'mespunt',
+  'scheutjes',
+  'scheutje',
+  'scheut',
+  'teentjes',
+  'teentje',
+  'tenen',
+  'teen',
+  'takjes',
+  'takje',
+  'blaadjes',
+  'blaadje',
+  'plakjes',
+  'plakje',
+  'handjes',
+  'handje',
+  'handvol',
+  'kopjes',
+  'kopje',
+  'druppels',
+  'druppel',
+  'tablespoons',
+  'tablespoon',
+  'tbsp',
+  'teaspoons',
+  'teaspoon',
+  'tsp',
+  'pinch',
+  'dash',
+  'cloves',
+  'clove',
+  'cups',
+  'cup',
+];
+
+/** Maten die we omrekenen naar een eenheid van de lijst. */
+const CONVERTED_UNITS: Record<string, { unit: ItemUnit; factor: number }> = {
+  dl: { unit: 'ml', factor: 100 },
+  deciliter: { unit: 'ml', factor: 100 },
+  cl: { unit: 'ml', factor: 10 },
+  centiliter: { unit: 'ml', factor: 10 },
+  ons: { unit: 'g', factor: 100 },
+  pond: { unit: 'g', factor: 500 },
+  oz: { unit: 'g', factor: 28.35 },
+  ounce: { unit: 'g', factor: 28.35 },
+  ounces: { unit: 'g', factor: 28.35 },
+  lb: { unit: 'g', factor: 453.6 },
+  lbs: { unit: 'g', factor: 453.6 },
+  pound: { unit: 'g', factor: 453.6 },
+  pounds: { unit: 'g', factor: 453.6 },
+};
+
+const PLURAL_LABELS: Partial<Record<ItemUnit, { one: string; other: string }>> = {
+  stuks: { one: 'stuk', other: 'stuks' },
+  pak: { one: 'pak', other: 'pakken' },
+  blik: { one: 'blik', other: 'blikken' },
+  fles: { one: 'fles', other: 'flessen' },
+  zak: { one: 'zak', other: 'zakken' },
+  bos: { one: 'bos', other: 'bossen' },
+};
+
+const NUMBER_PATTERN = '(\\d+(?:[.,]\\d+)?)';
+const UNIT_PATTERN = Object.keys(UNIT_ALIASES)
+  .sort((a, b) => b.length - a.length)
+  .map((alias) => alias.replace(/[.*+?^${}()|[\]\\']/g, '\\$&'))
+  .join('|');
+
+const MEASURE_PATTERN = [...KITCHEN_MEASURES, ...Object.keys(CONVERTED_UNITS)]
+  .sort((a, b) => b.length - a.length)
+  .join('|');
+
+// "2 el olijfolie", "2 dl room", "1 ons ham"
+const LEADING_MEASURE = new RegExp(
+  `^${NUMBER_PATTERN}\\s*(${MEASURE_PATTERN})\\.?\\s+(.+)$`,
+  'i',
+);
+
+// "500 g gehakt", "2 liter melk", "3 appels"
+const LEADING_QUANTITY = new RegExp(`^${NUMBER_PATTERN}\\s*(${UNIT_PATTERN})?\\.?\\s+(.+)$`, 'i');
+// "gehakt 500g", "melk 2 l", "melk x2", "melk 2x"
+const TRAILING_QUANTITY = new RegExp(
+  `^(.+?)\\s+(?:x\\s*${NUMBER_PATTERN}|${NUMBER_PATTERN}\\s*(${UNIT_PATTERN})?)\\.?$`,
+  'i',
+);
+
+export type ParsedQuantity = {
+  name: string;
+  quantity: number;
+  unit: ItemUnit;
+};
+
+export function normalizeUnit(raw: string | null | undefined): ItemUnit {
+  if (!raw) return DEFAULT_UNIT;
+  return UNIT_ALIASES[raw.trim().toLowerCase()] ?? DEFAULT_UNIT;
+}
+
+/** Of een los woord een bekende eenheid is ("gram", "pakken", "x"). */
+export function isUnitWord(raw: string) {
+  return Object.prototype.hasOwnProperty.call(UNIT_ALIASES, raw.trim().toLowerCase());
+}
+
+/** De eenheid bij een los woord ("blikjes" -> blik), of `null`. */
+export function unitForWord(raw: string): ItemUnit | null {
+  return isUnitWord(raw) ? UNIT_ALIASES[raw.trim().toLowerCase()] : null;
+}
+
+/** Keukenmaat als "el", "snufje" of "teentjes". */
+export function isKitchenMeasure(raw: string) {
+  return KITCHEN_MEASURES.includes(raw.trim().toLowerCase());
+}
+
+/** Omrekening voor "dl", "ons" of "oz" naar een eenheid van de lijst, of `null`. */
+export function convertedMeasure(raw: string) {
+  const word = raw.trim().toLowerCase();
+  return Object.prototype.hasOwnProperty.call(CONVERTED_UNITS, word)
+    ? CONVERTED_UNITS[word]
+    : null;
+}
+
+export function isItemUnit(value: string | null | undefined): value is ItemUnit {
+  return Boolean(value && (ITEM_UNITS as readonly string[]).includes(value));
+}
+
+/** Leest "1,5" of "1.5" als getal; ongeldige of niet-positieve waarden geven `null`. */
+export function parseQuantityValue(raw: string) {
+  const parsed = Number(raw.trim().replace(',', '.'));
+  if (!Number.isFinite(parsed) || parsed <= 0) return null;
+  return clampQuantity(parsed);
+}
+
+/** Rondt af op twee decimalen (numeric(10, 2) in de database) binnen 0,01–MAX_QUANTITY. */
+export function clampQuantity(value: number) {
+  const rounded = Math.round(value * 100) / 100;
+  return Math.min(Math.max(rounded, 0.01), MAX_QUANTITY);
+}
+
+/**
+ * Haalt hoeveelheid en eenheid uit vrije tekst. Zonder hoeveelheid blijft de
+ * tekst de naam en wordt `fallbackQuantity` stuks gebruikt.
+ */
+export function parseItemInput(text: string, fallbackQuantity = 1): ParsedQuantity {
+  const trimmed = text.trim().replace(/\s+/g, ' ');
+
+  const measure = trimmed.match(LEADING_MEASURE);
+  const amount = measure ? parseQuantityValue(measure[1]) : null;
+  if (measure && amount != null) {
+    const conversion = convertedMeasure(measure[2]);
+    return conversion
+      ? {
+          name: measure[3].trim(),
+          quantity: clampQuantity(amount * conversion.factor),
+          unit: conversion.unit,
+        }
+      : { name: measure[3].trim(), quantity: 1, unit: DEFAULT_UNIT };
+  }
+
+  const leading = trimmed.match(LEADING_QUANTITY);
+  if (leading) {
+    const quantity = parseQuantityValue(leading[1]);
+    if (quantity != null) {
+      return { name: leading[3].trim(), quantity, unit: normalizeUnit(leading[2]) };
+    }
+  }
+
+  const trailing = trimmed.match(TRAILING_QUANTITY);
+  if (trailing) {
+    const quantity = parseQuantityValue(trailing[2] ?? trailing[3]);
+    if (quantity != null) {
+      return { name: trailing[1].trim(), quantity, unit: normalizeUnit(trailing[4]) };
+    }
+  }
+
+  return { name: trimmed, quantity: fallbackQuantity, unit: DEFAULT_UNIT };
+}
+
+export function formatQuantityNumber(quantity: number) {
+  return quantity.toLocaleString('nl-NL', { maximumFractionDigits: 2, useGrouping: false });
+}
+
+/** "1 stuk", "3 stuks", "500 g", "1,5 kg", "2 pakken". */
+export function formatQuantity(quantity: number, unit: string | null | undefined) {
+  const safeUnit = isItemUnit(unit) ? unit : DEFAULT_UNIT;
+  const labels = PLURAL_LABELS[safeUnit];
+  const label = labels ? (quantity === 1 ? labels.one : labels.other) : safeUnit;
+  return `${formatQuantityNumber(quantity)} ${label}`;
+}
@@ -1,7 +1,8 @@
-import { useEffect, type ReactNode } from 'react';
+import { useCallback, useEffect, type ReactNode } from 'react';
 import { create } from 'zustand';
 import type { Session } from '@supabase/supabase-js';
 
+import type { OnboardingAnswers } from '@/lib/preferences';
 import { isSupabaseConfigured, supabase } from '@/lib/supabase';
 
 type SessionState = {
@@ -9,8 +10,15 @@ type SessionState = {
   isLoading: boolean;
   hasInitialized: boolean;
   activeHouseholdId: string | null;
-  setState: (partial: Partial<Omit<SessionState, 'setState' | 'setActiveHouseholdId'>>) => void;
+  /** Gekozen lijst per huishouden, zodat elk huishouden zijn eigen laatste lijst onthoudt. */
+  activeListIds: Record<string, string>;
+  /** Antwoorden uit de onboarding, tot ze bij registratie in de user metadata belanden. */
+  onboardingAnswers: OnboardingAnswers | null;
+  setState: (
+    partial: Partial<Omit<SessionState, 'setState' | 'setActiveHouseholdId' | 'setActiveListId'>>,
+  ) => void;
   setActiveHouseholdId: (id: string | null) => void;
+  setActiveListId: (householdId: string, listId: string | null) => void;
 };
 
 export const useSessionStore = create<SessionState>((set) => ({
@@ -18,11 +26,26 @@ export const useSessionStore = create<SessionState>((set) => ({
   isLoading: true,
   hasInitialized: false,
   activeHouseholdId: null,
+  activeListIds: {},
+  onboardingAnswers: null,
   setState: (partial) => set((state) => ({ ...state, ...partial })),
   setActiveHouseholdId: (id) =>
     set((state) =>
       state.activeHouseholdId === id ? state : { ...state, activeHouseholdId: id }
     ),
+  setActiveListId: (householdId, listId) =>
+    set((state) => {
+      if ((state.activeListIds[householdId] ?? null) === listId) {
+        return state;
+      }
+      const activeListIds = { ...state.activeListIds };
+      if (listId) {
+        activeListIds[householdId] = listId;
+      } else {
+        delete activeListIds[householdId];
+      }
+      return { ...state, activeListIds };
+    }),
 }));
 
 let subscription: { unsubscribe: () => void } | null = null;
@@ -38,7 +61,7 @@ export async function initializeSessionListener() {
   if (!isSupabaseConfigured || !supabase) {
     useSessionStore
       .getState()
-      .setState({ isLoading: false, session: null, activeHouseholdId: null });
+      .setState({ isLoading: false, session: null, activeHouseholdId: null, activeListIds: {} });
     return;
   }
 
@@ -46,7 +69,7 @@ export async function initializeSessionListener() {
   if (error) {
     useSessionStore
       .getState()
-      .setState({ isLoading: false, session: null, activeHouseholdId: null });
+      .setState({ isLoading: false, session: null, activeHouseholdId: null, activeListIds: {} });
   } else {
     useSessionStore.getState().setState({
       isLoading: false,
@@ -60,6 +83,7 @@ export async function initializeSessionListener() {
       session: session ?? null,
       isLoading: false,
       activeHouseholdId: session ? useSessionStore.getState().activeHouseholdId : null,
+      activeListIds: session ? useSessionStore.getState().activeListIds : {},
     });
   });
 
@@ -69,7 +93,9 @@ export async function initializeSessionListener() {
 export function cleanupSessionListener() {
   subscription?.unsubscribe();
   subscription = null;
-  useSessionStore.getState().setState({ hasInitialized: false, activeHouseholdId: null });
+  useSessionStore
+    .getState()
+    .setState({ hasInitialized: false, activeHouseholdId: null, activeListIds: {} });
 }
 
 export function useSession() {
@@ -84,6 +110,23 @@ export function useActiveHousehold() {
   return { activeHouseholdId, setActiveHouseholdId };
 }
 
+export function useActiveList() {
+  const activeHouseholdId = useSessionStore((state) => state.activeHouseholdId);
+  const activeListId = useSessionStore((state) =>
+    state.activeHouseholdId ? state.activeListIds[state.activeHouseholdId] ?? null : null,
+  );
+  const setListForHousehold = useSessionStore((state) => state.setActiveListId);
+  const setActiveListId = useCallback(
+    (listId: string | null) => {
+      if (activeHouseholdId) {
+        setListForHousehold(activeHouseholdId, listId);
+      }
+    },
+    [activeHouseholdId, setListForHousehold],
+  );
+  return { activeListId, setActiveListId };
+}
+
 export function SessionProvider({ children }: { children: ReactNode }) {
   useEffect(() => {
     void initializeSessionListener();